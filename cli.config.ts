@@ -0,0 +1,18 @@
+/**
+ * Vite build for the rto-check command-line tool (src/cli/rto-check.ts).
+ * Bundles all dependencies into a single Node script in dist-cli/.
+ */
+
+import { defineConfig } from "vite";
+
+export default defineConfig({
+	build: {
+		ssr: "src/cli/rto-check.ts",
+		outDir: "dist-cli",
+		emptyOutDir: true,
+		target: "node22",
+	},
+	ssr: {
+		noExternal: true,
+	},
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+	applyCustomStateColors,
+	getDayCellClasses,
+	isCustomState,
+} from "../../src/lib/templateRenderer";
+import type { CalendarConfig } from "../../src/types";
+import { DayRenderer } from "../../src/vanilla/DayRenderer";
+
+const config: CalendarConfig = {
+	dateRange: { start: new Date(2026, 0, 1), end: new Date(2026, 11, 31) },
+	states: {
+		oof: { label: "WFH", color: "#fff", bgColor: "#44AA99" },
+		"custom-travel": {
+			label: "Business travel",
+			color: "#ffffff",
+			bgColor: "#882255",
+			icon: "✈️",
+		},
+	},
+};
+
+describe("custom states", () => {
+	it("should recognise only custom- prefixed states", () => {
+		expect(isCustomState("custom-travel")).toBe(true);
+		expect(isCustomState("oof")).toBe(false);
+		expect(isCustomState(null)).toBe(false);
+	});
+
+	it("should add the custom class to custom-state cells", () => {
+		expect(getDayCellClasses("2026-03-02", "custom-travel")).toBe(
+			"datepainter-day datepainter-day--custom-travel datepainter-day--custom",
+		);
+	});
+
+	it("should set and clear the inline colours", () => {
+		const cell = document.createElement("div");
+
+		applyCustomStateColors(cell, "custom-travel", config);
+		expect(cell.style.getPropertyValue("--datepainter-custom-bg")).toBe(
+			"#882255",
+		);
+		expect(cell.style.getPropertyValue("--datepainter-custom-text")).toBe(
+			"#ffffff",
+		);
+
+		applyCustomStateColors(cell, "oof", config);
+		expect(cell.style.getPropertyValue("--datepainter-custom-bg")).toBe("");
+	});
+
+	it("should render a coloured cell with its icon in DayRenderer", () => {
+		const renderer = new DayRenderer(document.createElement("div"), config);
+
+		const cell = renderer.renderDay("2026-03-02", "custom-travel");
+
+		expect(cell.classList.contains("datepainter-day--custom")).toBe(true);
+		expect(cell.style.getPropertyValue("--datepainter-custom-bg")).toBe(
+			"#882255",
+		);
+		expect(cell.querySelector(".datepainter-day__icon")?.textContent).toBe("✈️");
+	});
+});
@@ -12,6 +12,11 @@ describe("getWeekdayLabels", () => {
 		expect(labels).toEqual(["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]);
 	});
 
+	it("should return labels starting from Saturday when firstDayOfWeek is 6", () => {
+		const labels = getWeekdayLabels("en-US", 6);
+		expect(labels).toEqual(["Sat", "Sun", "Mon", "Tue", "Wed", "Thu", "Fri"]);
+	});
+
 	it("should return stable labels regardless of when it is called", () => {
 		// getWeekdayLabels uses a fixed reference date (Jan 4 2026, a Sunday)
 		// so repeated calls always produce the same result — no Date mocking needed.
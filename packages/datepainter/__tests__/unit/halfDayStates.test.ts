@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+	getDayCellClasses,
+	isHalfDayState,
+} from "../../src/lib/templateRenderer";
+import type { CalendarConfig } from "../../src/types";
+import { DayRenderer } from "../../src/vanilla/DayRenderer";
+
+const config: CalendarConfig = {
+	dateRange: { start: new Date(2026, 0, 1), end: new Date(2026, 11, 31) },
+	states: {
+		oof: { label: "WFH", color: "#fff", bgColor: "#44AA99" },
+		"oof-am": { label: "Morning WFH", color: "#fff", bgColor: "#44AA99" },
+		"oof-pm": { label: "Afternoon WFH", color: "#fff", bgColor: "#44AA99" },
+	},
+};
+
+describe("half-day states", () => {
+	it("should recognise only the morning and afternoon states", () => {
+		expect(isHalfDayState("oof-am")).toBe(true);
+		expect(isHalfDayState("oof-pm")).toBe(true);
+		expect(isHalfDayState("oof")).toBe(false);
+		expect(isHalfDayState(null)).toBe(false);
+	});
+
+	it("should add the split class to half-day cells", () => {
+		expect(getDayCellClasses("2026-03-02", "oof-am")).toBe(
+			"datepainter-day datepainter-day--oof-am datepainter-day--split",
+		);
+		expect(getDayCellClasses("2026-03-02", "oof")).toBe(
+			"datepainter-day datepainter-day--oof",
+		);
+	});
+
+	it("should render a split cell in DayRenderer", () => {
+		const renderer = new DayRenderer(document.createElement("div"), config);
+
+		const cell = renderer.renderDay("2026-03-02", "oof-pm");
+
+		expect(cell.classList.contains("datepainter-day--oof-pm")).toBe(true);
+		expect(cell.classList.contains("datepainter-day--split")).toBe(true);
+	});
+});
@@ -1,6 +1,7 @@
 import { validateConfig } from "./config/validate";
 import { formatDate, isWeekday, parseDate } from "./lib/dateUtils";
 import {
+	applyCustomStateColors,
 	getDayCellClasses,
 	getIconHTML,
 	getSingleMonthHTML,
@@ -659,7 +660,8 @@ export class CalendarManager implements CalendarInstance {
 		if (!this.container) return;
 		const allDates = getAllDates();
 
-		const dayCells = this.container.querySelectorAll(".datepainter__day");
+		const dayCells =
+			this.container.querySelectorAll<HTMLElement>(".datepainter__day");
 		for (const cell of dayCells) {
 			const date = cell.getAttribute("data-date") as DateString;
 			if (!date) continue;
@@ -667,6 +669,7 @@ export class CalendarManager implements CalendarInstance {
 			const state = allDates.get(date) ?? null;
 
 			cell.className = `datepainter__day ${getDayCellClasses(date, state)}`;
+			applyCustomStateColors(cell, state, this.config);
 
 			const oldIcon = cell.querySelector(".datepainter-day__icon");
 			if (oldIcon) oldIcon.remove();
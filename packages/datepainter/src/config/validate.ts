@@ -38,9 +38,12 @@ export function validateConfig(config: CalendarConfig): void {
   if (
     config.styling?.firstDayOfWeek !== undefined &&
     config.styling.firstDayOfWeek !== 0 &&
-    config.styling.firstDayOfWeek !== 1
+    config.styling.firstDayOfWeek !== 1 &&
+    config.styling.firstDayOfWeek !== 6
   ) {
-    throw new Error("firstDayOfWeek must be 0 (Sunday) or 1 (Monday)");
+    throw new Error(
+      "firstDayOfWeek must be 0 (Sunday), 1 (Monday) or 6 (Saturday)",
+    );
   }
 
   // Validate that defaultState exists in states if provided
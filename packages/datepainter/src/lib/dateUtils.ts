@@ -88,10 +88,14 @@ export function getFirstDayOfMonth(date: Date): number {
  * Week 1 is the first partial week of the year.
  *
  * @param date - The Date object to calculate week number for
+ * @param firstDayOfWeek - First day of week (0 = Sunday, 1 = Monday, 6 = Saturday)
  * @returns The week number (1-53)
  */
-export function getWeekNumber(date: Date): number {
-	return getWeek(date, { weekStartsOn: 0 });
+export function getWeekNumber(
+	date: Date,
+	firstDayOfWeek: 0 | 1 | 6 = 0,
+): number {
+	return getWeek(date, { weekStartsOn: firstDayOfWeek });
 }
 
 /**
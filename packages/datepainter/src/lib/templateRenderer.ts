@@ -1,4 +1,10 @@
-import type { CalendarConfig, DateState, DateString } from "../types";
+import type {
+	CalendarConfig,
+	CustomDateState,
+	DateState,
+	DateString,
+	HalfDayState,
+} from "../types";
 import {
 	formatDate,
 	getDaysInMonth,
@@ -61,7 +67,7 @@ export function getLastDayOfMonth(date: Date): Date {
  * Gets weekday labels based on locale and first day of week
  *
  * @param locale - Locale string (e.g., 'en-US')
- * @param firstDayOfWeek - First day of week (0 = Sunday, 1 = Monday)
+ * @param firstDayOfWeek - First day of week (0 = Sunday, 1 = Monday, 6 = Saturday)
  * @returns Array of weekday labels
  */
 export function getWeekdayLabels(
@@ -85,6 +91,55 @@ export function getWeekdayLabels(
 	return weekdays;
 }
 
+/**
+ * Whether a state covers half a day (rendered as a split cell)
+ *
+ * @param state - The state of the date, or null if unassigned
+ * @returns True for the morning and afternoon half-day states
+ */
+export function isHalfDayState(state: DateState | null): state is HalfDayState {
+	return state === "oof-am" || state === "oof-pm";
+}
+
+/**
+ * Check whether a state is user-defined (keyed "custom-<slug>")
+ *
+ * @param state - The state of the date, or null if unassigned
+ * @returns True for custom states, which take their colours from config
+ */
+export function isCustomState(
+	state: DateState | null,
+): state is CustomDateState {
+	return state?.startsWith("custom-") ?? false;
+}
+
+/**
+ * Set or clear the inline colours of a custom-state cell
+ *
+ * Built-in states are coloured by stylesheet classes; custom states are not
+ * known to the stylesheet, so their StateConfig colours are set as the
+ * `--datepainter-custom-bg` and `--datepainter-custom-text` properties
+ * read by `.datepainter-day--custom`.
+ *
+ * @param cell - The day cell element
+ * @param state - The state of the date, or null if unassigned
+ * @param config - Calendar configuration holding the state colours
+ */
+export function applyCustomStateColors(
+	cell: HTMLElement,
+	state: DateState | null,
+	config: CalendarConfig,
+): void {
+	const stateConfig = isCustomState(state) ? config.states[state] : undefined;
+	if (stateConfig) {
+		cell.style.setProperty("--datepainter-custom-bg", stateConfig.bgColor);
+		cell.style.setProperty("--datepainter-custom-text", stateConfig.color);
+	} else {
+		cell.style.removeProperty("--datepainter-custom-bg");
+		cell.style.removeProperty("--datepainter-custom-text");
+	}
+}
+
 /**
  * Get CSS classes for a day cell based on state and position
  *
@@ -119,6 +174,16 @@ export function getDayCellClasses(
 		classes.push(`datepainter-day--${state}`);
 	}
 
+	// Half-day states fill only one half of the cell
+	if (isHalfDayState(state)) {
+		classes.push("datepainter-day--split");
+	}
+
+	// Custom states share one class coloured by inline properties
+	if (isCustomState(state)) {
+		classes.push("datepainter-day--custom");
+	}
+
 	// Today class for current date highlighting
 	const today = formatDate(new Date());
 	if (date === today) {
@@ -280,7 +345,7 @@ export function getCalendarHTML(config: CalendarConfig): string {
 		const month = date.getMonth();
 		const daysInMonth = getDaysInMonth(year, month);
 		const firstDay = getFirstDayOfMonth(date);
-		const weekNumber = getWeekNumber(date);
+		const weekNumber = getWeekNumber(date, firstDayOfWeek);
 
 		html += `<div class="datepainter__month" data-month="${year}-${month + 1}">`;
 
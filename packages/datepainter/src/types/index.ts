@@ -4,8 +4,24 @@ export type DateString = `${number}-${number}-${number}`;
 // Selection type for calendar days
 export type SelectionType = "selected" | "work-from-home" | "office";
 
+// Built-in date states ("oof-am"/"oof-pm" mark half a day out of office,
+// "office" a day actually spent in the office)
+export type BuiltInDateState =
+	| "oof"
+	| "oof-am"
+	| "oof-pm"
+	| "holiday"
+	| "sick"
+	| "office";
+
+// User-defined states, coloured from their StateConfig rather than CSS
+export type CustomDateState = `custom-${string}`;
+
 // Date state type
-export type DateState = "oof" | "holiday" | "sick";
+export type DateState = BuiltInDateState | CustomDateState;
+
+// States that cover half a day and render as a split cell
+export type HalfDayState = Extract<DateState, "oof-am" | "oof-pm">;
 
 // Date range type
 export interface DateRange {
@@ -45,7 +61,8 @@ export interface CalendarConfig {
 		cellSize?: number;
 		showWeekdays?: boolean;
 		showWeekNumbers?: boolean;
-		firstDayOfWeek?: 0 | 1;
+		/** 0 = Sunday, 1 = Monday, 6 = Saturday */
+		firstDayOfWeek?: 0 | 1 | 6;
 	};
 	painting?: {
 		/** Enable date painting interactions */
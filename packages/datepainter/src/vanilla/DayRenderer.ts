@@ -1,4 +1,9 @@
 import { validateConfig } from "../config/validate";
+import {
+	applyCustomStateColors,
+	isCustomState,
+	isHalfDayState,
+} from "../lib/templateRenderer";
 import type { CalendarConfig, DateState, DateString } from "../types";
 
 /**
@@ -55,7 +60,7 @@ export class DayRenderer {
 	 * icons, and click handlers based on day's state.
 	 *
 	 * @param date - Date string in YYYY-MM-DD format
-	 * @param state - Current state of day (oof/holiday/sick), or null for unselected
+	 * @param state - Current state of day (oof/oof-am/oof-pm/holiday/sick), or null for unselected
 	 * @param isToday - Whether this date is today's date (default: false)
 	 * @returns HTMLElement representing calendar day cell
 	 *
@@ -75,6 +80,7 @@ export class DayRenderer {
 		if (isToday) {
 			dayEl.classList.add("datepainter-day--today");
 		}
+		applyCustomStateColors(dayEl, state, this.config);
 
 		const dayNumber = date.split("-").pop() || "";
 		dayEl.textContent = dayNumber;
@@ -124,6 +130,15 @@ export class DayRenderer {
 			classes.push(`datepainter-day--${state}`);
 		}
 
+		// Half-day states fill one diagonal half of the cell
+		if (isHalfDayState(state)) {
+			classes.push("datepainter-day--split");
+		}
+
+		if (isCustomState(state)) {
+			classes.push("datepainter-day--custom");
+		}
+
 		return classes.join(" ");
 	}
 
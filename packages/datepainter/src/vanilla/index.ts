@@ -4,6 +4,11 @@
 export { CalendarManager } from "../CalendarManager";
 // Export utility functions from lib
 export { formatDate } from "../lib/dateUtils";
+export {
+	applyCustomStateColors,
+	isCustomState,
+	isHalfDayState,
+} from "../lib/templateRenderer";
 // Export utility functions from stores
 export {
 	clearDateState,
@@ -11,12 +16,15 @@ export {
 	setDateState,
 } from "../stores/calendarStore";
 export type {
+	BuiltInDateState,
 	CalendarConfig,
 	CalendarInstance,
+	CustomDateState,
 	DateFilterOptions,
 	DateRangeOptions,
 	DateState,
 	DateString,
+	HalfDayState,
 	MarkedDateRange,
 } from "../types";
 export * from "./CalendarRenderer";
@@ -0,0 +1,135 @@
+/**
+ * rto-check — command-line compliance check for exported plans
+ *
+ * Usage: rto-check <plan.json|plan.ics> [--format json|ics] [--from YYYY-MM-DD] [--to YYYY-MM-DD]
+ *
+ * Exit codes: 0 compliant, 1 not compliant, 2 usage or input error.
+ * Build with `npm run build:cli`, then run `node dist-cli/rto-check.js`.
+ *
+ * @module rto-check
+ */
+
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { type DateRange, getDateRange, parseDateISO } from "../lib/dateUtils";
+import {
+	checkPlan,
+	detectPlanFormat,
+	formatComplianceReport,
+	loadPlan,
+	type PlanFormat,
+} from "../lib/plan-check";
+
+const EXIT_COMPLIANT = 0;
+const EXIT_NOT_COMPLIANT = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: rto-check <plan.json|plan.ics> [options]
+
+Checks a plan exported from RTO Calculator against the policy in its settings.
+
+Options:
+  --format <json|ics>   File format (default: from the file extension)
+  --from <YYYY-MM-DD>   First day to evaluate (default: start of the plan's
+                        calendar range, 12 weeks before today unless set)
+  --to <YYYY-MM-DD>     Last day to evaluate (default: end of the plan's
+                        calendar range, 52 weeks after today unless set)
+  -h, --help            Show this help`;
+
+function fail(message: string): number {
+	console.error(`rto-check: ${message}\n\n${USAGE}`);
+	return EXIT_USAGE;
+}
+
+function isPlanFormat(value: string): value is PlanFormat {
+	return value === "json" || value === "ics";
+}
+
+/**
+ * Resolve --from/--to over the plan's calendar range (the app's default
+ * unless the export sets a horizon); null if either is malformed
+ */
+function resolveRange(
+	defaults: DateRange,
+	from?: string,
+	to?: string,
+): DateRange | null {
+	const startDate = from ? parseDateISO(from) : defaults.startDate;
+	const endDate = to ? parseDateISO(to) : defaults.endDate;
+	if (!startDate || !endDate) return null;
+	return { startDate, endDate };
+}
+
+function parseCliArgs(argv: string[]) {
+	return parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			format: { type: "string" },
+			from: { type: "string" },
+			to: { type: "string" },
+			help: { type: "boolean", short: "h" },
+		},
+	});
+}
+
+async function main(argv: string[]): Promise<number> {
+	let parsed: ReturnType<typeof parseCliArgs>;
+	try {
+		parsed = parseCliArgs(argv);
+	} catch (error) {
+		return fail(error instanceof Error ? error.message : String(error));
+	}
+	const { values, positionals } = parsed;
+
+	if (values.help) {
+		console.log(USAGE);
+		return EXIT_COMPLIANT;
+	}
+
+	const [filePath] = positionals;
+	if (!filePath || positionals.length > 1) {
+		return fail("expected exactly one plan file");
+	}
+
+	const format = values.format ?? detectPlanFormat(filePath);
+	if (!isPlanFormat(format)) {
+		return fail(`unknown format "${format}"`);
+	}
+
+	let content: string;
+	try {
+		content = await readFile(filePath, "utf8");
+	} catch (error) {
+		console.error(
+			`rto-check: cannot read ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		return EXIT_USAGE;
+	}
+
+	const result = loadPlan(content, format);
+	if (!result.success || !result.plan) {
+		console.error(`rto-check: ${filePath}: ${result.error ?? "invalid plan"}`);
+		return EXIT_USAGE;
+	}
+
+	const range = resolveRange(
+		getDateRange(result.plan.settings),
+		values.from,
+		values.to,
+	);
+	if (!range) {
+		return fail("--from and --to must be YYYY-MM-DD dates");
+	}
+	if (range.startDate > range.endDate) {
+		return fail("--from must not be after --to");
+	}
+
+	const data = checkPlan(result.plan, range);
+	console.log(formatComplianceReport(data));
+	return data.isCompliant ? EXIT_COMPLIANT : EXIT_NOT_COMPLIANT;
+}
+
+main(process.argv.slice(2)).then((code) => {
+	process.exitCode = code;
+});
@@ -15,11 +15,18 @@ import {
 	makeSchedule,
 	makeWeeks,
 } from "../../utils/astro/__tests__/testHelpers";
-import { evaluateAllWindows } from "../validation/all-windows";
-import { FRIDAY_OFFSET } from "../validation/constants";
+import { getWeekdayOffset } from "../dateUtils";
+import {
+	evaluateAllPeriods,
+	evaluateAllWindows,
+	rescoreWindows,
+} from "../validation/all-windows";
+import { FRIDAY } from "../validation/constants";
+import { getPolicyEvaluator } from "../validation/policy-engine";
 import {
 	DEFAULT_RTO_POLICY,
 	evaluateSingleWindow,
+	type PeriodQuotaPolicy,
 } from "../validation/rto-core";
 
 // ─── Helpers ──────────────────────────────────────────────────────
@@ -104,7 +111,9 @@ describe("evaluateAllWindows", () => {
 		// windowEnd should be the Friday of the last week
 		const lastWeekStart = weeks[11]!.weekStart;
 		const expectedEnd = new Date(lastWeekStart);
-		expectedEnd.setDate(expectedEnd.getDate() + FRIDAY_OFFSET);
+		expectedEnd.setDate(
+			expectedEnd.getDate() + getWeekdayOffset(lastWeekStart, FRIDAY),
+		);
 		expect(summary.windowEnd.getTime()).toBe(expectedEnd.getTime());
 	});
 
@@ -134,6 +143,34 @@ describe("evaluateAllWindows", () => {
 		expect(nonCompliantCount).toBe(4);
 	});
 
+	it("skips weeks on leave and stretches windows over the next weeks", () => {
+		// Weeks 3-6 are on leave and would fail every window
+		const weeks = makeWeeks(START, 16, 3).map((w, i) =>
+			i >= 2 && i < 6 ? { ...w, officeDays: 0, status: "excluded" } : w,
+		);
+		const result = evaluateAllWindows(weeks, DEFAULT_RTO_POLICY);
+
+		expect(result).toHaveLength(1);
+		expect(result[0]!.isValid).toBe(true);
+		expect(result[0]!.weekDetails).toHaveLength(12);
+		expect(result[0]!.windowStart).toEqual(START);
+		expect(result[0]!.weekDetails[11]!.weekStart).toEqual(weeks[15]!.weekStart);
+		expect(result[0]!.leaveWeeks).toEqual(
+			weeks.slice(2, 6).map((w) => w.weekStart),
+		);
+	});
+
+	it("rebuilds every window when rescoring weeks with leave", () => {
+		const weeks = makeWeeks(START, 14, 3).map((w, i) =>
+			i === 4 ? { ...w, status: "excluded" } : w,
+		);
+		const previous = evaluateAllWindows(weeks, DEFAULT_RTO_POLICY);
+		weeks[13] = { ...weeks[13]!, officeDays: 0 };
+		expect(rescoreWindows(previous, weeks, DEFAULT_RTO_POLICY, [13])).toEqual(
+			evaluateAllWindows(weeks, DEFAULT_RTO_POLICY),
+		);
+	});
+
 	it("window passes when raw % < threshold but rounds to >= threshold", () => {
 		// 8 weeks × 2.75 days = 22/40 = 55% raw, rounds to 60%
 		// With rounding enabled, should PASS
@@ -143,3 +180,114 @@ describe("evaluateAllWindows", () => {
 		expect(result[0]!.isValid).toBe(true);
 	});
 });
+
+describe("evaluateAllPeriods", () => {
+	const MONTHLY: PeriodQuotaPolicy = {
+		...DEFAULT_RTO_POLICY,
+		kind: "period-quota",
+		quotaPeriod: "month",
+		officeDaysPerPeriod: 12,
+		fiscalYearStartMonth: 0,
+		weeklyFloorDays: 0,
+	};
+	// Week of Dec 29 2024 has its Wednesday on Jan 1, so it counts toward January
+	const DEC_29 = new Date(2024, 11, 29);
+
+	it("groups weeks by the month containing their Wednesday", () => {
+		const result = evaluateAllPeriods(makeWeeks(DEC_29, 9, 3), MONTHLY);
+
+		expect(result.map((s) => s.period?.label)).toEqual([
+			"Jan 2025",
+			"Feb 2025",
+		]);
+		expect(result[0]!.weekDetails).toHaveLength(5);
+		expect(result[1]!.weekDetails).toHaveLength(4);
+		expect(result[0]!.period).toMatchObject({
+			officeDays: 15,
+			requiredDays: 12,
+			isPartial: false,
+		});
+		expect(result.every((s) => s.isValid)).toBe(true);
+	});
+
+	it("anchors weeks on their Wednesday whichever day they start", () => {
+		// Monday Apr 28 2025: Wednesday Apr 30, but Thursday is May 1
+		const [monday] = evaluateAllPeriods(
+			makeWeeks(new Date(2025, 3, 28), 1, 3),
+			MONTHLY,
+		);
+		expect(monday!.period?.label).toBe("Apr 2025");
+		expect(monday!.windowEnd).toEqual(new Date(2025, 4, 2));
+	});
+
+	it("fails a month that misses its quota", () => {
+		const weeks = makeSchedule(DEC_29, [5, 3], [4, 2]);
+		const result = evaluateAllPeriods(weeks, MONTHLY);
+
+		expect(result[0]!.isValid).toBe(true);
+		expect(result[1]!.isValid).toBe(false);
+		expect(result[1]!.period?.officeDays).toBe(8);
+	});
+
+	it("pro-rates the quota for a period cut off by the data", () => {
+		// Jan 5 onward: only 4 of January's 5 weeks are present
+		const result = evaluateAllPeriods(makeWeeks(START, 4, 3), MONTHLY);
+
+		expect(result).toHaveLength(1);
+		expect(result[0]!.period).toMatchObject({
+			isPartial: true,
+			requiredDays: 10, // ceil(12 × 4/5)
+		});
+	});
+
+	it("labels quarters by calendar year when the fiscal year starts in January", () => {
+		const result = evaluateAllPeriods(makeWeeks(DEC_29, 14, 3), {
+			...MONTHLY,
+			quotaPeriod: "quarter",
+			officeDaysPerPeriod: 36,
+		});
+
+		expect(result.map((s) => s.period?.label)).toEqual(["Q1 2025", "Q2 2025"]);
+		expect(result[0]!.weekDetails).toHaveLength(13);
+	});
+
+	it("names fiscal quarters after the year the fiscal year ends in", () => {
+		const result = evaluateAllPeriods(makeWeeks(DEC_29, 14, 3), {
+			...MONTHLY,
+			quotaPeriod: "quarter",
+			officeDaysPerPeriod: 36,
+			fiscalYearStartMonth: 9, // October
+		});
+
+		expect(result.map((s) => s.period?.label)).toEqual([
+			"Q2 FY2025",
+			"Q3 FY2025",
+		]);
+	});
+
+	it("fails a period with a week below the weekly floor", () => {
+		const weeks = makeSchedule(DEC_29, [4, 4], [1, 0]);
+		const result = evaluateAllPeriods(weeks, {
+			...MONTHLY,
+			weeklyFloorDays: 1,
+		});
+
+		expect(result[0]!.period?.officeDays).toBe(16);
+		expect(result[0]!.isValid).toBe(false);
+		expect(result[0]!.weekDetails[4]!.isCompliant).toBe(false);
+	});
+
+	it("is used by evaluateAllWindows for period-quota policies", () => {
+		const weeks = makeWeeks(DEC_29, 9, 3);
+		expect(evaluateAllWindows(weeks, MONTHLY)).toEqual(
+			evaluateAllPeriods(weeks, MONTHLY),
+		);
+	});
+
+	it("describes the period against its quota", () => {
+		const [summary] = evaluateAllPeriods(makeWeeks(DEC_29, 5, 2), MONTHLY);
+		expect(getPolicyEvaluator(MONTHLY).describe(summary!, MONTHLY)).toBe(
+			"Not compliant: 10 office days in Jan 2025. Required: 12",
+		);
+	});
+});
@@ -9,7 +9,7 @@
  * - Basic queue functionality (FIFO processing)
  * - Single worker enforcement (concurrent processing prevention)
  * - Burst handling (multiple rapid events)
- * - Debounce timing (state-change: 1500ms, settings-change: 300ms, manual-trigger: 0ms)
+ * - Debounce timing (state-change: 250ms, settings-change: 300ms, manual-trigger: 0ms)
  * - Error handling (graceful error recovery)
  * - Manual trigger (immediate processing)
  * - Cleanup (destroy method)
@@ -18,22 +18,23 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { CalendarInstance } from "../../../packages/datepainter/src/types";
 import { _testExports, EventQueue } from "../auto-compliance";
+import { readComplianceRequest } from "../calendar-data-reader";
+import { computeComplianceFromRequest } from "../compliance-request";
 import { complianceStore } from "../stores/complianceStore";
-import { computeWindowEvaluation } from "../validation/window-evaluation";
 
 // ─── Mocks ────────────────────────────────────────────────────────────
 
-vi.mock("../validation/window-evaluation", () => ({
-	computeWindowEvaluation: vi.fn().mockResolvedValue({
-		summaries: [],
-		policy: {},
-		allWeeks: [],
-		filteredWeeks: [],
+vi.mock("../calendar-data-reader", () => ({
+	readComplianceRequest: vi.fn().mockResolvedValue({
+		marks: {},
+		holidays: [],
+		settings: {},
+		range: {},
 	}),
 }));
 
-vi.mock("../compute-compliance", () => ({
-	computeComplianceData: vi.fn().mockReturnValue({
+vi.mock("../compliance-request", () => ({
+	computeComplianceFromRequest: vi.fn().mockReturnValue({
 		overallCompliance: 100,
 		message: "Compliant",
 	}),
@@ -116,14 +117,18 @@ describe("EventQueue", () => {
 				calendarManager: mockManager,
 			});
 
-			// Processing hasn't started yet (1500ms debounce for state-change)
-			expect(computeWindowEvaluation).not.toHaveBeenCalled();
+			// Processing hasn't started yet (250ms debounce for state-change)
+			expect(readComplianceRequest).not.toHaveBeenCalled();
 
 			// Flush debounce timer to trigger processing
 			await vi.runAllTimersAsync();
 
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(1);
-			expect(computeWindowEvaluation).toHaveBeenCalledWith(mockManager);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(1);
+			expect(readComplianceRequest).toHaveBeenCalledWith(mockManager);
+			// Without a worker the same request is evaluated on the main thread
+			expect(computeComplianceFromRequest).toHaveBeenCalledWith(
+				await vi.mocked(readComplianceRequest).mock.results[0]?.value,
+			);
 		});
 
 		it("should allow multiple events of same type in queue (no deduplication)", async () => {
@@ -144,7 +149,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// Both events processed (no deduplication)
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(2);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(2);
 		});
 
 		it("should allow different event types in the queue simultaneously", async () => {
@@ -170,7 +175,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// All three event types processed
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(3);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(3);
 		});
 	});
 
@@ -197,7 +202,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// All three events processed sequentially (FIFO)
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(3);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(3);
 			expect(complianceStore.set).toHaveBeenCalledTimes(3);
 		});
 
@@ -206,7 +211,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// No computation should have occurred
-			expect(computeWindowEvaluation).not.toHaveBeenCalled();
+			expect(readComplianceRequest).not.toHaveBeenCalled();
 			expect(complianceStore.set).not.toHaveBeenCalled();
 		});
 	});
@@ -224,7 +229,7 @@ describe("EventQueue", () => {
 
 			// Advance past debounce (300ms) to start processing
 			await vi.advanceTimersByTimeAsync(300);
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(1);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(1);
 
 			// Add another event while first was processed
 			queue.enqueue({
@@ -236,7 +241,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// Both events should have been processed
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(2);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(2);
 		});
 	});
 
@@ -258,7 +263,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// All 10 events processed (no deduplication)
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(10);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(10);
 		});
 
 		it("should handle mixed event burst", async () => {
@@ -291,7 +296,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// All 5 mixed events processed
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(5);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(5);
 		});
 
 		it("should handle high-frequency events (100 rapid changes)", async () => {
@@ -309,14 +314,14 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// All 100 events processed
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(100);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(100);
 		});
 	});
 
 	// ─── Debounce Timing ─────────────────────────────────────────────────
 
 	describe("debouncing", () => {
-		it("should debounce state-change events by 1500ms", async () => {
+		it("should debounce state-change events by 250ms", async () => {
 			queue.setCalendarManager(mockManager);
 
 			queue.enqueue({
@@ -325,13 +330,13 @@ describe("EventQueue", () => {
 				calendarManager: mockManager,
 			});
 
-			// Advance 1000ms - should NOT have processed yet
-			await vi.advanceTimersByTimeAsync(1000);
-			expect(computeWindowEvaluation).not.toHaveBeenCalled();
+			// Advance 200ms - should NOT have processed yet
+			await vi.advanceTimersByTimeAsync(200);
+			expect(readComplianceRequest).not.toHaveBeenCalled();
 
-			// Advance remaining 500ms - should now process
-			await vi.advanceTimersByTimeAsync(500);
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(1);
+			// Advance remaining 50ms - should now process
+			await vi.advanceTimersByTimeAsync(50);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(1);
 		});
 
 		it("should debounce settings-change events by 300ms", async () => {
@@ -344,11 +349,11 @@ describe("EventQueue", () => {
 
 			// Advance 200ms - should NOT have processed yet
 			await vi.advanceTimersByTimeAsync(200);
-			expect(computeWindowEvaluation).not.toHaveBeenCalled();
+			expect(readComplianceRequest).not.toHaveBeenCalled();
 
 			// Advance remaining 100ms - should now process
 			await vi.advanceTimersByTimeAsync(100);
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(1);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(1);
 		});
 
 		it("should process manual-trigger events immediately (0ms debounce)", async () => {
@@ -362,7 +367,7 @@ describe("EventQueue", () => {
 
 			// Should process immediately (next tick)
 			await vi.advanceTimersByTimeAsync(0);
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(1);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(1);
 		});
 
 		it("should reset debounce timer when new event arrives", async () => {
@@ -375,46 +380,50 @@ describe("EventQueue", () => {
 				calendarManager: mockManager,
 			});
 
-			// Wait 1000ms
-			await vi.advanceTimersByTimeAsync(1000);
+			// Wait 200ms
+			await vi.advanceTimersByTimeAsync(200);
 
-			// Second event at t=1000 - should reset timer
+			// Second event at t=200 - should reset timer
 			queue.enqueue({
 				type: "state-change",
 				timestamp: 2000,
 				calendarManager: mockManager,
 			});
 
-			// Wait another 1000ms (total 2000ms from first event)
-			// But only 1000ms from second event - should NOT process yet
-			await vi.advanceTimersByTimeAsync(1000);
-			expect(computeWindowEvaluation).not.toHaveBeenCalled();
+			// Wait another 200ms (total 400ms from first event)
+			// But only 200ms from second event - should NOT process yet
+			await vi.advanceTimersByTimeAsync(200);
+			expect(readComplianceRequest).not.toHaveBeenCalled();
 
-			// Wait remaining 500ms - should now process both queued events
-			await vi.advanceTimersByTimeAsync(500);
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(2);
+			// Wait remaining 50ms - should now process both queued events
+			await vi.advanceTimersByTimeAsync(50);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(2);
 		});
 
-		it("should use shorter debounce when settings-change arrives during state-change wait", async () => {
+		it("should use the latest event's debounce when settings-change arrives during state-change wait", async () => {
 			queue.setCalendarManager(mockManager);
 
-			// Start with state-change (1500ms debounce)
+			// Start with state-change (250ms debounce)
 			queue.enqueue({
 				type: "state-change",
 				timestamp: 1000,
 				calendarManager: mockManager,
 			});
 
-			// After 500ms, add settings-change (300ms debounce)
-			await vi.advanceTimersByTimeAsync(500);
+			// After 100ms, add settings-change (300ms debounce)
+			await vi.advanceTimersByTimeAsync(100);
 			queue.enqueue({
 				type: "settings-change",
 				timestamp: 2000,
 			});
 
-			// Should process after 300ms from settings-change (both events in queue)
-			await vi.advanceTimersByTimeAsync(300);
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(2);
+			// Past the state-change deadline, but the timer was reset
+			await vi.advanceTimersByTimeAsync(200);
+			expect(readComplianceRequest).not.toHaveBeenCalled();
+
+			// Should process 300ms after settings-change (both events in queue)
+			await vi.advanceTimersByTimeAsync(100);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(2);
 		});
 	});
 
@@ -449,7 +458,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// Computation completed and results stored
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(1);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(1);
 			expect(complianceStore.set).toHaveBeenCalledTimes(1);
 		});
 
@@ -481,8 +490,8 @@ describe("EventQueue", () => {
 
 			// 0ms debounce - should process immediately
 			await vi.advanceTimersByTimeAsync(0);
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(1);
-			expect(computeWindowEvaluation).toHaveBeenCalledWith(mockManager);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(1);
+			expect(readComplianceRequest).toHaveBeenCalledWith(mockManager);
 		});
 
 		it("should respect force flag in manual-trigger events", async () => {
@@ -503,7 +512,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// Both manual triggers processed (no deduplication by force flag)
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(2);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(2);
 		});
 
 		it("should process manual-trigger alongside other event types", async () => {
@@ -524,7 +533,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// Both events processed
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(2);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(2);
 		});
 	});
 
@@ -543,7 +552,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// Computation used the event's calendar manager
-			expect(computeWindowEvaluation).toHaveBeenCalledWith(mockManager);
+			expect(readComplianceRequest).toHaveBeenCalledWith(mockManager);
 		});
 
 		it("should use stored calendar manager for non-state-change events", async () => {
@@ -557,7 +566,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// Computation used the stored calendar manager
-			expect(computeWindowEvaluation).toHaveBeenCalledWith(mockManager);
+			expect(readComplianceRequest).toHaveBeenCalledWith(mockManager);
 		});
 	});
 
@@ -569,7 +578,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// No computation should have occurred
-			expect(computeWindowEvaluation).not.toHaveBeenCalled();
+			expect(readComplianceRequest).not.toHaveBeenCalled();
 		});
 
 		it("should handle rapid enqueue/dequeue cycles", async () => {
@@ -586,7 +595,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// All 5 events processed
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(5);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(5);
 		});
 
 		it("should handle timer being null on processQueue call", async () => {
@@ -601,7 +610,7 @@ describe("EventQueue", () => {
 			await vi.runAllTimersAsync();
 
 			// Should process without error
-			expect(computeWindowEvaluation).toHaveBeenCalledTimes(1);
+			expect(readComplianceRequest).toHaveBeenCalledTimes(1);
 			expect(complianceStore.set).toHaveBeenCalledTimes(1);
 		});
 	});
@@ -625,7 +634,7 @@ describe("EventQueue", () => {
 			await vi.advanceTimersByTimeAsync(2000);
 
 			// No computation should have occurred after destroy
-			expect(computeWindowEvaluation).not.toHaveBeenCalled();
+			expect(readComplianceRequest).not.toHaveBeenCalled();
 		});
 
 		it("should be safe to call destroy multiple times", () => {
@@ -636,7 +645,7 @@ describe("EventQueue", () => {
 			queue.destroy();
 
 			// No error should occur - destroy is idempotent
-			expect(computeWindowEvaluation).not.toHaveBeenCalled();
+			expect(readComplianceRequest).not.toHaveBeenCalled();
 		});
 	});
 });
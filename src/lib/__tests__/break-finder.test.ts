@@ -0,0 +1,154 @@
+/**
+ * Break Finder Tests
+ *
+ * - Bridge days join holidays and weekends into the longest run
+ * - Only marks that already keep the user away are free
+ * - Ties go to fewer bridge days, then the earlier run; picks never overlap
+ * - Runs that would break a window are dropped, with long weekends from the
+ *   holiday source as a cheaper fallback
+ */
+
+import { describe, expect, it } from "vitest";
+import type { ComplianceRequest } from "../compliance-request";
+import { DEFAULTS } from "../settings-constants";
+import {
+	DEFAULT_BREAK_OPTIONS,
+	findLongestBreaks,
+} from "../validation/break-finder";
+
+// ─── Fixtures ─────────────────────────────────────────────────────
+
+// Thu Apr 17, Mon Apr 21 and Fri May 2 2025
+const HOLIDAYS = [
+	new Date(2025, 3, 17),
+	new Date(2025, 3, 21),
+	new Date(2025, 4, 2),
+];
+
+// Sun Jan 5 → Sat Jun 28 2025: 25 full weeks
+const REQUEST: ComplianceRequest = {
+	marks: {},
+	holidays: HOLIDAYS,
+	settings: { ...DEFAULTS, roundPercentage: false },
+	range: {
+		startDate: new Date(2025, 0, 5),
+		endDate: new Date(2025, 5, 28),
+	},
+};
+
+const FROM = new Date(2025, 0, 5);
+
+const ONE_DAY = { ...DEFAULT_BREAK_OPTIONS, budgetDays: 1 };
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("findLongestBreaks", () => {
+	it("bridges holidays and a weekend into the longest break", () => {
+		const [best] = findLongestBreaks(REQUEST, ONE_DAY, FROM);
+		expect(best).toEqual({
+			startDate: "2025-04-17",
+			endDate: "2025-04-21",
+			totalDays: 5,
+			bridgeDates: ["2025-04-18"],
+			holidayCount: 2,
+			source: "calendar",
+		});
+	});
+
+	it("picks non-overlapping breaks, earliest first on ties", () => {
+		const breaks = findLongestBreaks(REQUEST, ONE_DAY, FROM);
+		// Thu May 1 → Sun May 4 and Fri May 2 → Mon May 5 tie at 4 days
+		expect(breaks.map((b) => [b.startDate, b.endDate])).toEqual([
+			["2025-04-17", "2025-04-21"],
+			["2025-05-01", "2025-05-04"],
+		]);
+		expect(
+			findLongestBreaks(REQUEST, { ...ONE_DAY, limit: 1 }, FROM),
+		).toHaveLength(1);
+	});
+
+	it("treats days marked away as free", () => {
+		const request = {
+			...REQUEST,
+			marks: { "2025-04-22": "oof", "2025-04-23": "sick" },
+		};
+		const [best] = findLongestBreaks(
+			request,
+			{ ...ONE_DAY, fillState: "oof" },
+			FROM,
+		);
+		expect(best).toMatchObject({
+			startDate: "2025-04-17",
+			endDate: "2025-04-23",
+			bridgeDates: ["2025-04-18"],
+		});
+	});
+
+	it("charges a bridge day for office, half-day and WFH marks under PTO", () => {
+		const request = {
+			...REQUEST,
+			marks: {
+				"2025-04-22": "office",
+				"2025-04-23": "oof-am",
+				"2025-04-24": "oof",
+			},
+		};
+		const [pto] = findLongestBreaks(request, ONE_DAY, FROM);
+		expect(pto).toMatchObject({
+			startDate: "2025-04-17",
+			endDate: "2025-04-21",
+			bridgeDates: ["2025-04-18"],
+		});
+		const [wfh] = findLongestBreaks(
+			{ ...request, marks: { "2025-04-22": "office" } },
+			{ ...ONE_DAY, fillState: "oof" },
+			FROM,
+		);
+		expect(wfh?.endDate).toBe("2025-04-21");
+	});
+
+	it("ignores days before the start", () => {
+		const [best] = findLongestBreaks(REQUEST, ONE_DAY, new Date(2025, 3, 19));
+		// Sat 19 → Tue 22 bridges Easter Monday
+		expect(best?.startDate).toBe("2025-04-19");
+		expect(best?.bridgeDates).toEqual(["2025-04-22"]);
+	});
+
+	it("needs a holiday in every break", () => {
+		expect(
+			findLongestBreaks({ ...REQUEST, holidays: [] }, ONE_DAY, FROM),
+		).toEqual([]);
+	});
+
+	it("falls back to a long weekend when longer breaks break a window", () => {
+		const request = {
+			...REQUEST,
+			settings: {
+				...REQUEST.settings,
+				policyKind: "every-week" as const,
+				minOfficeDays: 3,
+			},
+		};
+		const options = {
+			...DEFAULT_BREAK_OPTIONS,
+			fillState: "oof" as const,
+			longWeekends: [
+				{
+					startDate: new Date(2025, 3, 17),
+					endDate: new Date(2025, 3, 21),
+					dayCount: 5,
+					bridgeDays: [new Date(2025, 3, 18)],
+				},
+			],
+		};
+		const breaks = findLongestBreaks(request, options, FROM);
+		const easter = breaks.find((b) => b.startDate.startsWith("2025-04"));
+		// Three bridge days leave too few office days in Easter week
+		expect(easter).toMatchObject({
+			startDate: "2025-04-17",
+			endDate: "2025-04-21",
+			bridgeDates: ["2025-04-18"],
+			source: "long-weekend",
+		});
+	});
+});
@@ -29,15 +29,33 @@ vi.mock("../holiday/CalendarHolidayIntegration", () => ({
 const mockSettings = {
 	debug: false,
 	saveData: true,
+	policyKind: "best-k" as const,
+	quotaPeriod: "month" as const,
+	officeDaysPerPeriod: 12,
+	fiscalYearStartMonth: 0,
+	weeklyFloorDays: 0,
+	anchorDays: [] as number[],
 	minOfficeDays: 3,
 	rollingWindowWeeks: 12,
 	bestWeeksCount: 8,
 	sickDaysPenalize: true,
 	holidayPenalize: true,
+	prorateRequirement: false,
+	prorationRounding: "nearest" as const,
 	weekendBonus: false,
 	startingWeek: null as string | null,
 	defaultPattern: null as number[] | null,
 	roundPercentage: true,
+	trackAttendance: false,
+	calendarHorizon: {
+		kind: "rolling" as const,
+		weeksBack: 12,
+		weeksForward: 52,
+	},
+	weekStartsOn: 0 as const,
+	workDays: [1, 2, 3, 4, 5],
+	customStates: [],
+	leavePeriods: [],
 	holidays: { countryCode: null, holidaysAsOOF: true, companyName: null },
 };
 
@@ -50,7 +68,10 @@ vi.mock("../stores/settingsStore", () => ({
 }));
 
 import { mockCalendarFromMap } from "../../utils/astro/__tests__/testHelpers";
-import { readCalendarData } from "../calendar-data-reader";
+import {
+	readCalendarData,
+	weekInfoToWeekCompliance,
+} from "../calendar-data-reader";
 import { getDateRange } from "../dateUtils";
 import { getHolidayDatesForValidation } from "../holiday/CalendarHolidayIntegration";
 import { settingsStore } from "../stores/settingsStore";
@@ -71,6 +92,7 @@ function setSettings(opts: {
 	sickDaysPenalize?: boolean;
 	holidayPenalize?: boolean;
 	weekendBonus?: boolean;
+	anchorDays?: number[];
 }): void {
 	vi.mocked(settingsStore.get).mockReturnValue({
 		...mockSettings,
@@ -616,3 +638,80 @@ describe("readCalendarData – weekend bonus", () => {
 		expect(week.isCompliant).toBe(true);
 	});
 });
+
+describe("readCalendarData – anchor days", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(settingsStore.get).mockReturnValue({ ...mockSettings });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("flags a week with WFH on an anchor day", async () => {
+		setSettings({ anchorDays: [2, 3] });
+		setupSingleWeek("2025-06-01");
+		// Tue Jun 3 is an anchor day, Fri Jun 6 is not
+		const dates = new Map<string, string>([
+			["2025-06-03", "oof"],
+			["2025-06-06", "oof"],
+		]);
+		const cal = mockCalendarFromMap(dates);
+
+		const result = await readCalendarData(cal);
+		const week = result.weeks[0]!;
+
+		expect(week.officeDays).toBe(3);
+		expect(week.anchorMissCount).toBe(1);
+		expect(week.isCompliant).toBe(false);
+		expect(week.status).toBe("anchor-missed");
+		expect(weekInfoToWeekCompliance(week).status).toBe("anchor-missed");
+	});
+
+	it("WFH away from anchor days keeps the week compliant", async () => {
+		setSettings({ anchorDays: [2, 3] });
+		setupSingleWeek("2025-06-01");
+		const dates = new Map<string, string>([
+			["2025-06-02", "oof"],
+			["2025-06-06", "oof"],
+		]);
+		const cal = mockCalendarFromMap(dates);
+
+		const result = await readCalendarData(cal);
+		const week = result.weeks[0]!;
+
+		expect(week.anchorMissCount).toBe(0);
+		expect(week.status).toBe("compliant");
+		expect(weekInfoToWeekCompliance(week).status).toBe("compliant");
+	});
+
+	it("a short week stays invalid even when an anchor day is missed", async () => {
+		setSettings({ anchorDays: [2] });
+		setupSingleWeek("2025-06-01");
+		const dates = new Map<string, string>([
+			["2025-06-02", "oof"],
+			["2025-06-03", "oof"],
+			["2025-06-04", "oof"],
+		]);
+		const cal = mockCalendarFromMap(dates);
+
+		const result = await readCalendarData(cal);
+		const week = result.weeks[0]!;
+
+		expect(week.anchorMissCount).toBe(1);
+		expect(week.status).toBe("invalid");
+		expect(weekInfoToWeekCompliance(week).status).toBe("violation");
+	});
+
+	it("holidays on an anchor day are not counted as misses", async () => {
+		setSettings({ anchorDays: [3] });
+		setupSingleWeek("2025-06-01");
+		const dates = new Map<string, string>([["2025-06-04", "holiday"]]);
+		const cal = mockCalendarFromMap(dates);
+
+		const result = await readCalendarData(cal);
+
+		expect(result.weeks[0]!.anchorMissCount).toBe(0);
+	});
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { formatDateISO, getDateRange, getWeeksCount } from "../dateUtils";
+
+// Wednesday, 14 May 2025
+const TODAY = new Date(2025, 4, 14);
+
+function isoRange(range: { startDate: Date; endDate: Date }) {
+	return [formatDateISO(range.startDate), formatDateISO(range.endDate)];
+}
+
+describe("getDateRange", () => {
+	it("defaults to 12 weeks back and 52 forward, aligned to Sun-Sat", () => {
+		const range = getDateRange({}, TODAY);
+		expect(isoRange(range)).toEqual(["2025-02-16", "2026-05-16"]);
+		expect(getWeeksCount(range)).toBe(65);
+	});
+
+	it("uses the weeks of a rolling horizon", () => {
+		const range = getDateRange(
+			{ calendarHorizon: { kind: "rolling", weeksBack: 4, weeksForward: 8 } },
+			TODAY,
+		);
+		expect(isoRange(range)).toEqual(["2025-04-13", "2025-07-12"]);
+	});
+
+	it("spans the fiscal year through the end of the next fiscal quarter", () => {
+		// April fiscal year: Q1 is Apr-Jun, so the range ends with Q2 in September
+		const range = getDateRange(
+			{ calendarHorizon: { kind: "fiscal-year" }, fiscalYearStartMonth: 3 },
+			TODAY,
+		);
+		expect(isoRange(range)).toEqual(["2025-03-30", "2025-10-04"]);
+	});
+
+	it("reaches back into the previous calendar year for a fiscal year", () => {
+		// October fiscal year, in February: FY started Oct 2024, Q2 is Jan-Mar
+		const range = getDateRange(
+			{ calendarHorizon: { kind: "fiscal-year" }, fiscalYearStartMonth: 9 },
+			new Date(2025, 1, 10),
+		);
+		expect(isoRange(range)).toEqual(["2024-09-29", "2025-07-05"]);
+	});
+
+	it("rounds custom dates out to whole weeks", () => {
+		const range = getDateRange(
+			{
+				calendarHorizon: {
+					kind: "custom",
+					start: "2025-03-05",
+					end: "2025-06-18",
+				},
+			},
+			TODAY,
+		);
+		expect(isoRange(range)).toEqual(["2025-03-02", "2025-06-21"]);
+	});
+
+	it("falls back to the default for unreadable or reversed custom dates", () => {
+		const fallback = isoRange(getDateRange({}, TODAY));
+		for (const [start, end] of [
+			["2025-13-01", "2025-06-18"],
+			["2025-06-18", "2025-03-05"],
+		] as const) {
+			const range = getDateRange(
+				{ calendarHorizon: { kind: "custom", start, end } },
+				TODAY,
+			);
+			expect(isoRange(range)).toEqual(fallback);
+		}
+	});
+});
@@ -94,6 +94,14 @@ describe("computeBestKAverage", () => {
 		const dist = [0, 0, 12, 0, 0, 0];
 		expect(computeBestKAverage(dist, DEFAULT_SOLVER_CONFIG)).toBe(3);
 	});
+
+	it("counts half days when buckets are half a day wide", () => {
+		// 8 weeks at 1.5 WFH days + 4 weeks at 2.5
+		const dist = [0, 0, 0, 8, 0, 4, 0, 0, 0, 0, 0];
+		expect(
+			computeBestKAverage(dist, { ...DEFAULT_SOLVER_CONFIG, wfhStep: 0.5 }),
+		).toBe(3.5);
+	});
 });
 
 describe("enumerateAllCombinations", () => {
@@ -216,6 +224,22 @@ describe("getTwoGroupCombinations", () => {
 		expect(match!.bestKAverage).toBe(5);
 	});
 
+	it("offers half-day groups when buckets are half a day wide", () => {
+		const halfDayCombos = getTwoGroupCombinations({
+			...DEFAULT_SOLVER_CONFIG,
+			wfhStep: 0.5,
+		});
+		const match = halfDayCombos.find(
+			(c) =>
+				c.groupA.wfhDays === 2.5 &&
+				c.groupA.weeks === 8 &&
+				c.groupB.wfhDays === 5 &&
+				c.groupB.weeks === 4,
+		);
+		expect(match?.groupA.officeDays).toBe(2.5);
+		expect(match?.isValid).toBe(false);
+	});
+
 	it("spot-check: 1 week @ 0 WFH + 11 weeks @ 5 WFH → invalid", () => {
 		const match = combos.find(
 			(c) =>
@@ -1,44 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { z } from "zod";
+import {
+	companyFiltersSchema,
+	validateCustomCompany,
+} from "../holiday/company-filter-schema";
 import companyFilters from "../holiday/data/company-filters.json";
-
-const extraHolidaySchema = z.union([
-	z
-		.object({
-			name: z.string(),
-			month: z.number().int().min(1).max(12),
-			day: z.number().int().min(1).max(31),
-		})
-		.strict(),
-	z
-		.object({
-			name: z.string(),
-			after: z.string(),
-		})
-		.strict(),
-]);
-
-const companyEntrySchema = z
-	.object({
-		holidays: z.array(z.string()),
-		extra: z.array(extraHolidaySchema).optional(),
-	})
-	.strict();
-
-const countryEntrySchema = z
-	.object({
-		name: z.string(),
-		companies: z.record(z.string(), companyEntrySchema),
-	})
-	.strict();
-
-const companyFiltersSchema = z.record(
-	z.string(),
-	z.union([
-		countryEntrySchema,
-		z.string(), // $schema key
-	]),
-);
+import type { CustomCompanyFilter } from "../settings-constants";
 
 describe("company-filters.json schema validation", () => {
 	it("should be valid against the zod schema", () => {
@@ -49,3 +15,73 @@ describe("company-filters.json schema validation", () => {
 		expect(result.success).toBe(true);
 	});
 });
+
+describe("validateCustomCompany", () => {
+	const holidayNames = ["New Year's Day", "Thanksgiving Day", "Christmas Day"];
+
+	function policy(
+		overrides: Partial<CustomCompanyFilter> = {},
+	): CustomCompanyFilter {
+		return {
+			name: "Acme",
+			countryCode: "US",
+			holidays: ["New Year's Day", "Thanksgiving Day"],
+			extra: [
+				{ name: "Day after Thanksgiving", after: "Thanksgiving Day" },
+				{ name: "Christmas Eve", month: 12, day: 24 },
+			],
+			...overrides,
+		};
+	}
+
+	it("should accept a policy in the company-filters.json shape", () => {
+		expect(validateCustomCompany(policy(), { holidayNames })).toEqual([]);
+	});
+
+	it("should require a name that is not already taken", () => {
+		expect(validateCustomCompany(policy({ name: "  " }))).toContain(
+			"Company name is required",
+		);
+		expect(
+			validateCustomCompany(policy(), { takenNames: ["Amazon", "Acme"] }),
+		).toContain('A company named "Acme" already exists for this country');
+	});
+
+	it("should reject holidays the country does not have", () => {
+		const errors = validateCustomCompany(
+			policy({ holidays: ["New Year's Day", "Boxing Day"] }),
+			{ holidayNames },
+		);
+		expect(errors).toEqual([
+			'"Boxing Day" is not a public holiday in this country',
+			'Day after Thanksgiving: "Thanksgiving Day" must be a selected holiday',
+		]);
+	});
+
+	it("should reject extras outside the schema", () => {
+		const errors = validateCustomCompany(
+			policy({ extra: [{ name: "Leap", month: 13, day: 1 }] }),
+		);
+		expect(errors).toHaveLength(1);
+		expect(errors[0]).toMatch(/^extra\.0/);
+	});
+
+	it("should reject days that do not exist in their month", () => {
+		expect(
+			validateCustomCompany(
+				policy({ extra: [{ name: "Leap Day", month: 2, day: 29 }] }),
+			),
+		).toEqual([]);
+		expect(
+			validateCustomCompany(
+				policy({ extra: [{ name: "Bad", month: 4, day: 31 }] }),
+			),
+		).toEqual(["Bad: day 31 does not exist in that month"]);
+	});
+
+	it("should require at least one holiday or extra", () => {
+		expect(validateCustomCompany(policy({ holidays: [], extra: [] }))).toEqual([
+			"Select at least one holiday or add an extra day",
+		]);
+	});
+});
@@ -0,0 +1,205 @@
+/**
+ * Compliance Worker Tests
+ *
+ * Covers the pure request pipeline the worker runs and the main-thread
+ * client's id matching, using a fake Worker (jsdom has none).
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	type ComplianceRequest,
+	type ComplianceWorkerRequest,
+	type ComplianceWorkerResponse,
+	computeComplianceFromRequest,
+} from "../compliance-request";
+import { ComplianceWorkerClient } from "../compliance-worker-client";
+import type { ComplianceEventData } from "../compute-compliance";
+import * as computeWeeks from "../compute-weeks";
+import { DEFAULTS } from "../settings-constants";
+import { IncrementalWindowEvaluator } from "../validation/incremental-evaluation";
+
+// ─── Fixtures ─────────────────────────────────────────────────────
+
+// Sun Jan 5 → Sat Mar 29 2025: twelve full weeks
+const REQUEST: ComplianceRequest = {
+	marks: {},
+	holidays: [],
+	settings: { ...DEFAULTS },
+	range: {
+		startDate: new Date(2025, 0, 5),
+		endDate: new Date(2025, 2, 29),
+	},
+};
+
+class FakeWorker {
+	onmessage: ((event: MessageEvent<ComplianceWorkerResponse>) => void) | null =
+		null;
+	onerror: ((event: ErrorEvent) => void) | null = null;
+	posted: ComplianceWorkerRequest[] = [];
+	terminate = vi.fn();
+
+	postMessage(message: ComplianceWorkerRequest): void {
+		this.posted.push(message);
+	}
+
+	respond(response: ComplianceWorkerResponse): void {
+		this.onmessage?.({ data: response } as MessageEvent);
+	}
+}
+
+function createClient(): { fake: FakeWorker; client: ComplianceWorkerClient } {
+	const fake = new FakeWorker();
+	return {
+		fake,
+		client: new ComplianceWorkerClient(fake as unknown as Worker),
+	};
+}
+
+const DATA = { isCompliant: true } as ComplianceEventData;
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("computeComplianceFromRequest", () => {
+	it("evaluates serialized marks", () => {
+		const result = computeComplianceFromRequest(REQUEST);
+		expect(result.isCompliant).toBe(true);
+		expect(result.allSummaries.length).toBeGreaterThan(0);
+	});
+
+	it("reads WFH marks from the serialized record", () => {
+		const marks: Record<string, string> = {};
+		for (const day of ["06", "07", "08", "09", "10"]) {
+			marks[`2025-01-${day}`] = "oof";
+		}
+		const result = computeComplianceFromRequest({ ...REQUEST, marks });
+		expect(result.allSummaries[0]?.weekDetails[0]?.officeDays).toBe(0);
+	});
+
+	describe("with an attendance cutoff", () => {
+		afterEach(() => {
+			vi.useRealTimers();
+			vi.restoreAllMocks();
+		});
+
+		it("reports the plan alone separately", () => {
+			expect(computeComplianceFromRequest(REQUEST).planned).toBeUndefined();
+
+			// Nothing was marked In Office, so every past weekday is an absence
+			const result = computeComplianceFromRequest({
+				...REQUEST,
+				actualBefore: new Date(2025, 2, 15),
+			});
+			expect(result.isCompliant).toBe(false);
+			expect(result.planned).toMatchObject({
+				isCompliant: true,
+				averageOfficeDays: 5,
+			});
+		});
+
+		it("re-scores the plan incrementally with its own evaluator", () => {
+			const evaluator = new IncrementalWindowEvaluator();
+			const planEvaluator = new IncrementalWindowEvaluator();
+			const tracked = { ...REQUEST, actualBefore: new Date(2025, 2, 15) };
+			computeComplianceFromRequest(tracked, evaluator, planEvaluator);
+
+			const weeksSpy = vi.spyOn(computeWeeks, "computeWeeksFromMarks");
+			const planSpy = vi.spyOn(planEvaluator, "evaluate");
+			const edited = { ...tracked, marks: { "2025-03-19": "oof" } };
+			const result = computeComplianceFromRequest(
+				edited,
+				evaluator,
+				planEvaluator,
+			);
+
+			expect(planSpy).toHaveBeenCalledTimes(1);
+			// Only the edited week (Mar 16) is rebuilt, once for each evaluator
+			expect(weeksSpy.mock.calls.map((call) => call[3])).toEqual([
+				{ startDate: new Date(2025, 2, 16), endDate: new Date(2025, 2, 22) },
+				{ startDate: new Date(2025, 2, 16), endDate: new Date(2025, 2, 22) },
+			]);
+			expect(result).toEqual(computeComplianceFromRequest(edited));
+		});
+
+		it("splits the current week into recorded and planned days", () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date(2025, 0, 22, 12)); // Wednesday
+
+			const result = computeComplianceFromRequest({
+				...REQUEST,
+				marks: { "2025-01-20": "office" },
+				actualBefore: new Date(2025, 0, 22),
+			});
+			// Monday recorded, Tuesday absent, Wednesday to Friday planned
+			expect(result.currentWeek).toMatchObject({
+				officeDays: 4,
+				attendedDays: 1,
+				plannedDays: 3,
+			});
+		});
+	});
+
+	describe("current week", () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("ends on the last working day of the week", () => {
+			vi.useFakeTimers();
+			const request = {
+				...REQUEST,
+				marks: { "2025-01-26": "oof" },
+				settings: { ...DEFAULTS, workDays: [0, 1, 2, 3, 4] },
+			};
+
+			vi.setSystemTime(new Date(2025, 0, 22, 12)); // Wednesday
+			const wednesday = computeComplianceFromRequest(request).currentWeek;
+			expect(wednesday.weekEnd).toEqual(new Date(2025, 0, 23));
+			expect(wednesday.officeDays).toBe(5);
+
+			// Thursday is its last working day, so the week of Sunday Jan 26 is next
+			vi.setSystemTime(new Date(2025, 0, 23, 12));
+			expect(computeComplianceFromRequest(request).currentWeek.officeDays).toBe(
+				4,
+			);
+		});
+	});
+});
+
+describe("ComplianceWorkerClient", () => {
+	it("resolves each request with the response carrying its id", async () => {
+		const { fake, client } = createClient();
+		const first = client.compute(REQUEST);
+		const second = client.compute(REQUEST);
+		const [a, b] = fake.posted;
+		expect(a?.id).not.toBe(b?.id);
+
+		const secondData = { isCompliant: false } as ComplianceEventData;
+		fake.respond({ id: b?.id ?? 0, data: secondData });
+		fake.respond({ id: a?.id ?? 0, data: DATA });
+
+		await expect(first).resolves.toBe(DATA);
+		await expect(second).resolves.toBe(secondData);
+	});
+
+	it("rejects when the worker reports an error", async () => {
+		const { fake, client } = createClient();
+		const pending = client.compute(REQUEST);
+		fake.respond({ id: fake.posted[0]?.id ?? 0, error: "boom" });
+		await expect(pending).rejects.toThrow("boom");
+	});
+
+	it("rejects everything in flight on a worker error", async () => {
+		const { fake, client } = createClient();
+		const pending = client.compute(REQUEST);
+		fake.onerror?.({ message: "crashed" } as ErrorEvent);
+		await expect(pending).rejects.toThrow("crashed");
+	});
+
+	it("terminates the worker and rejects pending requests", async () => {
+		const { fake, client } = createClient();
+		const pending = client.compute(REQUEST);
+		client.terminate();
+		expect(fake.terminate).toHaveBeenCalled();
+		await expect(pending).rejects.toThrow("terminated");
+	});
+});
@@ -0,0 +1,359 @@
+/**
+ * computeWeeksFromMarks Tests
+ *
+ * Exercises the pure week computation directly: no datepainter instance,
+ * no settingsStore and no holiday integration mocks.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	computeWeeksFromMarks,
+	convertWeeksToCompliance,
+	type WeekSettings,
+} from "../compute-weeks";
+
+// ─── Fixtures ─────────────────────────────────────────────────────
+
+const SETTINGS: WeekSettings = {
+	minOfficeDays: 3,
+	sickDaysPenalize: true,
+	holidayPenalize: true,
+	weekendBonus: false,
+	anchorDays: [],
+};
+
+// Sun Jun 1 → Sat Jun 14 2025: two full weeks
+const TWO_WEEKS = {
+	startDate: new Date(2025, 5, 1),
+	endDate: new Date(2025, 5, 14),
+};
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("computeWeeksFromMarks", () => {
+	it("treats unmarked weekdays as office days", () => {
+		const weeks = computeWeeksFromMarks(new Map(), [], SETTINGS, TWO_WEEKS);
+		expect(weeks).toHaveLength(2);
+		expect(weeks.map((w) => w.officeDays)).toEqual([5, 5]);
+		expect(weeks.map((w) => w.weekNumber)).toEqual([1, 2]);
+		expect(weeks[0]?.days).toHaveLength(5);
+	});
+
+	it("counts marks per week", () => {
+		const marks = new Map([
+			["2025-06-02", "oof"],
+			["2025-06-03", "sick"],
+			["2025-06-10", "holiday"],
+		]);
+		const [first, second] = computeWeeksFromMarks(
+			marks,
+			[],
+			SETTINGS,
+			TWO_WEEKS,
+		);
+		expect(first).toMatchObject({ oofCount: 1, sickCount: 1, officeDays: 3 });
+		expect(second).toMatchObject({ holidayCount: 1, officeDays: 4 });
+	});
+
+	it("treats passed-in holidays like holiday marks", () => {
+		const [first] = computeWeeksFromMarks(
+			new Map([["2025-06-04", "oof"]]),
+			[new Date(2025, 5, 4)],
+			{ ...SETTINGS, holidayPenalize: false },
+			TWO_WEEKS,
+		);
+		// Holiday wins over the WFH mark and is excused
+		expect(first).toMatchObject({
+			oofCount: 0,
+			holidayCount: 1,
+			officeDays: 5,
+			totalDays: 4,
+		});
+	});
+
+	it("counts each half-day WFH mark as half a day", () => {
+		const marks = new Map([
+			["2025-06-02", "oof-am"],
+			["2025-06-03", "oof-pm"],
+			["2025-06-04", "oof"],
+			["2025-06-10", "oof-pm"],
+		]);
+		const [first, second] = computeWeeksFromMarks(
+			marks,
+			[],
+			SETTINGS,
+			TWO_WEEKS,
+		);
+		expect(first).toMatchObject({ oofCount: 2, officeDays: 3 });
+		expect(second).toMatchObject({ oofCount: 0.5, officeDays: 4.5 });
+	});
+
+	it("does not count a half day on an anchor day as missed", () => {
+		const [first] = computeWeeksFromMarks(
+			new Map([["2025-06-03", "oof-am"]]),
+			[],
+			{ ...SETTINGS, anchorDays: [2] },
+			TWO_WEEKS,
+		);
+		expect(first).toMatchObject({ anchorMissCount: 0, status: "compliant" });
+	});
+
+	it("adds half a bonus day for a half-day WFH weekend mark", () => {
+		const [first] = computeWeeksFromMarks(
+			new Map([["2025-06-07", "oof-pm"]]),
+			[],
+			{ ...SETTINGS, weekendBonus: true },
+			TWO_WEEKS,
+		);
+		expect(first?.officeDays).toBe(5.5);
+	});
+
+	it("counts custom states by their effect", () => {
+		const customStates = [
+			{
+				key: "custom-site" as const,
+				label: "Client site",
+				color: "#117733",
+				emoji: "🏢",
+				effect: "office" as const,
+			},
+			{
+				key: "custom-travel" as const,
+				label: "Business travel",
+				color: "#882255",
+				emoji: "✈️",
+				effect: "wfh" as const,
+			},
+			{
+				key: "custom-leave" as const,
+				label: "Parental leave",
+				color: "#CC6677",
+				emoji: "👶",
+				effect: "excluded" as const,
+			},
+		];
+		const marks = new Map([
+			["2025-06-02", "custom-site"],
+			["2025-06-03", "custom-travel"],
+			["2025-06-04", "custom-leave"],
+			["2025-06-05", "custom-leave"],
+		]);
+		const [first] = computeWeeksFromMarks(
+			marks,
+			[],
+			{ ...SETTINGS, anchorDays: [2], customStates },
+			TWO_WEEKS,
+		);
+		// Leave is excused even though holidays and sick days are penalized
+		expect(first).toMatchObject({
+			oofCount: 1,
+			officeDays: 4,
+			totalDays: 3,
+			anchorMissCount: 1,
+		});
+	});
+
+	it("gives no weekend bonus for an excluded custom state", () => {
+		const customStates = [
+			{
+				key: "custom-leave" as const,
+				label: "Parental leave",
+				color: "#CC6677",
+				emoji: "👶",
+				effect: "excluded" as const,
+			},
+		];
+		const [first] = computeWeeksFromMarks(
+			new Map([["2025-06-07", "custom-leave"]]),
+			[],
+			{ ...SETTINGS, weekendBonus: true, customStates },
+			TWO_WEEKS,
+		);
+		expect(first?.officeDays).toBe(5);
+	});
+
+	it("counts unmarked days before the attendance cutoff as absences", () => {
+		const marks = new Map([
+			["2025-06-02", "office"],
+			["2025-06-03", "oof-am"],
+		]);
+		const [first, second] = computeWeeksFromMarks(
+			marks,
+			[],
+			SETTINGS,
+			TWO_WEEKS,
+			{ actualBefore: new Date(2025, 5, 5) },
+		);
+		// Wednesday was never marked; Thursday and Friday are still planned
+		expect(first).toMatchObject({
+			absentCount: 1,
+			attendedDays: 1.5,
+			officeDays: 3.5,
+		});
+		expect(first?.days[0]?.selectionType).toBe("office");
+		expect(second).toMatchObject({
+			absentCount: 0,
+			attendedDays: 0,
+			officeDays: 5,
+		});
+	});
+
+	it("misses an anchor day with no recorded attendance", () => {
+		const [first] = computeWeeksFromMarks(
+			new Map([["2025-06-02", "office"]]),
+			[],
+			{ ...SETTINGS, anchorDays: [3] },
+			TWO_WEEKS,
+			{ actualBefore: new Date(2025, 5, 5) },
+		);
+		// Tuesday and Wednesday were never marked; Wednesday is the anchor day
+		expect(first).toMatchObject({
+			absentCount: 2,
+			anchorMissCount: 1,
+			officeDays: 3,
+			status: "anchor-missed",
+		});
+	});
+
+	it("judges weeks against the minimum from settings", () => {
+		const marks = new Map([
+			["2025-06-02", "oof"],
+			["2025-06-03", "oof"],
+			["2025-06-04", "oof"],
+		]);
+		const [strict] = computeWeeksFromMarks(marks, [], SETTINGS, TWO_WEEKS);
+		const [relaxed] = computeWeeksFromMarks(
+			marks,
+			[],
+			{ ...SETTINGS, minOfficeDays: 2 },
+			TWO_WEEKS,
+		);
+		expect(strict?.status).toBe("invalid");
+		expect(relaxed?.status).toBe("compliant");
+	});
+
+	it("starts at the first Sunday on or after the range start", () => {
+		const weeks = computeWeeksFromMarks(new Map(), [], SETTINGS, {
+			startDate: new Date(2025, 5, 4), // Wednesday
+			endDate: TWO_WEEKS.endDate,
+		});
+		expect(weeks).toHaveLength(1);
+		expect(weeks[0]?.weekStart).toEqual(new Date(2025, 5, 8));
+	});
+
+	it("groups Monday-to-Sunday weeks when weeks start on Monday", () => {
+		const weeks = computeWeeksFromMarks(
+			new Map([
+				["2025-06-08", "office"], // Sunday: end of the first week
+				["2025-06-09", "oof"],
+			]),
+			[],
+			{ ...SETTINGS, weekendBonus: true, weekStartsOn: 1 },
+			{ startDate: new Date(2025, 5, 1), endDate: new Date(2025, 5, 15) },
+		);
+		expect(weeks.map((w) => w.weekStart)).toEqual([
+			new Date(2025, 5, 2),
+			new Date(2025, 5, 9),
+		]);
+		expect(weeks.map((w) => w.officeDays)).toEqual([6, 4]);
+	});
+
+	it("counts only the configured working days", () => {
+		const marks = new Map([
+			["2025-06-01", "oof"], // Sunday: a working day
+			["2025-06-06", "office"], // Friday: the weekend
+		]);
+		const [sunToThu] = computeWeeksFromMarks(
+			marks,
+			[],
+			{ ...SETTINGS, weekendBonus: true, workDays: [0, 1, 2, 3, 4] },
+			TWO_WEEKS,
+		);
+		const [monToThu] = computeWeeksFromMarks(
+			new Map(),
+			[],
+			{ ...SETTINGS, workDays: [1, 2, 3, 4] },
+			TWO_WEEKS,
+		);
+		expect(sunToThu).toMatchObject({
+			oofCount: 1,
+			officeDays: 5,
+			totalDays: 5,
+		});
+		expect(sunToThu?.days.map((d) => d.date.getDay())).toEqual([0, 1, 2, 3, 4]);
+		expect(monToThu).toMatchObject({ officeDays: 4, totalDays: 4 });
+	});
+
+	it("lowers the minimum for a week shortened by a holiday", () => {
+		const marks = new Map([
+			["2025-06-02", "holiday"],
+			["2025-06-03", "oof"],
+			["2025-06-04", "oof"],
+		]);
+		const [penalized] = computeWeeksFromMarks(marks, [], SETTINGS, TWO_WEEKS);
+		const [prorated] = computeWeeksFromMarks(
+			marks,
+			[],
+			{ ...SETTINGS, prorateRequirement: true },
+			TWO_WEEKS,
+		);
+		expect(penalized).toMatchObject({ officeDays: 2, status: "invalid" });
+		// Two of four days meets 3 × 4/5 rounded to the nearest day
+		expect(prorated).toMatchObject({
+			officeDays: 2,
+			totalDays: 4,
+			status: "compliant",
+		});
+		const [roundedUp] = computeWeeksFromMarks(
+			marks,
+			[],
+			{ ...SETTINGS, prorateRequirement: true, prorationRounding: "ceil" },
+			TWO_WEEKS,
+		);
+		expect(roundedUp?.status).toBe("invalid");
+	});
+
+	it("excludes days on leave and marks a week on leave as excluded", () => {
+		const weeks = computeWeeksFromMarks(
+			new Map([
+				["2025-06-04", "oof"],
+				["2025-06-11", "oof"],
+			]),
+			[],
+			{
+				...SETTINGS,
+				leavePeriods: [
+					{ label: "Parental leave", start: "2025-06-05", end: "2025-06-14" },
+				],
+			},
+			TWO_WEEKS,
+		);
+		// Thursday and Friday of the first week are on leave
+		expect(weeks[0]).toMatchObject({
+			oofCount: 1,
+			officeDays: 4,
+			totalDays: 3,
+			status: "compliant",
+		});
+		// Leave overrides the WFH mark in the second week
+		expect(weeks[1]).toMatchObject({
+			oofCount: 0,
+			totalDays: 0,
+			status: "excluded",
+		});
+		expect(convertWeeksToCompliance(weeks)[1]?.status).toBe("excluded");
+	});
+
+	it("feeds the validation converters", () => {
+		const weeks = computeWeeksFromMarks(
+			new Map([["2025-06-03", "oof"]]),
+			[],
+			{ ...SETTINGS, anchorDays: [2] },
+			TWO_WEEKS,
+		);
+		expect(convertWeeksToCompliance(weeks).map((w) => w.status)).toEqual([
+			"anchor-missed",
+			"compliant",
+		]);
+	});
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import {
-	assertSundayMidnight,
+	assertWeekStartMidnight,
 	formatDate,
 	parseLocalDate,
 } from "../date-helpers";
@@ -50,23 +50,34 @@ describe("parseLocalDate", () => {
 	});
 });
 
-describe("assertSundayMidnight", () => {
+describe("assertWeekStartMidnight", () => {
 	it("should not throw for a Sunday midnight date", () => {
 		const sunday = new Date(2025, 2, 23); // Sun Mar 23 2025
 		expect(sunday.getDay()).toBe(0);
-		expect(() => assertSundayMidnight(sunday, "test context")).not.toThrow();
+		expect(() => assertWeekStartMidnight(sunday, "test context")).not.toThrow();
 	});
 
 	it("should throw for a non-Sunday date", () => {
 		const monday = new Date(2025, 2, 24); // Mon Mar 24 2025
-		expect(() => assertSundayMidnight(monday, "test context")).toThrow(
+		expect(() => assertWeekStartMidnight(monday, "test context")).toThrow(
 			"Expected Sunday",
 		);
 	});
 
+	it("should check against the configured week start", () => {
+		const monday = new Date(2025, 2, 24); // Mon Mar 24 2025
+		expect(() =>
+			assertWeekStartMidnight(monday, "test context", 1),
+		).not.toThrow();
+		const sunday = new Date(2025, 2, 23);
+		expect(() => assertWeekStartMidnight(sunday, "test context", 6)).toThrow(
+			"Expected Saturday",
+		);
+	});
+
 	it("should throw for a date with non-zero hours", () => {
 		const sunday = new Date(2025, 2, 23, 10, 0, 0); // Sun but 10am
-		expect(() => assertSundayMidnight(sunday, "test context")).toThrow(
+		expect(() => assertWeekStartMidnight(sunday, "test context")).toThrow(
 			"Expected midnight",
 		);
 	});
@@ -74,7 +85,7 @@ describe("assertSundayMidnight", () => {
 	it("should include context in error message", () => {
 		const monday = new Date(2025, 2, 24);
 		try {
-			assertSundayMidnight(monday, "readCalendarData weekStart");
+			assertWeekStartMidnight(monday, "readCalendarData weekStart");
 		} catch (e) {
 			expect((e as Error).message).toContain("readCalendarData weekStart");
 		}
@@ -13,6 +13,9 @@ import type {
 import { parseLocalDate } from "../date-helpers";
 import { HolidayManager } from "../holiday/HolidayManager";
 import { HolidayDataSourceFactory } from "../holiday/sources";
+import IcsHolidayDataSource, {
+	CUSTOM_CALENDAR_CODE,
+} from "../holiday/sources/IcsHolidayDataSource";
 
 // Mock the factory module — only getDataSource is used by HolidayManager.initialize()
 vi.mock("../holiday/sources", () => ({
@@ -72,6 +75,34 @@ const mockHolidays: Record<string, Holiday[]> = {
 			global: true,
 		},
 	],
+	"DE-2024": [
+		{
+			date: new Date(2024, 0, 1),
+			name: "New Year's Day",
+			countryCode: "DE",
+			localName: "Neujahr",
+			types: ["Public"],
+			global: true,
+		},
+		{
+			date: new Date(2024, 0, 6),
+			name: "Epiphany",
+			countryCode: "DE",
+			localName: "Heilige Drei Könige",
+			types: ["Public"],
+			global: false,
+			counties: ["DE-BW", "DE-BY", "DE-ST"],
+		},
+		{
+			date: new Date(2024, 2, 8),
+			name: "International Women's Day",
+			countryCode: "DE",
+			localName: "Frauentag",
+			types: ["Public"],
+			global: false,
+			counties: ["DE-BE", "DE-MV"],
+		},
+	],
 	"CA-2024": [
 		{
 			date: new Date(2024, 6, 1),
@@ -362,6 +393,300 @@ describe("HolidayManager", () => {
 		});
 	});
 
+	describe("Getting Long Weekends", () => {
+		it("should return an empty list when the source has no long weekends", async () => {
+			const weekends = await manager.getLongWeekends("US", [2024]);
+
+			expect(weekends).toEqual([]);
+		});
+
+		it("should merge years in date order", async () => {
+			const weekend = (month: number, year: number) => ({
+				startDate: new Date(year, month, 1),
+				endDate: new Date(year, month, 3),
+				dayCount: 3,
+				bridgeDays: [],
+			});
+			mockDataSource.getLongWeekends = vi.fn(async (year: number) =>
+				year === 2024
+					? [weekend(6, 2024), weekend(0, 2024)]
+					: [weekend(0, 2025)],
+			);
+
+			const weekends = await manager.getLongWeekends("US", [2025, 2024]);
+
+			expect(weekends.map((w) => w.startDate)).toEqual([
+				new Date(2024, 0, 1),
+				new Date(2024, 6, 1),
+				new Date(2025, 0, 1),
+			]);
+			expect(mockDataSource.getLongWeekends).toHaveBeenCalledWith(2024, "US");
+		});
+	});
+
+	describe("Subdivision Filtering", () => {
+		beforeEach(() => {
+			vi.mocked(mockDataSource.getHolidaysByYear).mockImplementation(
+				async (year, countryCode) =>
+					mockHolidays[`${countryCode}-${year}`] ?? [],
+			);
+		});
+
+		it("should keep regional holidays when no subdivision is chosen", async () => {
+			const result = await manager.fetchHolidays({
+				countryCode: "DE",
+				years: [2024],
+			});
+
+			expect(result.totalHolidays).toBe(3);
+		});
+
+		it("should keep only holidays observed in the chosen subdivision", async () => {
+			const result = await manager.fetchHolidays({
+				countryCode: "DE",
+				years: [2024],
+				subdivisionCode: "DE-BY",
+			});
+
+			expect(result.holidays.map((h) => h.name)).toEqual([
+				"New Year's Day",
+				"Epiphany",
+			]);
+		});
+
+		it("should cache each subdivision separately", async () => {
+			await manager.getHolidayDates("DE", null, [2024], false, "DE-BY");
+			const berlin = await manager.getHolidayDates(
+				"DE",
+				null,
+				[2024],
+				false,
+				"DE-BE",
+			);
+
+			expect([...berlin]).toEqual([new Date(2024, 0, 1), new Date(2024, 2, 8)]);
+		});
+	});
+
+	describe("Merging Several Countries", () => {
+		const countries = [
+			{ countryCode: "US", countsAsNonOffice: true },
+			{ countryCode: "DE", countsAsNonOffice: false },
+		];
+
+		beforeEach(() => {
+			vi.mocked(mockDataSource.getHolidaysByYear).mockImplementation(
+				async (year, countryCode) =>
+					mockHolidays[`${countryCode}-${year}`] ?? [],
+			);
+		});
+
+		afterEach(() => {
+			document.body.innerHTML = "";
+		});
+
+		it("should merge holidays in date order, keeping each country", async () => {
+			const holidays = await manager.fetchHolidaysForCountries(
+				countries,
+				[2024],
+			);
+
+			expect(holidays.map((h) => `${h.countryCode} ${h.name}`)).toEqual([
+				"US New Year's Day",
+				"DE New Year's Day",
+				"DE Epiphany",
+				"DE International Women's Day",
+				"US Independence Day",
+				"US Christmas Day",
+			]);
+		});
+
+		it("should keep the other countries when an additional one fails", async () => {
+			const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+			const fetchHolidays = manager.fetchHolidays.bind(manager);
+			const fetchSpy = vi
+				.spyOn(manager, "fetchHolidays")
+				.mockImplementation((options) =>
+					options.countryCode === "DE"
+						? Promise.reject(new Error("DE unavailable"))
+						: fetchHolidays(options),
+				);
+
+			const holidays = await manager.fetchHolidaysForCountries(
+				countries,
+				[2024],
+			);
+
+			expect(holidays.map((h) => h.countryCode)).toEqual(["US", "US", "US"]);
+			expect(warnSpy).toHaveBeenCalledWith(
+				expect.stringContaining("DE"),
+				expect.any(Error),
+			);
+			fetchSpy.mockRestore();
+			warnSpy.mockRestore();
+		});
+
+		it("should fail when the primary country fails", async () => {
+			const fetchSpy = vi
+				.spyOn(manager, "fetchHolidays")
+				.mockRejectedValue(new Error("US unavailable"));
+
+			await expect(
+				manager.fetchHolidaysForCountries(countries, [2024]),
+			).rejects.toThrow("US unavailable");
+			fetchSpy.mockRestore();
+		});
+
+		it("should tag holidays with their country's day-off rule", async () => {
+			const holidays = await manager.fetchHolidaysForCountries(
+				countries,
+				[2024],
+			);
+
+			expect(
+				holidays.filter((h) => h.countsAsNonOffice).map((h) => h.countryCode),
+			).toEqual(["US", "US", "US"]);
+		});
+
+		it("should list every country in a shared day's tooltip", async () => {
+			document.body.innerHTML = `
+        <div class="calendar-day" data-year="2024" data-month="0" data-day="1">1</div>
+        <div class="calendar-day" data-year="2024" data-month="0" data-day="6">6</div>
+      `;
+
+			await manager.applyCountryHolidaysToCalendar(countries, [2024]);
+
+			const jan1 = document.querySelector(
+				'[data-year="2024"][data-month="0"][data-day="1"]',
+			) as HTMLElement;
+			expect(jan1.title).toBe(
+				"New Year's Day (US)\nNew Year's Day (DE, not a day off)",
+			);
+			expect(jan1.dataset.holidayCountry).toBe("US,DE");
+			expect(jan1.classList.contains("out-of-office")).toBe(true);
+		});
+
+		it("should not mark informational holidays as out of office", async () => {
+			document.body.innerHTML = `
+        <div class="calendar-day" data-year="2024" data-month="0" data-day="6">6</div>
+      `;
+
+			await manager.applyCountryHolidaysToCalendar(countries, [2024]);
+
+			const jan6 = document.querySelector(".calendar-day") as HTMLElement;
+			expect(jan6.classList.contains("holiday")).toBe(true);
+			expect(jan6.classList.contains("holiday--info")).toBe(true);
+			expect(jan6.classList.contains("out-of-office")).toBe(false);
+		});
+	});
+
+	describe("Personal Company Policy", () => {
+		const acme = {
+			name: "Acme",
+			countryCode: "US",
+			holidays: ["Independence Day"],
+			extra: [
+				{ name: "Day after Independence Day", after: "Independence Day" },
+				{ name: "Founders Day", month: 3, day: 14 },
+			],
+		};
+
+		beforeEach(() => {
+			vi.mocked(mockDataSource.getHolidaysByYear).mockImplementation(
+				async (year, countryCode) =>
+					mockHolidays[`${countryCode}-${year}`] ?? [],
+			);
+		});
+
+		afterEach(() => {
+			manager.setCustomCompany(null);
+		});
+
+		it("should list the policy with its country's companies", () => {
+			manager.setCustomCompany(acme);
+
+			expect(manager.getAvailableCompanies("US")).toEqual([
+				"Amazon",
+				"Google",
+				"Acme",
+			]);
+			expect(manager.getAvailableCompanies("CA")).toEqual([]);
+			expect(manager.hasCompanyFilters("US")).toBe(true);
+		});
+
+		it("should filter and add extras like a bundled company", async () => {
+			manager.setCustomCompany(acme);
+
+			const result = await manager.fetchHolidays({
+				countryCode: "US",
+				companyName: "Acme",
+				years: [2024],
+			});
+
+			expect(result.holidays.map((h) => h.name)).toEqual([
+				"Independence Day",
+				"Day after Independence Day",
+				"Founders Day",
+			]);
+		});
+
+		it("should drop cached results when the policy changes", async () => {
+			const options = { countryCode: "US", companyName: "Acme", years: [2024] };
+			manager.setCustomCompany(acme);
+			await manager.fetchHolidays(options);
+
+			manager.setCustomCompany({ ...acme, extra: [] });
+			const result = await manager.fetchHolidays(options);
+
+			expect(result.holidays.map((h) => h.name)).toEqual(["Independence Day"]);
+		});
+	});
+
+	describe("Custom Calendar", () => {
+		beforeEach(async () => {
+			(
+				HolidayManager as unknown as { instance: HolidayManager | null }
+			).instance = null;
+			const customSource = new IcsHolidayDataSource();
+			vi.mocked(HolidayDataSourceFactory.getInstance).mockResolvedValue({
+				getDataSource: vi.fn((name: string) =>
+					name === "ics" ? customSource : mockDataSource,
+				),
+			} as unknown as HolidayDataSourceFactory);
+			manager = await HolidayManager.getInstance();
+		});
+
+		it("should serve the custom calendar code from the imported holidays", async () => {
+			manager.setCustomCalendar([{ date: "2024-08-16", name: "Company Day" }]);
+
+			const result = await manager.fetchHolidays({
+				countryCode: CUSTOM_CALENDAR_CODE,
+				years: [2024],
+			});
+
+			expect(result.holidays.map((h) => h.name)).toEqual(["Company Day"]);
+			expect(mockDataSource.getHolidaysByYear).not.toHaveBeenCalled();
+		});
+
+		it("should drop cached custom results when the calendar changes", async () => {
+			const options = { countryCode: CUSTOM_CALENDAR_CODE, years: [2024] };
+			manager.setCustomCalendar([{ date: "2024-08-16", name: "Company Day" }]);
+			await manager.fetchHolidays(options);
+
+			manager.setCustomCalendar([{ date: "2024-09-02", name: "Retreat" }]);
+			const result = await manager.fetchHolidays(options);
+
+			expect(result.holidays.map((h) => h.name)).toEqual(["Retreat"]);
+		});
+
+		it("should report ICS parse errors on import", () => {
+			const result = manager.importCustomCalendar("not an ics file");
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("Invalid ICS data");
+		});
+	});
+
 	describe("Applying Holidays to Calendar", () => {
 		beforeEach(() => {
 			// Setup DOM environment
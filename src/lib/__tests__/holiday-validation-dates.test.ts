@@ -0,0 +1,55 @@
+/**
+ * Holiday Dates for Validation Tests
+ *
+ * getHolidayDatesForValidation keeps the holidays that fall on the
+ * configured working days, whatever the length of the work week.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getHolidayDatesForValidation } from "../holiday/CalendarHolidayIntegration";
+import { DEFAULTS } from "../settings-constants";
+import { settingsStore } from "../stores/settingsStore";
+
+// Sun Apr 6, Thu Apr 10 and Fri Apr 11 2025
+const HOLIDAYS = [
+	new Date(2025, 3, 6),
+	new Date(2025, 3, 10),
+	new Date(2025, 3, 11),
+];
+
+vi.mock("../holiday/HolidayManager", () => ({
+	getHolidayManager: vi.fn().mockResolvedValue({
+		setCustomCalendar: vi.fn(),
+		setCustomCompany: vi.fn(),
+		fetchHolidaysForCountries: vi.fn(async () =>
+			HOLIDAYS.map((date) => ({ date, name: "Holiday", countryCode: "IL" })),
+		),
+	}),
+}));
+
+function setWorkDays(workDays: number[]): void {
+	settingsStore.set({
+		...DEFAULTS,
+		saveData: true,
+		workDays,
+		holidays: { ...DEFAULTS.holidays, countryCode: "IL" },
+	});
+}
+
+afterEach(() => {
+	settingsStore.set(DEFAULTS);
+});
+
+describe("getHolidayDatesForValidation", () => {
+	it("keeps a Sunday holiday in a Sunday-to-Thursday week", async () => {
+		setWorkDays([0, 1, 2, 3, 4]);
+		const dates = [...(await getHolidayDatesForValidation())];
+		expect(dates).toEqual([new Date(2025, 3, 6), new Date(2025, 3, 10)]);
+	});
+
+	it("keeps only Monday-to-Friday holidays by default", async () => {
+		setWorkDays(DEFAULTS.workDays);
+		const dates = [...(await getHolidayDatesForValidation())];
+		expect(dates).toEqual([new Date(2025, 3, 10), new Date(2025, 3, 11)]);
+	});
+});
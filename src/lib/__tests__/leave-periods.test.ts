@@ -0,0 +1,62 @@
+/**
+ * Leave Periods Tests
+ *
+ * - Days inside a period, ends included, are on leave
+ * - Validation catches labels, dates and overlaps the editor must reject
+ */
+
+import { describe, expect, it } from "vitest";
+import { isOnLeave, validateLeavePeriod } from "../leave-periods";
+import type { LeavePeriod } from "../settings-constants";
+
+const PARENTAL: LeavePeriod = {
+	label: "Parental leave",
+	start: "2025-06-02",
+	end: "2025-06-27",
+};
+
+describe("isOnLeave", () => {
+	it("includes both ends of a period", () => {
+		expect(isOnLeave("2025-06-02", [PARENTAL])).toBe(true);
+		expect(isOnLeave("2025-06-27", [PARENTAL])).toBe(true);
+		expect(isOnLeave("2025-06-01", [PARENTAL])).toBe(false);
+		expect(isOnLeave("2025-06-28", [PARENTAL])).toBe(false);
+	});
+
+	it("is never on leave without periods", () => {
+		expect(isOnLeave("2025-06-10", [])).toBe(false);
+	});
+});
+
+describe("validateLeavePeriod", () => {
+	it("accepts a labelled period that ends on or after its start", () => {
+		expect(validateLeavePeriod(PARENTAL, [])).toEqual([]);
+		expect(
+			validateLeavePeriod(
+				{ label: "Day off", start: "2025-07-01", end: "2025-07-01" },
+				[PARENTAL],
+			),
+		).toEqual([]);
+	});
+
+	it("requires a label and valid dates", () => {
+		expect(
+			validateLeavePeriod({ label: " ", start: "", end: "2025-06-30" }, []),
+		).toEqual(["Label is required", "Start and end must be valid dates"]);
+	});
+
+	it("rejects an end before the start", () => {
+		expect(validateLeavePeriod({ ...PARENTAL, end: "2025-05-30" }, [])).toEqual(
+			["End must be on or after the start"],
+		);
+	});
+
+	it("rejects a period overlapping another", () => {
+		expect(
+			validateLeavePeriod(
+				{ label: "Sabbatical", start: "2025-06-27", end: "2025-08-01" },
+				[PARENTAL],
+			),
+		).toEqual(['Overlaps "Parental leave"']);
+	});
+});
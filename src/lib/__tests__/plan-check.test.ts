@@ -0,0 +1,191 @@
+/**
+ * Plan Check Tests
+ *
+ * Tests loading JSON/ICS exports and evaluating them headlessly with the
+ * same pipeline auto-compliance uses.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import { formatDate } from "../date-helpers";
+import {
+	checkPlan,
+	detectPlanFormat,
+	formatComplianceReport,
+	loadPlan,
+} from "../plan-check";
+
+// ─── Fixtures ─────────────────────────────────────────────────────
+
+// Sun Jan 4 2026 → Sat Mar 28 2026: exactly 12 weeks
+const RANGE = {
+	startDate: new Date(2026, 0, 4),
+	endDate: new Date(2026, 2, 28),
+};
+
+function exportJSON(
+	oofRanges: { start: string; end: string }[],
+	settings: Record<string, unknown> = {},
+): string {
+	const category = (label: string) => ({
+		label,
+		color: "#000000",
+		emoji: "x",
+		dates: [],
+	});
+	return JSON.stringify({
+		version: 1,
+		exportDate: "2026-01-01T00:00:00.000Z",
+		categories: {
+			oof: { ...category("Work From Home"), ranges: oofRanges },
+			holiday: category("Holiday"),
+			sick: category("Sick Day"),
+		},
+		settings,
+	});
+}
+
+// Mon Jan 5 2026, WFH all week
+const ICS_ONE_WFH_WEEK = [
+	"BEGIN:VCALENDAR",
+	"VERSION:2.0",
+	"PRODID:-//Test//EN",
+	"BEGIN:VEVENT",
+	"UID:test-1@test",
+	"DTSTAMP:20260213T000000Z",
+	"DTSTART;VALUE=DATE:20260105",
+	"DTEND;VALUE=DATE:20260110",
+	"SUMMARY:Work From Home",
+	"CATEGORIES:oof",
+	"END:VEVENT",
+	"END:VCALENDAR",
+].join("\r\n");
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("detectPlanFormat", () => {
+	it("uses ICS only for .ics files", () => {
+		expect(detectPlanFormat("plan.ICS")).toBe("ics");
+		expect(detectPlanFormat("plan.json")).toBe("json");
+		expect(detectPlanFormat("plan")).toBe("json");
+	});
+});
+
+describe("loadPlan", () => {
+	it("expands JSON ranges into marks and merges settings over defaults", () => {
+		const result = loadPlan(
+			exportJSON([{ start: "2026-01-05", end: "2026-01-07" }], {
+				minOfficeDays: 2,
+			}),
+			"json",
+		);
+		expect(result.success).toBe(true);
+		expect([...(result.plan?.marks.keys() ?? [])]).toEqual([
+			"2026-01-05",
+			"2026-01-06",
+			"2026-01-07",
+		]);
+		expect(result.plan?.settings.minOfficeDays).toBe(2);
+		expect(result.plan?.settings.rollingWindowWeeks).toBe(12);
+	});
+
+	it("reads ICS events with default settings", () => {
+		const result = loadPlan(ICS_ONE_WFH_WEEK, "ics");
+		expect(result.success).toBe(true);
+		expect(result.plan?.marks.get("2026-01-09")).toBe("oof");
+		expect(result.plan?.settings.policyKind).toBe("best-k");
+	});
+
+	it("reports parse errors instead of throwing", () => {
+		expect(loadPlan("{", "json")).toEqual({
+			success: false,
+			error: "Invalid JSON",
+		});
+		expect(loadPlan("not a calendar", "ics").success).toBe(false);
+	});
+});
+
+describe("checkPlan", () => {
+	it("passes when the dropped weeks absorb the WFH", () => {
+		const { plan } = loadPlan(ICS_ONE_WFH_WEEK, "ics");
+		const data = checkPlan(plan!, RANGE);
+		expect(data.isCompliant).toBe(true);
+		expect(data.allSummaries).toHaveLength(1);
+	});
+
+	it("fails when more weeks are WFH than best-k can drop", () => {
+		// Nine full WFH weeks: Jan 5 – Mar 6
+		const { plan } = loadPlan(
+			exportJSON([{ start: "2026-01-05", end: "2026-03-06" }]),
+			"json",
+		);
+		const data = checkPlan(plan!, RANGE);
+		expect(data.isCompliant).toBe(false);
+		expect(data.message).toMatch(/^Not compliant: Best 8 of 12 weeks/);
+	});
+
+	it("counts weeks against the working days in the export", () => {
+		// WFH every Monday and Tuesday: 3 of 5 days in, but only 2 of Mon-Thu
+		const ranges = Array.from({ length: 12 }, (_, i) => ({
+			start: formatDate(new Date(2026, 0, 5 + i * 7)),
+			end: formatDate(new Date(2026, 0, 6 + i * 7)),
+		}));
+		const fiveDay = checkPlan(
+			loadPlan(exportJSON(ranges), "json").plan!,
+			RANGE,
+		);
+		const fourDay = checkPlan(
+			loadPlan(exportJSON(ranges, { workDays: [1, 2, 3, 4] }), "json").plan!,
+			RANGE,
+		);
+
+		expect(fiveDay.isCompliant).toBe(true);
+		expect(fourDay.isCompliant).toBe(false);
+		expect(fourDay.averageOfficeDays).toBe(2);
+		expect(fourDay.totalWorkingDays).toBe(24);
+	});
+
+	it("counts unmarked past days as absences when tracking attendance", () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(2026, 2, 9, 12)); // Monday, week 10
+		try {
+			const untracked = checkPlan(
+				loadPlan(exportJSON([]), "json").plan!,
+				RANGE,
+			);
+			const tracked = checkPlan(
+				loadPlan(exportJSON([], { trackAttendance: true }), "json").plan!,
+				RANGE,
+			);
+
+			expect(untracked.isCompliant).toBe(true);
+			expect(untracked.planned).toBeUndefined();
+			// Nine past weeks without an office mark are missed
+			expect(tracked.isCompliant).toBe(false);
+			expect(tracked.planned).toMatchObject({ isCompliant: true });
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it("applies the policy stored in the export", () => {
+		const { plan } = loadPlan(ICS_ONE_WFH_WEEK, "ics");
+		const data = checkPlan(
+			{ ...plan!, settings: { ...plan!.settings, policyKind: "every-week" } },
+			RANGE,
+		);
+		expect(data.isCompliant).toBe(false);
+	});
+});
+
+describe("formatComplianceReport", () => {
+	it("lists each failing window", () => {
+		const { plan } = loadPlan(
+			exportJSON([{ start: "2026-01-05", end: "2026-03-06" }]),
+			"json",
+		);
+		const report = formatComplianceReport(checkPlan(plan!, RANGE));
+		expect(report).toContain("Result: NOT COMPLIANT");
+		expect(report).toContain("Windows evaluated: 1 (1 failing)");
+		expect(report).toContain("Failing windows:\n  Jan 4, 2026 – Mar 27, 2026:");
+	});
+});
@@ -0,0 +1,110 @@
+/**
+ * Profile Switching Tests
+ *
+ * - The outgoing profile is parked under its namespaced keys
+ * - The incoming profile's marks and settings replace the live ones
+ * - Device-level settings survive the switch; compliance is recomputed
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../auto-compliance", () => ({
+	requestComplianceRecompute: vi.fn(),
+}));
+
+import { mockCalendarInstance } from "../../utils/astro/__tests__/testHelpers";
+import { requestComplianceRecompute } from "../auto-compliance";
+import { readProfileSnapshot, switchProfile } from "../profiles";
+import { DEFAULTS } from "../settings-constants";
+import {
+	clearProfiles,
+	createProfile,
+	DEFAULT_PROFILE_ID,
+	profileStore,
+	readStoredSnapshot,
+	writeStoredSnapshot,
+} from "../stores/profileStore";
+import { settingsStore } from "../stores/settingsStore";
+
+describe("switchProfile", () => {
+	beforeEach(() => {
+		localStorage.clear();
+		clearProfiles();
+		settingsStore.set({ ...DEFAULTS, saveData: true, minOfficeDays: 3 });
+		vi.clearAllMocks();
+	});
+
+	it("parks the current profile and loads the next one", () => {
+		const calendar = mockCalendarInstance({ oof: ["2025-03-03"] });
+		const { id } = createProfile("Second job");
+		writeStoredSnapshot(id, {
+			settings: { ...DEFAULTS, minOfficeDays: 2 },
+			marks: {
+				"2025-03-04": "sick",
+				"2025-03-05": "sick",
+				"2025-03-06": "oof",
+			},
+		});
+
+		switchProfile(calendar, id);
+
+		expect(readStoredSnapshot(DEFAULT_PROFILE_ID)).toEqual({
+			settings: { ...DEFAULTS, saveData: true, minOfficeDays: 3 },
+			marks: { "2025-03-03": "oof" },
+		});
+		expect(calendar.clearAll).toHaveBeenCalled();
+		expect(calendar.setDates).toHaveBeenCalledWith(
+			["2025-03-04", "2025-03-05"],
+			"sick",
+		);
+		expect(calendar.setDates).toHaveBeenCalledWith(["2025-03-06"], "oof");
+		expect(settingsStore.get().minOfficeDays).toBe(2);
+		expect(profileStore.get().activeId).toBe(id);
+		expect(requestComplianceRecompute).toHaveBeenCalledOnce();
+	});
+
+	it("keeps device-level settings across profiles", () => {
+		const calendar = mockCalendarInstance({});
+		const { id } = createProfile("Partner");
+		switchProfile(calendar, id);
+		expect(settingsStore.get().saveData).toBe(true);
+	});
+
+	it("does nothing when the profile is already active", () => {
+		const calendar = mockCalendarInstance({});
+		switchProfile(calendar, DEFAULT_PROFILE_ID);
+		expect(calendar.clearAll).not.toHaveBeenCalled();
+		expect(requestComplianceRecompute).not.toHaveBeenCalled();
+	});
+
+	it("rejects unknown profiles", () => {
+		const calendar = mockCalendarInstance({});
+		expect(() => switchProfile(calendar, "nobody")).toThrow(
+			"Unknown profile: nobody",
+		);
+	});
+});
+
+describe("readProfileSnapshot", () => {
+	beforeEach(() => {
+		localStorage.clear();
+		clearProfiles();
+		settingsStore.set(DEFAULTS);
+	});
+
+	it("reads the active profile live and others from storage", () => {
+		const calendar = mockCalendarInstance({ holiday: ["2025-12-25"] });
+		const { id } = createProfile("Partner");
+		writeStoredSnapshot(id, {
+			settings: DEFAULTS,
+			marks: { "2025-01-02": "oof" },
+		});
+
+		expect(readProfileSnapshot(calendar, DEFAULT_PROFILE_ID).marks).toEqual({
+			"2025-12-25": "holiday",
+		});
+		expect(readProfileSnapshot(calendar, id).marks).toEqual({
+			"2025-01-02": "oof",
+		});
+	});
+});
@@ -338,6 +338,29 @@ describe("validateSlidingWindow", () => {
 			}
 		});
 
+		it("rounded message agrees with the rounded verdict", () => {
+			const rounded = { ...DEFAULT_RTO_POLICY, roundPercentage: true };
+			// Best 8 average 2.5 days: 50% rounds to 60%
+			const passing = validateSlidingWindow(
+				makeSchedule(START, [4, 3], [4, 2], [4, 0]),
+				rounded,
+			);
+			// Best 8 average 2.25 days: 45% rounds to 40%
+			const failing = validateSlidingWindow(
+				makeSchedule(START, [2, 3], [6, 2], [4, 0]),
+				rounded,
+			);
+
+			expect(passing.isValid).toBe(true);
+			expect(passing.message).toContain(
+				"Compliant: Best 8 of 12 weeks average (rounded) 3 office days",
+			);
+			expect(failing.isValid).toBe(false);
+			expect(failing.message).toContain(
+				"Not compliant: Best 8 of 12 weeks average (rounded) 2 office days",
+			);
+		});
+
 		it("invalidWeekStart is null when valid", () => {
 			const weeks = makeWeeks(START, 12, 5);
 			const result = validateSlidingWindow(weeks, DEFAULT_RTO_POLICY);
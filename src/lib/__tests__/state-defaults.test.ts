@@ -0,0 +1,132 @@
+/**
+ * State Defaults Tests
+ *
+ * - Custom states join the built-in metadata and datepainter config
+ * - Keys are derived from labels and never collide
+ * - Validation catches labels, colors and emoji the editor must reject
+ */
+
+import { describe, expect, it } from "vitest";
+import type { CustomDayState } from "../settings-constants";
+import {
+	createCustomStateKey,
+	getDefaultStates,
+	getStateMetadata,
+	getWfhShare,
+	isExcludedState,
+	validateCustomState,
+} from "../state-defaults";
+
+const TRAVEL: CustomDayState = {
+	key: "custom-business-travel",
+	label: "Business travel",
+	color: "#882255",
+	emoji: "✈️",
+	effect: "wfh",
+};
+
+const LEAVE: CustomDayState = {
+	key: "custom-parental-leave",
+	label: "Parental leave",
+	color: "#DDCC77",
+	emoji: "👶",
+	effect: "excluded",
+};
+
+describe("getStateMetadata", () => {
+	it("adds custom states after the built-in ones", () => {
+		const metadata = getStateMetadata([TRAVEL]);
+		expect(Object.keys(metadata)).toEqual([
+			"oof",
+			"oof-am",
+			"oof-pm",
+			"holiday",
+			"sick",
+			"office",
+			"custom-business-travel",
+		]);
+		expect(metadata["custom-business-travel"]).toMatchObject({
+			label: "Business travel",
+			bgColor: "#882255",
+			icon: "✈️",
+			wfhShare: 1,
+		});
+	});
+
+	it("picks readable text for light and dark colors", () => {
+		const metadata = getStateMetadata([TRAVEL, LEAVE]);
+		expect(metadata["custom-business-travel"]?.color).toBe("#ffffff");
+		expect(metadata["custom-parental-leave"]?.color).toBe("#1e293b");
+	});
+
+	it("feeds custom states into the datepainter config", () => {
+		expect(getDefaultStates([LEAVE])["custom-parental-leave"]).toEqual({
+			label: "Parental leave",
+			color: "#1e293b",
+			bgColor: "#DDCC77",
+			icon: "👶",
+			position: "below",
+		});
+	});
+});
+
+describe("custom state effects", () => {
+	it("counts only wfh custom states as out of the office", () => {
+		expect(getWfhShare("custom-business-travel", [TRAVEL, LEAVE])).toBe(1);
+		expect(getWfhShare("custom-parental-leave", [TRAVEL, LEAVE])).toBe(0);
+		expect(getWfhShare("oof-am", [TRAVEL])).toBe(0.5);
+	});
+
+	it("excludes only excluded custom states", () => {
+		expect(isExcludedState("custom-parental-leave", [TRAVEL, LEAVE])).toBe(
+			true,
+		);
+		expect(isExcludedState("custom-business-travel", [TRAVEL, LEAVE])).toBe(
+			false,
+		);
+		expect(isExcludedState("holiday", [TRAVEL, LEAVE])).toBe(false);
+	});
+});
+
+describe("createCustomStateKey", () => {
+	it("slugifies the label", () => {
+		expect(createCustomStateKey("Client Site (NYC)", [])).toBe(
+			"custom-client-site-nyc",
+		);
+		expect(createCustomStateKey("🎉", [])).toBe("custom-state");
+	});
+
+	it("adds a number when the key is taken", () => {
+		expect(createCustomStateKey("Business travel", [TRAVEL])).toBe(
+			"custom-business-travel-2",
+		);
+	});
+});
+
+describe("validateCustomState", () => {
+	it("accepts a complete state", () => {
+		expect(validateCustomState(TRAVEL, [LEAVE])).toEqual([]);
+	});
+
+	it("rejects labels used by built-in or other custom states", () => {
+		expect(validateCustomState({ ...TRAVEL, label: "holiday" }, [])).toEqual([
+			'A state named "holiday" already exists',
+		]);
+		expect(
+			validateCustomState({ ...TRAVEL, label: " Parental Leave " }, [LEAVE]),
+		).toEqual(['A state named "Parental Leave" already exists']);
+	});
+
+	it("reports missing labels, bad colors and missing emoji", () => {
+		expect(
+			validateCustomState(
+				{ ...TRAVEL, label: " ", color: "red", emoji: "" },
+				[],
+			),
+		).toEqual([
+			"Label is required",
+			"Color must be a #RRGGBB hex value",
+			"Emoji is required",
+		]);
+	});
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { COUNTRIES } from "../holiday/data/countries";
+import { getSubdivisions, SUBDIVISIONS } from "../holiday/data/subdivisions";
+
+describe("SUBDIVISIONS", () => {
+	it("should only list countries the app offers", () => {
+		const codes = new Set(COUNTRIES.map((c) => c.code));
+		for (const countryCode of Object.keys(SUBDIVISIONS)) {
+			expect(codes.has(countryCode)).toBe(true);
+		}
+	});
+
+	it("should use unique ISO 3166-2 codes of their country", () => {
+		for (const [countryCode, subdivisions] of Object.entries(SUBDIVISIONS)) {
+			const codes = subdivisions.map((s) => s.code);
+			expect(new Set(codes).size).toBe(codes.length);
+			for (const code of codes) {
+				expect(code).toMatch(new RegExp(`^${countryCode}-[A-Z0-9]{1,3}$`));
+			}
+		}
+	});
+
+	it("should return an empty list for countries without subdivisions", () => {
+		expect(getSubdivisions("FR")).toEqual([]);
+		expect(getSubdivisions("DE")).toContainEqual({
+			code: "DE-BY",
+			name: "Bavaria",
+		});
+	});
+});
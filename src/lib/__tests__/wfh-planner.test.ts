@@ -0,0 +1,109 @@
+/**
+ * WFH Planner Tests
+ *
+ * - Suggestions never break a window (cross-checked with the full pipeline)
+ * - Weekday, keep-free, existing marks, holidays and anchor days are honoured
+ * - maxDays caps the plan; a policy with no slack yields no suggestions
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	type ComplianceRequest,
+	computeComplianceFromRequest,
+} from "../compliance-request";
+import { DEFAULTS } from "../settings-constants";
+import { DEFAULT_PLANNER_TARGET, planWfhDays } from "../validation/wfh-planner";
+
+// ─── Fixtures ─────────────────────────────────────────────────────
+
+// Judge raw office days so the minimum setting is exact
+const SETTINGS = { ...DEFAULTS, roundPercentage: false };
+
+// Sun Jan 5 → Sat Jun 28 2025: 25 full weeks
+const REQUEST: ComplianceRequest = {
+	marks: {},
+	holidays: [],
+	settings: SETTINGS,
+	range: {
+		startDate: new Date(2025, 0, 5),
+		endDate: new Date(2025, 5, 28),
+	},
+};
+
+const FROM = new Date(2025, 0, 5);
+
+function applyPlan(request: ComplianceRequest, dates: string[]) {
+	const marks = { ...request.marks };
+	for (const date of dates) marks[date] = "oof";
+	return computeComplianceFromRequest({ ...request, marks });
+}
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("planWfhDays", () => {
+	it("fills the horizon without breaking any window", () => {
+		const plan = planWfhDays(REQUEST, DEFAULT_PLANNER_TARGET, FROM);
+		// Best 8 of 12 at 3 days: 4 full WFH weeks + 2 WFH days in 8 others
+		expect(plan.dates).toHaveLength(36);
+		expect(plan.candidateCount).toBe(60);
+		expect(
+			applyPlan(REQUEST, plan.dates).allSummaries.every((s) => s.isValid),
+		).toBe(true);
+	});
+
+	it("spreads days across weeks before doubling up", () => {
+		const plan = planWfhDays(
+			REQUEST,
+			{ ...DEFAULT_PLANNER_TARGET, maxDays: 12 },
+			FROM,
+		);
+		// One Monday per week for the first pass
+		expect(plan.dates).toHaveLength(12);
+		expect(
+			plan.dates.every((d) => new Date(`${d}T00:00:00`).getDay() === 1),
+		).toBe(true);
+	});
+
+	it("only suggests the chosen weekdays", () => {
+		const plan = planWfhDays(
+			REQUEST,
+			{ ...DEFAULT_PLANNER_TARGET, weekdays: [5] },
+			FROM,
+		);
+		expect(plan.dates).toHaveLength(12);
+		expect(plan.dates[0]).toBe("2025-01-10");
+		expect(
+			plan.dates.every((d) => new Date(`${d}T00:00:00`).getDay() === 5),
+		).toBe(true);
+	});
+
+	it("skips kept-free dates, marked dates, holidays and anchor days", () => {
+		const request: ComplianceRequest = {
+			...REQUEST,
+			marks: { "2025-01-07": "sick" },
+			holidays: [new Date(2025, 0, 8)],
+			settings: { ...SETTINGS, anchorDays: [4] },
+		};
+		const plan = planWfhDays(
+			request,
+			{ ...DEFAULT_PLANNER_TARGET, horizonWeeks: 1, keepFree: ["2025-01-06"] },
+			FROM,
+		);
+		expect(plan.dates).toEqual(["2025-01-10"]);
+		expect(plan.candidateCount).toBe(1);
+	});
+
+	it("suggests nothing when any WFH day would break a window", () => {
+		const request = {
+			...REQUEST,
+			settings: {
+				...SETTINGS,
+				policyKind: "every-week" as const,
+				minOfficeDays: 5,
+			},
+		};
+		const plan = planWfhDays(request, DEFAULT_PLANNER_TARGET, FROM);
+		expect(plan.dates).toEqual([]);
+		expect(plan.candidateCount).toBe(60);
+	});
+});
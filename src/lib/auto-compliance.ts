@@ -5,17 +5,24 @@
  * reads calendar data, runs sliding-window validation across ALL 12-week windows,
  * and writes compliance results to the complianceStore nanostore.
  *
- * The computation logic is separated into compute-compliance.ts.
+ * The computation logic is separated into compute-compliance.ts. Where Web
+ * Workers are available it runs in compliance-worker.ts, fed a serialized
+ * snapshot of the calendar; otherwise (and if the worker fails) it runs on
+ * the main thread.
  *
  * @module auto-compliance
  */
 
 import type { CalendarInstance } from "../../packages/datepainter/src/types";
 import { logger } from "../utils/logger";
-import { computeComplianceData } from "./compute-compliance";
+import { readComplianceRequest } from "./calendar-data-reader";
+import { computeComplianceFromRequest } from "./compliance-request";
+import {
+	type ComplianceWorkerClient,
+	createComplianceWorkerClient,
+} from "./compliance-worker-client";
 import { complianceStore } from "./stores/complianceStore";
 import { onSettingsChange } from "./stores/settingsStore";
-import { computeWindowEvaluation } from "./validation/window-evaluation";
 
 // Re-export ComplianceEventData for backward compatibility
 export type { ComplianceEventData } from "./compute-compliance";
@@ -30,6 +37,18 @@ export function isAutoComplianceReady(): boolean {
 	return initialized;
 }
 
+/**
+ * Recompute compliance now, skipping the debounce.
+ * Used after bulk swaps such as a profile switch.
+ */
+export function requestComplianceRecompute(): void {
+	enqueueEvent({
+		type: "manual-trigger",
+		timestamp: Date.now(),
+		force: true,
+	});
+}
+
 // ─── Computing State Helpers ────────────────────────────────────────
 
 function setComputingState(active: boolean): void {
@@ -60,12 +79,13 @@ export type AutoComplianceEvent =
 
 /**
  * Debounce delays for different event types.
- * - state-change: 1500ms (wait for user to finish marking dates)
+ * - state-change: 250ms (coalesce a drag-paint; the worker re-scores
+ *   incrementally, so single-date edits are cheap)
  * - settings-change: 300ms (more responsive for settings UI)
  * - manual-trigger: 0ms (immediate)
  */
 const DEBOUNCE_DELAYS = {
-	"state-change": 1500,
+	"state-change": 250,
 	"settings-change": 300,
 	"manual-trigger": 0,
 } as const;
@@ -81,7 +101,7 @@ const DEBOUNCE_DELAYS = {
  * - Single queue: All events are queued and processed FIFO
  * - Single worker: Only one computation runs at a time
  * - Debouncing: Waits for inactivity before starting processing
- * - Type-aware: Settings changes use shorter debounce (300ms) for responsiveness
+ * - Type-aware: each event type has its own debounce (see DEBOUNCE_DELAYS)
  */
 class EventQueue {
 	private queue: AutoComplianceEvent[] = [];
@@ -230,15 +250,29 @@ export { EventQueue };
 
 let initialized = false;
 let eventQueue: EventQueue | null = null;
+let workerClient: ComplianceWorkerClient | null = null;
 // Buffer for events that arrive before EventQueue is ready
 let pendingEvents: AutoComplianceEvent[] = [];
 
 async function runComputation(
 	calendarManager: CalendarInstance,
 ): Promise<void> {
-	const evaluation = await computeWindowEvaluation(calendarManager);
-	const data = computeComplianceData(evaluation);
-	complianceStore.set(data);
+	const request = await readComplianceRequest(calendarManager);
+	if (workerClient) {
+		try {
+			complianceStore.set(await workerClient.compute(request));
+			return;
+		} catch (error) {
+			logger.warn(
+				"[Auto-Compliance] Worker failed, computing on main thread:",
+				error,
+			);
+			workerClient.terminate();
+			workerClient = null;
+		}
+	}
+
+	complianceStore.set(computeComplianceFromRequest(request));
 }
 
 /**
@@ -314,6 +348,8 @@ function initAutoCompliance(): void {
 		return;
 	}
 
+	workerClient = createComplianceWorkerClient();
+
 	// Initialize event queue
 	eventQueue = new EventQueue();
 	eventQueue.setCalendarManager(calendarManager);
@@ -365,6 +401,11 @@ export const _testExports = {
 		pendingEvents = [];
 		eventQueue = null;
 		initialized = false;
+		workerClient?.terminate();
+		workerClient = null;
+	},
+	setWorkerClient: (client: ComplianceWorkerClient | null): void => {
+		workerClient = client;
 	},
 	setEventQueue: (queue: EventQueue | null): void => {
 		eventQueue = queue;
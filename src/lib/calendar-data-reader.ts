@@ -1,29 +1,32 @@
 /**
  * Calendar Data Reader Layer
  *
- * Pure function layer that reads calendar data from datepainter API and returns typed data structures.
- * This layer extracts data from the calendar manager for validation and statistics.
+ * Reads calendar data from the datepainter API and returns typed data structures.
+ * The week computation itself lives in compute-weeks.ts; this layer only
+ * collects its inputs from the running app.
  *
  * @module calendar-data-reader
  */
 
 import type { CalendarInstance } from "../../packages/datepainter/src/types";
-import type { DayInfo, WeekInfo } from "../types/index";
+import type { WeekInfo } from "../types/index";
 import { logger } from "../utils/logger";
-import { assertSundayMidnight } from "./date-helpers";
+import type { ComplianceRequest } from "./compliance-request";
+import { computeWeeksFromMarks, getAttendanceOptions } from "./compute-weeks";
 import { getDateRange } from "./dateUtils";
 import { getHolidayDatesForValidation } from "./holiday/CalendarHolidayIntegration";
 import { RTO_CONFIG } from "./rto-config";
-import { getStartOfWeek, isWeekday } from "./validation/rto-core";
 
-/** Number of weekdays in a standard work week */
-const WEEKDAY_COUNT = 5;
+// Re-export the pure converters for existing importers
+export {
+	convertWeeksToCompliance,
+	weekInfoToWeekCompliance,
+} from "./compute-weeks";
 
 /**
  * Configuration for calendar reading
  */
 export interface CalendarReaderConfig {
-	minOfficeDaysPerWeek: number;
 	totalWeekdaysPerWeek: number;
 	DEBUG: boolean;
 	weekendBonus?: boolean;
@@ -33,7 +36,6 @@ export interface CalendarReaderConfig {
  * Default configuration for calendar data reading
  */
 export const DEFAULT_CALENDAR_READER_CONFIG: CalendarReaderConfig = {
-	minOfficeDaysPerWeek: RTO_CONFIG.minOfficeDaysPerWeek,
 	totalWeekdaysPerWeek: RTO_CONFIG.totalWeekdaysPerWeek,
 	DEBUG: RTO_CONFIG.DEBUG,
 };
@@ -53,9 +55,9 @@ import { settingsStore } from "./stores/settingsStore";
 /**
  * Read calendar data from datepainter API into pure data structure
  *
- * This function queries the calendar manager's internal state and builds a complete data model.
- * Iterates through ALL weeks in the calendar range, not just painted dates.
- * Integrates holiday dates to properly treat holidays as non-office days.
+ * Thin adapter over computeWeeksFromMarks: gathers the marked dates from the
+ * calendar manager, holidays from the configured holiday source, settings
+ * from settingsStore and the app's calendar range, then builds the weeks.
  *
  * @param calendarManager - CalendarInstance providing access to calendar state
  * @param config - Configuration options for reading
@@ -76,161 +78,16 @@ export async function readCalendarData(
 
 	// Get holiday dates for validation (holidays are non-office days)
 	const holidayDates = await getHolidayDatesForValidation();
-	const holidaySet = new Set(
-		Array.from(holidayDates).map((d: Date) => d.toDateString()),
-	);
-
-	// Build lookup map from datepainter state: dateString -> DateState
-	const allDates = calendarManager.getAllDates();
-	const dateStateLookup = new Map<string, string>();
-	for (const [dateString, state] of allDates) {
-		dateStateLookup.set(dateString, state);
-	}
-
-	// Get the full calendar range
-	const range = getDateRange();
-
-	// Read penalize settings from nanostore
-	const appSettings = settingsStore.get();
-	const sickDaysPenalize = appSettings.sickDaysPenalize;
-	const holidayPenalize = appSettings.holidayPenalize;
-	const weekendBonus = appSettings.weekendBonus;
-
-	// Iterate through ALL Sunday-aligned weeks in the calendar range
-	const weeks: WeekInfo[] = [];
-	let totalHolidayDays = 0;
-
-	// Start from the first Sunday on or after the range start
-	let weekStart = getStartOfWeek(range.startDate);
-	assertSundayMidnight(weekStart, "readCalendarData initial weekStart");
-	// If weekStart is before range start, advance to next Sunday
-	if (weekStart < range.startDate) {
-		weekStart = new Date(weekStart);
-		weekStart.setDate(weekStart.getDate() + 7);
-		assertSundayMidnight(weekStart, "readCalendarData advanced weekStart");
-	}
-
-	while (weekStart <= range.endDate) {
-		const days: DayInfo[] = [];
-		let oofCount = 0;
-		let holidayCount = 0;
-		let sickCount = 0;
-		let weekendOfficeCount = 0;
-
-		// Check each day in this week (isWeekday filters to Mon-Fri)
-		for (let i = 0; i < 7; i++) {
-			const date = new Date(weekStart);
-			date.setDate(weekStart.getDate() + i);
-
-			// Skip days beyond the range
-			if (date > range.endDate) break;
-
-			const weekday = isWeekday(date);
-
-			// Weekend bonus: count office-marked weekend days before skipping
-			if (!weekday) {
-				if (weekendBonus) {
-					const year = date.getFullYear();
-					const month = String(date.getMonth() + 1).padStart(2, "0");
-					const day = String(date.getDate()).padStart(2, "0");
-					const dateKey = `${year}-${month}-${day}`;
-
-					const state = dateStateLookup.get(dateKey) ?? null;
-					// Weekend day marked as office (not OOF, not null, not out-of-office)
-					if (state !== null && state !== "oof" && state !== "out-of-office") {
-						weekendOfficeCount++;
-					}
-				}
-				continue;
-			}
-
-			// Format as YYYY-MM-DD to match datepainter keys
-			const year = date.getFullYear();
-			const month = String(date.getMonth() + 1).padStart(2, "0");
-			const day = String(date.getDate()).padStart(2, "0");
-			const dateKey = `${year}-${month}-${day}`;
-
-			const state = dateStateLookup.get(dateKey) ?? null;
-			const isHoliday =
-				holidaySet.has(date.toDateString()) || state === "holiday";
-
-			const selectionType = state === "oof" ? "out-of-office" : null;
-			const isSelected = state !== null;
-
-			const dayInfo: DayInfo = {
-				date,
-				element: null,
-				isWeekday: weekday,
-				isSelected,
-				selectionType,
-				isHoliday,
-			};
-
-			days.push(dayInfo);
-
-			// Count deductions (don't double-count holiday+painted)
-			if (isHoliday) {
-				holidayCount++;
-			} else if (state === "oof") {
-				oofCount++;
-			} else if (state === "sick") {
-				sickCount++;
-			}
-		}
-
-		if (days.length > 0) {
-			totalHolidayDays += holidayCount;
-
-			// Office days = weekdays minus OOF, minus penalized day types
-			// Penalize ON: day type reduces officeDays (counts against you)
-			// Penalize OFF: day type reduces totalEffectiveDays (excused absence)
-			let officeDays = WEEKDAY_COUNT - oofCount;
-			let totalEffectiveDays = WEEKDAY_COUNT;
-
-			if (holidayPenalize) {
-				officeDays -= holidayCount;
-			} else {
-				totalEffectiveDays -= holidayCount;
-			}
 
-			if (sickDaysPenalize) {
-				officeDays -= sickCount;
-			} else {
-				totalEffectiveDays -= sickCount;
-			}
-
-			// Weekend bonus: add weekend office days to numerator only
-			if (weekendBonus && weekendOfficeCount > 0) {
-				officeDays += weekendOfficeCount;
-				// totalEffectiveDays stays the same (denominator unchanged)
-			}
-
-			const isCompliant = officeDays >= mergedConfig.minOfficeDaysPerWeek;
-
-			const weekInfo: WeekInfo = {
-				weekStart: new Date(weekStart),
-				weekNumber: weeks.length + 1,
-				days,
-				oofCount,
-				holidayCount,
-				sickCount,
-				officeDays,
-				totalDays: totalEffectiveDays,
-				oofDays: oofCount,
-				wfhCount: oofCount,
-				isCompliant,
-				isUnderEvaluation: true,
-				status: isCompliant ? "compliant" : "invalid",
-			};
-
-			weeks.push(weekInfo);
-		}
-
-		// Advance to next Sunday
-		weekStart = new Date(weekStart);
-		weekStart.setDate(weekStart.getDate() + 7);
-		assertSundayMidnight(weekStart, "readCalendarData loop advancement");
-	}
+	const settings = settingsStore.get();
+	const weeks = computeWeeksFromMarks(
+		calendarManager.getAllDates(),
+		holidayDates,
+		settings,
+		getDateRange(settings),
+		getAttendanceOptions(settings),
+	);
+	const totalHolidayDays = weeks.reduce((sum, w) => sum + w.holidayCount, 0);
 
 	const readTimeMs = performance.now() - startTime;
 
@@ -253,48 +110,30 @@ export async function readCalendarData(
 }
 
 /**
- * Convert WeekInfo to WeekCompliance format for validation
+ * Snapshot the calendar as a ComplianceRequest for the compliance worker.
+ *
+ * Gathers the same inputs as readCalendarData, serialized so they survive
+ * postMessage (Maps become plain records, the holiday Set an array).
  *
- * @param weekInfo - The week information to convert
- * @returns WeekCompliance object for use in validation functions
+ * @param calendarManager - CalendarInstance providing access to calendar state
+ * @returns Promise resolving to the request
+ * @throws {Error} If calendarManager is null or undefined
  */
-export function weekInfoToWeekCompliance(weekInfo: WeekInfo): {
-	weekNumber: number;
-	weekStart: Date;
-	officeDays: number;
-	totalDays: number;
-	oofDays: number;
-	wfhDays: number;
-	isCompliant: boolean;
-	status: string;
-} {
+export async function readComplianceRequest(
+	calendarManager: CalendarInstance,
+): Promise<ComplianceRequest> {
+	if (!calendarManager) {
+		throw new Error("calendarManager is required");
+	}
+
+	const holidayDates = await getHolidayDatesForValidation();
+	const settings = settingsStore.get();
+
 	return {
-		weekNumber: weekInfo.weekNumber,
-		weekStart: weekInfo.weekStart,
-		officeDays: weekInfo.officeDays,
-		totalDays: weekInfo.totalDays,
-		oofDays: weekInfo.oofDays,
-		wfhDays: weekInfo.oofCount,
-		isCompliant: weekInfo.isCompliant,
-		status: weekInfo.isCompliant ? "compliant" : "violation",
+		marks: Object.fromEntries(calendarManager.getAllDates()),
+		holidays: [...holidayDates],
+		settings,
+		range: getDateRange(settings),
+		...getAttendanceOptions(settings),
 	};
 }
-
-/**
- * Convert all weeks to compliance format for validation
- *
- * @param weeks - Array of week information
- * @returns Array of WeekCompliance objects
- */
-export function convertWeeksToCompliance(weeks: WeekInfo[]): {
-	weekNumber: number;
-	weekStart: Date;
-	officeDays: number;
-	totalDays: number;
-	oofDays: number;
-	wfhDays: number;
-	isCompliant: boolean;
-	status: string;
-}[] {
-	return weeks.map(weekInfoToWeekCompliance);
-}
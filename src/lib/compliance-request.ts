@@ -0,0 +1,102 @@
+/**
+ * Compliance Request
+ *
+ * Everything the compliance pipeline needs, as plain structured-cloneable
+ * data, plus the pure function that evaluates it. The main thread builds a
+ * request from the live calendar; the compliance worker (or the main-thread
+ * fallback) turns it into ComplianceEventData.
+ *
+ * @module compliance-request
+ */
+
+import {
+	type ComplianceEventData,
+	computeComplianceData,
+} from "./compute-compliance";
+import {
+	computeWeeksFromMarks,
+	type WeekComputeOptions,
+} from "./compute-weeks";
+import type { DateRange } from "./dateUtils";
+import type { AppSettings } from "./settings-constants";
+import {
+	evaluateWeeks,
+	type WindowEvaluationResult,
+} from "./validation/evaluate-weeks";
+import type { IncrementalWindowEvaluator } from "./validation/incremental-evaluation";
+
+/**
+ * actualBefore is set to the start of today when tracking attendance, so
+ * past days count from what was recorded and later days from the plan.
+ */
+export interface ComplianceRequest extends WeekComputeOptions {
+	/** Date state by YYYY-MM-DD key, serialized from getAllDates() */
+	marks: Record<string, string>;
+	/** Weekday holidays from the holiday integration */
+	holidays: Date[];
+	settings: AppSettings;
+	range: DateRange;
+}
+
+/** Message posted to the compliance worker */
+export interface ComplianceWorkerRequest {
+	id: number;
+	request: ComplianceRequest;
+}
+
+/** Message posted back by the compliance worker */
+export type ComplianceWorkerResponse =
+	| { id: number; data: ComplianceEventData }
+	| { id: number; error: string };
+
+/** computeWeeksFromMarks → evaluateWeeks for one request */
+function evaluateRequest(request: ComplianceRequest): WindowEvaluationResult {
+	const weeks = computeWeeksFromMarks(
+		new Map(Object.entries(request.marks)),
+		request.holidays,
+		request.settings,
+		request.range,
+		request,
+	);
+	return evaluateWeeks(weeks, request.settings);
+}
+
+/**
+ * Run the full pipeline for one request.
+ *
+ * Pure unless evaluators are passed: computeWeeksFromMarks → evaluateWeeks
+ * → computeComplianceData. With an evaluator, weeks and windows unaffected
+ * since its previous request are reused. A request with an attendance
+ * cutoff is also evaluated as a plan alone, reported under planned; the
+ * plan keeps its own evaluator, since its requests differ from the actual
+ * ones and would invalidate a shared cache every time.
+ */
+export function computeComplianceFromRequest(
+	request: ComplianceRequest,
+	evaluator?: IncrementalWindowEvaluator,
+	planEvaluator?: IncrementalWindowEvaluator,
+): ComplianceEventData {
+	const data = computeComplianceData(
+		evaluator ? evaluator.evaluate(request) : evaluateRequest(request),
+		request,
+	);
+	if (!request.actualBefore) {
+		return data;
+	}
+
+	const { actualBefore: _actualBefore, ...planRequest } = request;
+	const plan = computeComplianceData(
+		planEvaluator
+			? planEvaluator.evaluate(planRequest)
+			: evaluateRequest(planRequest),
+	);
+	return {
+		...data,
+		planned: {
+			isCompliant: plan.isCompliant,
+			averageOfficeDays: plan.averageOfficeDays,
+			compliancePercentage: plan.compliancePercentage,
+			message: plan.message,
+		},
+	};
+}
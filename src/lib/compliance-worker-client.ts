@@ -0,0 +1,97 @@
+/**
+ * Compliance Worker Client
+ *
+ * Main-thread side of the compliance worker. Posts ComplianceRequests and
+ * resolves each one with the matching response id. The EventQueue in
+ * auto-compliance awaits one request at a time, so results arrive in the
+ * order the events were queued.
+ *
+ * @module compliance-worker-client
+ */
+
+import { logger } from "../utils/logger";
+import type {
+	ComplianceRequest,
+	ComplianceWorkerRequest,
+	ComplianceWorkerResponse,
+} from "./compliance-request";
+import type { ComplianceEventData } from "./compute-compliance";
+
+interface PendingRequest {
+	resolve: (data: ComplianceEventData) => void;
+	reject: (error: Error) => void;
+}
+
+export class ComplianceWorkerClient {
+	private nextId = 1;
+	private pending = new Map<number, PendingRequest>();
+
+	constructor(private readonly worker: Worker) {
+		worker.onmessage = (event: MessageEvent<ComplianceWorkerResponse>) => {
+			this.handleResponse(event.data);
+		};
+		worker.onerror = (event: ErrorEvent) => {
+			this.rejectAll(new Error(event.message || "Compliance worker failed"));
+		};
+	}
+
+	/**
+	 * Evaluate a request in the worker.
+	 * @throws Error (as a rejection) if the worker reports an error or is terminated
+	 */
+	compute(request: ComplianceRequest): Promise<ComplianceEventData> {
+		const id = this.nextId++;
+		return new Promise((resolve, reject) => {
+			this.pending.set(id, { resolve, reject });
+			const message: ComplianceWorkerRequest = { id, request };
+			this.worker.postMessage(message);
+		});
+	}
+
+	/** Stop the worker and reject anything still in flight */
+	terminate(): void {
+		this.worker.terminate();
+		this.rejectAll(new Error("Compliance worker terminated"));
+	}
+
+	private handleResponse(response: ComplianceWorkerResponse): void {
+		const request = this.pending.get(response.id);
+		if (!request) {
+			return;
+		}
+		this.pending.delete(response.id);
+		if ("error" in response) {
+			request.reject(new Error(response.error));
+		} else {
+			request.resolve(response.data);
+		}
+	}
+
+	private rejectAll(error: Error): void {
+		for (const request of this.pending.values()) {
+			request.reject(error);
+		}
+		this.pending.clear();
+	}
+}
+
+/**
+ * Start the compliance worker.
+ * Returns null where Workers are unavailable (tests, very old browsers);
+ * callers then compute on the main thread.
+ */
+export function createComplianceWorkerClient(): ComplianceWorkerClient | null {
+	if (typeof Worker === "undefined") {
+		return null;
+	}
+	try {
+		const worker = new Worker(
+			new URL("./compliance-worker.ts", import.meta.url),
+			{ type: "module" },
+		);
+		return new ComplianceWorkerClient(worker);
+	} catch (error) {
+		logger.warn("[Compliance Worker] Could not start worker:", error);
+		return null;
+	}
+}
@@ -0,0 +1,47 @@
+/**
+ * Compliance Worker
+ *
+ * Dedicated worker entry point. Evaluates each ComplianceRequest off the
+ * main thread and posts the ComplianceEventData back under the same id.
+ * Keeps an IncrementalWindowEvaluator between requests so a single-date edit
+ * only re-scores the windows containing that date's week, with a second
+ * one for the plan-only evaluation when attendance is tracked.
+ * Loaded by ComplianceWorkerClient; never imported directly.
+ *
+ * @module compliance-worker
+ */
+
+import {
+	type ComplianceWorkerRequest,
+	type ComplianceWorkerResponse,
+	computeComplianceFromRequest,
+} from "./compliance-request";
+import { IncrementalWindowEvaluator } from "./validation/incremental-evaluation";
+
+/** The parts of DedicatedWorkerGlobalScope this worker uses */
+interface WorkerScope {
+	onmessage: ((event: MessageEvent<ComplianceWorkerRequest>) => void) | null;
+	postMessage(message: ComplianceWorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const evaluator = new IncrementalWindowEvaluator();
+const planEvaluator = new IncrementalWindowEvaluator();
+
+scope.onmessage = (event) => {
+	const { id, request } = event.data;
+	try {
+		scope.postMessage({
+			id,
+			data: computeComplianceFromRequest(request, evaluator, planEvaluator),
+		});
+	} catch (error) {
+		// Start the next request from a full evaluation
+		evaluator.reset();
+		planEvaluator.reset();
+		scope.postMessage({
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+};
@@ -9,17 +9,17 @@
  */
 
 import type { WeekInfo } from "../types/index";
-import { convertWeeksToCompliance } from "./calendar-data-reader";
+import {
+	convertWeeksToCompliance,
+	type WeekComputeOptions,
+} from "./compute-weeks";
+import { getLastWorkDayOffset } from "./dateUtils";
 import { buildWindowRangeLabel } from "./ui/windowRange";
-import type { WindowSummary } from "./validation/all-windows";
-import { FRIDAY_OFFSET } from "./validation/constants";
+import { isLeaveWeek, type WindowSummary } from "./validation/all-windows";
+import type { WindowEvaluationResult } from "./validation/evaluate-weeks";
+import { getPolicyEvaluator } from "./validation/policy-engine";
 import type { RTOPolicyConfig } from "./validation/rto-core";
-import {
-	buildComplianceMessage,
-	evaluateSingleWindow,
-	getStartOfWeek,
-} from "./validation/rto-core";
-import type { WindowEvaluationResult } from "./validation/window-evaluation";
+import { getStartOfWeek, getWeeklyRequirement } from "./validation/rto-core";
 
 // ─── Public Types ───────────────────────────────────────────────────
 
@@ -38,7 +38,15 @@ export interface ComplianceEventData {
 	nextWfhWeek: Date | null;
 
 	/** Current (possibly incomplete) week, shown separately */
-	currentWeek: { weekStart: Date; weekEnd: Date; officeDays: number };
+	currentWeek: {
+		weekStart: Date;
+		weekEnd: Date;
+		officeDays: number;
+		/** Office days recorded so far; present when tracking attendance */
+		attendedDays?: number;
+		/** Office days still planned for the rest of the week; present when tracking attendance */
+		plannedDays?: number;
+	};
 
 	/** Raw day counts from full window */
 	totalWfhDays: number;
@@ -65,28 +73,48 @@ export interface ComplianceEventData {
 	allSummaries: WindowSummary[];
 	/** Policy configuration used for evaluation */
 	policy: RTOPolicyConfig;
+
+	/**
+	 * Result of the plan alone, present when tracking attendance; the
+	 * fields above then count past days from recorded attendance
+	 */
+	planned?: ComplianceOutcome;
 }
 
+/** Headline result of one way of counting the days */
+export type ComplianceOutcome = Pick<
+	ComplianceEventData,
+	"isCompliant" | "averageOfficeDays" | "compliancePercentage" | "message"
+>;
+
 // ─── Helper Functions ────────────────────────────────────────────────
 
 /**
- * Check if a week is complete (has passed its Friday).
+ * Check if a week is complete (has passed its last working day).
  *
  * @param weekStart - The start date of the week
- * @returns True if the week's Friday has already passed
+ * @param now - The current date
+ * @param workDays - getDay indices of the working days
+ * @returns True if the week's last working day has already passed
  */
-function isWeekComplete(weekStart: Date): boolean {
-	const friday = new Date(weekStart);
-	friday.setDate(friday.getDate() + FRIDAY_OFFSET);
-	const today = new Date();
+function isWeekComplete(
+	weekStart: Date,
+	now: Date,
+	workDays?: readonly number[],
+): boolean {
+	const lastWorkDay = new Date(weekStart);
+	lastWorkDay.setDate(
+		lastWorkDay.getDate() + getLastWorkDayOffset(weekStart, workDays),
+	);
+	const today = new Date(now);
 	today.setHours(23, 59, 59, 999);
-	return friday <= today;
+	return lastWorkDay <= today;
 }
 
 /**
- * Build a set of week timestamps that appear in the best-K of at least one
+ * Build a set of week timestamps that the policy evaluates in at least one
  * sliding window. A week NOT in this set is safe to zero out — it's already
- * dropped in every window that contains it.
+ * dropped in every window that contains it. Weeks on leave are in no window.
  */
 function buildEvaluatedSet(
 	allWeeks: WeekInfo[],
@@ -94,10 +122,13 @@ function buildEvaluatedSet(
 ): Set<number> {
 	const evaluated = new Set<number>();
 	const W = policy.rollingPeriodWeeks;
-	const weeks = convertWeeksToCompliance(allWeeks);
+	const weeks = convertWeeksToCompliance(allWeeks).filter(
+		(w) => !isLeaveWeek(w),
+	);
+	const evaluator = getPolicyEvaluator(policy);
 
 	if (weeks.length < W) {
-		for (const w of evaluateSingleWindow(weeks, policy).bestWeeks) {
+		for (const w of evaluator.evaluateWindow(weeks, policy).bestWeeks) {
 			evaluated.add(w.weekStart.getTime());
 		}
 		return evaluated;
@@ -105,7 +136,7 @@ function buildEvaluatedSet(
 
 	for (let start = 0; start <= weeks.length - W; start++) {
 		const windowWeeks = weeks.slice(start, start + W);
-		for (const w of evaluateSingleWindow(windowWeeks, policy).bestWeeks) {
+		for (const w of evaluator.evaluateWindow(windowWeeks, policy).bestWeeks) {
 			evaluated.add(w.weekStart.getTime());
 		}
 	}
@@ -137,7 +168,8 @@ function findNextSafeWfhWeek(
 		.filter(
 			(w) =>
 				w.weekStart > today &&
-				w.officeDays >= policy.minOfficeDaysPerWeek &&
+				!isLeaveWeek(w) &&
+				w.officeDays >= getWeeklyRequirement(w, policy) &&
 				!evaluated.has(w.weekStart.getTime()),
 		)
 		.sort((a, b) => a.weekStart.getTime() - b.weekStart.getTime());
@@ -145,6 +177,35 @@ function findNextSafeWfhWeek(
 	return candidates[0]?.weekStart ?? null;
 }
 
+/**
+ * The week containing now. When tracking attendance, its office days are
+ * split into those recorded so far and those still planned.
+ */
+function buildCurrentWeek(
+	now: Date,
+	weekInfo: WeekInfo | undefined,
+	policy: RTOPolicyConfig,
+	options: WeekComputeOptions,
+): ComplianceEventData["currentWeek"] {
+	const weekStart = getStartOfWeek(now, policy.weekStartsOn);
+	const weekEnd = new Date(weekStart);
+	weekEnd.setDate(
+		weekStart.getDate() + getLastWorkDayOffset(weekStart, policy.workDays),
+	);
+	const officeDays = weekInfo?.officeDays ?? 0;
+	if (!options.actualBefore) {
+		return { weekStart, weekEnd, officeDays };
+	}
+	const attendedDays = weekInfo?.attendedDays ?? 0;
+	return {
+		weekStart,
+		weekEnd,
+		officeDays,
+		attendedDays,
+		plannedDays: Math.max(0, officeDays - attendedDays),
+	};
+}
+
 // ─── Core Computation ────────────────────────────────────────────────
 
 /**
@@ -154,32 +215,33 @@ function findNextSafeWfhWeek(
  * results into the structured ComplianceEventData used by the UI.
  *
  * @param evaluation - The window evaluation result
+ * @param options - The attendance cutoff the weeks were computed with, if any
  * @returns Structured compliance data for UI consumption
  */
 export function computeComplianceData(
 	evaluation: WindowEvaluationResult,
+	options: WeekComputeOptions = {},
 ): ComplianceEventData {
 	const { summaries, policy, allWeeks, filteredWeeks } = evaluation;
+	const now = new Date();
 
 	// Identify current incomplete week for display, but include ALL weeks
 	// (including future) in validation so marking future months triggers violations
-	const currentWeekInfo = allWeeks.find((w) => !isWeekComplete(w.weekStart));
+	const currentWeekInfo = allWeeks.find(
+		(w) => !isWeekComplete(w.weekStart, now, policy.workDays),
+	);
+	const currentWeek = buildCurrentWeek(now, currentWeekInfo, policy, options);
 
 	// Select the window to show in Breakdown:
 	// - If any window is invalid: use the FIRST failing window
 	// - If all windows are valid: use the FIRST (earliest) window
 	// Edge case: no weeks → no summaries
 	if (summaries.length === 0) {
-		const now = new Date();
-		const currentWeekStart = getStartOfWeek(now);
-		const currentWeekEnd = new Date(currentWeekStart);
-		currentWeekEnd.setDate(currentWeekStart.getDate() + FRIDAY_OFFSET);
-
 		// Build an empty sentinel summary for the no-data case
 		const emptySummary: WindowSummary = {
 			windowIndex: 0,
-			windowStart: currentWeekStart,
-			windowEnd: currentWeekEnd,
+			windowStart: currentWeek.weekStart,
+			windowEnd: currentWeek.weekEnd,
 			isValid: true,
 			averageOfficeDays: 0,
 			weekDetails: [],
@@ -193,11 +255,7 @@ export function computeComplianceData(
 			bufferWeeks: 0,
 			nextWfhWeek: null,
 			rangeLabel: "",
-			currentWeek: {
-				weekStart: currentWeekStart,
-				weekEnd: currentWeekEnd,
-				officeDays: currentWeekInfo?.officeDays ?? 0,
-			},
+			currentWeek,
 			totalWfhDays: 0,
 			totalHolidayDays: 0,
 			totalSickDays: 0,
@@ -242,11 +300,10 @@ export function computeComplianceData(
 	const goodWeeksInWindow = selectedSummary.weekDetails.filter(
 		(w) => w.isCompliant,
 	).length;
-	// bufferWeeks = droppable slots minus slots used by non-compliant weeks
-	const droppableSlots = Math.max(
-		0,
-		selectedSummary.weekDetails.length - policy.topWeeksToCheck,
-	);
+	// bufferWeeks = droppable slots minus slots used by non-compliant weeks.
+	// Droppable slots are whatever the policy did not evaluate (none for
+	// every-week, W - K for best-K).
+	const droppableSlots = selectedSummary.weekDetails.length - bestCount;
 	const droppedNonCompliant = selectedSummary.weekDetails.filter(
 		(w) => !w.isBest && !w.isCompliant,
 	).length;
@@ -267,34 +324,17 @@ export function computeComplianceData(
 		totalHolidayDays += w.holidayCount;
 		totalSickDays += w.sickCount;
 	}
-	const totalWeekdays = windowWeekInfos.length * 5;
+	const totalWeekdays = windowWeekInfos.length * policy.totalWeekdaysPerWeek;
 	const totalWorkingDays =
 		totalWeekdays - totalWfhDays - totalHolidayDays - totalSickDays;
 
-	// Current week
-	const now = new Date();
-	const currentWeekStart = getStartOfWeek(now);
-	const currentWeekEnd = new Date(currentWeekStart);
-	currentWeekEnd.setDate(currentWeekStart.getDate() + FRIDAY_OFFSET);
-
-	const currentWeek = {
-		weekStart: currentWeekStart,
-		weekEnd: currentWeekEnd,
-		officeDays: currentWeekInfo?.officeDays ?? 0,
-	};
-
 	const compliancePercentage =
 		bestCount > 0
 			? (bestDetails.filter((w) => w.isCompliant).length / bestCount) * 100
 			: 0;
 
 	// Build a human-readable message from the selected summary
-	const { avgDaysStr, indicator, label } = buildComplianceMessage(
-		selectedSummary.averageOfficeDays,
-		selectedSummary.isValid,
-		policy.roundPercentage,
-	);
-	const message = `${label}: Best ${bestCount} of ${selectedSummary.weekDetails.length} weeks average${indicator} ${avgDaysStr} office days. Required: ${policy.minOfficeDaysPerWeek}`;
+	const message = getPolicyEvaluator(policy).describe(selectedSummary, policy);
 
 	return {
 		selectedSummary,
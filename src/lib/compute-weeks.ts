@@ -0,0 +1,351 @@
+/**
+ * Week computation
+ *
+ * Pure core of the calendar data reader: turns a map of marked dates into
+ * WeekInfo records. Takes the marks, holidays, settings and range as
+ * arguments and never touches datepainter, the DOM or the nanostores, so it
+ * can run in a worker, on a server or in a test. readCalendarData is the
+ * adapter that gathers those inputs from the running app.
+ *
+ * @module compute-weeks
+ */
+
+import type { DayInfo, WeekInfo } from "../types/index";
+import { assertWeekStartMidnight } from "./date-helpers";
+import { type DateRange, DEFAULT_WORK_DAYS } from "./dateUtils";
+import { isOnLeave } from "./leave-periods";
+import type { AppSettings } from "./settings-constants";
+import { getWfhShare, isExcludedState } from "./state-defaults";
+import {
+	getStartOfWeek,
+	getWeeklyRequirement,
+	isWorkDay,
+	type WeekCompliance,
+} from "./validation/rto-core";
+
+/** The settings that affect how a week's office days are counted */
+export type WeekSettings = Pick<
+	AppSettings,
+	| "minOfficeDays"
+	| "sickDaysPenalize"
+	| "holidayPenalize"
+	| "weekendBonus"
+	| "anchorDays"
+> &
+	Partial<
+		Pick<
+			AppSettings,
+			| "customStates"
+			| "weekStartsOn"
+			| "workDays"
+			| "prorateRequirement"
+			| "prorationRounding"
+			| "leavePeriods"
+		>
+	>;
+
+/** How days are counted on either side of the attendance cutoff */
+export interface WeekComputeOptions {
+	/**
+	 * Days before this date count from recorded attendance: an unmarked
+	 * weekday is an absence rather than an office day. Days from this date
+	 * on follow the plan. Omit to count every day from the plan.
+	 */
+	actualBefore?: Date;
+}
+
+/**
+ * Attendance cutoff for the given settings: the start of today when
+ * tracking attendance, so earlier days count from what was recorded
+ */
+export function getAttendanceOptions(
+	settings: Pick<AppSettings, "trackAttendance">,
+	now: Date = new Date(),
+): WeekComputeOptions {
+	if (!settings.trackAttendance) {
+		return {};
+	}
+	const today = new Date(now);
+	today.setHours(0, 0, 0, 0);
+	return { actualBefore: today };
+}
+
+/** Format as YYYY-MM-DD to match datepainter keys */
+function toDateKey(date: Date): string {
+	const year = date.getFullYear();
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${year}-${month}-${day}`;
+}
+
+/**
+ * Build WeekInfo records for every week in a range, aligned to
+ * settings.weekStartsOn (Sunday when omitted).
+ *
+ * Iterates through ALL weeks in the range, not just marked dates; an
+ * unmarked working day (settings.workDays, Monday-Friday when omitted)
+ * counts as an office day, unless it falls before
+ * options.actualBefore, where only marked days ("office", or a state that
+ * counts as office) were attended and the rest are absences. Half-day WFH marks ("oof-am",
+ * "oof-pm") count half a day each way, so counts may be fractional.
+ * User-defined states count as office, as WFH, or drop out of the week's
+ * total, according to their effect. With settings.prorateRequirement,
+ * holidays, sick days and excluded days instead shrink the week, and the
+ * minimum is scaled down to the days left. Days inside settings.leavePeriods
+ * are excluded whatever their mark, and a week with every day on leave gets
+ * status "excluded" so the windows skip it.
+ *
+ * @param marks - Date state by YYYY-MM-DD key ("oof", "oof-am", "holiday", "sick", ...)
+ * @param holidays - Holiday dates from the holiday data sources
+ * @param settings - Penalize, weekend bonus, anchor day, minimum, pro-ration, custom state, leave, week start and working day settings
+ * @param range - First and last day to read
+ * @param options - Where recorded attendance ends and the plan begins
+ * @returns One WeekInfo per week starting on or after range.startDate
+ */
+export function computeWeeksFromMarks(
+	marks: ReadonlyMap<string, string>,
+	holidays: Iterable<Date>,
+	settings: WeekSettings,
+	range: DateRange,
+	options: WeekComputeOptions = {},
+): WeekInfo[] {
+	const { actualBefore } = options;
+	const holidaySet = new Set(Array.from(holidays, (d) => d.toDateString()));
+	const { sickDaysPenalize, holidayPenalize, weekendBonus } = settings;
+	// Weekdays (getDay index) on which the policy requires office presence
+	const anchorDays = new Set(settings.anchorDays);
+	const customStates = settings.customStates ?? [];
+	const weekStartsOn = settings.weekStartsOn ?? 0;
+	const workDays = settings.workDays ?? DEFAULT_WORK_DAYS;
+	const leavePeriods = settings.leavePeriods ?? [];
+
+	const weeks: WeekInfo[] = [];
+
+	// Start from the first week start on or after the range start
+	let weekStart = getStartOfWeek(range.startDate, weekStartsOn);
+	assertWeekStartMidnight(
+		weekStart,
+		"computeWeeksFromMarks initial weekStart",
+		weekStartsOn,
+	);
+	// If weekStart is before range start, advance to the next week start
+	if (weekStart < range.startDate) {
+		weekStart = new Date(weekStart);
+		weekStart.setDate(weekStart.getDate() + 7);
+		assertWeekStartMidnight(
+			weekStart,
+			"computeWeeksFromMarks advanced weekStart",
+			weekStartsOn,
+		);
+	}
+
+	while (weekStart <= range.endDate) {
+		const days: DayInfo[] = [];
+		let oofCount = 0;
+		let holidayCount = 0;
+		let sickCount = 0;
+		let excludedCount = 0;
+		let leaveCount = 0;
+		let absentCount = 0;
+		let attendedDays = 0;
+		let anchorMissCount = 0;
+		let weekendOfficeCount = 0;
+
+		// Check each day in this week (isWorkDay filters to the working days)
+		for (let i = 0; i < 7; i++) {
+			const date = new Date(weekStart);
+			date.setDate(weekStart.getDate() + i);
+
+			// Skip days beyond the range
+			if (date > range.endDate) break;
+
+			const weekday = isWorkDay(date, workDays);
+			const dateKey = toDateKey(date);
+			const state = marks.get(dateKey) ?? null;
+			const wfhShare = getWfhShare(state, customStates);
+			const onLeave = isOnLeave(dateKey, leavePeriods);
+			const excluded = onLeave || isExcludedState(state, customStates);
+			// Before the cutoff the marks record what happened, not a plan
+			const recorded = actualBefore !== undefined && date < actualBefore;
+
+			// Weekend bonus: count office-marked weekend days before skipping
+			if (!weekday) {
+				// Weekend day marked as office (not OOF, not null, not out-of-office,
+				// not excluded); a half-day WFH mark means half a day in the office
+				if (
+					weekendBonus &&
+					state !== null &&
+					state !== "out-of-office" &&
+					!excluded
+				) {
+					weekendOfficeCount += 1 - wfhShare;
+					if (recorded) attendedDays += 1 - wfhShare;
+				}
+				continue;
+			}
+
+			const isHoliday =
+				holidaySet.has(date.toDateString()) || state === "holiday";
+
+			days.push({
+				date,
+				element: null,
+				isWeekday: weekday,
+				isSelected: state !== null,
+				selectionType:
+					state === "oof"
+						? "out-of-office"
+						: state === "office"
+							? "office"
+							: null,
+				isHoliday,
+			});
+
+			// Count deductions (don't double-count holiday+painted); leave wins
+			if (onLeave) {
+				excludedCount++;
+				leaveCount++;
+			} else if (isHoliday) {
+				holidayCount++;
+			} else if (wfhShare > 0) {
+				oofCount += wfhShare;
+				if (recorded) attendedDays += 1 - wfhShare;
+				// Going in for half of an anchor day still counts as attending it
+				if (wfhShare === 1 && anchorDays.has(date.getDay())) {
+					anchorMissCount++;
+				}
+			} else if (excluded) {
+				excludedCount++;
+			} else if (state === "sick") {
+				sickCount++;
+			} else if (recorded && state === null) {
+				// No record of going in: a past day that was never marked
+				absentCount++;
+				if (anchorDays.has(date.getDay())) {
+					anchorMissCount++;
+				}
+			} else if (recorded) {
+				attendedDays++;
+			}
+		}
+
+		if (days.length > 0) {
+			// Office days = working days minus OOF and absences, minus penalized day types
+			// Penalize ON: day type reduces officeDays (counts against you)
+			// Penalize OFF: day type reduces totalEffectiveDays (excused absence)
+			let officeDays = workDays.length - oofCount - absentCount;
+			// Excluded custom states are always excused, whatever the penalize settings
+			let totalEffectiveDays = workDays.length - excludedCount;
+
+			if (settings.prorateRequirement) {
+				// Pro-rated: days off are not office days, and shrink the week
+				// (and with it the minimum) whatever the penalize settings
+				officeDays -= holidayCount + sickCount + excludedCount;
+				totalEffectiveDays -= holidayCount + sickCount;
+			} else {
+				if (holidayPenalize) {
+					officeDays -= holidayCount;
+				} else {
+					totalEffectiveDays -= holidayCount;
+				}
+
+				if (sickDaysPenalize) {
+					officeDays -= sickCount;
+				} else {
+					totalEffectiveDays -= sickCount;
+				}
+			}
+
+			// Weekend bonus: add weekend office days to numerator only
+			if (weekendBonus && weekendOfficeCount > 0) {
+				officeDays += weekendOfficeCount;
+				// totalEffectiveDays stays the same (denominator unchanged)
+			}
+
+			const requiredDays = getWeeklyRequirement(
+				{ totalDays: totalEffectiveDays },
+				{
+					minOfficeDaysPerWeek: settings.minOfficeDays,
+					totalWeekdaysPerWeek: workDays.length,
+					prorate: settings.prorateRequirement ?? false,
+					prorationRounding: settings.prorationRounding ?? "nearest",
+				},
+			);
+			const meetsMinimum = officeDays >= requiredDays;
+			const isCompliant = meetsMinimum && anchorMissCount === 0;
+
+			weeks.push({
+				weekStart: new Date(weekStart),
+				weekNumber: weeks.length + 1,
+				days,
+				oofCount,
+				holidayCount,
+				sickCount,
+				absentCount,
+				attendedDays,
+				anchorMissCount,
+				officeDays,
+				totalDays: totalEffectiveDays,
+				oofDays: oofCount,
+				wfhCount: oofCount,
+				isCompliant,
+				isUnderEvaluation: true,
+				// A week on leave is skipped; a short week reads as invalid;
+				// enough days but WFH on an anchor day is reported separately
+				status:
+					leaveCount === days.length
+						? "excluded"
+						: !meetsMinimum
+							? "invalid"
+							: isCompliant
+								? "compliant"
+								: "anchor-missed",
+			});
+		}
+
+		// Advance to the next week start
+		weekStart = new Date(weekStart);
+		weekStart.setDate(weekStart.getDate() + 7);
+		assertWeekStartMidnight(
+			weekStart,
+			"computeWeeksFromMarks loop advancement",
+			weekStartsOn,
+		);
+	}
+
+	return weeks;
+}
+
+/**
+ * Convert WeekInfo to WeekCompliance format for validation
+ *
+ * @param weekInfo - The week information to convert
+ * @returns WeekCompliance object for use in validation functions
+ */
+export function weekInfoToWeekCompliance(weekInfo: WeekInfo): WeekCompliance {
+	return {
+		weekNumber: weekInfo.weekNumber,
+		weekStart: weekInfo.weekStart,
+		officeDays: weekInfo.officeDays,
+		totalDays: weekInfo.totalDays,
+		oofDays: weekInfo.oofDays,
+		wfhDays: weekInfo.oofCount,
+		isCompliant: weekInfo.isCompliant,
+		status:
+			weekInfo.status === "anchor-missed" || weekInfo.status === "excluded"
+				? weekInfo.status
+				: weekInfo.isCompliant
+					? "compliant"
+					: "violation",
+	};
+}
+
+/**
+ * Convert all weeks to compliance format for validation
+ *
+ * @param weeks - Array of week information
+ * @returns Array of WeekCompliance objects
+ */
+export function convertWeeksToCompliance(weeks: WeekInfo[]): WeekCompliance[] {
+	return weeks.map(weekInfoToWeekCompliance);
+}
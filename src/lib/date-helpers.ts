@@ -1,3 +1,5 @@
+import type { WeekStartDay } from "./dateUtils";
+
 /**
  * Parse "YYYY-MM-DD" as local midnight, not UTC midnight.
  *
@@ -40,16 +42,33 @@ export function parseLocalDate(isoString: string): Date {
 	return date;
 }
 
+const WEEK_START_NAMES: Record<WeekStartDay, string> = {
+	0: "Sunday",
+	1: "Monday",
+	6: "Saturday",
+};
+
 /**
- * Assert that a Date is Sunday midnight local time.
- * Catches UTC-midnight dates that would have getDay() !== 0 in negative-UTC timezones.
+ * Assert that a Date is week-start midnight local time (Sunday by default).
+ * Catches UTC-midnight dates that would land on the wrong day in negative-UTC timezones.
  */
-export function assertSundayMidnight(date: Date, context: string): void {
-	if (date.getDay() !== 0) {
+export function assertWeekStartMidnight(
+	date: Date,
+	context: string,
+	weekStartsOn: WeekStartDay = 0,
+): void {
+	if (date.getDay() !== weekStartsOn) {
 		throw new Error(
-			`Expected Sunday, got day=${date.getDay()} (${date.toDateString()}) in ${context}`,
+			`Expected ${WEEK_START_NAMES[weekStartsOn]}, got day=${date.getDay()} (${date.toDateString()}) in ${context}`,
 		);
 	}
+	assertLocalMidnight(date, context);
+}
+
+/**
+ * Assert that a Date is midnight local time, whatever day it falls on.
+ */
+export function assertLocalMidnight(date: Date, context: string): void {
 	if (
 		date.getHours() !== 0 ||
 		date.getMinutes() !== 0 ||
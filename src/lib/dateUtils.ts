@@ -8,6 +8,7 @@
 
 import {
 	addDays,
+	addMonths,
 	addWeeks,
 	getDaysInMonth as dfGetDaysInMonth,
 	isSameDay as dfIsSameDay,
@@ -29,11 +30,44 @@ const MIDNIGHT_REF = new Date(2000, 0, 1); // fixed midnight reference for parse
 const WEEKS_BACK = 12;
 const WEEKS_FORWARD = 52;
 
+/** Day a week starts on (getDay index): Sunday, Monday or Saturday */
+export type WeekStartDay = 0 | 1 | 6;
+
+export const WEEK_START_DAYS: readonly WeekStartDay[] = [0, 1, 6];
+
 export interface DateRange {
 	startDate: Date;
 	endDate: Date;
 }
 
+/**
+ * How far the calendar reaches: a number of weeks either side of today,
+ * the current fiscal year through the end of the next fiscal quarter, or
+ * explicit YYYY-MM-DD dates
+ */
+export type CalendarHorizon =
+	| { kind: "rolling"; weeksBack: number; weeksForward: number }
+	| { kind: "fiscal-year" }
+	| { kind: "custom"; start: string; end: string };
+
+export const DEFAULT_CALENDAR_HORIZON: Extract<
+	CalendarHorizon,
+	{ kind: "rolling" }
+> = {
+	kind: "rolling",
+	weeksBack: WEEKS_BACK,
+	weeksForward: WEEKS_FORWARD,
+};
+
+/** The settings a calendar horizon is resolved from */
+export interface HorizonSettings {
+	calendarHorizon?: CalendarHorizon;
+	/** 0-based month the fiscal year starts in */
+	fiscalYearStartMonth?: number;
+	/** Day the range's weeks start on (default Sunday) */
+	weekStartsOn?: WeekStartDay;
+}
+
 /**
  * Get today's date with time set to midnight
  */
@@ -42,18 +76,57 @@ export function getToday(): Date {
 }
 
 /**
- * Get default date range for calendar display
+ * Get the date range for calendar display
+ *
+ * Resolves the configured horizon (by default WEEKS_BACK before today to
+ * WEEKS_FORWARD after today) and aligns it to week boundaries (Sun-Sat
+ * unless settings.weekStartsOn says otherwise).
+ * A custom horizon with unreadable or reversed dates falls back to the
+ * default.
  *
- * Calculates the date range spanning from WEEKS_BACK before today
- * to WEEKS_FORWARD after today, aligned to week boundaries (Sun-Sat).
+ * @param settings - Horizon, fiscal year start and week start; defaults when omitted
+ * @param today - Reference date for rolling and fiscal-year horizons
  */
-export function getDateRange(): DateRange {
-	const today = getToday();
-	const opts = { weekStartsOn: 0 as const };
+export function getDateRange(
+	settings: HorizonSettings = {},
+	today: Date = getToday(),
+): DateRange {
+	const opts = { weekStartsOn: settings.weekStartsOn ?? 0 };
+	const horizon = settings.calendarHorizon ?? DEFAULT_CALENDAR_HORIZON;
+
+	if (horizon.kind === "fiscal-year") {
+		const fiscalStart = settings.fiscalYearStartMonth ?? 0;
+		const month = today.getMonth();
+		const fiscalOffset = (month - fiscalStart + 12) % 12;
+		const yearStart = new Date(today.getFullYear(), month - fiscalOffset, 1);
+		const quarterStart = new Date(
+			today.getFullYear(),
+			month - (fiscalOffset % 3),
+			1,
+		);
+		// Last day of the quarter after the current one
+		const nextQuarterEnd = addDays(addMonths(quarterStart, 6), -1);
+		return {
+			startDate: startOfWeek(yearStart, opts),
+			endDate: endOfWeek(nextQuarterEnd, opts),
+		};
+	}
+
+	if (horizon.kind === "custom") {
+		const start = parseDateISO(horizon.start);
+		const end = parseDateISO(horizon.end);
+		if (start && end && start <= end) {
+			return {
+				startDate: startOfWeek(start, opts),
+				endDate: endOfWeek(end, opts),
+			};
+		}
+		return getDateRange({ weekStartsOn: opts.weekStartsOn }, today);
+	}
 
 	return {
-		startDate: startOfWeek(addWeeks(today, -WEEKS_BACK), opts),
-		endDate: endOfWeek(addWeeks(today, WEEKS_FORWARD), opts),
+		startDate: startOfWeek(addWeeks(today, -horizon.weeksBack), opts),
+		endDate: endOfWeek(addWeeks(today, horizon.weeksForward), opts),
 	};
 }
 
@@ -111,17 +184,23 @@ export function parseDate(dateStr: DateString): Date {
 }
 
 /**
- * Get week number for a date (week starts on Sunday)
+ * Get week number for a date (weeks start on Sunday by default)
  */
-export function getWeekNumber(date: Date): number {
-	return getWeek(date, { weekStartsOn: 0 });
+export function getWeekNumber(
+	date: Date,
+	weekStartsOn: WeekStartDay = 0,
+): number {
+	return getWeek(date, { weekStartsOn });
 }
 
 /**
- * Get week start (Sunday) and end (Saturday) dates
+ * Get week start and end dates (Sunday and Saturday by default)
  */
-export function getWeekStartEnd(date: Date): { start: Date; end: Date } {
-	const opts = { weekStartsOn: 0 as const };
+export function getWeekStartEnd(
+	date: Date,
+	weekStartsOn: WeekStartDay = 0,
+): { start: Date; end: Date } {
+	const opts = { weekStartsOn };
 	return {
 		start: startOfWeek(date, opts),
 		end: endOfWeek(date, opts),
@@ -166,8 +245,9 @@ export function getDateRangeArray(start: Date, end: Date): Date[] {
  */
 export function getWeeksInRange(
 	range: DateRange,
+	weekStartsOn: WeekStartDay = 0,
 ): Array<{ start: Date; end: Date; weekNumber: number }> {
-	const opts = { weekStartsOn: 0 as const };
+	const opts = { weekStartsOn };
 	const weeks: Array<{ start: Date; end: Date; weekNumber: number }> = [];
 	let current = new Date(range.startDate);
 
@@ -195,23 +275,55 @@ export function getTotalDaysInRange(range: DateRange): number {
 }
 
 /**
- * Get total number of weeks in default calendar range
+ * Get total number of weeks in a calendar range (the default one if omitted)
  */
-export function getWeeksCount(): number {
-	return WEEKS_BACK + WEEKS_FORWARD + 1;
+export function getWeeksCount(range: DateRange = getDateRange()): number {
+	return Math.round(getTotalDaysInRange(range) / 7);
 }
 
 // ─── Week-Oriented Utilities ───────────────────────────────────────
 
 /**
- * Get the start of the work week (Sunday) for a given date.
+ * Get the start of the week for a given date.
  *
- * Returns the Sunday at or before the given date, with time set to midnight.
- * Always uses Sunday as week start (weekStartsOn: 0).
+ * Returns the week-start day at or before the given date, with time set to
+ * midnight. Weeks start on Sunday unless weekStartsOn says otherwise (the
+ * weekStartsOn setting).
  * This is the canonical implementation used across validation and UI code.
  */
-export function getStartOfWeek(date: Date): Date {
-	return startOfWeek(date, { weekStartsOn: 0 });
+export function getStartOfWeek(
+	date: Date,
+	weekStartsOn: WeekStartDay = 0,
+): Date {
+	return startOfWeek(date, { weekStartsOn });
+}
+
+/**
+ * Days from a week start to the first given weekday on or after it.
+ *
+ * Friday (5) is 5 days into a Sunday week, 4 into a Monday week and 6
+ * into a Saturday week.
+ *
+ * @param weekStart - First day of the week
+ * @param weekday - getDay index of the day to find (0 = Sunday)
+ */
+export function getWeekdayOffset(weekStart: Date, weekday: number): number {
+	return (weekday - weekStart.getDay() + 7) % 7;
+}
+
+/**
+ * Days from a week start to its last working day: Friday for the default
+ * week, Thursday for a Sunday-Thursday or Monday-Thursday schedule.
+ *
+ * @param weekStart - First day of the week
+ * @param workDays - getDay indices of the working days
+ */
+export function getLastWorkDayOffset(
+	weekStart: Date,
+	workDays: readonly number[] = DEFAULT_WORK_DAYS,
+): number {
+	const days = workDays.length > 0 ? workDays : DEFAULT_WORK_DAYS;
+	return Math.max(...days.map((day) => getWeekdayOffset(weekStart, day)));
 }
 
 /**
@@ -224,6 +336,22 @@ export function isWeekday(date: Date): boolean {
 	return !dfIsWeekend(date);
 }
 
+/** Working days of a standard Monday-Friday week, as getDay indices */
+export const DEFAULT_WORK_DAYS: readonly number[] = [1, 2, 3, 4, 5];
+
+/**
+ * Check if a date falls on one of the working days (the workDays setting).
+ *
+ * Same as isWeekday for the default Monday-Friday week; a Sunday-Thursday
+ * or part-time schedule passes its own getDay indices.
+ */
+export function isWorkDay(
+	date: Date,
+	workDays: readonly number[] = DEFAULT_WORK_DAYS,
+): boolean {
+	return workDays.includes(date.getDay());
+}
+
 /**
  * Check if a date is a weekend (Saturday or Sunday).
  *
@@ -235,13 +363,14 @@ export function isWeekend(date: Date): boolean {
 }
 
 /**
- * Get all 7 dates (Sun-Sat) for the week starting from the given Sunday.
+ * Get all 7 dates of the week starting from the given week start.
  *
- * IMPORTANT: This returns all 7 days of the week (Sunday through Saturday).
- * For weekday-only results (Mon-Fri), use getWeekdayDates from utils/dateUtils.
+ * IMPORTANT: This returns all 7 days of the week (Sunday through Saturday
+ * for a Sunday start). For weekday-only results (Mon-Fri), use
+ * getWeekdayDates from utils/dateUtils.
  *
- * @param weekStart - The Sunday start of the week (as returned by getStartOfWeek)
- * @returns Array of 7 Date objects, Sunday through Saturday
+ * @param weekStart - The start of the week (as returned by getStartOfWeek)
+ * @returns Array of 7 Date objects, in order from weekStart
  */
 export function getFullWeekDates(weekStart: Date): Date[] {
 	const dates: Date[] = [];
@@ -270,6 +399,8 @@ const MONTH_ABBRS = [
 	"Dec",
 ];
 
+const DAY_ABBRS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
 /** Format as "Jan 6, 2025" */
 export function fmtDate(d: Date): string {
 	return `${MONTH_ABBRS[d.getMonth()]} ${d.getDate()}, ${d.getFullYear()}`;
@@ -279,3 +410,16 @@ export function fmtDate(d: Date): string {
 export function fmtShort(d: Date): string {
 	return `${MONTH_ABBRS[d.getMonth()]} ${d.getDate()}`;
 }
+
+/** Format as "Jan 2025" (no day) */
+export function fmtMonth(d: Date): string {
+	return `${MONTH_ABBRS[d.getMonth()]} ${d.getFullYear()}`;
+}
+
+/** Format getDay indices as "Tue, Wed" (sorted Sunday first) */
+export function fmtWeekdays(days: number[]): string {
+	return [...days]
+		.sort((a, b) => a - b)
+		.map((day) => DAY_ABBRS[day])
+		.join(", ");
+}
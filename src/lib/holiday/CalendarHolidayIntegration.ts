@@ -8,13 +8,22 @@
  * @module calendar-holiday-integration
  */
 
+import type { LongWeekend } from "../../types/holiday-data-source";
 import {
 	isDebugEnabled as isLoggerDebugEnabled,
 	logger,
 } from "../../utils/logger";
-import type { AppSettings } from "../settings-constants";
+import { isWorkDay } from "../dateUtils";
+import type {
+	AdditionalHolidayCountry,
+	AppSettings,
+} from "../settings-constants";
 import { settingsStore } from "../stores/settingsStore";
-import { getHolidayManager } from "./HolidayManager";
+import {
+	getHolidayManager,
+	type HolidayCountrySelection,
+	type HolidayManager,
+} from "./HolidayManager";
 
 /**
  * Check if debug mode is enabled
@@ -24,6 +33,18 @@ function isDebugEnabled(): boolean {
 	return isLoggerDebugEnabled();
 }
 
+/**
+ * Get the holiday manager with the saved custom calendar and personal
+ * company policy loaded, so both resolve like built-in data
+ */
+export async function getSyncedHolidayManager(): Promise<HolidayManager> {
+	const manager = await getHolidayManager();
+	const { customCalendar, customCompany } = settingsStore.get().holidays;
+	manager.setCustomCalendar(customCalendar?.holidays ?? []);
+	manager.setCustomCompany(customCompany ?? null);
+	return manager;
+}
+
 /**
  * Calendar holiday integration configuration
  */
@@ -31,6 +52,40 @@ export interface CalendarHolidayConfig {
 	countryCode: string | null;
 	companyName: string | null;
 	calendarYears: number[];
+	/** ISO 3166-2 state/province; null for the whole country */
+	subdivisionCode?: string | null;
+	/** Other countries whose holidays are merged in */
+	additionalCountries?: AdditionalHolidayCountry[];
+}
+
+/**
+ * The selected country followed by its additional countries, as input for
+ * HolidayManager's multi-country merge. Empty when no country is selected.
+ */
+export function getHolidayCountrySelections(
+	holidays: Pick<
+		AppSettings["holidays"],
+		"countryCode" | "companyName" | "subdivisionCode" | "additionalCountries"
+	>,
+): HolidayCountrySelection[] {
+	const { countryCode } = holidays;
+	if (!countryCode) {
+		return [];
+	}
+	return [
+		{
+			countryCode,
+			companyName: holidays.companyName ?? null,
+			subdivisionCode: holidays.subdivisionCode ?? null,
+			countsAsNonOffice: true,
+		},
+		...(holidays.additionalCountries ?? [])
+			.filter((country) => country.countryCode !== countryCode)
+			.map((country) => ({
+				countryCode: country.countryCode,
+				countsAsNonOffice: country.countsAsNonOffice,
+			})),
+	];
 }
 
 /**
@@ -54,7 +109,12 @@ export function initializeHolidayIntegration(): void {
 		const changed =
 			settings.holidays.countryCode !== previousHolidays.countryCode ||
 			settings.holidays.holidaysAsOOF !== previousHolidays.holidaysAsOOF ||
-			settings.holidays.companyName !== previousHolidays.companyName;
+			settings.holidays.companyName !== previousHolidays.companyName ||
+			settings.holidays.subdivisionCode !== previousHolidays.subdivisionCode ||
+			settings.holidays.additionalCountries !==
+				previousHolidays.additionalCountries ||
+			settings.holidays.customCalendar !== previousHolidays.customCalendar ||
+			settings.holidays.customCompany !== previousHolidays.customCompany;
 		previousHolidays = settings.holidays;
 		if (changed) {
 			handleSettingsChanged(settings);
@@ -147,6 +207,8 @@ export async function applySavedHolidays(): Promise<void> {
 			countryCode: holidayConfig.countryCode,
 			companyName: holidayConfig.companyName ?? null,
 			calendarYears,
+			subdivisionCode: holidayConfig.subdivisionCode ?? null,
+			additionalCountries: holidayConfig.additionalCountries ?? [],
 		});
 	} catch (error) {
 		logger.error("[HolidayIntegration] Error applying saved holidays:", error);
@@ -176,10 +238,9 @@ export async function applyHolidaysToCalendar(
 	}
 
 	try {
-		const manager = await getHolidayManager();
-		await manager.applyHolidaysToCalendar(
-			countryCode,
-			companyName,
+		const manager = await getSyncedHolidayManager();
+		await manager.applyCountryHolidaysToCalendar(
+			getHolidayCountrySelections(config),
 			calendarYears,
 		);
 
@@ -262,6 +323,8 @@ async function handleSettingsChanged(settings: AppSettings): Promise<void> {
 			countryCode: holidays.countryCode,
 			companyName: holidays.companyName ?? null,
 			calendarYears,
+			subdivisionCode: holidays.subdivisionCode ?? null,
+			additionalCountries: holidays.additionalCountries ?? [],
 		});
 	}
 }
@@ -300,24 +363,26 @@ export async function getHolidayDatesForValidation(): Promise<Set<Date>> {
 			return new Set();
 		}
 
-		// Extract country code after null check to satisfy TypeScript
-		const countryCode = holidayConfig.countryCode;
-		if (!countryCode) {
-			return new Set();
-		}
+		// Informational countries don't excuse office days
+		const countries = getHolidayCountrySelections(holidayConfig).filter(
+			(country) => country.countsAsNonOffice,
+		);
 
-		const manager = await getHolidayManager();
+		const manager = await getSyncedHolidayManager();
 		const calendarYears = getCalendarYears();
 
-		// Get only weekday holidays (weekend holidays don't affect office day calculations)
-		const holidayDates = await manager.getHolidayDates(
-			countryCode,
-			holidayConfig.companyName ?? null,
+		// Holidays off the working days don't affect office day calculations.
+		// Fetch all of them: the source's weekday filter assumes Mon-Fri.
+		const holidays = await manager.fetchHolidaysForCountries(
+			countries,
 			calendarYears,
-			true, // only weekdays
 		);
 
-		return holidayDates;
+		return new Set(
+			holidays
+				.map((holiday) => holiday.date)
+				.filter((date) => isWorkDay(date, settings.workDays)),
+		);
 	} catch (error) {
 		logger.error(
 			"[HolidayIntegration] Error getting holiday dates for validation:",
@@ -327,6 +392,26 @@ export async function getHolidayDatesForValidation(): Promise<Set<Date>> {
 	}
 }
 
+/**
+ * Get long weekends for the selected country across the calendar years.
+ * Used by the break finder as extra candidates; an empty list is a valid
+ * answer, so failures are logged rather than thrown.
+ */
+export async function getLongWeekendsForCalendar(): Promise<LongWeekend[]> {
+	const countryCode = settingsStore.get().holidays?.countryCode;
+	if (!countryCode) {
+		return [];
+	}
+
+	try {
+		const manager = await getSyncedHolidayManager();
+		return await manager.getLongWeekends(countryCode, getCalendarYears());
+	} catch (error) {
+		logger.warn("[HolidayIntegration] Error getting long weekends:", error);
+		return [];
+	}
+}
+
 /**
  * Export a singleton instance for easy access
  */
@@ -338,6 +423,7 @@ export const calendarHolidayIntegration = {
 	removeHolidays: removeHolidaysFromCalendar,
 	refresh: refreshCalendarHolidays,
 	getHolidayDates: getHolidayDatesForValidation,
+	getLongWeekends: getLongWeekendsForCalendar,
 };
 
 // Auto-initialization removed - module is now explicitly initialized from index.astro
@@ -9,20 +9,29 @@
  * @module holiday-manager
  */
 
-import type { HolidayDataSource } from "../../types/holiday-data-source";
+import type {
+	HolidayDataSource,
+	LongWeekend,
+} from "../../types/holiday-data-source";
+import { logger } from "../../utils/logger";
+import type { CustomCompanyFilter, CustomHoliday } from "../settings-constants";
 import {
 	buildHolidaySummary,
+	createCustomCalendarSource,
 	createDataSource,
 	fetchHolidaysFromSource,
 	generateCacheKey,
 	getAvailableCompaniesForCountry,
 	hasCompanyFiltersForCountry,
 	normalizeDate,
+	setCustomCompanyFilter,
 } from "./holiday-data";
 import {
 	applyHolidaysToCalendarDOM,
 	removeHolidaysFromCalendarDOM,
 } from "./holiday-dom-adapter";
+import type IcsHolidayDataSource from "./sources/IcsHolidayDataSource";
+import { CUSTOM_CALENDAR_CODE } from "./sources/IcsHolidayDataSource";
 
 /**
  * Holiday filter configuration
@@ -40,6 +49,8 @@ export interface HolidayInfo {
 	name: string;
 	countryCode: string;
 	isWeekday: boolean;
+	/** Set by multi-country merges; false when shown for information only */
+	countsAsNonOffice?: boolean;
 }
 
 /**
@@ -63,6 +74,19 @@ export interface FetchHolidaysOptions {
 	companyName?: string | null;
 	years: number[];
 	onlyWeekdays?: boolean;
+	/** ISO 3166-2 code; regional holidays elsewhere are left out */
+	subdivisionCode?: string | null;
+}
+
+/**
+ * One country's part of a multi-country holiday merge
+ */
+export interface HolidayCountrySelection {
+	countryCode: string;
+	companyName?: string | null;
+	subdivisionCode?: string | null;
+	/** False to show the holidays without treating them as days off */
+	countsAsNonOffice: boolean;
 }
 
 /**
@@ -75,6 +99,8 @@ export interface FetchHolidaysOptions {
 export class HolidayManager {
 	private static instance: HolidayManager | null = null;
 	private dataSource: HolidayDataSource | null = null;
+	private customSource: IcsHolidayDataSource | null = null;
+	private customCompany: CustomCompanyFilter | null = null;
 	private cache: Map<string, HolidayResult> = new Map();
 	private currentConfig: HolidayFilterConfig = {
 		countryCode: null,
@@ -96,6 +122,7 @@ export class HolidayManager {
 		}
 
 		this.dataSource = await createDataSource();
+		this.customSource = await createCustomCalendarSource();
 		this.initialized = true;
 	}
 
@@ -131,6 +158,71 @@ export class HolidayManager {
 		this.cache.clear();
 	}
 
+	/**
+	 * Data source for a country code; the custom calendar code is served by
+	 * the imported ICS calendar
+	 */
+	private sourceFor(countryCode: string): HolidayDataSource | null {
+		return countryCode === CUSTOM_CALENDAR_CODE
+			? this.customSource
+			: this.dataSource;
+	}
+
+	/**
+	 * Drop cached results for the custom calendar
+	 */
+	private clearCustomCalendarCache(): void {
+		for (const key of this.cache.keys()) {
+			if (key.startsWith(`${CUSTOM_CALENDAR_CODE}:`)) {
+				this.cache.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Set the holidays served under the custom calendar code.
+	 * Passing the array already in use is a no-op, so callers can sync from
+	 * settings before every lookup without losing cached results.
+	 */
+	public setCustomCalendar(holidays: readonly CustomHoliday[]): void {
+		if (!this.customSource || this.customSource.getHolidays() === holidays) {
+			return;
+		}
+		this.customSource.setHolidays(holidays);
+		this.clearCustomCalendarCache();
+	}
+
+	/**
+	 * Parse an ICS file and serve its events under the custom calendar code
+	 */
+	public importCustomCalendar(data: string): {
+		success: boolean;
+		holidays?: CustomHoliday[];
+		error?: string;
+	} {
+		if (!this.customSource) {
+			return { success: false, error: "Custom calendars are not available" };
+		}
+		const result = this.customSource.loadICS(data);
+		if (result.success) {
+			this.clearCustomCalendarCache();
+		}
+		return result;
+	}
+
+	/**
+	 * Set the user's personal company policy, or null to remove it.
+	 * Like setCustomCalendar, passing the policy already in use is a no-op.
+	 */
+	public setCustomCompany(filter: CustomCompanyFilter | null): void {
+		if (this.customCompany === filter) {
+			return;
+		}
+		this.customCompany = filter;
+		setCustomCompanyFilter(filter);
+		this.clearCache();
+	}
+
 	/**
 	 * Fetch holidays for specified years and options
 	 */
@@ -145,7 +237,8 @@ export class HolidayManager {
 		}
 
 		// Fail fast if data source is not initialized
-		if (!this.dataSource) {
+		const dataSource = this.sourceFor(options.countryCode);
+		if (!dataSource) {
 			throw new Error(
 				"HolidayManager data source not initialized. " +
 					"Call initialize() before fetching holidays.",
@@ -153,7 +246,7 @@ export class HolidayManager {
 		}
 
 		const { countryCode, companyName, years } = options;
-		const result = await fetchHolidaysFromSource(this.dataSource, options);
+		const result = await fetchHolidaysFromSource(dataSource, options);
 
 		// Build full HolidayResult with metadata
 		const holidayResult: HolidayResult = {
@@ -172,6 +265,52 @@ export class HolidayManager {
 		return holidayResult;
 	}
 
+	/**
+	 * Fetch and merge holidays from several countries, in date order.
+	 * Each holiday keeps its own countryCode and is tagged with its country's
+	 * countsAsNonOffice rule; a day that is a holiday in two countries
+	 * appears once per country. The first country is the primary one and its
+	 * failure is thrown; an additional country that fails is logged and left
+	 * out, so the others still count.
+	 */
+	public async fetchHolidaysForCountries(
+		countries: readonly HolidayCountrySelection[],
+		years: number[],
+		onlyWeekdays: boolean = false,
+	): Promise<HolidayInfo[]> {
+		const settled = await Promise.allSettled(
+			countries.map(async (country) => {
+				const result = await this.fetchHolidays({
+					countryCode: country.countryCode,
+					companyName: country.companyName ?? null,
+					subdivisionCode: country.subdivisionCode ?? null,
+					years: [...years],
+					onlyWeekdays,
+				});
+				return result.holidays.map((holiday) => ({
+					...holiday,
+					countsAsNonOffice: country.countsAsNonOffice,
+				}));
+			}),
+		);
+		const perCountry = settled.map((outcome, index) => {
+			if (outcome.status === "fulfilled") {
+				return outcome.value;
+			}
+			if (index === 0) {
+				throw outcome.reason;
+			}
+			logger.warn(
+				`[HolidayManager] Skipping holidays for ${countries[index]?.countryCode}:`,
+				outcome.reason,
+			);
+			return [];
+		});
+		return perCountry
+			.flat()
+			.sort((a, b) => a.date.getTime() - b.date.getTime());
+	}
+
 	/**
 	 * Get holiday dates as a Set for easy lookup
 	 */
@@ -180,17 +319,41 @@ export class HolidayManager {
 		companyName: string | null,
 		years: number[],
 		onlyWeekdays: boolean = false,
+		subdivisionCode: string | null = null,
 	): Promise<Set<Date>> {
 		const result = await this.fetchHolidays({
 			countryCode,
 			companyName: companyName ?? null,
 			years,
 			onlyWeekdays,
+			subdivisionCode,
 		});
 
 		return new Set(result.holidays.map((h) => h.date));
 	}
 
+	/**
+	 * Get long weekends for the given years, in date order.
+	 * Returns an empty list when the data source has no long-weekend feed.
+	 * Company filters are not applied; callers re-check days against their
+	 * own holiday set.
+	 */
+	public async getLongWeekends(
+		countryCode: string,
+		years: number[],
+	): Promise<LongWeekend[]> {
+		const source = this.sourceFor(countryCode);
+		if (!source?.getLongWeekends) {
+			return [];
+		}
+		const perYear = await Promise.all(
+			years.map((year) => source.getLongWeekends?.(year, countryCode) ?? []),
+		);
+		return perYear
+			.flat()
+			.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+	}
+
 	/**
 	 * Check if a specific date is a holiday
 	 */
@@ -198,6 +361,7 @@ export class HolidayManager {
 		date: Date,
 		countryCode: string,
 		companyName: string | null = null,
+		subdivisionCode: string | null = null,
 	): Promise<boolean> {
 		const normalizedDate = normalizeDate(date);
 		const year = normalizedDate.getFullYear();
@@ -208,6 +372,7 @@ export class HolidayManager {
 			companyName: companyName ?? null,
 			years,
 			onlyWeekdays: false,
+			subdivisionCode,
 		});
 
 		return holidays.holidays.some(
@@ -225,17 +390,35 @@ export class HolidayManager {
 		companyName: string | null,
 		calendarYears: number[],
 		holidaysAsOOF: boolean = true,
+		subdivisionCode: string | null = null,
 	): Promise<void> {
 		const result = await this.fetchHolidays({
 			countryCode,
 			companyName: companyName ?? null,
 			years: calendarYears,
 			onlyWeekdays: false,
+			subdivisionCode,
 		});
 
 		applyHolidaysToCalendarDOM(result.holidays, holidaysAsOOF);
 	}
 
+	/**
+	 * Apply merged holidays from several countries to the calendar UI.
+	 * Only holidays whose country counts them as days off are marked OOF.
+	 */
+	public async applyCountryHolidaysToCalendar(
+		countries: readonly HolidayCountrySelection[],
+		calendarYears: number[],
+		holidaysAsOOF: boolean = true,
+	): Promise<void> {
+		const holidays = await this.fetchHolidaysForCountries(
+			countries,
+			calendarYears,
+		);
+		applyHolidaysToCalendarDOM(holidays, holidaysAsOOF);
+	}
+
 	/**
 	 * Remove holiday markers from the calendar
 	 *
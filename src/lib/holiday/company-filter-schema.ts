@@ -0,0 +1,135 @@
+/**
+ * Company filter schemas
+ *
+ * Zod mirror of data/company-filters.schema.json, shared by the bundled
+ * filters, the personal company editor and JSON import.
+ *
+ * @module company-filter-schema
+ */
+
+import { z } from "zod";
+import type { CustomCompanyFilter } from "../settings-constants";
+
+export const extraHolidaySchema = z.union([
+	z
+		.object({
+			name: z.string(),
+			month: z.number().int().min(1).max(12),
+			day: z.number().int().min(1).max(31),
+		})
+		.strict(),
+	z
+		.object({
+			name: z.string(),
+			after: z.string(),
+		})
+		.strict(),
+]);
+
+export const companyEntrySchema = z
+	.object({
+		holidays: z.array(z.string()),
+		extra: z.array(extraHolidaySchema).optional(),
+	})
+	.strict();
+
+export const countryEntrySchema = z
+	.object({
+		name: z.string(),
+		companies: z.record(z.string(), companyEntrySchema),
+	})
+	.strict();
+
+export const companyFiltersSchema = z.record(
+	z.string(),
+	z.union([
+		countryEntrySchema,
+		z.string(), // $schema key
+	]),
+);
+
+/** A personal company policy as saved in settings */
+export const customCompanyFilterSchema = z.object({
+	name: z.string(),
+	countryCode: z.string(),
+	holidays: z.array(z.string()),
+	extra: z.array(extraHolidaySchema),
+});
+
+/**
+ * Options for checking a personal company policy against its country
+ */
+export interface CustomCompanyValidationOptions {
+	/** Public holiday names of the policy's country; unchecked if omitted */
+	holidayNames?: readonly string[];
+	/** Company names already used for the country */
+	takenNames?: readonly string[];
+}
+
+/**
+ * Validate a personal company policy.
+ *
+ * The holidays and extras must form a valid company-filters.json entry.
+ * On top of the schema, every day must exist in its month, and a "day after"
+ * extra must follow one of the selected holidays, because extras are resolved
+ * against the already filtered list.
+ *
+ * @returns Human-readable problems; empty when the policy is valid
+ */
+export function validateCustomCompany(
+	filter: CustomCompanyFilter,
+	options: CustomCompanyValidationOptions = {},
+): string[] {
+	const errors: string[] = [];
+	const { holidayNames, takenNames = [] } = options;
+
+	const name = filter.name.trim();
+	if (!name) {
+		errors.push("Company name is required");
+	} else if (takenNames.includes(name)) {
+		errors.push(`A company named "${name}" already exists for this country`);
+	}
+	if (!filter.countryCode) {
+		errors.push("Country is required");
+	}
+
+	const entry = companyEntrySchema.safeParse({
+		holidays: filter.holidays,
+		extra: filter.extra,
+	});
+	if (!entry.success) {
+		for (const issue of entry.error.issues) {
+			errors.push(`${issue.path.join(".") || "entry"}: ${issue.message}`);
+		}
+		return errors;
+	}
+
+	if (filter.holidays.length === 0 && filter.extra.length === 0) {
+		errors.push("Select at least one holiday or add an extra day");
+	}
+	if (holidayNames) {
+		for (const holiday of filter.holidays) {
+			if (!holidayNames.includes(holiday)) {
+				errors.push(`"${holiday}" is not a public holiday in this country`);
+			}
+		}
+	}
+
+	for (const [index, extra] of filter.extra.entries()) {
+		const label = extra.name.trim() || `Extra day ${index + 1}`;
+		if (!extra.name.trim()) {
+			errors.push(`${label}: name is required`);
+		}
+		if ("month" in extra) {
+			// Leap year, so 29 February is allowed
+			const daysInMonth = new Date(2024, extra.month, 0).getDate();
+			if (extra.day > daysInMonth) {
+				errors.push(`${label}: day ${extra.day} does not exist in that month`);
+			}
+		} else if (!filter.holidays.includes(extra.after)) {
+			errors.push(`${label}: "${extra.after}" must be a selected holiday`);
+		}
+	}
+
+	return errors;
+}
@@ -0,0 +1,1911 @@
+/**
+ * Offline holiday rules
+ *
+ * Nationwide public holidays expressed as rules, so the offline data source
+ * can compute any year without a network connection. Names follow the
+ * English names Nager.Date returns, because company filters match on them.
+ *
+ * Every country in COUNTRIES has an entry. Regional holidays, one-off
+ * proclamations and lunar or astronomical dates (Chinese New Year, Eid,
+ * Diwali, equinoxes) are not modelled, so countries that mostly follow a
+ * lunar calendar get their fixed-date holidays only.
+ */
+
+/**
+ * How a holiday that lands on a weekend is observed
+ * - nearest-weekday: Saturday → Friday, Sunday → Monday (US federal)
+ * - next-weekday: the next weekday not already a holiday (UK, AU, NZ substitutes)
+ * - sunday-next-weekday: as next-weekday, but Saturdays are not moved
+ *   (ZA, JP, SG substitutes)
+ */
+export type ObservedShift =
+	| "nearest-weekday"
+	| "next-weekday"
+	| "sunday-next-weekday";
+
+interface RuleBase {
+	name: string;
+	/** First year the holiday applies */
+	from?: number;
+	/** Last year the holiday applies */
+	until?: number;
+	observed?: ObservedShift;
+}
+
+/** Same calendar date every year (month is 1-based) */
+export interface FixedRule extends RuleBase {
+	month: number;
+	day: number;
+}
+
+/** Days relative to Western Easter Sunday (Good Friday = -2) */
+export interface EasterRule extends RuleBase {
+	easter: number;
+}
+
+/** Days relative to Orthodox Easter Sunday (Julian computus) */
+export interface OrthodoxEasterRule extends RuleBase {
+	orthodoxEaster: number;
+}
+
+/**
+ * First given weekday (0 = Sunday) on or after month/day.
+ * Third Monday of January is `{ month: 1, day: 15, weekday: 1 }`;
+ * last Monday of May is `{ month: 5, day: 25, weekday: 1 }`.
+ */
+export interface WeekdayRule extends RuleBase {
+	month: number;
+	day: number;
+	weekday: number;
+}
+
+export type HolidayRule =
+	| FixedRule
+	| EasterRule
+	| OrthodoxEasterRule
+	| WeekdayRule;
+
+const SUN = 0;
+const MON = 1;
+const TUE = 2;
+const THU = 4;
+const FRI = 5;
+const SAT = 6;
+
+const newYearsDay: FixedRule = { name: "New Year's Day", month: 1, day: 1 };
+const epiphany: FixedRule = { name: "Epiphany", month: 1, day: 6 };
+const maundyThursday: EasterRule = { name: "Maundy Thursday", easter: -3 };
+const goodFriday: EasterRule = { name: "Good Friday", easter: -2 };
+const holySaturday: EasterRule = { name: "Holy Saturday", easter: -1 };
+const easterSunday: EasterRule = { name: "Easter Sunday", easter: 0 };
+const easterMonday: EasterRule = { name: "Easter Monday", easter: 1 };
+const orthodoxGoodFriday: OrthodoxEasterRule = {
+	name: "Orthodox Good Friday",
+	orthodoxEaster: -2,
+};
+const orthodoxEasterSunday: OrthodoxEasterRule = {
+	name: "Orthodox Easter Sunday",
+	orthodoxEaster: 0,
+};
+const orthodoxEasterMonday: OrthodoxEasterRule = {
+	name: "Orthodox Easter Monday",
+	orthodoxEaster: 1,
+};
+const labourDay: FixedRule = { name: "Labour Day", month: 5, day: 1 };
+const ascensionDay: EasterRule = { name: "Ascension Day", easter: 39 };
+const whitSunday: EasterRule = { name: "Whit Sunday", easter: 49 };
+const whitMonday: EasterRule = { name: "Whit Monday", easter: 50 };
+const corpusChristi: EasterRule = { name: "Corpus Christi", easter: 60 };
+const assumptionDay: FixedRule = { name: "Assumption Day", month: 8, day: 15 };
+const allSaintsDay: FixedRule = { name: "All Saints' Day", month: 11, day: 1 };
+const immaculateConception: FixedRule = {
+	name: "Immaculate Conception",
+	month: 12,
+	day: 8,
+};
+const christmasEve: FixedRule = { name: "Christmas Eve", month: 12, day: 24 };
+const christmasDay: FixedRule = { name: "Christmas Day", month: 12, day: 25 };
+const stStephensDay: FixedRule = {
+	name: "St. Stephen's Day",
+	month: 12,
+	day: 26,
+};
+const boxingDay: FixedRule = { name: "Boxing Day", month: 12, day: 26 };
+const newYearsEve: FixedRule = { name: "New Year's Eve", month: 12, day: 31 };
+
+/** England and Wales bank holidays, shared by the Crown Dependencies */
+const englishBankHolidays: readonly HolidayRule[] = [
+	{ ...newYearsDay, observed: "next-weekday" },
+	goodFriday,
+	easterMonday,
+	{ name: "Early May Bank Holiday", month: 5, day: 1, weekday: MON },
+	{ name: "Spring Bank Holiday", month: 5, day: 25, weekday: MON },
+	{ name: "Summer Bank Holiday", month: 8, day: 25, weekday: MON },
+	{ ...christmasDay, observed: "next-weekday" },
+	{ name: "Boxing Day", month: 12, day: 26, observed: "next-weekday" },
+];
+
+/** Finnish public holidays, shared by Åland */
+const finnishHolidays: readonly HolidayRule[] = [
+	newYearsDay,
+	epiphany,
+	goodFriday,
+	easterSunday,
+	easterMonday,
+	{ name: "May Day", month: 5, day: 1 },
+	ascensionDay,
+	{ name: "Pentecost", easter: 49 },
+	{ name: "Midsummer Eve", month: 6, day: 19, weekday: FRI },
+	{ name: "Midsummer Day", month: 6, day: 20, weekday: SAT },
+	{ ...allSaintsDay, month: 10, day: 31, weekday: SAT },
+	{ name: "Independence Day", month: 12, day: 6 },
+	christmasEve,
+	christmasDay,
+	stStephensDay,
+];
+
+/** Norwegian public holidays, shared by Svalbard and Jan Mayen */
+const norwegianHolidays: readonly HolidayRule[] = [
+	newYearsDay,
+	maundyThursday,
+	goodFriday,
+	easterSunday,
+	easterMonday,
+	labourDay,
+	{ name: "Constitution Day", month: 5, day: 17 },
+	ascensionDay,
+	whitSunday,
+	whitMonday,
+	christmasDay,
+	stStephensDay,
+];
+
+/** US federal holidays, shared by Puerto Rico */
+const usFederalHolidays: readonly HolidayRule[] = [
+	{ ...newYearsDay, observed: "nearest-weekday" },
+	{ name: "Martin Luther King, Jr. Day", month: 1, day: 15, weekday: MON },
+	{ name: "Presidents Day", month: 2, day: 15, weekday: MON },
+	{ name: "Memorial Day", month: 5, day: 25, weekday: MON },
+	{
+		name: "Juneteenth National Independence Day",
+		month: 6,
+		day: 19,
+		from: 2021,
+		observed: "nearest-weekday",
+	},
+	{
+		name: "Independence Day",
+		month: 7,
+		day: 4,
+		observed: "nearest-weekday",
+	},
+	{ name: "Labour Day", month: 9, day: 1, weekday: MON },
+	{ name: "Columbus Day", month: 10, day: 8, weekday: MON },
+	{ name: "Veterans Day", month: 11, day: 11, observed: "nearest-weekday" },
+	{ name: "Thanksgiving Day", month: 11, day: 22, weekday: THU },
+	{ ...christmasDay, observed: "nearest-weekday" },
+];
+
+export const HOLIDAY_RULES: Readonly<Record<string, readonly HolidayRule[]>> = {
+	AD: [
+		newYearsDay,
+		epiphany,
+		{ name: "Carnival", easter: -47 },
+		{ name: "Constitution Day", month: 3, day: 14 },
+		goodFriday,
+		easterMonday,
+		labourDay,
+		whitMonday,
+		assumptionDay,
+		{ name: "Our Lady of Meritxell", month: 9, day: 8 },
+		allSaintsDay,
+		immaculateConception,
+		christmasDay,
+		stStephensDay,
+	],
+	AL: [
+		newYearsDay,
+		{ name: "New Year's Day", month: 1, day: 2 },
+		{ name: "Summer Day", month: 3, day: 14 },
+		{ name: "Nevruz Day", month: 3, day: 22 },
+		{ name: "Catholic Easter Sunday", easter: 0 },
+		{ name: "Orthodox Easter Sunday", orthodoxEaster: 0 },
+		labourDay,
+		{ name: "Mother Teresa Day", month: 10, day: 19 },
+		{ name: "Independence Day", month: 11, day: 28 },
+		{ name: "Liberation Day", month: 11, day: 29 },
+		{ name: "National Youth Day", month: 12, day: 8 },
+		christmasDay,
+	],
+	AM: [
+		newYearsDay,
+		{ name: "New Year's Day", month: 1, day: 2 },
+		{ name: "Christmas Day", month: 1, day: 6 },
+		{ name: "Army Day", month: 1, day: 28 },
+		{ name: "International Women's Day", month: 3, day: 8 },
+		{ name: "Armenian Genocide Remembrance Day", month: 4, day: 24 },
+		labourDay,
+		{ name: "Victory and Peace Day", month: 5, day: 9 },
+		{ name: "Republic Day", month: 5, day: 28 },
+		{ name: "Constitution Day", month: 7, day: 5 },
+		{ name: "Independence Day", month: 9, day: 21 },
+		newYearsEve,
+	],
+	AR: [
+		newYearsDay,
+		{ name: "Carnival Monday", easter: -48 },
+		{ name: "Carnival Tuesday", easter: -47 },
+		{ name: "Day of Remembrance for Truth and Justice", month: 3, day: 24 },
+		{
+			name: "Day of the Veterans and Fallen of the Malvinas War",
+			month: 4,
+			day: 2,
+		},
+		goodFriday,
+		labourDay,
+		{ name: "May Revolution", month: 5, day: 25 },
+		{ name: "General Manuel Belgrano Memorial Day", month: 6, day: 20 },
+		{ name: "Independence Day", month: 7, day: 9 },
+		{
+			name: "General José de San Martín Memorial Day",
+			month: 8,
+			day: 15,
+			weekday: MON,
+		},
+		{
+			name: "Day of Respect for Cultural Diversity",
+			month: 10,
+			day: 8,
+			weekday: MON,
+		},
+		{ name: "National Sovereignty Day", month: 11, day: 20 },
+		immaculateConception,
+		christmasDay,
+	],
+	AT: [
+		newYearsDay,
+		epiphany,
+		easterMonday,
+		{ name: "National Holiday", month: 5, day: 1 },
+		ascensionDay,
+		whitMonday,
+		corpusChristi,
+		assumptionDay,
+		{ name: "National Holiday", month: 10, day: 26 },
+		allSaintsDay,
+		immaculateConception,
+		christmasDay,
+		stStephensDay,
+	],
+	AU: [
+		{ ...newYearsDay, observed: "next-weekday" },
+		{ name: "Australia Day", month: 1, day: 26, observed: "next-weekday" },
+		goodFriday,
+		easterMonday,
+		{ name: "Anzac Day", month: 4, day: 25 },
+		{ ...christmasDay, observed: "next-weekday" },
+		{ name: "Boxing Day", month: 12, day: 26, observed: "next-weekday" },
+	],
+	AX: [...finnishHolidays, { name: "Autonomy Day", month: 6, day: 9 }],
+	BA: [
+		newYearsDay,
+		{ name: "New Year's Day", month: 1, day: 2 },
+		{ name: "Orthodox Christmas", month: 1, day: 7 },
+		{ name: "Independence Day", month: 3, day: 1 },
+		labourDay,
+		{ ...labourDay, day: 2 },
+		{ name: "Victory Day", month: 5, day: 9 },
+		{ name: "Statehood Day", month: 11, day: 25 },
+		christmasDay,
+	],
+	BB: [
+		newYearsDay,
+		{ name: "Errol Barrow Day", month: 1, day: 21 },
+		goodFriday,
+		easterMonday,
+		{ name: "National Heroes Day", month: 4, day: 28 },
+		{ name: "May Day", month: 5, day: 1 },
+		whitMonday,
+		{ name: "Emancipation Day", month: 8, day: 1 },
+		{ name: "Kadooment Day", month: 8, day: 1, weekday: MON },
+		{ name: "Independence Day", month: 11, day: 30 },
+		christmasDay,
+		boxingDay,
+	],
+	BE: [
+		newYearsDay,
+		easterSunday,
+		easterMonday,
+		labourDay,
+		ascensionDay,
+		whitSunday,
+		whitMonday,
+		{ name: "Belgian National Day", month: 7, day: 21 },
+		assumptionDay,
+		allSaintsDay,
+		{ name: "Armistice Day", month: 11, day: 11 },
+		christmasDay,
+	],
+	BG: [
+		newYearsDay,
+		{ name: "Liberation Day", month: 3, day: 3 },
+		orthodoxGoodFriday,
+		{ name: "Holy Saturday", orthodoxEaster: -1 },
+		orthodoxEasterSunday,
+		orthodoxEasterMonday,
+		labourDay,
+		{ name: "St. George's Day", month: 5, day: 6 },
+		{ name: "Saints Cyril and Methodius Day", month: 5, day: 24 },
+		{ name: "Unification Day", month: 9, day: 6 },
+		{ name: "Independence Day", month: 9, day: 22 },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+	],
+	BJ: [
+		newYearsDay,
+		{ name: "Vodoun Festival", month: 1, day: 10 },
+		easterMonday,
+		labourDay,
+		ascensionDay,
+		whitMonday,
+		{ name: "Independence Day", month: 8, day: 1 },
+		assumptionDay,
+		{ name: "Armed Forces Day", month: 10, day: 26 },
+		allSaintsDay,
+		christmasDay,
+	],
+	BO: [
+		newYearsDay,
+		{ name: "Plurinational State Foundation Day", month: 1, day: 22 },
+		{ name: "Carnival Monday", easter: -48 },
+		{ name: "Carnival Tuesday", easter: -47 },
+		goodFriday,
+		labourDay,
+		corpusChristi,
+		{ name: "Andean New Year", month: 6, day: 21 },
+		{ name: "Independence Day", month: 8, day: 6 },
+		{ name: "All Souls' Day", month: 11, day: 2 },
+		christmasDay,
+	],
+	BR: [
+		newYearsDay,
+		goodFriday,
+		{ name: "Tiradentes", month: 4, day: 21 },
+		labourDay,
+		{ name: "Independence Day", month: 9, day: 7 },
+		{ name: "Our Lady of Aparecida", month: 10, day: 12 },
+		{ name: "All Souls' Day", month: 11, day: 2 },
+		{ name: "Republic Proclamation Day", month: 11, day: 15 },
+		{ name: "Black Awareness Day", month: 11, day: 20, from: 2024 },
+		christmasDay,
+	],
+	BS: [
+		newYearsDay,
+		{ name: "Majority Rule Day", month: 1, day: 10 },
+		goodFriday,
+		easterMonday,
+		whitMonday,
+		{ name: "Randol Fawkes Labour Day", month: 6, day: 1, weekday: FRI },
+		{ name: "Independence Day", month: 7, day: 10 },
+		{ name: "Emancipation Day", month: 8, day: 1, weekday: MON },
+		{ name: "National Heroes' Day", month: 10, day: 8, weekday: MON },
+		christmasDay,
+		boxingDay,
+	],
+	BW: [
+		{ ...newYearsDay, observed: "sunday-next-weekday" },
+		{ name: "New Year Holiday", month: 1, day: 2 },
+		goodFriday,
+		holySaturday,
+		easterMonday,
+		{ ...labourDay, observed: "sunday-next-weekday" },
+		ascensionDay,
+		{
+			name: "Sir Seretse Khama Day",
+			month: 7,
+			day: 1,
+			observed: "sunday-next-weekday",
+		},
+		{ name: "President's Day", month: 7, day: 15, weekday: MON },
+		{ name: "President's Day Holiday", month: 7, day: 16, weekday: TUE },
+		{ name: "Botswana Day", month: 9, day: 30 },
+		{ name: "Botswana Day Holiday", month: 10, day: 1 },
+		christmasDay,
+		{ ...boxingDay, observed: "sunday-next-weekday" },
+	],
+	BY: [
+		newYearsDay,
+		{ name: "New Year's Day", month: 1, day: 2 },
+		{ name: "Orthodox Christmas", month: 1, day: 7 },
+		{ name: "International Women's Day", month: 3, day: 8 },
+		labourDay,
+		{ name: "Commemoration Day", orthodoxEaster: 9 },
+		{ name: "Victory Day", month: 5, day: 9 },
+		{ name: "Independence Day", month: 7, day: 3 },
+		{ name: "October Revolution Day", month: 11, day: 7 },
+		christmasDay,
+	],
+	BZ: [
+		newYearsDay,
+		{ name: "George Price Day", month: 1, day: 15 },
+		{ name: "National Heroes and Benefactors Day", month: 3, day: 9 },
+		goodFriday,
+		holySaturday,
+		easterMonday,
+		labourDay,
+		{ name: "Emancipation Day", month: 8, day: 1 },
+		{ name: "Saint George's Caye Day", month: 9, day: 10 },
+		{ name: "Independence Day", month: 9, day: 21 },
+		{ name: "Indigenous Peoples' Resistance Day", month: 10, day: 12 },
+		{ name: "Garifuna Settlement Day", month: 11, day: 19 },
+		christmasDay,
+		boxingDay,
+	],
+	CA: [
+		newYearsDay,
+		goodFriday,
+		{ name: "Victoria Day", month: 5, day: 18, weekday: MON },
+		{ name: "Canada Day", month: 7, day: 1 },
+		{ ...labourDay, month: 9, day: 1, weekday: MON },
+		{ name: "Thanksgiving", month: 10, day: 8, weekday: MON },
+		christmasDay,
+	],
+	CD: [
+		newYearsDay,
+		{ name: "Martyrs' Day", month: 1, day: 4 },
+		{ name: "Laurent Kabila Day", month: 1, day: 16 },
+		{ name: "Patrice Lumumba Day", month: 1, day: 17 },
+		labourDay,
+		{ name: "Liberation Day", month: 5, day: 17 },
+		{ name: "Independence Day", month: 6, day: 30 },
+		{ name: "Parents' Day", month: 8, day: 1 },
+		christmasDay,
+	],
+	CG: [
+		newYearsDay,
+		easterMonday,
+		labourDay,
+		ascensionDay,
+		whitMonday,
+		{ name: "Reconciliation Day", month: 6, day: 10 },
+		{ name: "Independence Day", month: 8, day: 15 },
+		allSaintsDay,
+		{ name: "Republic Day", month: 11, day: 28 },
+		christmasDay,
+	],
+	CH: [
+		newYearsDay,
+		ascensionDay,
+		{ name: "Swiss National Day", month: 8, day: 1 },
+		christmasDay,
+	],
+	CL: [
+		newYearsDay,
+		goodFriday,
+		holySaturday,
+		labourDay,
+		{ name: "Navy Day", month: 5, day: 21 },
+		{ name: "Saint Peter and Saint Paul", month: 6, day: 29 },
+		{ name: "Our Lady of Mount Carmel", month: 7, day: 16 },
+		assumptionDay,
+		{ name: "Independence Day", month: 9, day: 18 },
+		{ name: "Army Day", month: 9, day: 19 },
+		{ name: "Columbus Day", month: 10, day: 12 },
+		{ name: "Reformation Day", month: 10, day: 31 },
+		allSaintsDay,
+		immaculateConception,
+		christmasDay,
+	],
+	CN: [
+		newYearsDay,
+		labourDay,
+		{ name: "National Day", month: 10, day: 1 },
+		{ name: "National Day", month: 10, day: 2 },
+		{ name: "National Day", month: 10, day: 3 },
+	],
+	CO: [
+		newYearsDay,
+		{ ...epiphany, weekday: MON },
+		{ name: "Saint Joseph's Day", month: 3, day: 19, weekday: MON },
+		maundyThursday,
+		goodFriday,
+		labourDay,
+		{ ...ascensionDay, easter: 43 },
+		{ ...corpusChristi, easter: 64 },
+		{ name: "Sacred Heart", easter: 71 },
+		{ name: "Saint Peter and Saint Paul", month: 6, day: 29, weekday: MON },
+		{ name: "Declaration of Independence", month: 7, day: 20 },
+		{ name: "Battle of Boyacá", month: 8, day: 7 },
+		{ ...assumptionDay, weekday: MON },
+		{ name: "Columbus Day", month: 10, day: 12, weekday: MON },
+		{ ...allSaintsDay, weekday: MON },
+		{ name: "Independence of Cartagena", month: 11, day: 11, weekday: MON },
+		immaculateConception,
+		christmasDay,
+	],
+	CR: [
+		newYearsDay,
+		maundyThursday,
+		goodFriday,
+		{ name: "Juan Santamaría Day", month: 4, day: 11 },
+		labourDay,
+		{
+			name: "Annexation of the Party of Nicoya to Costa Rica",
+			month: 7,
+			day: 25,
+		},
+		{ name: "Feast of Our Lady of the Angels", month: 8, day: 2 },
+		{ name: "Mother's Day", month: 8, day: 15 },
+		{ name: "Independence Day", month: 9, day: 15 },
+		christmasDay,
+	],
+	CU: [
+		{ name: "Liberation Day", month: 1, day: 1 },
+		{ name: "Victory Day", month: 1, day: 2 },
+		goodFriday,
+		labourDay,
+		{
+			name: "Commemoration of the Assault of the Moncada garrison",
+			month: 7,
+			day: 25,
+		},
+		{ name: "Day of the National Rebellion", month: 7, day: 26 },
+		{
+			name: "Commemoration of the Assault of the Moncada garrison",
+			month: 7,
+			day: 27,
+		},
+		{ name: "Independence Day", month: 10, day: 10 },
+		christmasDay,
+		newYearsEve,
+	],
+	CY: [
+		newYearsDay,
+		epiphany,
+		{ name: "Clean Monday", orthodoxEaster: -48 },
+		{ name: "Greek Independence Day", month: 3, day: 25 },
+		{ name: "Cyprus National Day", month: 4, day: 1 },
+		orthodoxGoodFriday,
+		orthodoxEasterSunday,
+		orthodoxEasterMonday,
+		labourDay,
+		{ name: "Orthodox Whit Monday", orthodoxEaster: 50 },
+		assumptionDay,
+		{ name: "Cyprus Independence Day", month: 10, day: 1 },
+		{ name: "Ochi Day", month: 10, day: 28 },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+	],
+	CZ: [
+		newYearsDay,
+		goodFriday,
+		easterMonday,
+		labourDay,
+		{ name: "Liberation Day", month: 5, day: 8 },
+		{ name: "Saints Cyril and Methodius Day", month: 7, day: 5 },
+		{ name: "Jan Hus Day", month: 7, day: 6 },
+		{ name: "St. Wenceslas Day", month: 9, day: 28 },
+		{ name: "Independent Czechoslovak State Day", month: 10, day: 28 },
+		{ name: "Struggle for Freedom and Democracy Day", month: 11, day: 17 },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+	],
+	DE: [
+		newYearsDay,
+		goodFriday,
+		easterMonday,
+		labourDay,
+		ascensionDay,
+		whitMonday,
+		{ name: "German Unity Day", month: 10, day: 3 },
+		christmasDay,
+		stStephensDay,
+	],
+	DK: [
+		newYearsDay,
+		maundyThursday,
+		goodFriday,
+		easterSunday,
+		easterMonday,
+		{ name: "General Prayer Day", easter: 26, until: 2023 },
+		ascensionDay,
+		whitSunday,
+		whitMonday,
+		christmasDay,
+		stStephensDay,
+	],
+	DO: [
+		newYearsDay,
+		epiphany,
+		{ name: "Lady of Altagracia", month: 1, day: 21 },
+		{ name: "Juan Pablo Duarte Day", month: 1, day: 26 },
+		{ name: "Independence Day", month: 2, day: 27 },
+		goodFriday,
+		labourDay,
+		corpusChristi,
+		{ name: "Restoration Day", month: 8, day: 16 },
+		{ name: "Our Lady of Mercedes", month: 9, day: 24 },
+		{ name: "Constitution Day", month: 11, day: 6 },
+		christmasDay,
+	],
+	EC: [
+		newYearsDay,
+		{ name: "Carnival Monday", easter: -48 },
+		{ name: "Carnival Tuesday", easter: -47 },
+		goodFriday,
+		labourDay,
+		{ name: "The Battle of Pichincha", month: 5, day: 24 },
+		{ name: "Declaration of Independence of Quito", month: 8, day: 10 },
+		{ name: "Independence of Guayaquil", month: 10, day: 9 },
+		{ name: "All Souls' Day", month: 11, day: 2 },
+		{ name: "Independence of Cuenca", month: 11, day: 3 },
+		christmasDay,
+	],
+	EE: [
+		newYearsDay,
+		{ name: "Independence Day", month: 2, day: 24 },
+		goodFriday,
+		easterSunday,
+		{ name: "Spring Day", month: 5, day: 1 },
+		{ name: "Pentecost", easter: 49 },
+		{ name: "Victory Day", month: 6, day: 23 },
+		{ name: "Midsummer Day", month: 6, day: 24 },
+		{ name: "Day of Restoration of Independence", month: 8, day: 20 },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+	],
+	EG: [
+		{ name: "Coptic Christmas Day", month: 1, day: 7 },
+		{ name: "Revolution Day 2011 National Police Day", month: 1, day: 25 },
+		{ name: "Spring Festival", orthodoxEaster: 1 },
+		{ name: "Sinai Liberation Day", month: 4, day: 25 },
+		labourDay,
+		{ name: "June 30 Revolution", month: 6, day: 30 },
+		{ name: "Revolution Day", month: 7, day: 23 },
+		{ name: "Armed Forces Day", month: 10, day: 6 },
+	],
+	ES: [
+		newYearsDay,
+		epiphany,
+		goodFriday,
+		labourDay,
+		assumptionDay,
+		{ name: "Fiesta Nacional de España", month: 10, day: 12 },
+		allSaintsDay,
+		{ name: "Día de la Constitución", month: 12, day: 6 },
+		immaculateConception,
+		christmasDay,
+	],
+	FI: finnishHolidays,
+	FO: [
+		newYearsDay,
+		maundyThursday,
+		goodFriday,
+		easterSunday,
+		easterMonday,
+		{ name: "General Prayer Day", easter: 26 },
+		ascensionDay,
+		whitSunday,
+		whitMonday,
+		{ name: "Constitution Day", month: 6, day: 5 },
+		{ name: "Saint Olaf's Eve", month: 7, day: 28 },
+		{ name: "Saint Olaf's Day", month: 7, day: 29 },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+		newYearsEve,
+	],
+	FR: [
+		newYearsDay,
+		easterMonday,
+		labourDay,
+		{ name: "Victory in Europe Day", month: 5, day: 8 },
+		ascensionDay,
+		whitMonday,
+		{ name: "Bastille Day", month: 7, day: 14 },
+		assumptionDay,
+		allSaintsDay,
+		{ name: "Armistice Day", month: 11, day: 11 },
+		christmasDay,
+	],
+	GA: [
+		newYearsDay,
+		easterMonday,
+		{ name: "Women's Rights Day", month: 4, day: 17 },
+		labourDay,
+		whitMonday,
+		assumptionDay,
+		{ name: "Independence Day", month: 8, day: 16 },
+		{ name: "Independence Day", month: 8, day: 17 },
+		allSaintsDay,
+		christmasDay,
+	],
+	GB: englishBankHolidays,
+	GD: [
+		newYearsDay,
+		{ name: "Independence Day", month: 2, day: 7 },
+		goodFriday,
+		easterMonday,
+		labourDay,
+		whitMonday,
+		corpusChristi,
+		{ name: "Emancipation Day", month: 8, day: 1, weekday: MON },
+		{ name: "Carnival Monday", month: 8, day: 8, weekday: MON },
+		{ name: "Carnival Tuesday", month: 8, day: 9, weekday: TUE },
+		{ name: "Thanksgiving Day", month: 10, day: 25 },
+		christmasDay,
+		boxingDay,
+	],
+	GE: [
+		newYearsDay,
+		{ name: "New Year's Day", month: 1, day: 2 },
+		{ name: "Orthodox Christmas", month: 1, day: 7 },
+		{ name: "Orthodox Epiphany", month: 1, day: 19 },
+		{ name: "Mother's Day", month: 3, day: 3 },
+		{ name: "International Women's Day", month: 3, day: 8 },
+		{ name: "Day of National Unity", month: 4, day: 9 },
+		orthodoxGoodFriday,
+		{ name: "Holy Saturday", orthodoxEaster: -1 },
+		orthodoxEasterSunday,
+		orthodoxEasterMonday,
+		{ name: "Victory Day", month: 5, day: 9 },
+		{ name: "Saint Andrew the First-Called Day", month: 5, day: 12 },
+		{ name: "Independence Day", month: 5, day: 26 },
+		{ name: "Saint Mary's Day", month: 8, day: 28 },
+		{ name: "Day of Svetitskhoveli Cathedral", month: 10, day: 14 },
+		{ name: "Saint George's Day", month: 11, day: 23 },
+	],
+	GG: [...englishBankHolidays, { name: "Liberation Day", month: 5, day: 9 }],
+	GH: [
+		newYearsDay,
+		{ name: "Constitution Day", month: 1, day: 7 },
+		{ name: "Independence Day", month: 3, day: 6 },
+		goodFriday,
+		easterMonday,
+		{ name: "May Day", month: 5, day: 1 },
+		{ name: "Founders' Day", month: 8, day: 4 },
+		{ name: "Kwame Nkrumah Memorial Day", month: 9, day: 21 },
+		{ name: "Farmers' Day", month: 12, day: 1, weekday: FRI },
+		christmasDay,
+		boxingDay,
+	],
+	GI: [
+		newYearsDay,
+		{ name: "Commonwealth Day", month: 3, day: 8, weekday: MON },
+		goodFriday,
+		easterMonday,
+		{ name: "Workers' Memorial Day", month: 4, day: 28 },
+		{ name: "May Day", month: 5, day: 1, weekday: MON },
+		{ name: "Spring Bank Holiday", month: 5, day: 25, weekday: MON },
+		{ name: "Late Summer Bank Holiday", month: 8, day: 25, weekday: MON },
+		{ name: "Gibraltar National Day", month: 9, day: 10 },
+		christmasDay,
+		boxingDay,
+	],
+	GL: [
+		newYearsDay,
+		epiphany,
+		maundyThursday,
+		goodFriday,
+		easterSunday,
+		easterMonday,
+		{ name: "General Prayer Day", easter: 26 },
+		ascensionDay,
+		whitSunday,
+		whitMonday,
+		{ name: "National Day", month: 6, day: 21 },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+		newYearsEve,
+	],
+	GM: [
+		newYearsDay,
+		{ name: "Independence Day", month: 2, day: 18 },
+		goodFriday,
+		easterMonday,
+		labourDay,
+		{ name: "Africa Day", month: 5, day: 25 },
+		assumptionDay,
+		christmasDay,
+	],
+	GR: [
+		newYearsDay,
+		epiphany,
+		{ name: "Clean Monday", orthodoxEaster: -48 },
+		{ name: "Independence Day", month: 3, day: 25 },
+		orthodoxGoodFriday,
+		orthodoxEasterSunday,
+		orthodoxEasterMonday,
+		labourDay,
+		{ name: "Orthodox Whit Monday", orthodoxEaster: 50 },
+		assumptionDay,
+		{ name: "Ochi Day", month: 10, day: 28 },
+		christmasDay,
+		stStephensDay,
+	],
+	GT: [
+		newYearsDay,
+		maundyThursday,
+		goodFriday,
+		holySaturday,
+		labourDay,
+		{ name: "Army Day", month: 6, day: 30 },
+		{ name: "Independence Day", month: 9, day: 15 },
+		{ name: "Revolution Day", month: 10, day: 20 },
+		allSaintsDay,
+		christmasDay,
+	],
+	GY: [
+		newYearsDay,
+		{ name: "Republic Day", month: 2, day: 23 },
+		goodFriday,
+		easterMonday,
+		labourDay,
+		{ name: "Arrival Day", month: 5, day: 5 },
+		{ name: "Independence Day", month: 5, day: 26 },
+		{ name: "CARICOM Day", month: 7, day: 1, weekday: MON },
+		{ name: "Emancipation Day", month: 8, day: 1 },
+		christmasDay,
+		boxingDay,
+	],
+	HK: [
+		{ ...newYearsDay, observed: "sunday-next-weekday" },
+		goodFriday,
+		{ name: "The day following Good Friday", easter: -1 },
+		easterMonday,
+		{ ...labourDay, observed: "sunday-next-weekday" },
+		{
+			name: "Hong Kong Special Administrative Region Establishment Day",
+			month: 7,
+			day: 1,
+			observed: "sunday-next-weekday",
+		},
+		{
+			name: "National Day",
+			month: 10,
+			day: 1,
+			observed: "sunday-next-weekday",
+		},
+		{ ...christmasDay, observed: "sunday-next-weekday" },
+		{
+			name: "The first weekday after Christmas Day",
+			month: 12,
+			day: 26,
+			observed: "sunday-next-weekday",
+		},
+	],
+	HN: [
+		newYearsDay,
+		maundyThursday,
+		goodFriday,
+		holySaturday,
+		{ name: "Day of the Americas", month: 4, day: 14 },
+		labourDay,
+		{ name: "Independence Day", month: 9, day: 15 },
+		christmasDay,
+	],
+	HR: [
+		newYearsDay,
+		epiphany,
+		easterSunday,
+		easterMonday,
+		labourDay,
+		{ name: "Statehood Day", month: 6, day: 25, until: 2019 },
+		{ name: "Statehood Day", month: 5, day: 30, from: 2020 },
+		corpusChristi,
+		{ name: "Anti-Fascist Struggle Day", month: 6, day: 22 },
+		{ name: "Victory and Homeland Thanksgiving Day", month: 8, day: 5 },
+		assumptionDay,
+		{ name: "Independence Day", month: 10, day: 8, until: 2019 },
+		allSaintsDay,
+		{ name: "Remembrance Day", month: 11, day: 18, from: 2020 },
+		christmasDay,
+		stStephensDay,
+	],
+	HT: [
+		{ name: "Independence Day", month: 1, day: 1 },
+		{ name: "Ancestry Day", month: 1, day: 2 },
+		{ name: "Carnival Monday", easter: -48 },
+		{ name: "Carnival Tuesday", easter: -47 },
+		goodFriday,
+		labourDay,
+		{ name: "Flag and Universities' Day", month: 5, day: 18 },
+		corpusChristi,
+		assumptionDay,
+		{ name: "Death of Dessalines", month: 10, day: 17 },
+		allSaintsDay,
+		{ name: "Battle of Vertières Day", month: 11, day: 18 },
+		christmasDay,
+	],
+	HU: [
+		newYearsDay,
+		{ name: "1848 Revolution Memorial Day", month: 3, day: 15 },
+		goodFriday,
+		easterSunday,
+		easterMonday,
+		labourDay,
+		whitSunday,
+		whitMonday,
+		{ name: "State Foundation Day", month: 8, day: 20 },
+		{ name: "1956 Revolution Memorial Day", month: 10, day: 23 },
+		allSaintsDay,
+		christmasDay,
+		stStephensDay,
+	],
+	ID: [
+		newYearsDay,
+		goodFriday,
+		easterSunday,
+		labourDay,
+		ascensionDay,
+		{ name: "Pancasila Day", month: 6, day: 1 },
+		{ name: "Independence Day", month: 8, day: 17 },
+		christmasDay,
+	],
+	IE: [
+		newYearsDay,
+		{ name: "Saint Patrick's Day", month: 3, day: 17 },
+		easterMonday,
+		{ name: "May Day", month: 5, day: 1, weekday: MON },
+		{ name: "June Holiday", month: 6, day: 1, weekday: MON },
+		{ name: "August Holiday", month: 8, day: 1, weekday: MON },
+		{ name: "October Holiday", month: 10, day: 25, weekday: MON },
+		christmasDay,
+		stStephensDay,
+	],
+	IM: [...englishBankHolidays, { name: "Tynwald Day", month: 7, day: 5 }],
+	IS: [
+		newYearsDay,
+		maundyThursday,
+		goodFriday,
+		easterSunday,
+		easterMonday,
+		{ name: "First Day of Summer", month: 4, day: 19, weekday: THU },
+		labourDay,
+		ascensionDay,
+		whitSunday,
+		whitMonday,
+		{ name: "National Day", month: 6, day: 17 },
+		{ name: "Commerce Day", month: 8, day: 1, weekday: MON },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+		newYearsEve,
+	],
+	IT: [
+		newYearsDay,
+		epiphany,
+		easterSunday,
+		easterMonday,
+		{ name: "Liberation Day", month: 4, day: 25 },
+		{ name: "International Workers' Day", month: 5, day: 1 },
+		{ name: "Republic Day", month: 6, day: 2 },
+		assumptionDay,
+		allSaintsDay,
+		immaculateConception,
+		christmasDay,
+		stStephensDay,
+	],
+	JE: [...englishBankHolidays, { name: "Liberation Day", month: 5, day: 9 }],
+	JM: [
+		newYearsDay,
+		{ name: "Ash Wednesday", easter: -46 },
+		goodFriday,
+		easterMonday,
+		{ name: "Labour Day", month: 5, day: 23 },
+		{ name: "Emancipation Day", month: 8, day: 1 },
+		{ name: "Independence Day", month: 8, day: 6 },
+		{ name: "National Heroes' Day", month: 10, day: 15, weekday: MON },
+		christmasDay,
+		boxingDay,
+	],
+	JP: [
+		{ ...newYearsDay, observed: "sunday-next-weekday" },
+		{ name: "Coming of Age Day", month: 1, day: 8, weekday: MON },
+		{
+			name: "Foundation Day",
+			month: 2,
+			day: 11,
+			observed: "sunday-next-weekday",
+		},
+		{
+			name: "The Emperor's Birthday",
+			month: 2,
+			day: 23,
+			from: 2020,
+			observed: "sunday-next-weekday",
+		},
+		{ name: "Shōwa Day", month: 4, day: 29, observed: "sunday-next-weekday" },
+		{
+			name: "Constitution Memorial Day",
+			month: 5,
+			day: 3,
+			observed: "sunday-next-weekday",
+		},
+		{ name: "Greenery Day", month: 5, day: 4, observed: "sunday-next-weekday" },
+		{
+			name: "Children's Day",
+			month: 5,
+			day: 5,
+			observed: "sunday-next-weekday",
+		},
+		{ name: "Marine Day", month: 7, day: 15, weekday: MON },
+		{
+			name: "Mountain Day",
+			month: 8,
+			day: 11,
+			observed: "sunday-next-weekday",
+		},
+		{ name: "Respect for the Aged Day", month: 9, day: 15, weekday: MON },
+		{ name: "Sports Day", month: 10, day: 8, weekday: MON },
+		{ name: "Culture Day", month: 11, day: 3, observed: "sunday-next-weekday" },
+		{
+			name: "Labour Thanksgiving Day",
+			month: 11,
+			day: 23,
+			observed: "sunday-next-weekday",
+		},
+	],
+	KE: [
+		{ ...newYearsDay, observed: "sunday-next-weekday" },
+		goodFriday,
+		easterMonday,
+		{ ...labourDay, observed: "sunday-next-weekday" },
+		{ name: "Madaraka Day", month: 6, day: 1, observed: "sunday-next-weekday" },
+		{
+			name: "Mashujaa Day",
+			month: 10,
+			day: 20,
+			observed: "sunday-next-weekday",
+		},
+		{
+			name: "Jamhuri Day",
+			month: 12,
+			day: 12,
+			observed: "sunday-next-weekday",
+		},
+		{ ...christmasDay, observed: "sunday-next-weekday" },
+		{ ...boxingDay, observed: "sunday-next-weekday" },
+	],
+	KR: [
+		newYearsDay,
+		{ name: "Independence Movement Day", month: 3, day: 1 },
+		{ name: "Children's Day", month: 5, day: 5 },
+		{ name: "Memorial Day", month: 6, day: 6 },
+		{ name: "Liberation Day", month: 8, day: 15 },
+		{ name: "National Foundation Day", month: 10, day: 3 },
+		{ name: "Hangul Day", month: 10, day: 9 },
+		christmasDay,
+	],
+	KZ: [
+		newYearsDay,
+		{ name: "New Year's Day", month: 1, day: 2 },
+		{ name: "Orthodox Christmas", month: 1, day: 7 },
+		{ name: "International Women's Day", month: 3, day: 8 },
+		{ name: "Nauryz", month: 3, day: 21 },
+		{ name: "Nauryz", month: 3, day: 22 },
+		{ name: "Nauryz", month: 3, day: 23 },
+		{ name: "Kazakhstan People's Unity Day", month: 5, day: 1 },
+		{ name: "Defender of the Fatherland Day", month: 5, day: 7 },
+		{ name: "Victory Day", month: 5, day: 9 },
+		{ name: "Capital Day", month: 7, day: 6 },
+		{ name: "Constitution Day", month: 8, day: 30 },
+		{ name: "Republic Day", month: 10, day: 25, from: 2022 },
+		{ name: "Independence Day", month: 12, day: 16 },
+	],
+	LI: [
+		newYearsDay,
+		{ name: "Saint Berchtold's Day", month: 1, day: 2 },
+		epiphany,
+		{ name: "Candlemas", month: 2, day: 2 },
+		{ name: "Shrove Tuesday", easter: -47 },
+		{ name: "Saint Joseph's Day", month: 3, day: 19 },
+		easterMonday,
+		labourDay,
+		ascensionDay,
+		whitMonday,
+		corpusChristi,
+		{ name: "National Day", month: 8, day: 15 },
+		{ name: "Nativity of Mary", month: 9, day: 8 },
+		allSaintsDay,
+		immaculateConception,
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+		newYearsEve,
+	],
+	LS: [
+		newYearsDay,
+		{ name: "Moshoeshoe's Day", month: 3, day: 11 },
+		goodFriday,
+		easterMonday,
+		{ name: "Workers' Day", month: 5, day: 1 },
+		{ name: "Africa Day", month: 5, day: 25 },
+		ascensionDay,
+		{ name: "King Letsie III's Birthday", month: 7, day: 17 },
+		{ name: "Independence Day", month: 10, day: 4 },
+		christmasDay,
+		boxingDay,
+	],
+	LT: [
+		newYearsDay,
+		{ name: "Day of Restoration of the State of Lithuania", month: 2, day: 16 },
+		{
+			name: "Day of Restoration of Independence of Lithuania",
+			month: 3,
+			day: 11,
+		},
+		easterSunday,
+		easterMonday,
+		{ name: "International Working Day", month: 5, day: 1 },
+		{ name: "Mother's Day", month: 5, day: 1, weekday: SUN },
+		{ name: "Father's Day", month: 6, day: 1, weekday: SUN },
+		{ name: "St. John's Day", month: 6, day: 24 },
+		{ name: "Statehood Day", month: 7, day: 6 },
+		assumptionDay,
+		allSaintsDay,
+		{ name: "All Souls' Day", month: 11, day: 2, from: 2020 },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+	],
+	LU: [
+		newYearsDay,
+		easterMonday,
+		labourDay,
+		{ name: "Europe Day", month: 5, day: 9, from: 2019 },
+		ascensionDay,
+		whitMonday,
+		{ name: "National Day", month: 6, day: 23 },
+		assumptionDay,
+		allSaintsDay,
+		christmasDay,
+		stStephensDay,
+	],
+	LV: [
+		newYearsDay,
+		goodFriday,
+		easterSunday,
+		easterMonday,
+		labourDay,
+		{ name: "Restoration of Independence day", month: 5, day: 4 },
+		{ name: "Midsummer Eve", month: 6, day: 23 },
+		{ name: "Midsummer Day", month: 6, day: 24 },
+		{ name: "Proclamation Day of the Republic of Latvia", month: 11, day: 18 },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+		newYearsEve,
+	],
+	MA: [
+		newYearsDay,
+		{ name: "Proclamation of Independence", month: 1, day: 11 },
+		{ name: "Amazigh New Year", month: 1, day: 14, from: 2024 },
+		labourDay,
+		{ name: "Throne Day", month: 7, day: 30 },
+		{ name: "Oued Ed-Dahab Day", month: 8, day: 14 },
+		{ name: "Revolution of the King and the People", month: 8, day: 20 },
+		{ name: "Youth Day", month: 8, day: 21 },
+		{ name: "Green March", month: 11, day: 6 },
+		{ name: "Independence Day", month: 11, day: 18 },
+	],
+	MC: [
+		newYearsDay,
+		{ name: "Saint Devota's Day", month: 1, day: 27 },
+		easterMonday,
+		labourDay,
+		ascensionDay,
+		whitMonday,
+		corpusChristi,
+		assumptionDay,
+		allSaintsDay,
+		{ name: "National Day", month: 11, day: 19 },
+		immaculateConception,
+		christmasDay,
+	],
+	MD: [
+		newYearsDay,
+		{ name: "Orthodox Christmas", month: 1, day: 7 },
+		{ name: "Orthodox Christmas", month: 1, day: 8 },
+		{ name: "International Women's Day", month: 3, day: 8 },
+		orthodoxEasterSunday,
+		orthodoxEasterMonday,
+		{ name: "Memorial Day", orthodoxEaster: 8 },
+		labourDay,
+		{ name: "Victory Day", month: 5, day: 9 },
+		{ name: "Children's Day", month: 6, day: 1 },
+		{ name: "Independence Day", month: 8, day: 27 },
+		{ name: "National Language Day", month: 8, day: 31 },
+		christmasDay,
+	],
+	ME: [
+		newYearsDay,
+		{ name: "New Year's Day", month: 1, day: 2 },
+		{ name: "Orthodox Christmas Eve", month: 1, day: 6 },
+		{ name: "Orthodox Christmas", month: 1, day: 7 },
+		orthodoxGoodFriday,
+		orthodoxEasterMonday,
+		labourDay,
+		{ ...labourDay, day: 2 },
+		{ name: "Independence Day", month: 5, day: 21 },
+		{ name: "Independence Day", month: 5, day: 22 },
+		{ name: "Statehood Day", month: 7, day: 13 },
+		{ name: "Statehood Day", month: 7, day: 14 },
+	],
+	MG: [
+		newYearsDay,
+		{ name: "Martyrs' Day", month: 3, day: 29 },
+		easterMonday,
+		labourDay,
+		ascensionDay,
+		whitMonday,
+		{ name: "Independence Day", month: 6, day: 26 },
+		assumptionDay,
+		allSaintsDay,
+		christmasDay,
+	],
+	MK: [
+		newYearsDay,
+		{ name: "Orthodox Christmas", month: 1, day: 7 },
+		orthodoxEasterMonday,
+		labourDay,
+		{ name: "Saints Cyril and Methodius Day", month: 5, day: 24 },
+		{ name: "Republic Day", month: 8, day: 2 },
+		{ name: "Independence Day", month: 9, day: 8 },
+		{ name: "Day of People's Uprising", month: 10, day: 11 },
+		{
+			name: "Day of the Macedonian Revolutionary Struggle",
+			month: 10,
+			day: 23,
+		},
+		{ name: "Saint Clement of Ohrid Day", month: 12, day: 8 },
+	],
+	MN: [
+		newYearsDay,
+		{ name: "International Women's Day", month: 3, day: 8 },
+		{ name: "Children's Day", month: 6, day: 1 },
+		{ name: "Naadam", month: 7, day: 11 },
+		{ name: "Naadam", month: 7, day: 12 },
+		{ name: "Naadam", month: 7, day: 13 },
+		{ name: "Naadam", month: 7, day: 14 },
+		{ name: "Naadam", month: 7, day: 15 },
+		{ name: "Independence Day", month: 12, day: 29 },
+	],
+	MS: [
+		newYearsDay,
+		{ name: "Saint Patrick's Day", month: 3, day: 17 },
+		goodFriday,
+		easterMonday,
+		{ ...labourDay, weekday: MON },
+		whitMonday,
+		{ name: "Emancipation Day", month: 8, day: 1, weekday: MON },
+		christmasDay,
+		boxingDay,
+		{ name: "Festival Day", month: 12, day: 31 },
+	],
+	MT: [
+		newYearsDay,
+		{ name: "Feast of St. Paul's Shipwreck", month: 2, day: 10 },
+		{ name: "Feast of St. Joseph", month: 3, day: 19 },
+		{ name: "Freedom Day", month: 3, day: 31 },
+		goodFriday,
+		{ name: "Worker's Day", month: 5, day: 1 },
+		{ name: "Sette Giugno", month: 6, day: 7 },
+		{ name: "Feast of St. Peter and St. Paul", month: 6, day: 29 },
+		{ name: "Feast of the Assumption", month: 8, day: 15 },
+		{ name: "Victory Day", month: 9, day: 8 },
+		{ name: "Independence Day", month: 9, day: 21 },
+		{ name: "Feast of the Immaculate Conception", month: 12, day: 8 },
+		{ name: "Republic Day", month: 12, day: 13 },
+		christmasDay,
+	],
+	MX: [
+		newYearsDay,
+		{ name: "Constitution Day", month: 2, day: 1, weekday: MON },
+		{ name: "Benito Juárez's birthday", month: 3, day: 15, weekday: MON },
+		{ name: "Labor Day", month: 5, day: 1 },
+		{ name: "Independence Day", month: 9, day: 16 },
+		{ name: "Revolution Day", month: 11, day: 15, weekday: MON },
+		christmasDay,
+	],
+	MZ: [
+		{ ...newYearsDay, observed: "sunday-next-weekday" },
+		{ name: "Heroes' Day", month: 2, day: 3, observed: "sunday-next-weekday" },
+		{ name: "Women's Day", month: 4, day: 7, observed: "sunday-next-weekday" },
+		{ name: "Workers' Day", month: 5, day: 1, observed: "sunday-next-weekday" },
+		{
+			name: "Independence Day",
+			month: 6,
+			day: 25,
+			observed: "sunday-next-weekday",
+		},
+		{ name: "Victory Day", month: 9, day: 7, observed: "sunday-next-weekday" },
+		{
+			name: "Armed Forces Day",
+			month: 9,
+			day: 25,
+			observed: "sunday-next-weekday",
+		},
+		{
+			name: "Peace and Reconciliation Day",
+			month: 10,
+			day: 4,
+			observed: "sunday-next-weekday",
+		},
+		{ name: "Family Day", month: 12, day: 25, observed: "sunday-next-weekday" },
+	],
+	NA: [
+		{ ...newYearsDay, observed: "sunday-next-weekday" },
+		{
+			name: "Independence Day",
+			month: 3,
+			day: 21,
+			observed: "sunday-next-weekday",
+		},
+		goodFriday,
+		easterMonday,
+		{ name: "Workers' Day", month: 5, day: 1, observed: "sunday-next-weekday" },
+		{ name: "Cassinga Day", month: 5, day: 4, observed: "sunday-next-weekday" },
+		ascensionDay,
+		{ name: "Africa Day", month: 5, day: 25, observed: "sunday-next-weekday" },
+		{ name: "Heroes' Day", month: 8, day: 26, observed: "sunday-next-weekday" },
+		{
+			name: "Human Rights Day",
+			month: 12,
+			day: 10,
+			observed: "sunday-next-weekday",
+		},
+		{ ...christmasDay, observed: "sunday-next-weekday" },
+		{
+			name: "Day of Goodwill",
+			month: 12,
+			day: 26,
+			observed: "sunday-next-weekday",
+		},
+	],
+	NE: [
+		newYearsDay,
+		easterMonday,
+		{ name: "Concord Day", month: 4, day: 24 },
+		labourDay,
+		{ name: "Independence Day", month: 8, day: 3 },
+		{ name: "Republic Day", month: 12, day: 18 },
+		christmasDay,
+	],
+	NG: [
+		newYearsDay,
+		goodFriday,
+		easterMonday,
+		{ name: "Workers' Day", month: 5, day: 1 },
+		{ name: "Democracy Day", month: 6, day: 12 },
+		{ name: "Independence Day", month: 10, day: 1 },
+		christmasDay,
+		boxingDay,
+	],
+	NI: [
+		newYearsDay,
+		maundyThursday,
+		goodFriday,
+		labourDay,
+		{ name: "Revolution Day", month: 7, day: 19 },
+		{ name: "Battle of San Jacinto", month: 9, day: 14 },
+		{ name: "Independence Day", month: 9, day: 15 },
+		immaculateConception,
+		christmasDay,
+	],
+	NL: [
+		newYearsDay,
+		goodFriday,
+		easterSunday,
+		easterMonday,
+		{ name: "King's Day", month: 4, day: 27 },
+		{ name: "Liberation Day", month: 5, day: 5 },
+		ascensionDay,
+		whitSunday,
+		whitMonday,
+		christmasDay,
+		stStephensDay,
+	],
+	NO: norwegianHolidays,
+	NZ: [
+		{ ...newYearsDay, observed: "next-weekday" },
+		{
+			name: "Day after New Year's Day",
+			month: 1,
+			day: 2,
+			observed: "next-weekday",
+		},
+		{ name: "Waitangi Day", month: 2, day: 6, observed: "next-weekday" },
+		goodFriday,
+		easterMonday,
+		{ name: "Anzac Day", month: 4, day: 25, observed: "next-weekday" },
+		{ name: "King's Birthday", month: 6, day: 1, weekday: MON },
+		{ ...labourDay, month: 10, day: 22, weekday: MON },
+		{ ...christmasDay, observed: "next-weekday" },
+		{ name: "Boxing Day", month: 12, day: 26, observed: "next-weekday" },
+	],
+	PA: [
+		newYearsDay,
+		{ name: "Martyrs' Day", month: 1, day: 9 },
+		{ name: "Carnival Monday", easter: -48 },
+		{ name: "Carnival Tuesday", easter: -47 },
+		goodFriday,
+		labourDay,
+		{ name: "Separation Day", month: 11, day: 3 },
+		{ name: "Colon Day", month: 11, day: 5 },
+		{ name: "Shout in Villa de los Santos", month: 11, day: 10 },
+		{ name: "Independence Day", month: 11, day: 28 },
+		{ name: "Mother's Day", month: 12, day: 8 },
+		christmasDay,
+	],
+	PE: [
+		newYearsDay,
+		maundyThursday,
+		goodFriday,
+		labourDay,
+		{ name: "Saint Peter and Saint Paul", month: 6, day: 29 },
+		{ name: "Independence Day", month: 7, day: 28 },
+		{ name: "Great Military Parade Day", month: 7, day: 29 },
+		{ name: "Santa Rosa de Lima", month: 8, day: 30 },
+		{ name: "Battle of Angamos", month: 10, day: 8 },
+		allSaintsDay,
+		immaculateConception,
+		christmasDay,
+	],
+	PG: [
+		newYearsDay,
+		goodFriday,
+		holySaturday,
+		easterMonday,
+		{ name: "National Remembrance Day", month: 7, day: 23 },
+		{ name: "National Repentance Day", month: 8, day: 26 },
+		{ name: "Independence Day", month: 9, day: 16 },
+		christmasDay,
+		boxingDay,
+	],
+	PH: [
+		newYearsDay,
+		maundyThursday,
+		goodFriday,
+		{ name: "Day of Valor", month: 4, day: 9 },
+		labourDay,
+		{ name: "Independence Day", month: 6, day: 12 },
+		{ name: "National Heroes Day", month: 8, day: 25, weekday: MON },
+		{ name: "Bonifacio Day", month: 11, day: 30 },
+		christmasDay,
+		{ name: "Rizal Day", month: 12, day: 30 },
+	],
+	PL: [
+		newYearsDay,
+		epiphany,
+		easterSunday,
+		easterMonday,
+		{ name: "May Day", month: 5, day: 1 },
+		{ name: "Constitution Day", month: 5, day: 3 },
+		{ name: "Pentecost Sunday", easter: 49 },
+		corpusChristi,
+		assumptionDay,
+		allSaintsDay,
+		{ name: "Independence Day", month: 11, day: 11 },
+		{ ...christmasEve, from: 2025 },
+		christmasDay,
+		stStephensDay,
+	],
+	PR: [
+		...usFederalHolidays,
+		{ name: "Three Kings Day", month: 1, day: 6 },
+		{ name: "Emancipation Day", month: 3, day: 22 },
+		goodFriday,
+		{ name: "Constitution Day", month: 7, day: 25 },
+	],
+	PT: [
+		newYearsDay,
+		goodFriday,
+		easterSunday,
+		{ name: "Freedom Day", month: 4, day: 25 },
+		labourDay,
+		corpusChristi,
+		{ name: "Portugal Day", month: 6, day: 10 },
+		assumptionDay,
+		{ name: "Republic Day", month: 10, day: 5 },
+		allSaintsDay,
+		{ name: "Restoration of Independence", month: 12, day: 1 },
+		immaculateConception,
+		christmasDay,
+	],
+	PY: [
+		newYearsDay,
+		{ name: "Heroes' Day", month: 3, day: 1 },
+		maundyThursday,
+		goodFriday,
+		labourDay,
+		{ name: "Independence Day", month: 5, day: 14 },
+		{ name: "Independence Day", month: 5, day: 15 },
+		{ name: "Chaco Armistice", month: 6, day: 12 },
+		{ name: "Founding of Asunción", month: 8, day: 15 },
+		{ name: "Boqueron Battle Victory Day", month: 9, day: 29 },
+		{ name: "Virgin of Caacupé", month: 12, day: 8 },
+		christmasDay,
+	],
+	RO: [
+		newYearsDay,
+		{ name: "Day after New Year's Day", month: 1, day: 2 },
+		{ ...epiphany, from: 2024 },
+		{ name: "Saint John the Baptist", month: 1, day: 7, from: 2024 },
+		{ name: "Union Day", month: 1, day: 24 },
+		{ ...orthodoxGoodFriday, from: 2018 },
+		orthodoxEasterSunday,
+		orthodoxEasterMonday,
+		labourDay,
+		{ name: "Children's Day", month: 6, day: 1, from: 2017 },
+		{ name: "Orthodox Pentecost", orthodoxEaster: 49 },
+		{ name: "Orthodox Whit Monday", orthodoxEaster: 50 },
+		assumptionDay,
+		{ name: "St. Andrew's Day", month: 11, day: 30 },
+		{ name: "National Day", month: 12, day: 1 },
+		christmasDay,
+		stStephensDay,
+	],
+	RS: [
+		newYearsDay,
+		{ name: "New Year's Day", month: 1, day: 2 },
+		{ name: "Orthodox Christmas", month: 1, day: 7 },
+		{ name: "Statehood Day", month: 2, day: 15 },
+		{ name: "Statehood Day", month: 2, day: 16 },
+		orthodoxGoodFriday,
+		{ name: "Holy Saturday", orthodoxEaster: -1 },
+		orthodoxEasterSunday,
+		orthodoxEasterMonday,
+		labourDay,
+		{ ...labourDay, day: 2 },
+		{ name: "Armistice Day", month: 11, day: 11 },
+	],
+	RU: [
+		newYearsDay,
+		{ name: "New Year holiday", month: 1, day: 2 },
+		{ name: "New Year holiday", month: 1, day: 3 },
+		{ name: "New Year holiday", month: 1, day: 4 },
+		{ name: "New Year holiday", month: 1, day: 5 },
+		{ name: "New Year holiday", month: 1, day: 6 },
+		{ name: "Orthodox Christmas", month: 1, day: 7 },
+		{ name: "New Year holiday", month: 1, day: 8 },
+		{ name: "Defender of the Fatherland Day", month: 2, day: 23 },
+		{ name: "International Women's Day", month: 3, day: 8 },
+		{ name: "Spring and Labour Day", month: 5, day: 1 },
+		{ name: "Victory Day", month: 5, day: 9 },
+		{ name: "Russia Day", month: 6, day: 12 },
+		{ name: "Unity Day", month: 11, day: 4 },
+	],
+	SE: [
+		newYearsDay,
+		epiphany,
+		goodFriday,
+		easterSunday,
+		easterMonday,
+		{ name: "International Workers' Day", month: 5, day: 1 },
+		ascensionDay,
+		{ name: "Pentecost", easter: 49 },
+		{ name: "National Day of Sweden", month: 6, day: 6 },
+		{ name: "Midsummer Eve", month: 6, day: 19, weekday: FRI },
+		{ name: "Midsummer Day", month: 6, day: 20, weekday: SAT },
+		{ ...allSaintsDay, month: 10, day: 31, weekday: SAT },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+		newYearsEve,
+	],
+	SG: [
+		{ ...newYearsDay, observed: "sunday-next-weekday" },
+		goodFriday,
+		{ ...labourDay, observed: "sunday-next-weekday" },
+		{ name: "National Day", month: 8, day: 9, observed: "sunday-next-weekday" },
+		{ ...christmasDay, observed: "sunday-next-weekday" },
+	],
+	SI: [
+		newYearsDay,
+		{ name: "New Year's Day", month: 1, day: 2 },
+		{ name: "Prešeren Day", month: 2, day: 8 },
+		easterSunday,
+		easterMonday,
+		{ name: "Day of Uprising Against Occupation", month: 4, day: 27 },
+		labourDay,
+		{ ...labourDay, day: 2 },
+		whitSunday,
+		{ name: "Statehood Day", month: 6, day: 25 },
+		assumptionDay,
+		{ name: "Reformation Day", month: 10, day: 31 },
+		{ name: "Day of Remembrance for the Dead", month: 11, day: 1 },
+		christmasDay,
+		{ name: "Independence and Unity Day", month: 12, day: 26 },
+	],
+	SJ: [...norwegianHolidays],
+	SK: [
+		{
+			name: "Day of the Establishment of the Slovak Republic",
+			month: 1,
+			day: 1,
+		},
+		epiphany,
+		goodFriday,
+		easterMonday,
+		labourDay,
+		{ name: "Day of Victory over Fascism", month: 5, day: 8 },
+		{ name: "Saints Cyril and Methodius Day", month: 7, day: 5 },
+		{ name: "Slovak National Uprising Anniversary", month: 8, day: 29 },
+		{
+			name: "Day of the Constitution of the Slovak Republic",
+			month: 9,
+			day: 1,
+			until: 2023,
+		},
+		{ name: "Day of Our Lady of the Seven Sorrows", month: 9, day: 15 },
+		allSaintsDay,
+		{ name: "Struggle for Freedom and Democracy Day", month: 11, day: 17 },
+		christmasEve,
+		christmasDay,
+		stStephensDay,
+	],
+	SM: [
+		newYearsDay,
+		epiphany,
+		{ name: "Feast of Saint Agatha", month: 2, day: 5 },
+		{ name: "Anniversary of the Arengo", month: 3, day: 25 },
+		easterSunday,
+		easterMonday,
+		labourDay,
+		corpusChristi,
+		{ name: "Liberation from Fascism", month: 7, day: 28 },
+		assumptionDay,
+		{ name: "Feast of Saint Marinus and the Republic", month: 9, day: 3 },
+		allSaintsDay,
+		{ name: "Commemoration of the Dead", month: 11, day: 2 },
+		immaculateConception,
+		christmasDay,
+		stStephensDay,
+	],
+	SR: [
+		newYearsDay,
+		{ name: "Day of the Revolution", month: 2, day: 25 },
+		goodFriday,
+		easterMonday,
+		labourDay,
+		{ name: "Keti Koti", month: 7, day: 1 },
+		{ name: "Indigenous People's Day", month: 8, day: 9 },
+		{ name: "Day of the Maroons", month: 10, day: 10 },
+		{ name: "Independence Day", month: 11, day: 25 },
+		christmasDay,
+		boxingDay,
+	],
+	SV: [
+		newYearsDay,
+		maundyThursday,
+		goodFriday,
+		holySaturday,
+		labourDay,
+		{ name: "Mother's Day", month: 5, day: 10 },
+		{ name: "Father's Day", month: 6, day: 17 },
+		{ name: "Celebrations of San Salvador", month: 8, day: 6 },
+		{ name: "Independence Day", month: 9, day: 15 },
+		{ name: "All Souls' Day", month: 11, day: 2 },
+		christmasDay,
+	],
+	TN: [
+		newYearsDay,
+		{ name: "Revolution and Youth Day", month: 1, day: 14 },
+		{ name: "Independence Day", month: 3, day: 20 },
+		{ name: "Martyrs' Day", month: 4, day: 9 },
+		labourDay,
+		{ name: "Republic Day", month: 7, day: 25 },
+		{ name: "Women's Day", month: 8, day: 13 },
+		{ name: "Evacuation Day", month: 10, day: 15 },
+	],
+	TR: [
+		newYearsDay,
+		{ name: "National Sovereignty and Children's Day", month: 4, day: 23 },
+		{ name: "Labour and Solidarity Day", month: 5, day: 1 },
+		{
+			name: "Commemoration of Atatürk, Youth and Sports Day",
+			month: 5,
+			day: 19,
+		},
+		{ name: "Democracy and National Unity Day", month: 7, day: 15, from: 2017 },
+		{ name: "Victory Day", month: 8, day: 30 },
+		{ name: "Republic Day", month: 10, day: 29 },
+	],
+	UA: [
+		newYearsDay,
+		{ name: "Orthodox Christmas", month: 1, day: 7, until: 2023 },
+		{ name: "International Women's Day", month: 3, day: 8 },
+		{ ...orthodoxEasterSunday, until: 2021 },
+		{ name: "International Workers' Day", month: 5, day: 1 },
+		{
+			name: "Victory Day over Nazism in World War II",
+			month: 5,
+			day: 9,
+			until: 2023,
+		},
+		{
+			name: "Day of Remembrance and Victory over Nazism in World War II",
+			month: 5,
+			day: 8,
+			from: 2024,
+		},
+		{ name: "Constitution Day", month: 6, day: 28 },
+		{ name: "Independence Day", month: 8, day: 24 },
+		{ name: "Defender of Ukraine Day", month: 10, day: 14, until: 2022 },
+		{ name: "Day of Defenders of Ukraine", month: 10, day: 1, from: 2023 },
+		{ ...christmasDay, from: 2017 },
+	],
+	US: usFederalHolidays,
+	UY: [
+		newYearsDay,
+		epiphany,
+		{ name: "Carnival Monday", easter: -48 },
+		{ name: "Carnival Tuesday", easter: -47 },
+		maundyThursday,
+		goodFriday,
+		{ name: "Landing of the 33 Patriots", month: 4, day: 19 },
+		labourDay,
+		{ name: "Battle of Las Piedras", month: 5, day: 18 },
+		{ name: "Birthday of José Gervasio Artigas", month: 6, day: 19 },
+		{ name: "Constitution Day", month: 7, day: 18 },
+		{ name: "Independence Day", month: 8, day: 25 },
+		{ name: "Day of the Race", month: 10, day: 12 },
+		{ name: "All Souls' Day", month: 11, day: 2 },
+		christmasDay,
+	],
+	VA: [
+		newYearsDay,
+		epiphany,
+		{
+			name: "Anniversary of the Foundation of Vatican City",
+			month: 2,
+			day: 11,
+		},
+		{ name: "Saint Joseph's Day", month: 3, day: 19 },
+		easterSunday,
+		easterMonday,
+		{ name: "Saint Joseph the Worker", month: 5, day: 1 },
+		{ name: "Saints Peter and Paul", month: 6, day: 29 },
+		assumptionDay,
+		allSaintsDay,
+		immaculateConception,
+		christmasDay,
+		stStephensDay,
+	],
+	VE: [
+		newYearsDay,
+		{ name: "Carnival Monday", easter: -48 },
+		{ name: "Carnival Tuesday", easter: -47 },
+		maundyThursday,
+		goodFriday,
+		{ name: "Declaration of Independence", month: 4, day: 19 },
+		labourDay,
+		{ name: "Battle of Carabobo", month: 6, day: 24 },
+		{ name: "Independence Day", month: 7, day: 5 },
+		{ name: "Birthday of Simón Bolívar", month: 7, day: 24 },
+		{ name: "Day of Indigenous Resistance", month: 10, day: 12 },
+		christmasEve,
+		christmasDay,
+		newYearsEve,
+	],
+	VN: [
+		newYearsDay,
+		{ name: "Reunification Day", month: 4, day: 30 },
+		labourDay,
+		{ name: "National Day", month: 9, day: 2 },
+	],
+	ZA: [
+		{ ...newYearsDay, observed: "sunday-next-weekday" },
+		{
+			name: "Human Rights Day",
+			month: 3,
+			day: 21,
+			observed: "sunday-next-weekday",
+		},
+		goodFriday,
+		{ name: "Family Day", easter: 1 },
+		{ name: "Freedom Day", month: 4, day: 27, observed: "sunday-next-weekday" },
+		{ name: "Workers' Day", month: 5, day: 1, observed: "sunday-next-weekday" },
+		{ name: "Youth Day", month: 6, day: 16, observed: "sunday-next-weekday" },
+		{
+			name: "National Women's Day",
+			month: 8,
+			day: 9,
+			observed: "sunday-next-weekday",
+		},
+		{
+			name: "Heritage Day",
+			month: 9,
+			day: 24,
+			observed: "sunday-next-weekday",
+		},
+		{
+			name: "Day of Reconciliation",
+			month: 12,
+			day: 16,
+			observed: "sunday-next-weekday",
+		},
+		{ ...christmasDay, observed: "sunday-next-weekday" },
+		{
+			name: "Day of Goodwill",
+			month: 12,
+			day: 26,
+			observed: "sunday-next-weekday",
+		},
+	],
+	ZM: [
+		{ ...newYearsDay, observed: "sunday-next-weekday" },
+		{
+			name: "International Women's Day",
+			month: 3,
+			day: 8,
+			observed: "sunday-next-weekday",
+		},
+		{ name: "Youth Day", month: 3, day: 12, observed: "sunday-next-weekday" },
+		goodFriday,
+		holySaturday,
+		easterMonday,
+		{
+			name: "Kenneth Kaunda Day",
+			month: 4,
+			day: 28,
+			from: 2022,
+			observed: "sunday-next-weekday",
+		},
+		{ ...labourDay, observed: "sunday-next-weekday" },
+		{
+			name: "Africa Freedom Day",
+			month: 5,
+			day: 25,
+			observed: "sunday-next-weekday",
+		},
+		{ name: "Heroes' Day", month: 7, day: 1, weekday: MON },
+		{ name: "Unity Day", month: 7, day: 2, weekday: TUE },
+		{ name: "Farmers' Day", month: 8, day: 1, weekday: MON },
+		{
+			name: "National Prayer Day",
+			month: 10,
+			day: 18,
+			observed: "sunday-next-weekday",
+		},
+		{
+			name: "Independence Day",
+			month: 10,
+			day: 24,
+			observed: "sunday-next-weekday",
+		},
+		{ ...christmasDay, observed: "sunday-next-weekday" },
+	],
+	ZW: [
+		{ ...newYearsDay, observed: "sunday-next-weekday" },
+		{
+			name: "Robert Gabriel Mugabe National Youth Day",
+			month: 2,
+			day: 21,
+			from: 2018,
+			observed: "sunday-next-weekday",
+		},
+		goodFriday,
+		holySaturday,
+		easterMonday,
+		{
+			name: "Independence Day",
+			month: 4,
+			day: 18,
+			observed: "sunday-next-weekday",
+		},
+		{ name: "Workers' Day", month: 5, day: 1, observed: "sunday-next-weekday" },
+		{ name: "Africa Day", month: 5, day: 25, observed: "sunday-next-weekday" },
+		{ name: "Heroes' Day", month: 8, day: 8, weekday: MON },
+		{ name: "Defence Forces Day", month: 8, day: 9, weekday: TUE },
+		{ name: "Unity Day", month: 12, day: 22, observed: "sunday-next-weekday" },
+		{ ...christmasDay, observed: "sunday-next-weekday" },
+		{ ...boxingDay, observed: "sunday-next-weekday" },
+	],
+};
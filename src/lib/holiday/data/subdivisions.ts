@@ -0,0 +1,155 @@
+/**
+ * States, provinces and cantons with their own public holidays
+ *
+ * Codes are ISO 3166-2, matching the `counties` field Nager.Date sets on
+ * regional holidays. Only countries whose regional holidays differ enough to
+ * matter for office-day planning are listed.
+ */
+
+export interface Subdivision {
+	/** ISO 3166-2 code, e.g. "DE-BY" */
+	code: string;
+	name: string;
+}
+
+export const SUBDIVISIONS: Readonly<Record<string, readonly Subdivision[]>> = {
+	AU: [
+		{ code: "AU-ACT", name: "Australian Capital Territory" },
+		{ code: "AU-NSW", name: "New South Wales" },
+		{ code: "AU-NT", name: "Northern Territory" },
+		{ code: "AU-QLD", name: "Queensland" },
+		{ code: "AU-SA", name: "South Australia" },
+		{ code: "AU-TAS", name: "Tasmania" },
+		{ code: "AU-VIC", name: "Victoria" },
+		{ code: "AU-WA", name: "Western Australia" },
+	],
+	CA: [
+		{ code: "CA-AB", name: "Alberta" },
+		{ code: "CA-BC", name: "British Columbia" },
+		{ code: "CA-MB", name: "Manitoba" },
+		{ code: "CA-NB", name: "New Brunswick" },
+		{ code: "CA-NL", name: "Newfoundland and Labrador" },
+		{ code: "CA-NS", name: "Nova Scotia" },
+		{ code: "CA-NT", name: "Northwest Territories" },
+		{ code: "CA-NU", name: "Nunavut" },
+		{ code: "CA-ON", name: "Ontario" },
+		{ code: "CA-PE", name: "Prince Edward Island" },
+		{ code: "CA-QC", name: "Quebec" },
+		{ code: "CA-SK", name: "Saskatchewan" },
+		{ code: "CA-YT", name: "Yukon" },
+	],
+	CH: [
+		{ code: "CH-AG", name: "Aargau" },
+		{ code: "CH-AI", name: "Appenzell Innerrhoden" },
+		{ code: "CH-AR", name: "Appenzell Ausserrhoden" },
+		{ code: "CH-BE", name: "Bern" },
+		{ code: "CH-BL", name: "Basel-Landschaft" },
+		{ code: "CH-BS", name: "Basel-Stadt" },
+		{ code: "CH-FR", name: "Fribourg" },
+		{ code: "CH-GE", name: "Geneva" },
+		{ code: "CH-GL", name: "Glarus" },
+		{ code: "CH-GR", name: "Graubünden" },
+		{ code: "CH-JU", name: "Jura" },
+		{ code: "CH-LU", name: "Lucerne" },
+		{ code: "CH-NE", name: "Neuchâtel" },
+		{ code: "CH-NW", name: "Nidwalden" },
+		{ code: "CH-OW", name: "Obwalden" },
+		{ code: "CH-SG", name: "St. Gallen" },
+		{ code: "CH-SH", name: "Schaffhausen" },
+		{ code: "CH-SO", name: "Solothurn" },
+		{ code: "CH-SZ", name: "Schwyz" },
+		{ code: "CH-TG", name: "Thurgau" },
+		{ code: "CH-TI", name: "Ticino" },
+		{ code: "CH-UR", name: "Uri" },
+		{ code: "CH-VD", name: "Vaud" },
+		{ code: "CH-VS", name: "Valais" },
+		{ code: "CH-ZG", name: "Zug" },
+		{ code: "CH-ZH", name: "Zürich" },
+	],
+	DE: [
+		{ code: "DE-BW", name: "Baden-Württemberg" },
+		{ code: "DE-BY", name: "Bavaria" },
+		{ code: "DE-BE", name: "Berlin" },
+		{ code: "DE-BB", name: "Brandenburg" },
+		{ code: "DE-HB", name: "Bremen" },
+		{ code: "DE-HH", name: "Hamburg" },
+		{ code: "DE-HE", name: "Hesse" },
+		{ code: "DE-MV", name: "Mecklenburg-Vorpommern" },
+		{ code: "DE-NI", name: "Lower Saxony" },
+		{ code: "DE-NW", name: "North Rhine-Westphalia" },
+		{ code: "DE-RP", name: "Rhineland-Palatinate" },
+		{ code: "DE-SL", name: "Saarland" },
+		{ code: "DE-SN", name: "Saxony" },
+		{ code: "DE-ST", name: "Saxony-Anhalt" },
+		{ code: "DE-SH", name: "Schleswig-Holstein" },
+		{ code: "DE-TH", name: "Thuringia" },
+	],
+	GB: [
+		{ code: "GB-ENG", name: "England" },
+		{ code: "GB-NIR", name: "Northern Ireland" },
+		{ code: "GB-SCT", name: "Scotland" },
+		{ code: "GB-WLS", name: "Wales" },
+	],
+	US: [
+		{ code: "US-AL", name: "Alabama" },
+		{ code: "US-AK", name: "Alaska" },
+		{ code: "US-AZ", name: "Arizona" },
+		{ code: "US-AR", name: "Arkansas" },
+		{ code: "US-CA", name: "California" },
+		{ code: "US-CO", name: "Colorado" },
+		{ code: "US-CT", name: "Connecticut" },
+		{ code: "US-DE", name: "Delaware" },
+		{ code: "US-DC", name: "District of Columbia" },
+		{ code: "US-FL", name: "Florida" },
+		{ code: "US-GA", name: "Georgia" },
+		{ code: "US-HI", name: "Hawaii" },
+		{ code: "US-ID", name: "Idaho" },
+		{ code: "US-IL", name: "Illinois" },
+		{ code: "US-IN", name: "Indiana" },
+		{ code: "US-IA", name: "Iowa" },
+		{ code: "US-KS", name: "Kansas" },
+		{ code: "US-KY", name: "Kentucky" },
+		{ code: "US-LA", name: "Louisiana" },
+		{ code: "US-ME", name: "Maine" },
+		{ code: "US-MD", name: "Maryland" },
+		{ code: "US-MA", name: "Massachusetts" },
+		{ code: "US-MI", name: "Michigan" },
+		{ code: "US-MN", name: "Minnesota" },
+		{ code: "US-MS", name: "Mississippi" },
+		{ code: "US-MO", name: "Missouri" },
+		{ code: "US-MT", name: "Montana" },
+		{ code: "US-NE", name: "Nebraska" },
+		{ code: "US-NV", name: "Nevada" },
+		{ code: "US-NH", name: "New Hampshire" },
+		{ code: "US-NJ", name: "New Jersey" },
+		{ code: "US-NM", name: "New Mexico" },
+		{ code: "US-NY", name: "New York" },
+		{ code: "US-NC", name: "North Carolina" },
+		{ code: "US-ND", name: "North Dakota" },
+		{ code: "US-OH", name: "Ohio" },
+		{ code: "US-OK", name: "Oklahoma" },
+		{ code: "US-OR", name: "Oregon" },
+		{ code: "US-PA", name: "Pennsylvania" },
+		{ code: "US-RI", name: "Rhode Island" },
+		{ code: "US-SC", name: "South Carolina" },
+		{ code: "US-SD", name: "South Dakota" },
+		{ code: "US-TN", name: "Tennessee" },
+		{ code: "US-TX", name: "Texas" },
+		{ code: "US-UT", name: "Utah" },
+		{ code: "US-VT", name: "Vermont" },
+		{ code: "US-VA", name: "Virginia" },
+		{ code: "US-WA", name: "Washington" },
+		{ code: "US-WV", name: "West Virginia" },
+		{ code: "US-WI", name: "Wisconsin" },
+		{ code: "US-WY", name: "Wyoming" },
+	],
+};
+
+/**
+ * Subdivisions of a country, in display order
+ * @param countryCode - ISO 3166-1 alpha-2 code
+ * @returns The country's subdivisions, or an empty list
+ */
+export function getSubdivisions(countryCode: string): readonly Subdivision[] {
+	return SUBDIVISIONS[countryCode] ?? [];
+}
@@ -12,10 +12,12 @@ import type {
 	HolidayDataSource,
 } from "../../types/holiday-data-source";
 import { logger } from "../../utils/logger";
+import type { CustomCompanyFilter } from "../settings-constants";
 import { isCompanyFilters } from "../type-guards";
 import companyFiltersJson from "./data/company-filters.json";
 import type { FetchHolidaysOptions, HolidayInfo } from "./HolidayManager";
 import { HolidayDataSourceFactory } from "./sources";
+import IcsHolidayDataSource from "./sources/IcsHolidayDataSource";
 
 const { $schema: _, ...rawCompanyFilters } = companyFiltersJson;
 
@@ -24,6 +26,9 @@ const companyFilters: CompanyFilters = isCompanyFilters(rawCompanyFilters)
 	? rawCompanyFilters
 	: {};
 
+// Personal company policy, listed next to the bundled companies of its country
+let customCompany: CustomCompanyFilter | null = null;
+
 /**
  * Extra holiday: fixed date or day-after another holiday
  */
@@ -54,12 +59,15 @@ export interface CompanyFilters {
 /**
  * Create and initialize a holiday data source
  *
+ * Uses the "auto" source: Nager.Date, falling back to the bundled offline
+ * rules when the API is unreachable.
+ *
  * @returns An initialized HolidayDataSource
  * @throws Error if data source initialization fails
  */
 export async function createDataSource(): Promise<HolidayDataSource> {
 	const factory = await HolidayDataSourceFactory.getInstance();
-	const dataSource = factory.getDataSource("nager-date");
+	const dataSource = factory.getDataSource("auto");
 
 	// Type guard to ensure it's a valid HolidayDataSource
 	if (!dataSource || typeof dataSource.getHolidaysByYear !== "function") {
@@ -69,6 +77,17 @@ export async function createDataSource(): Promise<HolidayDataSource> {
 	return dataSource as HolidayDataSource;
 }
 
+/**
+ * Get the data source that serves the user's imported ICS calendar
+ *
+ * @returns The registered ICS source, or null if none is registered
+ */
+export async function createCustomCalendarSource(): Promise<IcsHolidayDataSource | null> {
+	const factory = await HolidayDataSourceFactory.getInstance();
+	const dataSource = factory.getDataSource("ics");
+	return dataSource instanceof IcsHolidayDataSource ? dataSource : null;
+}
+
 /**
  * Check if a date is a weekday (Monday-Friday)
  */
@@ -86,6 +105,31 @@ export function normalizeDate(date: Date): Date {
 	return normalized;
 }
 
+/**
+ * Set the user's personal company policy, or null to remove it
+ */
+export function setCustomCompanyFilter(
+	filter: CustomCompanyFilter | null,
+): void {
+	customCompany = filter;
+}
+
+/**
+ * Look up a company entry, preferring the personal policy
+ */
+function getCompanyEntry(
+	countryCode: string,
+	companyName: string,
+): CompanyEntry | null {
+	if (
+		customCompany?.countryCode === countryCode &&
+		customCompany.name === companyName
+	) {
+		return customCompany;
+	}
+	return companyFilters[countryCode]?.companies?.[companyName] ?? null;
+}
+
 /**
  * Get company holiday filters for a country
  *
@@ -97,13 +141,7 @@ export function getCompanyHolidays(
 	countryCode: string,
 	companyName: string,
 ): Set<string> | null {
-	const filters = companyFilters;
-	const countryData = filters[countryCode];
-	if (!countryData || !countryData.companies) {
-		return null;
-	}
-
-	const companyData = countryData.companies[companyName];
+	const companyData = getCompanyEntry(countryCode, companyName);
 	if (!companyData || !companyData.holidays) {
 		return null;
 	}
@@ -130,8 +168,7 @@ export function resolveExtraHolidays(
 	apiHolidays: HolidayInfo[],
 	years: number[],
 ): HolidayInfo[] {
-	const filters = companyFilters;
-	const companyData = filters[countryCode]?.companies?.[companyName];
+	const companyData = getCompanyEntry(countryCode, companyName);
 	if (!companyData?.extra) {
 		return [];
 	}
@@ -168,6 +205,28 @@ export function resolveExtraHolidays(
 	return extras;
 }
 
+/**
+ * Whether a holiday is observed in a subdivision.
+ * Nationwide holidays apply everywhere; with no subdivision chosen, regional
+ * holidays are kept too.
+ *
+ * @param holiday - Holiday from a data source
+ * @param subdivisionCode - ISO 3166-2 code, or null for the whole country
+ */
+export function appliesToSubdivision(
+	holiday: Holiday,
+	subdivisionCode: string | null | undefined,
+): boolean {
+	if (
+		!subdivisionCode ||
+		holiday.global !== false ||
+		!holiday.counties?.length
+	) {
+		return true;
+	}
+	return holiday.counties.includes(subdivisionCode);
+}
+
 /**
  * Fetch holidays from the data source for given options
  *
@@ -184,7 +243,13 @@ export async function fetchHolidaysFromSource(
 	weekdayHolidays: number;
 	filteredCount: number;
 }> {
-	const { countryCode, companyName, years, onlyWeekdays = false } = options;
+	const {
+		countryCode,
+		companyName,
+		years,
+		onlyWeekdays = false,
+		subdivisionCode,
+	} = options;
 
 	// Ensure companyName is null if undefined
 	const companyFilter: string | null =
@@ -206,6 +271,7 @@ export async function fetchHolidaysFromSource(
 
 		// Filter and transform holidays
 		const holidayInfoList: HolidayInfo[] = allHolidays
+			.filter((holiday) => appliesToSubdivision(holiday, subdivisionCode))
 			.filter((holiday) => {
 				// Filter by company if specified
 				if (companyHolidaySet) {
@@ -269,11 +335,13 @@ export async function fetchHolidaysFromSource(
  * Generate a cache key for holiday fetch options
  */
 export function generateCacheKey(options: FetchHolidaysOptions): string {
-	const { countryCode, companyName, years, onlyWeekdays } = options;
+	const { countryCode, companyName, years, onlyWeekdays, subdivisionCode } =
+		options;
 	const company = companyName || "all";
 	const weekday = onlyWeekdays ? "weekdays" : "all";
 	const yearsStr = years.sort().join(",");
-	return `${countryCode}:${company}:${yearsStr}:${weekday}`;
+	const region = subdivisionCode || "all";
+	return `${countryCode}:${company}:${yearsStr}:${weekday}:${region}`;
 }
 
 /**
@@ -308,20 +376,20 @@ export function buildHolidaySummary(result: {
  * Get available companies for a country
  */
 export function getAvailableCompaniesForCountry(countryCode: string): string[] {
-	const filters = companyFilters;
-	const countryData = filters[countryCode];
-	if (!countryData || !countryData.companies) {
-		return [];
+	const companies = Object.keys(companyFilters[countryCode]?.companies ?? {});
+	if (customCompany?.countryCode === countryCode) {
+		companies.push(customCompany.name);
 	}
-
-	return Object.keys(countryData.companies);
+	return companies;
 }
 
 /**
  * Check if a country has company filters available
  */
 export function hasCompanyFiltersForCountry(countryCode: string): boolean {
-	const filters = companyFilters;
-	const countryData = filters[countryCode];
-	return !!countryData && !!countryData.companies;
+	const countryData = companyFilters[countryCode];
+	return (
+		(!!countryData && !!countryData.companies) ||
+		customCompany?.countryCode === countryCode
+	);
 }
@@ -11,12 +11,22 @@
 import { isHTMLElement } from "../type-guards";
 import type { HolidayInfo } from "./HolidayManager";
 
+/**
+ * Tooltip line for one holiday, naming its country
+ */
+function describeHoliday(holiday: HolidayInfo): string {
+	const note = holiday.countsAsNonOffice === false ? ", not a day off" : "";
+	return `${holiday.name} (${holiday.countryCode}${note})`;
+}
+
 /**
  * Apply holiday markers to calendar UI cells
  *
  * Finds calendar cells matching each holiday's date and adds visual
  * markers (CSS classes, data attributes, ARIA labels, tooltips).
- * Optionally marks holidays as out-of-office.
+ * Optionally marks holidays as out-of-office. Holidays from several
+ * countries on the same day share one cell, and the tooltip lists each
+ * with its country.
  *
  * @param holidays - Array of holiday info objects to apply
  * @param holidaysAsOOF - Whether to mark holidays as out-of-office
@@ -25,7 +35,17 @@ export function applyHolidaysToCalendarDOM(
 	holidays: HolidayInfo[],
 	holidaysAsOOF: boolean = true,
 ): void {
-	holidays.forEach((holiday) => {
+	const byDay = new Map<string, HolidayInfo[]>();
+	for (const holiday of holidays) {
+		const key = holiday.date.toDateString();
+		byDay.set(key, [...(byDay.get(key) ?? []), holiday]);
+	}
+
+	byDay.forEach((sameDay) => {
+		const [holiday] = sameDay;
+		if (!holiday) {
+			return;
+		}
 		const year = holiday.date.getFullYear();
 		const month = holiday.date.getMonth();
 		const day = holiday.date.getDate();
@@ -47,8 +67,16 @@ export function applyHolidaysToCalendarDOM(
 		// Always add holiday class for visual styling
 		maybeCell.classList.add("holiday");
 
+		// Days that are only holidays elsewhere are shown but not taken off
+		const countsAsNonOffice = sameDay.some(
+			(h) => h.countsAsNonOffice !== false,
+		);
+		if (!countsAsNonOffice) {
+			maybeCell.classList.add("holiday--info");
+		}
+
 		// Only mark as OOF if holidaysAsOOF is enabled
-		if (holidaysAsOOF) {
+		if (holidaysAsOOF && countsAsNonOffice) {
 			maybeCell.dataset.selected = "true";
 			maybeCell.dataset.selectionType = "out-of-office";
 			maybeCell.classList.add("selected", "out-of-office");
@@ -56,16 +84,18 @@ export function applyHolidaysToCalendarDOM(
 
 		// Add data attribute for holiday info
 		maybeCell.dataset.holiday = "true";
-		maybeCell.dataset.holidayName = holiday.name;
-		maybeCell.dataset.holidayCountry = holiday.countryCode;
+		maybeCell.dataset.holidayName = sameDay.map((h) => h.name).join(" / ");
+		maybeCell.dataset.holidayCountry = [
+			...new Set(sameDay.map((h) => h.countryCode)),
+		].join(",");
 
 		// Update aria-label for accessibility
 		const currentLabel = maybeCell.getAttribute("aria-label") || "";
-		const holidayLabel = ` - ${holiday.name} (Holiday)`;
+		const holidayLabel = ` - ${sameDay.map(describeHoliday).join(", ")} (Holiday)`;
 		maybeCell.setAttribute("aria-label", currentLabel + holidayLabel);
 
 		// Add title for hover tooltip
-		maybeCell.title = `${holiday.name} (${holiday.countryCode})`;
+		maybeCell.title = sameDay.map(describeHoliday).join("\n");
 	});
 }
 
@@ -85,7 +115,7 @@ export function removeHolidaysFromCalendarDOM(): void {
 			return;
 		}
 
-		cell.classList.remove("holiday");
+		cell.classList.remove("holiday", "holiday--info");
 		delete cell.dataset.holiday;
 		delete cell.dataset.holidayName;
 		delete cell.dataset.holidayCountry;
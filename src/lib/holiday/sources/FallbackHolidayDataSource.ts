@@ -0,0 +1,116 @@
+/**
+ * Fallback Holiday Data Source
+ * Serves holidays from a primary source and switches to a secondary one
+ * whenever the primary fails, e.g. Nager.Date with no network connection.
+ */
+
+import { logger } from "../../../utils/logger";
+import HolidayDataSourceStrategy from "./HolidayDataSourceStrategy";
+import type {
+	DataSourceStatus,
+	Holiday,
+	HolidayDataSource,
+	HolidayDataSourceConfig,
+	LongWeekend,
+} from "./types";
+
+class FallbackHolidayDataSource extends HolidayDataSourceStrategy {
+	private primary: HolidayDataSource;
+	private fallback: HolidayDataSource;
+
+	/**
+	 * @param {HolidayDataSource} primary - Preferred data source
+	 * @param {HolidayDataSource} fallback - Used when the primary throws
+	 * @param {HolidayDataSourceConfig} config - Initial configuration
+	 */
+	constructor(
+		primary: HolidayDataSource,
+		fallback: HolidayDataSource,
+		config: HolidayDataSourceConfig = {},
+	) {
+		super(
+			"auto",
+			`${primary.description} (falls back to ${fallback.name} when unreachable)`,
+			config,
+		);
+		this.primary = primary;
+		this.fallback = fallback;
+		// Both sources cache on their own; caching here would keep serving
+		// fallback data after the primary comes back
+		this.defaultConfig = { ...this.defaultConfig, enableCache: false };
+		this.config = { ...this.config, enableCache: false };
+	}
+
+	/**
+	 * Fetch from the primary source, or the fallback if the primary fails
+	 * @param {number} year - Year to fetch holidays for
+	 * @param {string} countryCode - ISO 3166-1 alpha-2 country code
+	 * @returns {Promise<Holiday[]>} Array of holidays
+	 * @protected
+	 */
+	protected override async _fetchHolidaysForYear(
+		year: number,
+		countryCode: string,
+	): Promise<Holiday[]> {
+		try {
+			return await this.primary.getHolidaysByYear(year, countryCode);
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			logger.warn(
+				`[HolidayDataSource:${this.name}] ${this.primary.name} failed, using ${this.fallback.name}: ${errorMessage}`,
+			);
+			return this.fallback.getHolidaysByYear(year, countryCode);
+		}
+	}
+
+	/**
+	 * Long weekends come from the primary only; without it there are none
+	 * @param {number} year - Year to fetch long weekends for
+	 * @param {string} countryCode - ISO 3166-1 alpha-2 country code
+	 * @returns {Promise<LongWeekend[]>} Array of long weekends
+	 */
+	async getLongWeekends(
+		year: number,
+		countryCode: string,
+	): Promise<LongWeekend[]> {
+		if (!this.primary.getLongWeekends) {
+			return [];
+		}
+		return this.primary.getLongWeekends(year, countryCode);
+	}
+
+	/**
+	 * Report the primary's status, or the fallback's with `fallback` set
+	 * and `error` explaining why the primary is unavailable
+	 * @returns {Promise<DataSourceStatus>} Data source status
+	 */
+	override async checkAvailability(): Promise<DataSourceStatus> {
+		const primaryStatus = await this.primary.checkAvailability();
+		if (primaryStatus.isAvailable) {
+			return primaryStatus;
+		}
+
+		const fallbackStatus = await this.fallback.checkAvailability();
+		const status: DataSourceStatus = {
+			...fallbackStatus,
+			fallback: this.fallback.name,
+		};
+		if (primaryStatus.error) {
+			status.error = primaryStatus.error;
+		}
+		return status;
+	}
+
+	/**
+	 * Clear this source's cache and both underlying caches
+	 * @returns {void}
+	 */
+	override clearCache(): void {
+		super.clearCache();
+		this.primary.clearCache();
+		this.fallback.clearCache();
+	}
+}
+
+export default FallbackHolidayDataSource;
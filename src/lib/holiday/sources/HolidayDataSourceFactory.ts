@@ -5,7 +5,10 @@
  */
 
 import { logger } from "../../../utils/logger";
+import FallbackHolidayDataSource from "./FallbackHolidayDataSource";
+import IcsHolidayDataSource from "./IcsHolidayDataSource";
 import NagerDateHolidayDataSource from "./NagerDateHolidayDataSource";
+import OfflineHolidayDataSource from "./OfflineHolidayDataSource";
 import type {
 	DataSourceStatus,
 	HolidayDataSource,
@@ -74,6 +77,17 @@ export class HolidayDataSourceFactory {
 			const nagerDataSource = new NagerDateHolidayDataSource();
 			this.registerDataSource(nagerDataSource);
 			this.defaultDataSourceName = "nager-date";
+
+			// Bundled rules, and "auto" which prefers Nager.Date but
+			// answers from them when the API is unreachable
+			const offlineDataSource = new OfflineHolidayDataSource();
+			this.registerDataSource(offlineDataSource);
+			this.registerDataSource(
+				new FallbackHolidayDataSource(nagerDataSource, offlineDataSource),
+			);
+
+			// User-imported .ics calendar, selected as "Custom calendar"
+			this.registerDataSource(new IcsHolidayDataSource());
 		} catch (error) {
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
@@ -318,6 +332,10 @@ export class HolidayDataSourceFactory {
 				newDataSource = new NagerDateHolidayDataSource(config);
 				this.registerDataSource(newDataSource);
 				return newDataSource;
+			} else if (name === "offline") {
+				newDataSource = new OfflineHolidayDataSource(config);
+				this.registerDataSource(newDataSource);
+				return newDataSource;
 			} else {
 				throw new Error(
 					`Cannot reload data source type '${name}' - not supported`,
@@ -0,0 +1,104 @@
+/**
+ * ICS Holiday Data Source
+ * Serves holidays from a user-provided .ics calendar (e.g. a company's
+ * official holiday list) in place of a country's public holidays.
+ */
+
+import { parseLocalDate } from "../../date-helpers";
+import { parseIcsHolidays } from "../../io/ics-io";
+import type { CustomHoliday } from "../../settings-constants";
+import HolidayDataSourceStrategy from "./HolidayDataSourceStrategy";
+import type {
+	DataSourceStatus,
+	Holiday,
+	HolidayDataSourceConfig,
+} from "./types";
+
+/** Country code under which the custom calendar is selected and stored */
+export const CUSTOM_CALENDAR_CODE = "CUSTOM";
+
+class IcsHolidayDataSource extends HolidayDataSourceStrategy {
+	private holidays: readonly CustomHoliday[] = [];
+
+	constructor(config: HolidayDataSourceConfig = {}) {
+		super("ics", "Custom holiday calendar imported from an ICS file", config);
+	}
+
+	/**
+	 * Replace the calendar's holidays (e.g. restored from saved settings)
+	 * @param {readonly CustomHoliday[]} holidays - One entry per day
+	 */
+	setHolidays(holidays: readonly CustomHoliday[]): void {
+		this.holidays = holidays;
+		this.clearCache();
+	}
+
+	/**
+	 * Get the calendar's holidays
+	 * @returns {readonly CustomHoliday[]} Holidays in date order
+	 */
+	getHolidays(): readonly CustomHoliday[] {
+		return this.holidays;
+	}
+
+	/**
+	 * Parse an ICS file and replace the calendar's holidays with its events
+	 * @param {string} data - ICS file contents
+	 * @returns Parse result; the holidays are unchanged on failure
+	 */
+	loadICS(data: string): {
+		success: boolean;
+		holidays?: CustomHoliday[];
+		error?: string;
+	} {
+		const result = parseIcsHolidays(data);
+		if (result.success && result.holidays) {
+			this.setHolidays(result.holidays);
+		}
+		return result;
+	}
+
+	/**
+	 * Holidays of the imported calendar that fall in a year.
+	 * The calendar is not tied to a country, so the country code is only
+	 * echoed back on each holiday.
+	 * @param {number} year - Year to get holidays for
+	 * @param {string} countryCode - Country code to stamp on results
+	 * @returns {Promise<Holiday[]>} Array of holidays
+	 * @protected
+	 */
+	protected override async _fetchHolidaysForYear(
+		year: number,
+		countryCode: string,
+	): Promise<Holiday[]> {
+		const prefix = `${year}-`;
+		return this.holidays
+			.filter((holiday) => holiday.date.startsWith(prefix))
+			.map((holiday) => ({
+				date: parseLocalDate(holiday.date),
+				localName: holiday.name,
+				name: holiday.name,
+				countryCode,
+				types: ["Public"],
+				global: true,
+			}));
+	}
+
+	/**
+	 * Available once a calendar has been loaded
+	 * @returns {Promise<DataSourceStatus>} Data source status
+	 */
+	override async checkAvailability(): Promise<DataSourceStatus> {
+		const status: DataSourceStatus = {
+			isAvailable: this.holidays.length > 0,
+			cacheSize: this.cache.size,
+			responseTime: 0,
+		};
+		if (this.holidays.length === 0) {
+			status.error = "No calendar imported";
+		}
+		return status;
+	}
+}
+
+export default IcsHolidayDataSource;
@@ -5,6 +5,8 @@
 
 import type {
 	Configuration,
+	LongWeekendApi,
+	LongWeekendV3Dto,
 	PublicHolidayApi,
 	PublicHolidayV3Dto,
 	VersionApi,
@@ -17,6 +19,7 @@ import type {
 	Holiday,
 	HolidayCheckResult,
 	HolidayType,
+	LongWeekend,
 } from "./types";
 
 interface NagerDateConfig {
@@ -36,6 +39,7 @@ interface FullConfig extends NagerDateConfig {
 class NagerDateHolidayDataSource extends HolidayDataSourceStrategy {
 	private configuration: Configuration | null = null;
 	private publicHolidayApi: PublicHolidayApi | null = null;
+	private longWeekendApi: LongWeekendApi | null = null;
 	declare config: FullConfig;
 
 	constructor(config: NagerDateConfig = {}) {
@@ -47,6 +51,7 @@ class NagerDateHolidayDataSource extends HolidayDataSourceStrategy {
 
 		this.configuration = null;
 		this.publicHolidayApi = null;
+		this.longWeekendApi = null;
 		this._initializeApiClient();
 	}
 
@@ -57,8 +62,9 @@ class NagerDateHolidayDataSource extends HolidayDataSourceStrategy {
 	private async _initializeApiClient(): Promise<void> {
 		try {
 			const apiModule = await import("nager_date_api_reference");
-			const { Configuration, PublicHolidayApi } = apiModule as {
+			const { Configuration, LongWeekendApi, PublicHolidayApi } = apiModule as {
 				Configuration: new (params?: { basePath?: string }) => Configuration;
+				LongWeekendApi: new (config?: Configuration) => LongWeekendApi;
 				PublicHolidayApi: new (config?: Configuration) => PublicHolidayApi;
 			};
 
@@ -66,6 +72,7 @@ class NagerDateHolidayDataSource extends HolidayDataSourceStrategy {
 			this.configuration = new Configuration({ basePath });
 
 			this.publicHolidayApi = new PublicHolidayApi(this.configuration);
+			this.longWeekendApi = new LongWeekendApi(this.configuration);
 
 			this._debug("Nager.Date API client initialized successfully");
 		} catch (error: unknown) {
@@ -76,6 +83,7 @@ class NagerDateHolidayDataSource extends HolidayDataSourceStrategy {
 			);
 			this.configuration = null;
 			this.publicHolidayApi = null;
+			this.longWeekendApi = null;
 		}
 	}
 
@@ -163,6 +171,44 @@ class NagerDateHolidayDataSource extends HolidayDataSourceStrategy {
 		}
 	}
 
+	/**
+	 * Fetch long weekends for a year and country from Nager.Date API
+	 * @param {number} year - Year to fetch long weekends for
+	 * @param {string} countryCode - ISO 3166-1 alpha-2 country code
+	 * @returns {Promise<LongWeekend[]>} Long weekends, bridge days included
+	 */
+	async getLongWeekends(
+		year: number,
+		countryCode: string,
+	): Promise<LongWeekend[]> {
+		if (!this.longWeekendApi) {
+			await this._initializeApiClient();
+			if (!this.longWeekendApi) {
+				throw new Error("Nager.Date API client not initialized");
+			}
+		}
+
+		this._debug(`Fetching long weekends for ${countryCode} - ${year}`);
+
+		try {
+			const weekends =
+				await this.longWeekendApi.apiV3LongWeekendYearCountryCodeGet({
+					year,
+					countryCode,
+				});
+			return (weekends || []).flatMap((weekend) =>
+				this._normalizeLongWeekend(weekend),
+			);
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			this._debug(
+				`Error fetching long weekends for ${countryCode} - ${year}: ${errorMessage}`,
+			);
+			throw new Error(`Failed to fetch long weekends: ${errorMessage}`);
+		}
+	}
+
 	/**
 	 * Check if today is a holiday using the optimized endpoint
 	 * @param {string} countryCode - ISO 3166-1 alpha-2 country code
@@ -429,6 +475,31 @@ class NagerDateHolidayDataSource extends HolidayDataSourceStrategy {
 
 		return result;
 	}
+
+	/**
+	 * Normalize a long weekend from Nager.Date API response.
+	 * The generated client parses "YYYY-MM-DD" as UTC midnight, so dates are
+	 * re-read as local dates. Entries missing either end are dropped.
+	 * @param {LongWeekendV3Dto} apiWeekend - Long weekend from the API
+	 * @returns {LongWeekend[]} Zero or one normalized long weekend
+	 * @private
+	 */
+	private _normalizeLongWeekend(apiWeekend: LongWeekendV3Dto): LongWeekend[] {
+		const toLocal = (date: Date): Date =>
+			parseLocalDate(date.toISOString().slice(0, 10));
+		const { startDate, endDate } = apiWeekend;
+		if (!startDate || !endDate) {
+			return [];
+		}
+		return [
+			{
+				startDate: toLocal(startDate),
+				endDate: toLocal(endDate),
+				dayCount: apiWeekend.dayCount ?? 0,
+				bridgeDays: (apiWeekend.bridgeDays ?? []).map(toLocal),
+			},
+		];
+	}
 }
 
 export default NagerDateHolidayDataSource;
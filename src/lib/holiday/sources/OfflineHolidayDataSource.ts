@@ -0,0 +1,215 @@
+/**
+ * Offline Holiday Data Source
+ * Computes nationwide public holidays locally from the rules in
+ * data/holiday-rules.ts, so holidays stay available without a network.
+ */
+
+import { HOLIDAY_RULES, type HolidayRule } from "../data/holiday-rules";
+import HolidayDataSourceStrategy from "./HolidayDataSourceStrategy";
+import type {
+	DataSourceStatus,
+	Holiday,
+	HolidayDataSourceConfig,
+} from "./types";
+
+/**
+ * Western Easter Sunday for a year (anonymous Gregorian algorithm)
+ * @param {number} year - Four-digit year
+ * @returns {Date} Local midnight on Easter Sunday
+ */
+export function getEasterSunday(year: number): Date {
+	const a = year % 19;
+	const b = Math.floor(year / 100);
+	const c = year % 100;
+	const d = Math.floor(b / 4);
+	const e = b % 4;
+	const f = Math.floor((b + 8) / 25);
+	const g = Math.floor((b - f + 1) / 3);
+	const h = (19 * a + b - d - g + 15) % 30;
+	const i = Math.floor(c / 4);
+	const k = c % 4;
+	const l = (32 + 2 * e + 2 * i - h - k) % 7;
+	const m = Math.floor((a + 11 * h + 22 * l) / 451);
+	const month = Math.floor((h + l - 7 * m + 114) / 31);
+	const day = ((h + l - 7 * m + 114) % 31) + 1;
+	return new Date(year, month - 1, day);
+}
+
+/**
+ * Orthodox Easter Sunday for a year (Meeus Julian algorithm), converted to
+ * the Gregorian calendar; the 13-day offset holds for 1900-2099
+ * @param {number} year - Four-digit year
+ * @returns {Date} Local midnight on Orthodox Easter Sunday
+ */
+export function getOrthodoxEasterSunday(year: number): Date {
+	const a = year % 4;
+	const b = year % 7;
+	const c = year % 19;
+	const d = (19 * c + 15) % 30;
+	const e = (2 * a + 4 * b - d + 34) % 7;
+	const month = Math.floor((d + e + 114) / 31);
+	const day = ((d + e + 114) % 31) + 1;
+	return new Date(year, month - 1, day + 13);
+}
+
+function ruleDate(rule: HolidayRule, year: number): Date {
+	if ("easter" in rule) {
+		const date = getEasterSunday(year);
+		date.setDate(date.getDate() + rule.easter);
+		return date;
+	}
+	if ("orthodoxEaster" in rule) {
+		const date = getOrthodoxEasterSunday(year);
+		date.setDate(date.getDate() + rule.orthodoxEaster);
+		return date;
+	}
+	const date = new Date(year, rule.month - 1, rule.day);
+	if ("weekday" in rule) {
+		date.setDate(date.getDate() + ((rule.weekday - date.getDay() + 7) % 7));
+	}
+	return date;
+}
+
+function isWeekend(date: Date): boolean {
+	return date.getDay() === 0 || date.getDay() === 6;
+}
+
+/** Whether a holiday's date is moved by its observed rule */
+function isShifted(rule: HolidayRule, date: Date): boolean {
+	if (rule.observed === "sunday-next-weekday") return date.getDay() === 0;
+	return rule.observed !== undefined && isWeekend(date);
+}
+
+function dateKey(date: Date): string {
+	return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+/**
+ * Resolve a country's rules to concrete dates for one year.
+ *
+ * Weekend shifts run after every other date is placed, in date order, so a
+ * "next-weekday" substitute skips days that are already holidays (UK
+ * Christmas on a Saturday → Monday, Boxing Day on the Sunday → Tuesday).
+ *
+ * @param {readonly HolidayRule[]} rules - Rules for one country
+ * @param {number} year - Year to resolve
+ * @returns {Array<{ rule: HolidayRule; date: Date }>} Dates sorted ascending
+ */
+export function resolveHolidayRules(
+	rules: readonly HolidayRule[],
+	year: number,
+): Array<{ rule: HolidayRule; date: Date }> {
+	const resolved = rules
+		.filter(
+			(rule) =>
+				(rule.from === undefined || year >= rule.from) &&
+				(rule.until === undefined || year <= rule.until),
+		)
+		.map((rule) => ({ rule, date: ruleDate(rule, year) }))
+		.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+	const taken = new Set(
+		resolved
+			.filter(({ rule, date }) => !isShifted(rule, date))
+			.map(({ date }) => dateKey(date)),
+	);
+
+	for (const entry of resolved) {
+		if (!isShifted(entry.rule, entry.date)) continue;
+
+		const shifted = new Date(entry.date);
+		if (entry.rule.observed === "nearest-weekday") {
+			shifted.setDate(shifted.getDate() + (shifted.getDay() === 6 ? -1 : 1));
+		} else {
+			do {
+				shifted.setDate(shifted.getDate() + 1);
+			} while (isWeekend(shifted) || taken.has(dateKey(shifted)));
+		}
+		taken.add(dateKey(shifted));
+		entry.date = shifted;
+	}
+
+	return resolved.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+class OfflineHolidayDataSource extends HolidayDataSourceStrategy {
+	constructor(config: HolidayDataSourceConfig = {}) {
+		super(
+			"offline",
+			"Bundled holiday rules - nationwide public holidays computed locally, no network required",
+			config,
+		);
+	}
+
+	/**
+	 * Whether offline rules exist for a country
+	 * @param {string} countryCode - ISO 3166-1 alpha-2 country code
+	 * @returns {boolean} True if the country can be computed offline
+	 */
+	supportsCountry(countryCode: string): boolean {
+		return countryCode in HOLIDAY_RULES;
+	}
+
+	/**
+	 * Country codes with offline rules
+	 * @returns {string[]} Sorted ISO 3166-1 alpha-2 codes
+	 */
+	getSupportedCountries(): string[] {
+		return Object.keys(HOLIDAY_RULES).sort();
+	}
+
+	/**
+	 * Compute holidays for a specific year and country
+	 * @param {number} year - Year to compute holidays for
+	 * @param {string} countryCode - ISO 3166-1 alpha-2 country code
+	 * @returns {Promise<Holiday[]>} Array of holidays
+	 * @throws {Error} If the country has no offline rules
+	 * @protected
+	 */
+	protected override async _fetchHolidaysForYear(
+		year: number,
+		countryCode: string,
+	): Promise<Holiday[]> {
+		const rules = HOLIDAY_RULES[countryCode];
+		if (!rules) {
+			throw new Error(`No offline holiday data for country '${countryCode}'`);
+		}
+
+		this._debug(`Computing holidays for ${countryCode} - ${year}`);
+
+		return resolveHolidayRules(rules, year).map(({ rule, date }) => ({
+			date,
+			localName: rule.name,
+			name: rule.name,
+			countryCode,
+			types: ["Public"],
+			fixed: "day" in rule && !("weekday" in rule),
+			global: true,
+		}));
+	}
+
+	/**
+	 * Available when the configured country has offline rules; computing
+	 * locally cannot fail for a supported country
+	 * @returns {Promise<DataSourceStatus>} Data source status
+	 */
+	override async checkAvailability(): Promise<DataSourceStatus> {
+		const countryCode = this.config.defaultCountryCode || "US";
+		if (!this.supportsCountry(countryCode)) {
+			return {
+				isAvailable: false,
+				cacheSize: this.cache.size,
+				error: `No offline holiday data for country '${countryCode}'`,
+				responseTime: 0,
+			};
+		}
+		return {
+			isAvailable: true,
+			lastFetch: new Date(),
+			cacheSize: this.cache.size,
+			responseTime: 0,
+		};
+	}
+}
+
+export default OfflineHolidayDataSource;
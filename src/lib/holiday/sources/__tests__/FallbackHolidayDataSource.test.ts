@@ -0,0 +1,111 @@
+/**
+ * FallbackHolidayDataSource Tests
+ *
+ * Tests for switching to the offline source when the primary is unreachable
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import FallbackHolidayDataSource from "../FallbackHolidayDataSource";
+import OfflineHolidayDataSource from "../OfflineHolidayDataSource";
+import type { Holiday, HolidayDataSource } from "../types";
+
+const apiHoliday: Holiday = {
+	date: new Date(2025, 0, 1),
+	localName: "New Year's Day",
+	name: "New Year's Day",
+	countryCode: "US",
+	types: ["Public"],
+};
+
+function createPrimary(): HolidayDataSource {
+	return {
+		name: "primary",
+		description: "Primary source",
+		config: {},
+		checkAvailability: vi.fn().mockResolvedValue({
+			isAvailable: true,
+			cacheSize: 0,
+			responseTime: 5,
+		}),
+		getHolidaysByYear: vi.fn().mockResolvedValue([apiHoliday]),
+		getHolidaysForDateRange: vi.fn(),
+		getUpcomingHolidays: vi.fn(),
+		isHoliday: vi.fn(),
+		isTodayHoliday: vi.fn(),
+		queryHolidays: vi.fn(),
+		clearCache: vi.fn(),
+		updateConfig: vi.fn(),
+	} as unknown as HolidayDataSource;
+}
+
+describe("FallbackHolidayDataSource", () => {
+	let primary: HolidayDataSource;
+	let dataSource: FallbackHolidayDataSource;
+
+	beforeEach(() => {
+		primary = createPrimary();
+		dataSource = new FallbackHolidayDataSource(
+			primary,
+			new OfflineHolidayDataSource(),
+		);
+	});
+
+	it("should serve the primary source when it answers", async () => {
+		const holidays = await dataSource.getHolidaysByYear(2025, "US");
+		expect(holidays).toEqual([apiHoliday]);
+	});
+
+	it("should fall back to offline rules when the primary fails", async () => {
+		vi.mocked(primary.getHolidaysByYear).mockRejectedValueOnce(
+			new Error("Failed to connect to Nager.Date API"),
+		);
+		const holidays = await dataSource.getHolidaysByYear(2025, "US");
+		expect(holidays.map((h) => h.name)).toContain("Thanksgiving Day");
+	});
+
+	it("should go back to the primary once it recovers", async () => {
+		vi.mocked(primary.getHolidaysByYear).mockRejectedValueOnce(
+			new Error("offline"),
+		);
+		await dataSource.getHolidaysByYear(2025, "US");
+		expect(await dataSource.getHolidaysByYear(2025, "US")).toEqual([
+			apiHoliday,
+		]);
+	});
+
+	it("should pass through the primary status when it is available", async () => {
+		const status = await dataSource.checkAvailability();
+		expect(status).toEqual({
+			isAvailable: true,
+			cacheSize: 0,
+			responseTime: 5,
+		});
+	});
+
+	it("should report the fallback when the primary is unavailable", async () => {
+		vi.mocked(primary.checkAvailability).mockResolvedValueOnce({
+			isAvailable: false,
+			cacheSize: 0,
+			responseTime: 10000,
+			error: "Request timeout",
+		});
+		const status = await dataSource.checkAvailability();
+		expect(status.isAvailable).toBe(true);
+		expect(status.fallback).toBe("offline");
+		expect(status.error).toBe("Request timeout");
+	});
+
+	it("should take long weekends from the primary only", async () => {
+		expect(await dataSource.getLongWeekends(2025, "US")).toEqual([]);
+
+		const getLongWeekends = vi.fn().mockResolvedValue([]);
+		primary.getLongWeekends = getLongWeekends;
+		await dataSource.getLongWeekends(2025, "US");
+		expect(getLongWeekends).toHaveBeenCalledWith(2025, "US");
+	});
+
+	it("should clear both underlying caches", () => {
+		dataSource.clearCache();
+		expect(primary.clearCache).toHaveBeenCalled();
+	});
+});
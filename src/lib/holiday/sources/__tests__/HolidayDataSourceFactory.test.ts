@@ -56,6 +56,13 @@ describe("HolidayDataSourceFactory", () => {
 			expect(nagerSource?.name).toBe("nager-date");
 		});
 
+		it("should register the offline and auto fallback data sources", () => {
+			expect(factory.getDataSource("offline")?.name).toBe("offline");
+			expect(factory.getDataSource("auto")?.description).toContain(
+				"falls back to offline",
+			);
+		});
+
 		it("should set default data source to nager-date", () => {
 			const defaultSource = factory.getDefaultDataSource();
 			expect(defaultSource).toBeDefined();
@@ -0,0 +1,100 @@
+/**
+ * IcsHolidayDataSource Tests
+ *
+ * Tests for serving holidays from a user-imported ICS calendar
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { formatDate } from "../../../date-helpers";
+import IcsHolidayDataSource, {
+	CUSTOM_CALENDAR_CODE,
+} from "../IcsHolidayDataSource";
+
+const COMPANY_ICS = [
+	"BEGIN:VCALENDAR",
+	"VERSION:2.0",
+	"PRODID:-//Test//EN",
+	"BEGIN:VEVENT",
+	"UID:shutdown@test",
+	"DTSTAMP:20260213T000000Z",
+	"DTSTART;VALUE=DATE:20261224",
+	"DTEND;VALUE=DATE:20261227",
+	"SUMMARY:Winter Shutdown",
+	"END:VEVENT",
+	"BEGIN:VEVENT",
+	"UID:founders@test",
+	"DTSTAMP:20260213T000000Z",
+	"DTSTART;VALUE=DATE:20270115",
+	"DTEND;VALUE=DATE:20270116",
+	"SUMMARY:Founders Day",
+	"END:VEVENT",
+	"END:VCALENDAR",
+].join("\r\n");
+
+describe("IcsHolidayDataSource", () => {
+	let dataSource: IcsHolidayDataSource;
+
+	beforeEach(() => {
+		dataSource = new IcsHolidayDataSource();
+	});
+
+	it("should register under the ics name", () => {
+		expect(dataSource.name).toBe("ics");
+	});
+
+	it("should serve nothing until a calendar is loaded", async () => {
+		expect(
+			await dataSource.getHolidaysByYear(2026, CUSTOM_CALENDAR_CODE),
+		).toEqual([]);
+		const status = await dataSource.checkAvailability();
+		expect(status.isAvailable).toBe(false);
+	});
+
+	it("should serve an imported calendar by year", async () => {
+		expect(dataSource.loadICS(COMPANY_ICS).success).toBe(true);
+
+		const holidays2026 = await dataSource.getHolidaysByYear(
+			2026,
+			CUSTOM_CALENDAR_CODE,
+		);
+		expect(holidays2026.map((h) => formatDate(h.date))).toEqual([
+			"2026-12-24",
+			"2026-12-25",
+			"2026-12-26",
+		]);
+		expect(holidays2026[0]).toMatchObject({
+			name: "Winter Shutdown",
+			localName: "Winter Shutdown",
+			countryCode: CUSTOM_CALENDAR_CODE,
+			types: ["Public"],
+		});
+
+		const holidays2027 = await dataSource.getHolidaysByYear(
+			2027,
+			CUSTOM_CALENDAR_CODE,
+		);
+		expect(holidays2027.map((h) => h.name)).toEqual(["Founders Day"]);
+		expect((await dataSource.checkAvailability()).isAvailable).toBe(true);
+	});
+
+	it("should keep the current calendar when an import fails", async () => {
+		dataSource.loadICS(COMPANY_ICS);
+		const result = dataSource.loadICS("not an ics file");
+
+		expect(result.success).toBe(false);
+		expect(dataSource.getHolidays()).toHaveLength(4);
+	});
+
+	it("should not serve cached results after the calendar is replaced", async () => {
+		dataSource.loadICS(COMPANY_ICS);
+		await dataSource.getHolidaysByYear(2027, CUSTOM_CALENDAR_CODE);
+
+		dataSource.setHolidays([{ date: "2027-03-01", name: "Spring Break" }]);
+
+		const holidays = await dataSource.getHolidaysByYear(
+			2027,
+			CUSTOM_CALENDAR_CODE,
+		);
+		expect(holidays.map((h) => h.name)).toEqual(["Spring Break"]);
+	});
+});
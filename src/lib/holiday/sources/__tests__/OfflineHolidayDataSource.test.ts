@@ -0,0 +1,181 @@
+/**
+ * OfflineHolidayDataSource Tests
+ *
+ * Tests for the rule-based holiday data source that works without a network
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { formatDate } from "../../../date-helpers";
+import companyFiltersJson from "../../data/company-filters.json";
+import { COUNTRIES } from "../../data/countries";
+import { HOLIDAY_RULES } from "../../data/holiday-rules";
+import OfflineHolidayDataSource, {
+	getEasterSunday,
+	getOrthodoxEasterSunday,
+} from "../OfflineHolidayDataSource";
+
+describe("getEasterSunday", () => {
+	it.each([
+		[2019, "2019-04-21"],
+		[2024, "2024-03-31"],
+		[2025, "2025-04-20"],
+		[2026, "2026-04-05"],
+		[2038, "2038-04-25"],
+	])("should compute Easter %i", (year, expected) => {
+		expect(formatDate(getEasterSunday(year))).toBe(expected);
+	});
+});
+
+describe("getOrthodoxEasterSunday", () => {
+	it.each([
+		[2023, "2023-04-16"],
+		[2024, "2024-05-05"],
+		[2025, "2025-04-20"],
+		[2026, "2026-04-12"],
+	])("should compute Orthodox Easter %i", (year, expected) => {
+		expect(formatDate(getOrthodoxEasterSunday(year))).toBe(expected);
+	});
+});
+
+describe("OfflineHolidayDataSource", () => {
+	let dataSource: OfflineHolidayDataSource;
+
+	async function holidayDates(
+		year: number,
+		countryCode: string,
+	): Promise<Record<string, string>> {
+		const holidays = await dataSource.getHolidaysByYear(year, countryCode);
+		return Object.fromEntries(
+			holidays.map((h) => [formatDate(h.date), h.name]),
+		);
+	}
+
+	beforeEach(() => {
+		dataSource = new OfflineHolidayDataSource();
+	});
+
+	it("should register under the offline name", () => {
+		expect(dataSource.name).toBe("offline");
+	});
+
+	it("should resolve nth-weekday rules", async () => {
+		const dates = await holidayDates(2025, "US");
+		expect(dates["2025-01-20"]).toBe("Martin Luther King, Jr. Day");
+		expect(dates["2025-02-17"]).toBe("Presidents Day");
+		expect(dates["2025-05-26"]).toBe("Memorial Day");
+		expect(dates["2025-09-01"]).toBe("Labour Day");
+		expect(dates["2025-11-27"]).toBe("Thanksgiving Day");
+	});
+
+	it("should resolve Easter-relative rules", async () => {
+		const dates = await holidayDates(2025, "DE");
+		expect(dates["2025-04-18"]).toBe("Good Friday");
+		expect(dates["2025-04-21"]).toBe("Easter Monday");
+		expect(dates["2025-05-29"]).toBe("Ascension Day");
+		expect(dates["2025-06-09"]).toBe("Whit Monday");
+	});
+
+	it("should observe US weekend holidays on the nearest weekday", async () => {
+		// 4 July 2026 is a Saturday, 4 July 2027 a Sunday
+		expect((await holidayDates(2026, "US"))["2026-07-03"]).toBe(
+			"Independence Day",
+		);
+		expect((await holidayDates(2027, "US"))["2027-07-05"]).toBe(
+			"Independence Day",
+		);
+	});
+
+	it("should move UK substitute days past other holidays", async () => {
+		// 2021: Christmas Saturday, Boxing Day Sunday
+		const dates2021 = await holidayDates(2021, "GB");
+		expect(dates2021["2021-12-27"]).toBe("Christmas Day");
+		expect(dates2021["2021-12-28"]).toBe("Boxing Day");
+		// 2022: Christmas Sunday, Boxing Day already on Monday
+		const dates2022 = await holidayDates(2022, "GB");
+		expect(dates2022["2022-12-26"]).toBe("Boxing Day");
+		expect(dates2022["2022-12-27"]).toBe("Christmas Day");
+		expect(dates2022["2022-01-03"]).toBe("New Year's Day");
+	});
+
+	it("should resolve Orthodox Easter-relative rules", async () => {
+		const dates = await holidayDates(2024, "GR");
+		expect(dates["2024-03-18"]).toBe("Clean Monday");
+		expect(dates["2024-05-03"]).toBe("Orthodox Good Friday");
+		expect(dates["2024-05-06"]).toBe("Orthodox Easter Monday");
+	});
+
+	it("should only move Sunday holidays for Sunday substitutes", async () => {
+		// 2024: Freedom Day on a Saturday, Youth Day on a Sunday
+		const za = await holidayDates(2024, "ZA");
+		expect(za["2024-04-27"]).toBe("Freedom Day");
+		expect(za["2024-06-17"]).toBe("Youth Day");
+		// 2026: Constitution Memorial Day on a Sunday skips Golden Week
+		const jp = await holidayDates(2026, "JP");
+		expect(jp["2026-05-04"]).toBe("Greenery Day");
+		expect(jp["2026-05-05"]).toBe("Children's Day");
+		expect(jp["2026-05-06"]).toBe("Constitution Memorial Day");
+	});
+
+	it("should honour first and last years", async () => {
+		expect(Object.values(await holidayDates(2023, "DK"))).toContain(
+			"General Prayer Day",
+		);
+		expect(Object.values(await holidayDates(2024, "DK"))).not.toContain(
+			"General Prayer Day",
+		);
+		expect(Object.values(await holidayDates(2020, "US"))).not.toContain(
+			"Juneteenth National Independence Day",
+		);
+	});
+
+	it("should return holidays in date order with Nager.Date fields", async () => {
+		const holidays = await dataSource.getHolidaysByYear(2025, "FR");
+		const times = holidays.map((h) => h.date.getTime());
+		expect(times).toEqual([...times].sort((a, b) => a - b));
+		expect(holidays[0]).toMatchObject({
+			name: "New Year's Day",
+			countryCode: "FR",
+			types: ["Public"],
+			fixed: true,
+			global: true,
+		});
+	});
+
+	it("should throw for countries without rules", async () => {
+		expect(dataSource.supportsCountry("XX")).toBe(false);
+		await expect(dataSource.getHolidaysByYear(2025, "XX")).rejects.toThrow(
+			"No offline holiday data",
+		);
+	});
+
+	it("should cover exactly the countries the app offers", () => {
+		expect(dataSource.getSupportedCountries()).toEqual(
+			COUNTRIES.map((c) => c.code).sort(),
+		);
+	});
+
+	it("should name holidays the way company filters expect", () => {
+		for (const [code, entry] of Object.entries(companyFiltersJson)) {
+			if (code === "$schema" || typeof entry === "string") continue;
+			const names = new Set(HOLIDAY_RULES[code]?.map((r) => r.name));
+			for (const company of Object.values(entry.companies)) {
+				for (const holiday of company.holidays) {
+					expect(names.has(holiday)).toBe(true);
+				}
+			}
+		}
+	});
+
+	it("should report itself available for a supported country", async () => {
+		const status = await dataSource.checkAvailability();
+		expect(status.isAvailable).toBe(true);
+		expect(status.fallback).toBeUndefined();
+	});
+
+	it("should report itself unavailable for a country without rules", async () => {
+		dataSource.updateConfig({ defaultCountryCode: "XX" });
+		const status = await dataSource.checkAvailability();
+		expect(status.isAvailable).toBe(false);
+		expect(status.error).toBe("No offline holiday data for country 'XX'");
+	});
+});
@@ -1,6 +1,11 @@
+import FallbackHolidayDataSource from "./FallbackHolidayDataSource";
 import HolidayDataSourceFactory from "./HolidayDataSourceFactory";
 import HolidayDataSourceStrategy from "./HolidayDataSourceStrategy";
+import IcsHolidayDataSource, {
+	CUSTOM_CALENDAR_CODE,
+} from "./IcsHolidayDataSource";
 import NagerDateHolidayDataSource from "./NagerDateHolidayDataSource";
+import OfflineHolidayDataSource from "./OfflineHolidayDataSource";
 import type {
 	DataSourceStatus,
 	DateRange,
@@ -13,9 +18,13 @@ import type {
 } from "./types";
 
 export {
+	FallbackHolidayDataSource,
 	HolidayDataSourceFactory,
 	HolidayDataSourceStrategy,
+	IcsHolidayDataSource,
+	CUSTOM_CALENDAR_CODE,
 	NagerDateHolidayDataSource,
+	OfflineHolidayDataSource,
 };
 
 export type {
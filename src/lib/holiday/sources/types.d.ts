@@ -9,6 +9,7 @@ export type {
 	HolidayType,
 	Holiday,
 	DateRange,
+	LongWeekend,
 	HolidayDataSourceConfig,
 	HolidayQueryOptions,
 	HolidayCheckResult,
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import { mockCalendarInstance } from "../../../utils/astro/__tests__/testHelpers";
+import {
+	applyAttendanceImport,
+	parseBadgeCSV,
+	planAttendanceImport,
+} from "../badge-io";
+
+// --- CSV Fixtures ---
+
+const SWIPES_CSV = [
+	"Timestamp,Person,Site",
+	"2025-03-03 08:12:00,Alex Kim,HQ",
+	"2025-03-03 12:40:00,Alex Kim,HQ",
+	"2025-03-03 17:55:00,Alex Kim,HQ",
+	"2025-03-05 09:01:00,Alex Kim,Annex",
+	"2025-03-05 09:03:00,Sam Lee,HQ",
+	"2025-03-07 08:30:00,Alex Kim,HQ",
+].join("\r\n");
+
+describe("parseBadgeCSV", () => {
+	it("collapses multiple swipes on one day", () => {
+		const result = parseBadgeCSV(SWIPES_CSV, { timeZone: "UTC" });
+		expect(result.success).toBe(true);
+		expect(result.log).toEqual({
+			days: ["2025-03-03", "2025-03-05", "2025-03-07"],
+			swipeCount: 6,
+			skippedRows: 0,
+		});
+	});
+
+	it("filters by person and site", () => {
+		const result = parseBadgeCSV(SWIPES_CSV, {
+			timeZone: "UTC",
+			person: "alex kim",
+			site: "HQ",
+		});
+		expect(result.log?.days).toEqual(["2025-03-03", "2025-03-07"]);
+		expect(result.log?.swipeCount).toBe(4);
+	});
+
+	it("reads columns by mapped header name", () => {
+		const csv = [
+			"badge_id,swiped_at,door",
+			'17,"2025-03-04T07:45:00",Main',
+		].join("\n");
+		const result = parseBadgeCSV(csv, {
+			columns: { timestamp: "swiped_at", site: "door" },
+			timeZone: "UTC",
+			site: "main",
+		});
+		expect(result.log?.days).toEqual(["2025-03-04"]);
+	});
+
+	it("moves timestamps with an offset into the office time zone", () => {
+		const csv = [
+			"timestamp",
+			// 23:30 on Monday in New York is already Tuesday in UTC
+			"2025-03-04T04:30:00Z",
+			"2025-03-05T23:30:00-0500",
+		].join("\n");
+		const result = parseBadgeCSV(csv, { timeZone: "America/New_York" });
+		expect(result.log?.days).toEqual(["2025-03-03", "2025-03-05"]);
+	});
+
+	it("takes timestamps without an offset as office-local", () => {
+		const csv = ["timestamp", "2025-03-03 23:59"].join("\n");
+		const result = parseBadgeCSV(csv, { timeZone: "Asia/Tokyo" });
+		expect(result.log?.days).toEqual(["2025-03-03"]);
+	});
+
+	it("counts rows with unreadable timestamps as skipped", () => {
+		const csv = ["timestamp", "yesterday", "2025-03-03"].join("\n");
+		const result = parseBadgeCSV(csv, { timeZone: "UTC" });
+		expect(result.log).toMatchObject({ days: ["2025-03-03"], skippedRows: 1 });
+	});
+
+	it("rejects a missing timestamp column", () => {
+		const result = parseBadgeCSV("when,who\n2025-03-03,Alex");
+		expect(result).toEqual({
+			success: false,
+			error: "Column not found: timestamp",
+		});
+	});
+
+	it("rejects a person filter without a person column", () => {
+		const result = parseBadgeCSV("timestamp\n2025-03-03", { person: "Alex" });
+		expect(result.error).toBe("Column not found: person");
+	});
+
+	it("rejects an unknown time zone", () => {
+		const result = parseBadgeCSV(SWIPES_CSV, { timeZone: "Mars/Olympus" });
+		expect(result.error).toBe("Unknown time zone: Mars/Olympus");
+	});
+
+	it("rejects a file with no matching swipes", () => {
+		expect(parseBadgeCSV("timestamp\n").success).toBe(false);
+		const result = parseBadgeCSV(SWIPES_CSV, { person: "Nobody" });
+		expect(result.error).toBe("No matching swipes found in CSV file");
+	});
+});
+
+describe("planAttendanceImport", () => {
+	const TODAY = new Date(2025, 2, 10);
+
+	it("marks swipe days in office and unswiped weekdays WFH", () => {
+		const changes = planAttendanceImport(
+			["2025-03-03", "2025-03-05", "2025-03-07"],
+			new Map(),
+			{ today: TODAY },
+		);
+		expect(changes).toEqual([
+			{ date: "2025-03-03", from: null, to: "office" },
+			{ date: "2025-03-04", from: null, to: "oof" },
+			{ date: "2025-03-05", from: null, to: "office" },
+			{ date: "2025-03-06", from: null, to: "oof" },
+			{ date: "2025-03-07", from: null, to: "office" },
+		]);
+	});
+
+	it("overrides full-day WFH but keeps other marks", () => {
+		const marks = new Map([
+			["2025-03-03", "oof"],
+			["2025-03-04", "sick"],
+			["2025-03-05", "oof-am"],
+			["2025-03-06", "custom-remote"],
+		]);
+		const changes = planAttendanceImport(
+			["2025-03-03", "2025-03-05", "2025-03-06", "2025-03-07"],
+			marks,
+			{
+				today: TODAY,
+				customStates: [
+					{
+						key: "custom-remote",
+						label: "Remote",
+						color: "#000000",
+						emoji: "🏠",
+						effect: "wfh",
+					},
+				],
+			},
+		);
+		expect(changes).toEqual([
+			{ date: "2025-03-03", from: "oof", to: "office" },
+			{ date: "2025-03-06", from: "custom-remote", to: "office" },
+			{ date: "2025-03-07", from: null, to: "office" },
+		]);
+	});
+
+	it("leaves holidays and days from today unmarked", () => {
+		const changes = planAttendanceImport(
+			["2025-03-07", "2025-03-12"],
+			new Map(),
+			{
+				today: TODAY,
+				holidays: [new Date(2025, 2, 11)],
+			},
+		);
+		// Weekend and today onwards are never marked WFH
+		expect(changes.map((c) => c.date)).toEqual(["2025-03-07", "2025-03-12"]);
+	});
+
+	it("only marks the configured working days WFH", () => {
+		// Sunday to Thursday week: Friday is off, Sunday is a working day
+		const changes = planAttendanceImport(
+			["2025-03-05", "2025-03-10"],
+			new Map(),
+			{
+				today: new Date(2025, 2, 11),
+				workDays: [0, 1, 2, 3, 4],
+			},
+		);
+		expect(changes).toEqual([
+			{ date: "2025-03-05", from: null, to: "office" },
+			{ date: "2025-03-06", from: null, to: "oof" },
+			{ date: "2025-03-09", from: null, to: "oof" },
+			{ date: "2025-03-10", from: null, to: "office" },
+		]);
+	});
+
+	it("returns no changes when the calendar already agrees", () => {
+		const marks = new Map([
+			["2025-03-03", "office"],
+			["2025-03-04", "oof"],
+			["2025-03-05", "office"],
+		]);
+		expect(
+			planAttendanceImport(["2025-03-03", "2025-03-05"], marks, {
+				today: TODAY,
+			}),
+		).toEqual([]);
+	});
+});
+
+describe("applyAttendanceImport", () => {
+	it("sets office and WFH dates in one call each", () => {
+		const cal = mockCalendarInstance({});
+		applyAttendanceImport(
+			[
+				{ date: "2025-03-03", from: null, to: "office" },
+				{ date: "2025-03-04", from: null, to: "oof" },
+				{ date: "2025-03-05", from: "oof", to: "office" },
+			],
+			cal,
+		);
+		expect(cal.setDates).toHaveBeenCalledTimes(2);
+		expect(cal.setDates).toHaveBeenCalledWith(
+			["2025-03-03", "2025-03-05"],
+			"office",
+		);
+		expect(cal.setDates).toHaveBeenCalledWith(["2025-03-04"], "oof");
+	});
+});
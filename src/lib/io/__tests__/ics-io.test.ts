@@ -1,6 +1,11 @@
 import { describe, expect, it, vi } from "vitest";
 import { mockCalendarInstance } from "../../../utils/astro/__tests__/testHelpers";
-import { buildExportICS, importICS } from "../ics-io";
+import {
+	buildExportICS,
+	importICS,
+	parseICS,
+	parseIcsHolidays,
+} from "../ics-io";
 
 // --- ICS Fixtures ---
 
@@ -77,6 +82,27 @@ const UNKNOWN_SUMMARY_ICS = [
 	"END:VCALENDAR",
 ].join("\r\n");
 
+const COMPANY_HOLIDAYS_ICS = [
+	"BEGIN:VCALENDAR",
+	"VERSION:2.0",
+	"PRODID:-//Test//EN",
+	"BEGIN:VEVENT",
+	"UID:test-6@test",
+	"DTSTAMP:20260213T000000Z",
+	"DTSTART;VALUE=DATE:20261224",
+	"DTEND;VALUE=DATE:20261225",
+	"SUMMARY: ",
+	"END:VEVENT",
+	"BEGIN:VEVENT",
+	"UID:test-7@test",
+	"DTSTAMP:20260213T000000Z",
+	"DTSTART;VALUE=DATE:20260703",
+	"DTEND;VALUE=DATE:20260704",
+	"SUMMARY:Summer Shutdown",
+	"END:VEVENT",
+	"END:VCALENDAR",
+].join("\r\n");
+
 const EMPTY_CALENDAR_ICS = [
 	"BEGIN:VCALENDAR",
 	"VERSION:2.0",
@@ -229,3 +255,72 @@ describe("importICS", () => {
 		expect(sickCall![0]).toEqual(["2026-03-01"]);
 	});
 });
+
+describe("custom states", () => {
+	const travel = {
+		key: "custom-travel" as const,
+		label: "Business travel",
+		color: "#882255",
+		emoji: "✈️",
+		effect: "office" as const,
+	};
+
+	it("round-trips custom-state events by category", () => {
+		const srcCal = mockCalendarInstance({
+			"custom-travel": ["2026-01-07", "2026-01-08"],
+		});
+		const ics = buildExportICS(srcCal, [travel]);
+		expect(ics).toContain("SUMMARY:Business travel");
+
+		const parsed = parseICS(ics, [travel]);
+		expect(parsed.datesByState?.get("custom-travel")).toEqual([
+			"2026-01-07",
+			"2026-01-08",
+		]);
+	});
+
+	it("falls back to WFH when the custom state is not defined", () => {
+		const ics = buildExportICS(
+			mockCalendarInstance({ "custom-travel": ["2026-01-07"] }),
+			[travel],
+		);
+		expect(parseICS(ics).datesByState?.get("oof")).toEqual(["2026-01-07"]);
+	});
+});
+
+describe("parseIcsHolidays", () => {
+	it("names each day after the event summary", () => {
+		const result = parseIcsHolidays(HOLIDAY_ICS);
+		expect(result.success).toBe(true);
+		expect(result.holidays).toEqual([
+			{ date: "2026-04-01", name: "Holiday Time" },
+		]);
+	});
+
+	it("expands multi-day events to one holiday per day", () => {
+		const result = parseIcsHolidays(MULTI_DAY_ICS);
+		expect(result.holidays?.map((h) => h.date)).toEqual([
+			"2026-03-02",
+			"2026-03-03",
+			"2026-03-04",
+		]);
+	});
+
+	it("sorts holidays by date across events", () => {
+		const result = parseIcsHolidays(COMPANY_HOLIDAYS_ICS);
+		expect(result.holidays).toEqual([
+			{ date: "2026-07-03", name: "Summer Shutdown" },
+			{ date: "2026-12-24", name: "Holiday" },
+		]);
+	});
+
+	it("rejects invalid ICS string", () => {
+		expect(parseIcsHolidays("not an ics file").success).toBe(false);
+	});
+
+	it("rejects ICS with no events", () => {
+		const result = parseIcsHolidays(EMPTY_CALENDAR_ICS);
+		expect(result.success).toBe(false);
+		expect(result.error).toContain("No events");
+	});
+});
@@ -16,6 +16,7 @@ vi.mock("../../stores/settingsStore", () => {
 		startingWeek: null,
 		defaultPattern: null,
 		roundPercentage: true,
+		customStates: [],
 		holidays: { countryCode: null, holidaysAsOOF: true, companyName: null },
 	}));
 	const mockSet = vi.fn();
@@ -28,7 +29,7 @@ vi.mock("../../stores/settingsStore", () => {
 	};
 });
 
-import { buildExportJSON, importJSON } from "../json-io";
+import { buildExportJSON, importJSON, mergeCustomStates } from "../json-io";
 
 describe("exportJSON", () => {
 	beforeEach(() => {
@@ -70,19 +71,49 @@ describe("exportJSON", () => {
 		]);
 	});
 
+	it("adds half-day categories only when they are used", () => {
+		const plain = JSON.parse(
+			buildExportJSON(
+				mockCalendarInstance({ oof: ["2026-01-05"], holiday: [], sick: [] }),
+			),
+		);
+		expect(Object.keys(plain.categories)).toEqual(["oof", "holiday", "sick"]);
+
+		const halfDays = JSON.parse(
+			buildExportJSON(mockCalendarInstance({ "oof-am": ["2026-01-06"] })),
+		);
+		expect(validateExportData(halfDays).success).toBe(true);
+		expect(halfDays.categories["oof-am"].dates).toEqual(["2026-01-06"]);
+		expect(halfDays.categories["oof-pm"]).toBeUndefined();
+	});
+
 	it("includes settings from settingsStore", () => {
 		vi.mocked(settingsStore.get).mockReturnValue({
 			debug: false,
 			saveData: true,
+			policyKind: "best-k",
+			quotaPeriod: "month",
+			officeDaysPerPeriod: 12,
+			fiscalYearStartMonth: 0,
+			weeklyFloorDays: 0,
+			anchorDays: [],
 			minOfficeDays: 3,
 			rollingWindowWeeks: 16,
 			bestWeeksCount: 10,
 			sickDaysPenalize: true,
 			holidayPenalize: true,
+			prorateRequirement: false,
+			prorationRounding: "nearest",
 			weekendBonus: false,
 			startingWeek: null,
 			defaultPattern: null,
 			roundPercentage: true,
+			trackAttendance: false,
+			calendarHorizon: { kind: "rolling", weeksBack: 12, weeksForward: 52 },
+			weekStartsOn: 0,
+			workDays: [1, 2, 3, 4, 5],
+			customStates: [],
+			leavePeriods: [],
 			holidays: { countryCode: null, holidaysAsOOF: true, companyName: null },
 		});
 
@@ -182,7 +213,7 @@ describe("importJSON", () => {
 
 	it("rejects wrong version", () => {
 		const cal = mockCalendarInstance({ oof: [], holiday: [], sick: [] });
-		const result = importJSON(validExportJSON({ version: 2 }), cal);
+		const result = importJSON(validExportJSON({ version: 3 }), cal);
 		expect(result.success).toBe(false);
 	});
 
@@ -264,4 +295,90 @@ describe("importJSON", () => {
 		expect(dstCal.setDates).toHaveBeenCalledWith(["2026-02-17"], "holiday");
 		expect(dstCal.setDates).toHaveBeenCalledWith(["2026-03-01"], "sick");
 	});
+
+	it("round-trip: restores half-day marks", () => {
+		const srcCal = mockCalendarInstance({
+			oof: [],
+			"oof-am": ["2026-01-07"],
+			"oof-pm": ["2026-01-08", "2026-01-09"],
+			holiday: [],
+			sick: [],
+		});
+
+		const dstCal = mockCalendarInstance({ oof: [], holiday: [], sick: [] });
+		expect(importJSON(buildExportJSON(srcCal), dstCal).success).toBe(true);
+
+		expect(dstCal.setDates).toHaveBeenCalledWith(["2026-01-07"], "oof-am");
+		expect(dstCal.setDates).toHaveBeenCalledWith(
+			["2026-01-08", "2026-01-09"],
+			"oof-pm",
+		);
+	});
+
+	it("round-trip: restores custom states and their marks", () => {
+		const travel = {
+			key: "custom-travel" as const,
+			label: "Business travel",
+			color: "#882255",
+			emoji: "✈️",
+			effect: "office" as const,
+		};
+		const base = settingsStore.get();
+		vi.mocked(settingsStore.get).mockReturnValue({
+			...base,
+			customStates: [travel],
+		});
+		const srcCal = mockCalendarInstance({
+			oof: ["2026-01-05"],
+			"custom-travel": ["2026-01-06", "2026-01-07"],
+		});
+		const exported = JSON.parse(buildExportJSON(srcCal));
+		expect(exported.version).toBe(2);
+		expect(exported.customStates).toEqual([travel]);
+		expect(exported.settings).not.toHaveProperty("customStates");
+		expect(exported.categories["custom-travel"]).toMatchObject({
+			label: "Business travel",
+			color: "#882255",
+			emoji: "✈️",
+		});
+
+		// Importing into a profile without the state adds it before its dates
+		vi.mocked(settingsStore.get).mockReturnValue(base);
+		const dstCal = mockCalendarInstance({});
+		expect(importJSON(JSON.stringify(exported), dstCal).success).toBe(true);
+
+		const saved = vi.mocked(settingsStore.set).mock.calls[0]?.[0];
+		expect(saved?.customStates).toEqual([travel]);
+		const config = vi.mocked(dstCal.updateConfig).mock.calls[0]?.[0];
+		expect(config?.states).toHaveProperty("custom-travel");
+		expect(dstCal.setDates).toHaveBeenCalledWith(
+			["2026-01-06", "2026-01-07"],
+			"custom-travel",
+		);
+	});
+});
+
+describe("mergeCustomStates", () => {
+	it("keeps existing states and lets imported ones replace same keys", () => {
+		const site = {
+			key: "custom-site" as const,
+			label: "Client site",
+			color: "#117733",
+			emoji: "🏢",
+			effect: "office" as const,
+		};
+		const leave = {
+			key: "custom-leave" as const,
+			label: "Parental leave",
+			color: "#CC6677",
+			emoji: "👶",
+			effect: "excluded" as const,
+		};
+		const renamed = { ...site, label: "Customer site" };
+
+		expect(mergeCustomStates([site, leave], [renamed])).toEqual([
+			leave,
+			renamed,
+		]);
+	});
 });
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../auto-compliance", () => ({
+	requestComplianceRecompute: vi.fn(),
+}));
+
+import { mockCalendarInstance } from "../../../utils/astro/__tests__/testHelpers";
+import { DEFAULTS } from "../../settings-constants";
+import {
+	clearProfiles,
+	createProfile,
+	DEFAULT_PROFILE_ID,
+	profileStore,
+	readStoredSnapshot,
+	writeStoredSnapshot,
+} from "../../stores/profileStore";
+import { settingsStore } from "../../stores/settingsStore";
+import {
+	buildAllProfilesExportJSON,
+	importProfilesJSON,
+	parseProfilesExportJSON,
+} from "../profiles-io";
+import { validateExportData } from "../schema";
+
+describe("buildAllProfilesExportJSON", () => {
+	beforeEach(() => {
+		localStorage.clear();
+		clearProfiles();
+		settingsStore.set({ ...DEFAULTS, minOfficeDays: 3 });
+	});
+
+	it("exports the live profile and parked ones", () => {
+		const calendar = mockCalendarInstance({ oof: ["2026-01-05"] });
+		const { id } = createProfile("Partner");
+		writeStoredSnapshot(id, {
+			settings: { ...DEFAULTS, minOfficeDays: 2 },
+			marks: { "2026-02-02": "sick", "2026-02-03": "sick" },
+		});
+
+		const bundle = parseProfilesExportJSON(
+			buildAllProfilesExportJSON(calendar),
+		);
+		expect(bundle?.activeProfileId).toBe(DEFAULT_PROFILE_ID);
+		expect(bundle?.profiles.map((p) => p.name)).toEqual(["Default", "Partner"]);
+
+		const [mine, partner] = bundle?.profiles ?? [];
+		expect(mine?.data.categories.oof.dates).toEqual(["2026-01-05"]);
+		expect(partner?.data.settings?.minOfficeDays).toBe(2);
+		expect(partner?.data.categories.sick.ranges).toEqual([
+			{ start: "2026-02-02", end: "2026-02-03" },
+		]);
+		// Each entry is a valid single-profile export on its own
+		expect(validateExportData(partner?.data).success).toBe(true);
+	});
+});
+
+describe("importProfilesJSON", () => {
+	beforeEach(() => {
+		localStorage.clear();
+		clearProfiles();
+		settingsStore.set({ ...DEFAULTS, saveData: true });
+	});
+
+	function exportFrom(): string {
+		const source = mockCalendarInstance({ oof: ["2026-01-05"] });
+		const { id } = createProfile("Partner");
+		writeStoredSnapshot(id, {
+			settings: { ...DEFAULTS, minOfficeDays: 2 },
+			marks: { "2026-02-02": "sick" },
+		});
+		const json = buildAllProfilesExportJSON(source);
+		clearProfiles();
+		return json;
+	}
+
+	it("replaces every profile and loads the active one", () => {
+		const json = exportFrom();
+		const calendar = mockCalendarInstance({ holiday: ["2026-12-25"] });
+
+		expect(importProfilesJSON(json, calendar)).toEqual({ success: true });
+		expect(profileStore.get()).toEqual({
+			activeId: DEFAULT_PROFILE_ID,
+			profiles: [
+				{ id: DEFAULT_PROFILE_ID, name: "Default" },
+				{ id: "partner", name: "Partner" },
+			],
+		});
+		expect(calendar.clearAll).toHaveBeenCalled();
+		expect(calendar.setDates).toHaveBeenCalledWith(["2026-01-05"], "oof");
+		expect(readStoredSnapshot("partner").marks).toEqual({
+			"2026-02-02": "sick",
+		});
+		// Device-level settings are not taken from the file
+		expect(settingsStore.get().saveData).toBe(true);
+	});
+
+	it("imports a single-profile export into the active profile", () => {
+		const calendar = mockCalendarInstance({});
+		const single = JSON.stringify({
+			version: 1,
+			exportDate: "2026-01-01T00:00:00Z",
+			categories: {
+				oof: { label: "WFH", color: "#000", emoji: "", dates: ["2026-01-06"] },
+				holiday: { label: "Holiday", color: "#000", emoji: "", dates: [] },
+				sick: { label: "Sick", color: "#000", emoji: "", dates: [] },
+			},
+		});
+
+		expect(importProfilesJSON(single, calendar)).toEqual({ success: true });
+		expect(calendar.setDates).toHaveBeenCalledWith(["2026-01-06"], "oof");
+		expect(profileStore.get().profiles).toHaveLength(1);
+	});
+
+	it("reports errors for files that are neither shape", () => {
+		const calendar = mockCalendarInstance({});
+		expect(importProfilesJSON("{}", calendar).success).toBe(false);
+	});
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { computeWeeksFromMarks } from "../../compute-weeks";
+import { DEFAULTS } from "../../settings-constants";
+import { evaluateWeeks } from "../../validation/evaluate-weeks";
+import {
+	buildComplianceXLSX,
+	buildCSV,
+	buildWeekTable,
+	buildWindowTable,
+} from "../report-io";
+
+// Sun Jan 5 → Sat Mar 29 2025: twelve full weeks, one window
+function evaluate(marks: Record<string, string> = {}) {
+	const weeks = computeWeeksFromMarks(
+		new Map(Object.entries(marks)),
+		[new Date(2025, 0, 20)],
+		DEFAULTS,
+		{ startDate: new Date(2025, 0, 5), endDate: new Date(2025, 2, 29) },
+	);
+	return evaluateWeeks(weeks, DEFAULTS);
+}
+
+describe("buildWeekTable", () => {
+	it("lists one row per week with its counts", () => {
+		const table = buildWeekTable(
+			evaluate({
+				"2025-01-06": "oof",
+				"2025-01-07": "oof",
+				"2025-01-08": "oof-am",
+				"2025-01-09": "sick",
+			}),
+		);
+		expect(table.name).toBe("Weeks");
+		expect(table.rows).toHaveLength(13);
+		expect(table.rows[0]).toEqual([
+			"Week start",
+			"Office days",
+			"WFH days",
+			"Holidays",
+			"Sick days",
+			"Working days",
+			"Compliant",
+			"Status",
+		]);
+		expect(table.rows[1]).toEqual([
+			"2025-01-05",
+			1.5,
+			2.5,
+			0,
+			1,
+			5,
+			false,
+			"invalid",
+		]);
+		// Week of the Jan 20 holiday
+		expect(table.rows[3]?.slice(0, 4)).toEqual(["2025-01-19", 4, 0, 1]);
+	});
+});
+
+describe("buildWindowTable", () => {
+	it("lists each window with its average, validity and best weeks", () => {
+		const table = buildWindowTable(evaluate({ "2025-01-06": "oof" }));
+		expect(table.name).toBe("Windows");
+		expect(table.rows).toHaveLength(2);
+		const [window] = table.rows.slice(1);
+		expect(window?.slice(0, 6)).toEqual([
+			1,
+			"2025-01-05",
+			"2025-03-28",
+			"",
+			5,
+			true,
+		]);
+		// The first week (4 office days) is not among the best eight
+		const bestWeeks = String(window?.[6]).split(" ");
+		expect(bestWeeks).toHaveLength(8);
+		expect(bestWeeks).not.toContain("2025-01-05");
+	});
+});
+
+describe("buildCSV", () => {
+	it("writes booleans as Yes/No and quotes fields that need it", () => {
+		const csv = buildCSV({
+			name: "Test",
+			rows: [
+				["Name", "Valid"],
+				['Q1 "FY", 2025', true],
+				["Q2", false],
+			],
+		});
+		expect(csv).toBe('Name,Valid\r\n"Q1 ""FY"", 2025",Yes\r\nQ2,No\r\n');
+	});
+});
+
+describe("buildComplianceXLSX", () => {
+	it("packs a Weeks and a Windows sheet into a zip", () => {
+		const bytes = buildComplianceXLSX(evaluate());
+		// Zip local file header signature "PK\x03\x04"
+		expect([...bytes.slice(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+
+		// Entries are stored uncompressed, so their XML is readable
+		const text = new TextDecoder().decode(bytes);
+		expect(text).toContain('<sheet name="Weeks" sheetId="1" r:id="rId1"/>');
+		expect(text).toContain('<sheet name="Windows" sheetId="2" r:id="rId2"/>');
+		expect(text).toContain("xl/worksheets/sheet2.xml");
+		expect(text).toContain(
+			'<c r="A2" t="inlineStr"><is><t xml:space="preserve">2025-01-05</t></is></c><c r="B2"><v>5</v></c>',
+		);
+		expect(text).toContain('<c r="G2" t="b"><v>1</v></c>');
+	});
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { validateExportData } from "../schema";
+import { migrateExportDataV1, validateExportData } from "../schema";
 
 function validPayload(overrides?: Record<string, unknown>) {
 	return {
@@ -24,8 +24,8 @@ describe("validateExportData", () => {
 		expect(validateExportData(validPayload()).success).toBe(true);
 	});
 
-	it("rejects version !== 1", () => {
-		expect(validateExportData(validPayload({ version: 2 })).success).toBe(
+	it("rejects unsupported versions", () => {
+		expect(validateExportData(validPayload({ version: 3 })).success).toBe(
 			false,
 		);
 		expect(validateExportData(validPayload({ version: 0 })).success).toBe(
@@ -83,4 +83,133 @@ describe("validateExportData", () => {
 		delete (data as Record<string, unknown>).settings;
 		expect(validateExportData(data).success).toBe(true);
 	});
+
+	it("keeps a personal company policy in holiday settings", () => {
+		const customCompany = {
+			name: "Acme",
+			countryCode: "US",
+			holidays: ["Thanksgiving Day"],
+			extra: [{ name: "Day after Thanksgiving", after: "Thanksgiving Day" }],
+		};
+		const result = validateExportData(
+			validPayload({ settings: { holidays: { customCompany } } }),
+		);
+		expect(result.success).toBe(true);
+		expect(result.data?.settings?.holidays?.customCompany).toEqual(
+			customCompany,
+		);
+	});
+
+	it("rejects a company policy extra outside the filter schema", () => {
+		const customCompany = {
+			name: "Acme",
+			countryCode: "US",
+			holidays: [],
+			extra: [{ name: "Bad", month: 13, day: 1 }],
+		};
+		expect(
+			validateExportData(
+				validPayload({ settings: { holidays: { customCompany } } }),
+			).success,
+		).toBe(false);
+	});
+
+	it("keeps additional holiday countries in holiday settings", () => {
+		const additionalCountries = [
+			{ countryCode: "CA", countsAsNonOffice: true },
+			{ countryCode: "MX", countsAsNonOffice: false },
+		];
+		const result = validateExportData(
+			validPayload({ settings: { holidays: { additionalCountries } } }),
+		);
+		expect(result.success).toBe(true);
+		expect(result.data?.settings?.holidays?.additionalCountries).toEqual(
+			additionalCountries,
+		);
+	});
+});
+
+describe("version 2 and custom states", () => {
+	const travel = {
+		key: "custom-travel",
+		label: "Business travel",
+		color: "#882255",
+		emoji: "✈️",
+		effect: "office",
+	};
+
+	function v2Payload(overrides?: Record<string, unknown>) {
+		const v1 = validPayload();
+		return {
+			...v1,
+			version: 2,
+			customStates: [travel],
+			categories: {
+				...v1.categories,
+				"custom-travel": {
+					label: "Business travel",
+					color: "#882255",
+					emoji: "✈️",
+					dates: ["2026-01-07"],
+				},
+			},
+			...overrides,
+		};
+	}
+
+	it("migrates version 1 files with no custom states", () => {
+		const result = validateExportData(validPayload());
+		expect(result.data?.version).toBe(2);
+		expect(result.data?.customStates).toEqual([]);
+		expect(result.data?.categories.oof.dates).toEqual(["2026-01-05"]);
+	});
+
+	it("drops absent half-day categories when migrating", () => {
+		const v1 = validPayload();
+		const migrated = migrateExportDataV1({ ...v1, version: 1 });
+		expect(Object.keys(migrated.categories)).toEqual([
+			"oof",
+			"holiday",
+			"sick",
+		]);
+	});
+
+	it("accepts categories of declared custom states", () => {
+		const result = validateExportData(v2Payload());
+		expect(result.success).toBe(true);
+		expect(result.data?.categories["custom-travel"]?.dates).toEqual([
+			"2026-01-07",
+		]);
+	});
+
+	it("rejects categories of undeclared custom states", () => {
+		const result = validateExportData(v2Payload({ customStates: [] }));
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("Unknown state: custom-travel");
+	});
+
+	it("rejects custom states with a bad key or effect", () => {
+		expect(
+			validateExportData(
+				v2Payload({ customStates: [{ ...travel, key: "travel" }] }),
+			).success,
+		).toBe(false);
+		expect(
+			validateExportData(
+				v2Payload({ customStates: [{ ...travel, effect: "half" }] }),
+			).success,
+		).toBe(false);
+	});
+
+	it("rejects duplicate custom state keys", () => {
+		expect(
+			validateExportData(v2Payload({ customStates: [travel, travel] })).success,
+		).toBe(false);
+	});
+
+	it("requires the custom state list in version 2", () => {
+		expect(validateExportData(validPayload({ version: 2 })).success).toBe(
+			false,
+		);
+	});
 });
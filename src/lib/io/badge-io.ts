@@ -0,0 +1,289 @@
+/**
+ * Badge-swipe CSV import for recorded attendance.
+ * Reads an access-control export (timestamp, person, site), collapses the
+ * swipes into the days they fall on, and plans the marks that turn them into
+ * attendance: swipe days become "office", unmarked past weekdays without a
+ * swipe become WFH. Nothing touches the calendar until the plan is applied.
+ */
+
+import type { CalendarInstance, DateString } from "datepainter";
+import { formatDate } from "../date-helpers";
+import { isWorkDay } from "../dateUtils";
+import type { CustomDayState } from "../settings-constants";
+import { getWfhShare } from "../state-defaults";
+
+/** CSV header names of the columns to read (matched case-insensitively) */
+export interface BadgeColumnMapping {
+	timestamp: string;
+	person?: string | undefined;
+	site?: string | undefined;
+}
+
+export const DEFAULT_BADGE_COLUMNS: BadgeColumnMapping = {
+	timestamp: "timestamp",
+	person: "person",
+	site: "site",
+};
+
+export interface BadgeImportOptions {
+	columns?: BadgeColumnMapping;
+	/**
+	 * IANA time zone the office is in. Timestamps with a UTC offset are
+	 * moved into it before taking their date; timestamps without one are
+	 * already local. Defaults to the browser's time zone.
+	 */
+	timeZone?: string | undefined;
+	/** Only keep swipes for this person (case-insensitive) */
+	person?: string | undefined;
+	/** Only keep swipes at this site (case-insensitive) */
+	site?: string | undefined;
+}
+
+/** Swipes collapsed to the days they fall on */
+export interface BadgeLog {
+	/** Sorted, de-duplicated YYYY-MM-DD days with at least one swipe */
+	days: string[];
+	/** Swipes kept after filtering */
+	swipeCount: number;
+	/** Rows skipped for an unreadable timestamp */
+	skippedRows: number;
+}
+
+/** One planned mark: a day, its current state and the state it gets */
+export interface AttendanceChange {
+	date: string;
+	from: string | null;
+	to: "office" | "oof";
+}
+
+/**
+ * ISO-style timestamp: date, optional time, optional Z or ±HH:MM offset
+ * ("2025-03-04", "2025-03-04 08:15", "2025-03-04T08:15:00.000+01:00")
+ */
+const TIMESTAMP_PATTERN =
+	/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/** Split CSV text into rows of fields, honouring double-quoted fields */
+function parseCsvRows(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (field !== "" || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	// Drop blank lines
+	return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+/** Format a Date as YYYY-MM-DD in a time zone */
+function formatInTimeZone(date: Date, formatter: Intl.DateTimeFormat): string {
+	const parts = formatter.formatToParts(date);
+	const part = (type: string) => parts.find((p) => p.type === type)?.value;
+	return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/** The office-local day a timestamp falls on, or null if unreadable */
+function toLocalDay(
+	timestamp: string,
+	formatter: Intl.DateTimeFormat,
+): string | null {
+	const match = TIMESTAMP_PATTERN.exec(timestamp.trim());
+	if (!match) return null;
+	const [, date, time, offset] = match;
+	if (!date) return null;
+	if (!offset) return date;
+
+	// Normalise "+0100" to "+01:00" for Date parsing
+	const normalized =
+		offset.toUpperCase() === "Z"
+			? "Z"
+			: offset.includes(":")
+				? offset
+				: `${offset.slice(0, 3)}:${offset.slice(3)}`;
+	const instant = new Date(`${date}T${time ?? "00:00"}${normalized}`);
+	if (Number.isNaN(instant.getTime())) return null;
+	return formatInTimeZone(instant, formatter);
+}
+
+/**
+ * Parse a badge-swipe CSV into the days swipes fall on.
+ * The first row is the header; columns are found by name from
+ * options.columns. Multiple swipes on one day count once.
+ */
+export function parseBadgeCSV(
+	data: string,
+	options: BadgeImportOptions = {},
+): { success: boolean; log?: BadgeLog; error?: string } {
+	const columns = options.columns ?? DEFAULT_BADGE_COLUMNS;
+
+	let formatter: Intl.DateTimeFormat;
+	try {
+		formatter = new Intl.DateTimeFormat("en-CA", {
+			timeZone: options.timeZone,
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+		});
+	} catch {
+		return { success: false, error: `Unknown time zone: ${options.timeZone}` };
+	}
+
+	const [header, ...rows] = parseCsvRows(data);
+	if (!header || rows.length === 0) {
+		return { success: false, error: "No swipes found in CSV file" };
+	}
+
+	const headerIndex = (name: string | undefined): number =>
+		name
+			? header.findIndex(
+					(h) => h.trim().toLowerCase() === name.trim().toLowerCase(),
+				)
+			: -1;
+	const timestampIndex = headerIndex(columns.timestamp);
+	if (timestampIndex === -1) {
+		return { success: false, error: `Column not found: ${columns.timestamp}` };
+	}
+
+	// A filter needs its column; without a filter the column is optional
+	const filters: { index: number; value: string }[] = [];
+	for (const [column, value] of [
+		[columns.person, options.person],
+		[columns.site, options.site],
+	] as const) {
+		if (!value?.trim()) continue;
+		const index = headerIndex(column);
+		if (index === -1) {
+			return { success: false, error: `Column not found: ${column ?? ""}` };
+		}
+		filters.push({ index, value: value.trim().toLowerCase() });
+	}
+
+	const days = new Set<string>();
+	let swipeCount = 0;
+	let skippedRows = 0;
+	for (const row of rows) {
+		if (
+			filters.some((f) => (row[f.index] ?? "").trim().toLowerCase() !== f.value)
+		) {
+			continue;
+		}
+		const day = toLocalDay(row[timestampIndex] ?? "", formatter);
+		if (!day) {
+			skippedRows++;
+			continue;
+		}
+		days.add(day);
+		swipeCount++;
+	}
+
+	if (swipeCount === 0) {
+		return { success: false, error: "No matching swipes found in CSV file" };
+	}
+	return {
+		success: true,
+		log: { days: [...days].sort(), swipeCount, skippedRows },
+	};
+}
+
+/**
+ * Plan the marks that turn a badge log into attendance.
+ *
+ * A swipe day that is unmarked or marked full-day WFH becomes "office";
+ * other marks (half days, holidays, sick, other custom states) are kept. Between
+ * the first and last logged day, and before today, an unmarked working day
+ * without a swipe that is not a holiday becomes WFH ("oof").
+ *
+ * @param days - Swipe days from parseBadgeCSV
+ * @param marks - Current calendar marks by YYYY-MM-DD key
+ * @param options - Today, holiday dates, working days and user-defined states
+ * @returns Changes sorted by date; empty when the calendar already agrees
+ */
+export function planAttendanceImport(
+	days: readonly string[],
+	marks: ReadonlyMap<string, string>,
+	options: {
+		today: Date;
+		holidays?: Iterable<Date>;
+		/** getDay indices of working days; Monday to Friday when omitted */
+		workDays?: readonly number[];
+		customStates?: readonly CustomDayState[];
+	},
+): AttendanceChange[] {
+	const { today, workDays, customStates = [] } = options;
+	const holidayKeys = new Set(Array.from(options.holidays ?? [], formatDate));
+	const swipeDays = new Set(days);
+	const changes: AttendanceChange[] = [];
+
+	for (const date of swipeDays) {
+		const from = marks.get(date) ?? null;
+		if (from === null || getWfhShare(from, customStates) === 1) {
+			changes.push({ date, from, to: "office" });
+		}
+	}
+
+	const first = days[0];
+	const last = days[days.length - 1];
+	if (first && last) {
+		const todayKey = formatDate(today);
+		const cursor = new Date(`${first}T12:00:00`);
+		let key = formatDate(cursor);
+		while (key <= last && key < todayKey) {
+			if (
+				isWorkDay(cursor, workDays) &&
+				!swipeDays.has(key) &&
+				!marks.has(key) &&
+				!holidayKeys.has(key)
+			) {
+				changes.push({ date: key, from: null, to: "oof" });
+			}
+			cursor.setDate(cursor.getDate() + 1);
+			key = formatDate(cursor);
+		}
+	}
+
+	return changes.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Apply planned attendance changes to the calendar */
+export function applyAttendanceImport(
+	changes: readonly AttendanceChange[],
+	calendar: CalendarInstance,
+): void {
+	for (const state of ["office", "oof"] as const) {
+		const dates = changes
+			.filter((change) => change.to === state)
+			.map((change) => change.date as DateString);
+		if (dates.length > 0) {
+			calendar.setDates(dates, state);
+		}
+	}
+}
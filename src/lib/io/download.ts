@@ -1,6 +1,6 @@
-/** Trigger a browser file download from a string */
+/** Trigger a browser file download from a string or binary content */
 export function downloadFile(
-	content: string,
+	content: string | Uint8Array<ArrayBuffer>,
 	filename: string,
 	mimeType: string,
 ): void {
@@ -8,21 +8,30 @@ import { addDays, format } from "date-fns";
 import type { CalendarInstance, DateState, DateString } from "datepainter";
 import type { IcsCalendar, IcsEvent } from "ts-ics";
 import { generateIcsCalendar } from "ts-ics";
-import { STATE_DEFAULTS } from "../state-defaults";
+import type { CustomDayState, CustomHoliday } from "../settings-constants";
+import { getStateMetadata, type StateMetadata } from "../state-defaults";
+import { settingsStore } from "../stores/settingsStore";
 import { downloadFile } from "./download";
 
 /** Export calendar state as ICS and trigger download */
 export function exportICS(calendar: CalendarInstance): void {
-	const ics = buildExportICS(calendar);
+	const ics = buildExportICS(calendar, settingsStore.get().customStates);
 	const timestamp = new Date().toISOString().slice(0, 10);
 	downloadFile(ics, `${timestamp}_rto-calculator-data.ics`, "text/calendar");
 }
 
-/** Build the ICS string (also useful for testing) */
-export function buildExportICS(calendar: CalendarInstance): string {
+/**
+ * Build the ICS string (also useful for testing)
+ * @param customStates - User-defined states, for their event titles
+ */
+export function buildExportICS(
+	calendar: CalendarInstance,
+	customStates: readonly CustomDayState[] = [],
+): string {
+	const metadata = getStateMetadata(customStates);
 	const ranges = calendar.getDateRanges();
 	const events: IcsEvent[] = ranges.map((range) => {
-		const meta = STATE_DEFAULTS[range.state];
+		const meta = metadata[range.state];
 		const startStr = format(range.start, "yyyy-MM-dd");
 		const endExclusive = addDays(range.end, 1);
 
@@ -46,16 +55,19 @@ export function buildExportICS(calendar: CalendarInstance): string {
 }
 
 /** Resolve a state key from ICS event categories or summary */
-function resolveState(event: IcsEvent): DateState {
+function resolveState(
+	event: IcsEvent,
+	metadata: Record<string, StateMetadata>,
+): DateState {
 	// Try CATEGORIES first (machine-readable)
 	if (event.categories && event.categories.length > 0) {
 		const cat = event.categories[0]?.toLowerCase();
-		if (cat && cat in STATE_DEFAULTS) return cat as DateState;
+		if (cat && cat in metadata) return cat as DateState;
 	}
 
 	// Fallback: match SUMMARY to known labels
 	const summary = event.summary.toLowerCase();
-	for (const [key, meta] of Object.entries(STATE_DEFAULTS)) {
+	for (const [key, meta] of Object.entries(metadata)) {
 		if (summary.includes(meta.label.toLowerCase())) return key as DateState;
 	}
 
@@ -86,31 +98,92 @@ function expandEventDates(event: IcsEvent): string[] {
 	return dates;
 }
 
-/** Import ICS string into calendar. Returns result with optional error. */
-export function importICS(
-	data: string,
-	calendar: CalendarInstance,
-): { success: boolean; error?: string } {
+/** Parse ICS text into its events, or the reason it has none */
+function parseEvents(data: string): { events: IcsEvent[] } | { error: string } {
 	let parsed: IcsCalendar;
 	try {
 		parsed = parseIcsCalendar(data);
 	} catch {
-		return { success: false, error: "Invalid ICS data" };
+		return { error: "Invalid ICS data" };
 	}
 
 	const events = parsed.events ?? [];
 	if (events.length === 0) {
-		return { success: false, error: "No events found in ICS file" };
+		return { error: "No events found in ICS file" };
 	}
+	return { events };
+}
+
+/**
+ * Parse an ICS string into dates grouped by state without touching the calendar
+ * @param customStates - User-defined states events may belong to; events of
+ *   any other state fall back to a matching label, then to WFH
+ */
+export function parseICS(
+	data: string,
+	customStates: readonly CustomDayState[] = [],
+): {
+	success: boolean;
+	datesByState?: Map<DateState, string[]>;
+	error?: string;
+} {
+	const parsed = parseEvents(data);
+	if ("error" in parsed) {
+		return { success: false, error: parsed.error };
+	}
+	const { events } = parsed;
 
 	// Group dates by state
+	const metadata = getStateMetadata(customStates);
 	const datesByState = new Map<DateState, string[]>();
 	for (const event of events) {
-		const state = resolveState(event);
+		const state = resolveState(event, metadata);
 		const dates = expandEventDates(event);
 		const existing = datesByState.get(state) ?? [];
 		datesByState.set(state, [...existing, ...dates]);
 	}
+	return { success: true, datesByState };
+}
+
+/**
+ * Parse an ICS holiday calendar into one entry per day, named after the
+ * event SUMMARY. Multi-day events cover every day; entries are sorted by
+ * date and exact duplicates dropped.
+ */
+export function parseIcsHolidays(data: string): {
+	success: boolean;
+	holidays?: CustomHoliday[];
+	error?: string;
+} {
+	const parsed = parseEvents(data);
+	if ("error" in parsed) {
+		return { success: false, error: parsed.error };
+	}
+	const { events } = parsed;
+
+	const byKey = new Map<string, CustomHoliday>();
+	for (const event of events) {
+		const name = event.summary.trim() || "Holiday";
+		for (const date of expandEventDates(event)) {
+			byKey.set(`${date}|${name}`, { date, name });
+		}
+	}
+	const holidays = [...byKey.values()].sort((a, b) =>
+		a.date.localeCompare(b.date),
+	);
+	return { success: true, holidays };
+}
+
+/** Import ICS string into calendar. Returns result with optional error. */
+export function importICS(
+	data: string,
+	calendar: CalendarInstance,
+): { success: boolean; error?: string } {
+	const parsed = parseICS(data, settingsStore.get().customStates);
+	if (!parsed.success || !parsed.datesByState) {
+		return { success: false, error: parsed.error ?? "Invalid ICS data" };
+	}
+	const datesByState = parsed.datesByState;
 
 	// Apply to calendar
 	calendar.clearAll();
@@ -1,11 +1,16 @@
 /**
  * JSON import/export for calendar state.
  * Exports all marked dates + settings; imports with zod validation.
+ * Multi-profile files are handled by profiles-io.ts.
  */
 
 import type { CalendarInstance, DateState } from "datepainter";
-import type { AppSettings } from "../settings-constants";
-import { STATE_DEFAULTS } from "../state-defaults";
+import type { AppSettings, CustomDayState } from "../settings-constants";
+import {
+	applyCalendarStates,
+	getStateMetadata,
+	type StateMetadata,
+} from "../state-defaults";
 import { settingsStore } from "../stores/settingsStore";
 import { downloadFile } from "./download";
 import { type ExportData, validateExportData } from "./schema";
@@ -28,23 +33,47 @@ export function buildExportJSON(calendar: CalendarInstance): string {
 }
 
 function buildExportData(calendar: CalendarInstance): ExportData {
-	const settings = settingsStore.get();
-	// Omit internal-only fields
+	return buildProfileExportData(calendar.getAllDates(), settingsStore.get());
+}
+
+/**
+ * Build export data from raw marks and settings, so parked profiles can be
+ * exported without loading them into the calendar.
+ */
+export function buildProfileExportData(
+	marks: ReadonlyMap<string, string>,
+	settings: AppSettings,
+): ExportData {
+	// Omit internal-only fields; custom states get their own top-level list
 	const {
 		debug: _debug,
 		saveData: _saveData,
+		customStates,
 		...exportableSettings
 	} = settings;
+	const metadata = getStateMetadata(customStates);
 
 	const categories: ExportData["categories"] = {
-		oof: buildCategory("oof", calendar),
-		holiday: buildCategory("holiday", calendar),
-		sick: buildCategory("sick", calendar),
+		oof: buildCategory("oof", marks, metadata),
+		holiday: buildCategory("holiday", marks, metadata),
+		sick: buildCategory("sick", marks, metadata),
 	};
+	// Half-day and office categories are optional; leave them out when unused
+	for (const state of ["oof-am", "oof-pm", "office"] as const) {
+		const category = buildCategory(state, marks, metadata);
+		if (category.dates.length > 0) {
+			categories[state] = category;
+		}
+	}
+	// Every defined custom state is listed, so its label and color travel too
+	for (const state of customStates) {
+		categories[state.key] = buildCategory(state.key, marks, metadata);
+	}
 
 	return {
-		version: 1,
+		version: 2,
 		exportDate: new Date().toISOString(),
+		customStates,
 		categories,
 		settings: exportableSettings,
 	};
@@ -57,23 +86,43 @@ function formatDate(d: Date): string {
 	return `${y}-${m}-${day}`;
 }
 
+function nextDay(date: string): string {
+	const d = new Date(`${date}T12:00:00`);
+	d.setDate(d.getDate() + 1);
+	return formatDate(d);
+}
+
+/** Group sorted dates into runs of consecutive days */
+function groupRanges(dates: string[]): { start: string; end: string }[] {
+	const ranges: { start: string; end: string }[] = [];
+	for (const date of dates) {
+		const last = ranges[ranges.length - 1];
+		if (last && nextDay(last.end) === date) {
+			last.end = date;
+		} else {
+			ranges.push({ start: date, end: date });
+		}
+	}
+	return ranges;
+}
+
 function buildCategory(
 	state: DateState,
-	calendar: CalendarInstance,
+	marks: ReadonlyMap<string, string>,
+	metadata: Record<string, StateMetadata>,
 ): ExportData["categories"]["oof"] {
-	const meta = STATE_DEFAULTS[state];
+	const meta = metadata[state];
 	if (!meta) throw new Error(`Unknown state: ${state}`);
-	const dates = calendar.getDatesByState(state).slice().sort();
-	const ranges = calendar.getDateRanges({ state }).map((r) => ({
-		start: formatDate(r.start),
-		end: formatDate(r.end),
-	}));
+	const dates = [...marks]
+		.filter(([, s]) => s === state)
+		.map(([date]) => date)
+		.sort();
 	return {
 		label: meta.label,
 		color: meta.bgColor,
 		emoji: meta.emoji,
 		dates,
-		ranges,
+		ranges: groupRanges(dates),
 	};
 }
 
@@ -88,11 +137,12 @@ function expandRange(start: string, end: string): string[] {
 	return dates;
 }
 
-/** Import JSON string into calendar. Returns result with optional error. */
-export function importJSON(
-	data: string,
-	calendar: CalendarInstance,
-): { success: boolean; error?: string } {
+/** Parse and validate a JSON export string without touching the calendar */
+export function parseExportJSON(data: string): {
+	success: boolean;
+	data?: ExportData;
+	error?: string;
+} {
 	let parsed: Record<string, unknown>;
 	try {
 		parsed = JSON.parse(data);
@@ -104,12 +154,16 @@ export function importJSON(
 	if (!validation.success || !validation.data) {
 		return { success: false, error: validation.error ?? "Validation failed" };
 	}
+	return { success: true, data: validation.data };
+}
 
-	const exportData = validation.data;
-
-	// Apply dates (merge dates + expanded ranges, deduplicate)
-	calendar.clearAll();
+/** Merge each category's dates and expanded ranges into sorted, deduplicated lists */
+export function collectExportDates(
+	exportData: ExportData,
+): Map<DateState, string[]> {
+	const datesByState = new Map<DateState, string[]>();
 	for (const [state, category] of Object.entries(exportData.categories)) {
+		if (!category) continue;
 		const dateSet = new Set(category.dates);
 		if (category.ranges) {
 			for (const range of category.ranges) {
@@ -118,21 +172,60 @@ export function importJSON(
 				}
 			}
 		}
-		const allDates = [...dateSet].sort();
-		if (allDates.length > 0) {
-			calendar.setDates(
-				allDates as `${number}-${number}-${number}`[],
-				state as DateState,
-			);
-		}
+		datesByState.set(state as DateState, [...dateSet].sort());
+	}
+	return datesByState;
+}
+
+/**
+ * Add imported custom states to the existing ones; an imported state
+ * replaces an existing one with the same key
+ */
+export function mergeCustomStates(
+	existing: readonly CustomDayState[],
+	imported: readonly CustomDayState[],
+): CustomDayState[] {
+	const importedKeys = new Set(imported.map((state) => state.key));
+	return [
+		...existing.filter((state) => !importedKeys.has(state.key)),
+		...imported,
+	];
+}
+
+/** Import JSON string into calendar. Returns result with optional error. */
+export function importJSON(
+	data: string,
+	calendar: CalendarInstance,
+): { success: boolean; error?: string } {
+	const parsed = parseExportJSON(data);
+	if (!parsed.success || !parsed.data) {
+		return { success: false, error: parsed.error ?? "Validation failed" };
 	}
 
-	// Apply settings if present — settingsStore.set() auto-notifies subscribers
-	if (exportData.settings) {
+	const exportData = parsed.data;
+
+	// Apply settings if present — settingsStore.set() auto-notifies subscribers.
+	// Custom states go first so the calendar knows them before their dates.
+	if (exportData.settings || exportData.customStates.length > 0) {
+		const current = settingsStore.get();
+		const customStates = mergeCustomStates(
+			current.customStates,
+			exportData.customStates,
+		);
 		settingsStore.set({
-			...settingsStore.get(),
+			...current,
 			...(exportData.settings as Partial<AppSettings>),
+			customStates,
 		});
+		applyCalendarStates(calendar, customStates);
+	}
+
+	// Apply dates (merge dates + expanded ranges, deduplicate)
+	calendar.clearAll();
+	for (const [state, allDates] of collectExportDates(exportData)) {
+		if (allDates.length > 0) {
+			calendar.setDates(allDates as `${number}-${number}-${number}`[], state);
+		}
 	}
 
 	return { success: true };
@@ -0,0 +1,135 @@
+/**
+ * JSON import/export for every profile at once.
+ * Each profile is written as a single-profile export (see json-io.ts)
+ * inside one file; importing such a file replaces all profiles.
+ * Kept apart from json-io so the rto-check CLI doesn't pull in the
+ * calendar-bound profile switching.
+ */
+
+import type { CalendarInstance } from "datepainter";
+import { loadSnapshot, readProfileSnapshot } from "../profiles";
+import { type AppSettings, DEFAULTS } from "../settings-constants";
+import {
+	clearProfiles,
+	type ProfileSnapshot,
+	profileStore,
+	writeStoredSnapshot,
+} from "../stores/profileStore";
+import { settingsStore } from "../stores/settingsStore";
+import { downloadFile } from "./download";
+import {
+	buildProfileExportData,
+	collectExportDates,
+	importJSON,
+} from "./json-io";
+import {
+	type ExportData,
+	type ProfilesExportData,
+	validateProfilesExportData,
+} from "./schema";
+
+/** Export every profile as one JSON file and trigger download */
+export function exportAllProfilesJSON(calendar: CalendarInstance): void {
+	const json = buildAllProfilesExportJSON(calendar);
+	const timestamp = new Date().toISOString().slice(0, 10);
+	downloadFile(
+		json,
+		`${timestamp}_rto-calculator-profiles.json`,
+		"application/json",
+	);
+}
+
+/** Build the multi-profile export JSON string (also useful for testing) */
+export function buildAllProfilesExportJSON(calendar: CalendarInstance): string {
+	const { activeId, profiles } = profileStore.get();
+	const data: ProfilesExportData = {
+		version: 1,
+		exportDate: new Date().toISOString(),
+		activeProfileId: activeId,
+		profiles: profiles.map(({ id, name }) => {
+			const snapshot = readProfileSnapshot(calendar, id);
+			return {
+				id,
+				name,
+				data: buildProfileExportData(
+					new Map(Object.entries(snapshot.marks)),
+					snapshot.settings,
+				),
+			};
+		}),
+	};
+	return JSON.stringify(data, null, 2);
+}
+
+/** Parse a multi-profile export; null when the string is anything else */
+export function parseProfilesExportJSON(
+	data: string,
+): ProfilesExportData | null {
+	try {
+		return validateProfilesExportData(JSON.parse(data)).data ?? null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Replace every profile with those in a multi-profile export. The file's
+ * active profile is loaded into the calendar; the rest are parked.
+ * Device-level settings (debug, saveData) are kept from the current ones.
+ */
+function importProfiles(
+	bundle: ProfilesExportData,
+	calendar: CalendarInstance,
+): void {
+	const { debug, saveData } = settingsStore.get();
+	const toSnapshot = (data: ExportData): ProfileSnapshot => {
+		const marks: Record<string, string> = {};
+		for (const [state, dates] of collectExportDates(data)) {
+			for (const date of dates) marks[date] = state;
+		}
+		return {
+			settings: {
+				...DEFAULTS,
+				...(data.settings as Partial<AppSettings>),
+				customStates: data.customStates,
+				debug,
+				saveData,
+			},
+			marks,
+		};
+	};
+
+	// The schema guarantees at least one profile
+	const active =
+		bundle.profiles.find((p) => p.id === bundle.activeProfileId) ??
+		bundle.profiles[0];
+	if (!active) return;
+
+	clearProfiles();
+	for (const profile of bundle.profiles) {
+		if (profile !== active) {
+			writeStoredSnapshot(profile.id, toSnapshot(profile.data));
+		}
+	}
+	loadSnapshot(calendar, toSnapshot(active.data));
+	profileStore.set({
+		activeId: active.id,
+		profiles: bundle.profiles.map(({ id, name }) => ({ id, name })),
+	});
+}
+
+/**
+ * Import either JSON shape: a multi-profile file replaces all profiles,
+ * anything else goes through importJSON into the active profile.
+ */
+export function importProfilesJSON(
+	data: string,
+	calendar: CalendarInstance,
+): { success: boolean; error?: string } {
+	const bundle = parseProfilesExportJSON(data);
+	if (!bundle) {
+		return importJSON(data, calendar);
+	}
+	importProfiles(bundle, calendar);
+	return { success: true };
+}
@@ -0,0 +1,133 @@
+/**
+ * Compliance report export.
+ * Turns a window evaluation into tables a manager can read: one row per
+ * week and one row per evaluated window, as two CSV files or as the two
+ * sheets of an XLSX workbook.
+ */
+
+import { format } from "date-fns";
+import type { WindowEvaluationResult } from "../validation/evaluate-weeks";
+import { downloadFile } from "./download";
+import { buildXLSX, type SheetCell } from "./xlsx";
+
+export interface ReportTable {
+	/** Sheet name, and the suffix of the CSV file name */
+	name: string;
+	rows: SheetCell[][];
+}
+
+const XLSX_MIME =
+	"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+function formatDay(date: Date): string {
+	return format(date, "yyyy-MM-dd");
+}
+
+/** Round away floating-point noise from fractional (half-day) counts */
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+/**
+ * One row per evaluated week (after the starting-week filter): counts from
+ * WeekInfo and whether the week met the policy on its own
+ */
+export function buildWeekTable(
+	evaluation: WindowEvaluationResult,
+): ReportTable {
+	const header = [
+		"Week start",
+		"Office days",
+		"WFH days",
+		"Holidays",
+		"Sick days",
+		"Working days",
+		"Compliant",
+		"Status",
+	];
+	const rows = evaluation.filteredWeeks.map((week) => [
+		formatDay(week.weekStart),
+		round(week.officeDays),
+		round(week.oofCount),
+		week.holidayCount,
+		week.sickCount,
+		week.totalDays,
+		week.isCompliant,
+		week.status,
+	]);
+	return { name: "Weeks", rows: [header, ...rows] };
+}
+
+/**
+ * One row per window (or month/quarter for period quotas): its average,
+ * whether it passed, and the weeks that counted as its best
+ */
+export function buildWindowTable(
+	evaluation: WindowEvaluationResult,
+): ReportTable {
+	const header = [
+		"Window",
+		"Start",
+		"End",
+		"Period",
+		"Average office days",
+		"Valid",
+		"Best weeks",
+	];
+	const rows = evaluation.summaries.map((summary) => [
+		summary.windowIndex + 1,
+		formatDay(summary.windowStart),
+		formatDay(summary.windowEnd),
+		summary.period?.label ?? "",
+		round(summary.averageOfficeDays),
+		summary.isValid,
+		summary.weekDetails
+			.filter((week) => week.isBest)
+			.map((week) => formatDay(week.weekStart))
+			.join(" "),
+	]);
+	return { name: "Windows", rows: [header, ...rows] };
+}
+
+function escapeCsv(value: SheetCell): string {
+	const text =
+		typeof value === "boolean" ? (value ? "Yes" : "No") : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Format a table as CSV (CRLF line endings, quoted only where needed) */
+export function buildCSV(table: ReportTable): string {
+	return `${table.rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n")}\r\n`;
+}
+
+/** Build the report workbook: a Weeks sheet and a Windows sheet */
+export function buildComplianceXLSX(
+	evaluation: WindowEvaluationResult,
+): Uint8Array<ArrayBuffer> {
+	return buildXLSX([buildWeekTable(evaluation), buildWindowTable(evaluation)]);
+}
+
+/** Download the weekly and window tables as two CSV files */
+export function exportComplianceCSV(evaluation: WindowEvaluationResult): void {
+	const timestamp = new Date().toISOString().slice(0, 10);
+	for (const table of [
+		buildWeekTable(evaluation),
+		buildWindowTable(evaluation),
+	]) {
+		downloadFile(
+			buildCSV(table),
+			`${timestamp}_rto-compliance-${table.name.toLowerCase()}.csv`,
+			"text/csv",
+		);
+	}
+}
+
+/** Download the report as an XLSX workbook */
+export function exportComplianceXLSX(evaluation: WindowEvaluationResult): void {
+	const timestamp = new Date().toISOString().slice(0, 10);
+	downloadFile(
+		buildComplianceXLSX(evaluation),
+		`${timestamp}_rto-compliance.xlsx`,
+		XLSX_MIME,
+	);
+}
@@ -1,9 +1,16 @@
 /**
  * Zod schema for calendar export data.
  * Validates JSON import payloads before applying to calendar state.
+ * Version 1 files (built-in states only) are migrated to version 2 on import.
  */
 
 import { z } from "zod";
+import { customCompanyFilterSchema } from "../holiday/company-filter-schema";
+import {
+	POLICY_KINDS,
+	PRORATION_ROUNDINGS,
+	QUOTA_PERIODS,
+} from "../validation/rto-core";
 
 const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
 
@@ -24,43 +31,219 @@ const categorySchema = z.object({
 	ranges: z.array(dateRangeSchema).optional(),
 });
 
-export const exportDataSchema = z.object({
+const BUILT_IN_STATES = new Set([
+	"oof",
+	"oof-am",
+	"oof-pm",
+	"holiday",
+	"sick",
+	"office",
+]);
+
+const exportSettingsSchema = z.object({
+	policyKind: z.enum(POLICY_KINDS).optional(),
+	minOfficeDays: z.number().optional(),
+	rollingWindowWeeks: z.number().optional(),
+	bestWeeksCount: z.number().optional(),
+	quotaPeriod: z.enum(QUOTA_PERIODS).optional(),
+	officeDaysPerPeriod: z.number().optional(),
+	fiscalYearStartMonth: z.number().int().min(0).max(11).optional(),
+	weeklyFloorDays: z.number().optional(),
+	workDays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+	anchorDays: z.array(z.number().int().min(0).max(6)).optional(),
+	sickDaysPenalize: z.boolean().optional(),
+	holidayPenalize: z.boolean().optional(),
+	prorateRequirement: z.boolean().optional(),
+	prorationRounding: z.enum(PRORATION_ROUNDINGS).optional(),
+	trackAttendance: z.boolean().optional(),
+	startingWeek: z.string().nullable().optional(),
+	defaultPattern: z.array(z.number()).nullable().optional(),
+	weekStartsOn: z.union([z.literal(0), z.literal(1), z.literal(6)]).optional(),
+	leavePeriods: z
+		.array(
+			z.object({
+				label: z.string(),
+				start: dateStringSchema,
+				end: dateStringSchema,
+			}),
+		)
+		.optional(),
+	calendarHorizon: z
+		.discriminatedUnion("kind", [
+			z.object({
+				kind: z.literal("rolling"),
+				weeksBack: z.number().int().min(0),
+				weeksForward: z.number().int().min(0),
+			}),
+			z.object({ kind: z.literal("fiscal-year") }),
+			z.object({
+				kind: z.literal("custom"),
+				start: dateStringSchema,
+				end: dateStringSchema,
+			}),
+		])
+		.optional(),
+	holidays: z
+		.object({
+			countryCode: z.string().nullable().optional(),
+			holidaysAsOOF: z.boolean().optional(),
+			companyName: z.string().nullable().optional(),
+			subdivisionCode: z.string().nullable().optional(),
+			additionalCountries: z
+				.array(
+					z.object({
+						countryCode: z.string(),
+						countsAsNonOffice: z.boolean(),
+					}),
+				)
+				.optional(),
+			customCalendar: z
+				.object({
+					name: z.string(),
+					holidays: z.array(
+						z.object({ date: dateStringSchema, name: z.string() }),
+					),
+				})
+				.nullable()
+				.optional(),
+			customCompany: customCompanyFilterSchema.nullable().optional(),
+		})
+		.optional(),
+});
+
+export const customDayStateSchema = z.object({
+	key: z.templateLiteral(["custom-", z.string().regex(/^[a-z0-9-]+$/)]),
+	label: z.string().min(1),
+	color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected #RRGGBB color"),
+	emoji: z.string(),
+	effect: z.enum(["office", "wfh", "excluded"]),
+});
+
+/** Version 1: built-in states only */
+export const exportDataSchemaV1 = z.object({
 	version: z.literal(1),
 	exportDate: z.string(),
 	categories: z.strictObject({
 		oof: categorySchema,
+		"oof-am": categorySchema.optional(),
+		"oof-pm": categorySchema.optional(),
 		holiday: categorySchema,
 		sick: categorySchema,
 	}),
-	settings: z
-		.object({
-			minOfficeDays: z.number().optional(),
-			rollingWindowWeeks: z.number().optional(),
-			bestWeeksCount: z.number().optional(),
-			sickDaysPenalize: z.boolean().optional(),
-			holidayPenalize: z.boolean().optional(),
-			startingWeek: z.string().nullable().optional(),
-			defaultPattern: z.array(z.number()).nullable().optional(),
-			holidays: z
-				.object({
-					countryCode: z.string().nullable().optional(),
-					holidaysAsOOF: z.boolean().optional(),
-					companyName: z.string().nullable().optional(),
-				})
-				.optional(),
-		})
-		.optional(),
+	settings: exportSettingsSchema.optional(),
 });
 
+export type ExportDataV1 = z.infer<typeof exportDataSchemaV1>;
+
+/**
+ * Version 2: adds user-defined states. Each one is declared in customStates
+ * and its marks sit in categories under its "custom-" key.
+ */
+export const exportDataSchema = z
+	.object({
+		version: z.literal(2),
+		exportDate: z.string(),
+		customStates: z.array(customDayStateSchema),
+		categories: z
+			.object({
+				oof: categorySchema,
+				"oof-am": categorySchema.optional(),
+				"oof-pm": categorySchema.optional(),
+				holiday: categorySchema,
+				sick: categorySchema,
+				office: categorySchema.optional(),
+			})
+			.catchall(categorySchema),
+		settings: exportSettingsSchema.optional(),
+	})
+	.superRefine((data, ctx) => {
+		const keys: string[] = data.customStates.map((state) => state.key);
+		if (new Set(keys).size !== keys.length) {
+			ctx.addIssue({
+				code: "custom",
+				message: "Duplicate custom state key",
+				path: ["customStates"],
+			});
+		}
+		for (const key of Object.keys(data.categories)) {
+			if (!BUILT_IN_STATES.has(key) && !keys.includes(key)) {
+				ctx.addIssue({
+					code: "custom",
+					message: `Unknown state: ${key}`,
+					path: ["categories", key],
+				});
+			}
+		}
+	});
+
 export type ExportData = z.infer<typeof exportDataSchema>;
 
-/** Validate unknown data against the export schema */
+/** Bring a version 1 export up to version 2; it defines no custom states */
+export function migrateExportDataV1(data: ExportDataV1): ExportData {
+	// Unused half-day categories are left out rather than kept as undefined
+	const {
+		"oof-am": morning,
+		"oof-pm": afternoon,
+		...categories
+	} = data.categories;
+	return {
+		...data,
+		version: 2,
+		customStates: [],
+		categories: {
+			...categories,
+			...(morning && { "oof-am": morning }),
+			...(afternoon && { "oof-pm": afternoon }),
+		},
+	};
+}
+
+/** Any supported export version, migrated to the current one */
+const importableExportDataSchema = z
+	.discriminatedUnion("version", [exportDataSchema, exportDataSchemaV1])
+	.transform((data) => (data.version === 1 ? migrateExportDataV1(data) : data));
+
+/** Several named profiles in one file; each entry is a single-profile export */
+export const profilesExportSchema = z.object({
+	version: z.literal(1),
+	exportDate: z.string(),
+	activeProfileId: z.string(),
+	profiles: z
+		.array(
+			z.object({
+				id: z.string().min(1),
+				name: z.string().min(1),
+				data: importableExportDataSchema,
+			}),
+		)
+		.min(1),
+});
+
+export type ProfilesExportData = z.infer<typeof profilesExportSchema>;
+
+/** Validate unknown data against the export schema, migrating older versions */
 export function validateExportData(data: unknown): {
 	success: boolean;
 	data?: ExportData;
 	error?: string;
 } {
-	const result = exportDataSchema.safeParse(data);
+	const result = importableExportDataSchema.safeParse(data);
+	if (result.success) {
+		return { success: true, data: result.data };
+	}
+	return {
+		success: false,
+		error: result.error.issues[0]?.message ?? "Validation failed",
+	};
+}
+
+/** Validate unknown data against the multi-profile export schema */
+export function validateProfilesExportData(data: unknown): {
+	success: boolean;
+	data?: ProfilesExportData;
+	error?: string;
+} {
+	const result = profilesExportSchema.safeParse(data);
 	if (result.success) {
 		return { success: true, data: result.data };
 	}
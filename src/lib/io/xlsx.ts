@@ -0,0 +1,175 @@
+/**
+ * Minimal XLSX writer.
+ * Builds an Office Open XML workbook of plain-value sheets (inline strings,
+ * numbers and booleans, no styles) and packs it into an uncompressed zip,
+ * so spreadsheet exports need no extra dependency.
+ */
+
+export type SheetCell = string | number | boolean;
+
+export interface Sheet {
+	/** Tab name; Excel allows at most 31 characters */
+	name: string;
+	rows: SheetCell[][];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/** Spreadsheet column letters for a 0-based index (0 → A, 26 → AA) */
+function columnName(index: number): string {
+	let name = "";
+	for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+		name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+	}
+	return name;
+}
+
+function buildCell(value: SheetCell, ref: string): string {
+	if (typeof value === "number") {
+		return `<c r="${ref}"><v>${value}</v></c>`;
+	}
+	if (typeof value === "boolean") {
+		return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+	}
+	return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function buildSheetXml(sheet: Sheet): string {
+	const rows = sheet.rows
+		.map((row, r) => {
+			const cells = row
+				.map((value, c) => buildCell(value, `${columnName(c)}${r + 1}`))
+				.join("");
+			return `<row r="${r + 1}">${cells}</row>`;
+		})
+		.join("");
+	return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>`;
+}
+
+function buildWorkbookParts(sheets: Sheet[]): [string, string][] {
+	const sheetEntries = sheets
+		.map(
+			(sheet, i) =>
+				`<sheet name="${escapeXml(sheet.name.slice(0, 31))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+		)
+		.join("");
+	const sheetRels = sheets
+		.map(
+			(_, i) =>
+				`<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+		)
+		.join("");
+	const sheetTypes = sheets
+		.map(
+			(_, i) =>
+				`<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+		)
+		.join("");
+
+	return [
+		[
+			"[Content_Types].xml",
+			`${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheetTypes}</Types>`,
+		],
+		[
+			"_rels/.rels",
+			`${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+		],
+		[
+			"xl/workbook.xml",
+			`${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheetEntries}</sheets></workbook>`,
+		],
+		[
+			"xl/_rels/workbook.xml.rels",
+			`${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetRels}</Relationships>`,
+		],
+		...sheets.map((sheet, i): [string, string] => [
+			`xl/worksheets/sheet${i + 1}.xml`,
+			buildSheetXml(sheet),
+		]),
+	];
+}
+
+// ─── Zip (stored, no compression) ────────────────────────────────────
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Pack files into a zip archive without compression */
+function buildZip(files: [string, string][]): Uint8Array<ArrayBuffer> {
+	const encoder = new TextEncoder();
+	const chunks: Uint8Array[] = [];
+	const central: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const [name, content] of files) {
+		const nameBytes = encoder.encode(name);
+		const data = encoder.encode(content);
+		const crc = crc32(data);
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, 0x04034b50, true);
+		local.setUint16(4, 20, true); // version needed
+		local.setUint32(14, crc, true);
+		local.setUint32(18, data.length, true);
+		local.setUint32(22, data.length, true);
+		local.setUint16(26, nameBytes.length, true);
+		chunks.push(new Uint8Array(local.buffer), nameBytes, data);
+
+		const entry = new DataView(new ArrayBuffer(46));
+		entry.setUint32(0, 0x02014b50, true);
+		entry.setUint16(4, 20, true); // version made by
+		entry.setUint16(6, 20, true); // version needed
+		entry.setUint32(16, crc, true);
+		entry.setUint32(20, data.length, true);
+		entry.setUint32(24, data.length, true);
+		entry.setUint16(28, nameBytes.length, true);
+		entry.setUint32(42, offset, true);
+		central.push(new Uint8Array(entry.buffer), nameBytes);
+
+		offset += 30 + nameBytes.length + data.length;
+	}
+
+	const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, 0x06054b50, true);
+	end.setUint16(8, files.length, true);
+	end.setUint16(10, files.length, true);
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true);
+
+	const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+	const zip = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+	let position = 0;
+	for (const part of parts) {
+		zip.set(part, position);
+		position += part.length;
+	}
+	return zip;
+}
+
+/** Build an .xlsx workbook with one worksheet per sheet, in order */
+export function buildXLSX(sheets: Sheet[]): Uint8Array<ArrayBuffer> {
+	return buildZip(buildWorkbookParts(sheets));
+}
@@ -0,0 +1,63 @@
+/**
+ * Leave periods
+ *
+ * Date ranges of approved extended leave, such as parental leave or a
+ * sabbatical. Working days inside one are excused like an excluded day
+ * type, and a week spent entirely on leave is skipped by the rolling
+ * windows, which stretch over the next weeks instead.
+ *
+ * @module leave-periods
+ */
+
+import { parseLocalDate } from "./date-helpers";
+import type { LeavePeriod } from "./settings-constants";
+
+/**
+ * Whether a day falls inside one of the leave periods.
+ * YYYY-MM-DD keys sort like dates, so they are compared as strings.
+ *
+ * @param dateKey - Day as YYYY-MM-DD
+ */
+export function isOnLeave(
+	dateKey: string,
+	periods: readonly LeavePeriod[],
+): boolean {
+	return periods.some((p) => p.start <= dateKey && dateKey <= p.end);
+}
+
+/**
+ * Check a leave period before saving it.
+ *
+ * @param period - The period being saved
+ * @param others - The other saved periods
+ * @returns Human-readable problems; empty when the period is valid
+ */
+export function validateLeavePeriod(
+	period: LeavePeriod,
+	others: readonly LeavePeriod[],
+): string[] {
+	const errors: string[] = [];
+	if (!period.label.trim()) {
+		errors.push("Label is required");
+	}
+	const dates = [period.start, period.end].map((value) => {
+		try {
+			return parseLocalDate(value);
+		} catch {
+			return null;
+		}
+	});
+	if (dates.some((date) => date === null)) {
+		errors.push("Start and end must be valid dates");
+	} else if (period.end < period.start) {
+		errors.push("End must be on or after the start");
+	} else {
+		const overlap = others.find(
+			(other) => other.start <= period.end && period.start <= other.end,
+		);
+		if (overlap) {
+			errors.push(`Overlaps "${overlap.label}"`);
+		}
+	}
+	return errors;
+}
@@ -0,0 +1,161 @@
+/**
+ * Plan Check
+ *
+ * Headless counterpart of auto-compliance. Loads a plan exported with
+ * buildExportJSON or buildExportICS and runs it through the same
+ * computeComplianceFromRequest pipeline the app uses, without a DOM, a live
+ * CalendarInstance or settingsStore.
+ * Used by the `rto-check` command-line entry point (src/cli/rto-check.ts).
+ *
+ * @module plan-check
+ */
+
+import type {
+	DateState,
+	DateString,
+} from "../../packages/datepainter/src/types";
+import { computeComplianceFromRequest } from "./compliance-request";
+import type { ComplianceEventData } from "./compute-compliance";
+import { getAttendanceOptions } from "./compute-weeks";
+import { type DateRange, fmtDate, getDateRange } from "./dateUtils";
+import { parseICS } from "./io/ics-io";
+import { collectExportDates, parseExportJSON } from "./io/json-io";
+import { type AppSettings, DEFAULTS } from "./settings-constants";
+import type { WindowSummary } from "./validation/all-windows";
+import { getPolicyEvaluator } from "./validation/policy-engine";
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type PlanFormat = "json" | "ics";
+
+export interface Plan {
+	/** Marked dates, keyed like datepainter's getAllDates() */
+	marks: Map<DateString, DateState>;
+	/** Settings from the export merged over DEFAULTS (ICS files carry none) */
+	settings: AppSettings;
+}
+
+export interface PlanLoadResult {
+	success: boolean;
+	plan?: Plan;
+	error?: string;
+}
+
+// ─── Loading ────────────────────────────────────────────────────────
+
+/** Pick the parser from the file extension; anything but .ics is JSON */
+export function detectPlanFormat(fileName: string): PlanFormat {
+	return fileName.toLowerCase().endsWith(".ics") ? "ics" : "json";
+}
+
+function toMarks(
+	datesByState: Map<DateState, string[]>,
+): Map<DateString, DateState> {
+	const marks = new Map<DateString, DateState>();
+	for (const [state, dates] of datesByState) {
+		for (const date of dates) {
+			marks.set(date as DateString, state);
+		}
+	}
+	return marks;
+}
+
+/**
+ * Parse an exported plan.
+ *
+ * @param content - File contents
+ * @param format - "json" for buildExportJSON output, "ics" for buildExportICS
+ * @returns The plan, or an error message when the file cannot be parsed
+ */
+export function loadPlan(content: string, format: PlanFormat): PlanLoadResult {
+	if (format === "ics") {
+		const parsed = parseICS(content);
+		if (!parsed.success || !parsed.datesByState) {
+			return { success: false, error: parsed.error ?? "Invalid ICS data" };
+		}
+		return {
+			success: true,
+			plan: { marks: toMarks(parsed.datesByState), settings: { ...DEFAULTS } },
+		};
+	}
+
+	const parsed = parseExportJSON(content);
+	if (!parsed.success || !parsed.data) {
+		return { success: false, error: parsed.error ?? "Validation failed" };
+	}
+	return {
+		success: true,
+		plan: {
+			marks: toMarks(collectExportDates(parsed.data)),
+			settings: {
+				...DEFAULTS,
+				...(parsed.data.settings as Partial<AppSettings>),
+				customStates: parsed.data.customStates,
+			},
+		},
+	};
+}
+
+// ─── Evaluation ─────────────────────────────────────────────────────
+
+/**
+ * Evaluate a plan exactly as auto-compliance would for the same marks.
+ *
+ * Holidays come only from the plan's own "holiday" marks; the holiday
+ * data sources are not queried. With attendance tracking on, days before
+ * today count from recorded attendance and the plan alone is reported
+ * under planned.
+ *
+ * @param plan - Plan from loadPlan
+ * @param range - Dates to evaluate; defaults to the plan's calendar range
+ * @returns The same data the app writes to complianceStore
+ */
+export function checkPlan(
+	plan: Plan,
+	range: DateRange = getDateRange(plan.settings),
+): ComplianceEventData {
+	return computeComplianceFromRequest({
+		marks: Object.fromEntries(plan.marks),
+		holidays: [],
+		settings: plan.settings,
+		range,
+		...getAttendanceOptions(plan.settings),
+	});
+}
+
+// ─── Reporting ──────────────────────────────────────────────────────
+
+function windowLabel(summary: WindowSummary): string {
+	if (summary.period) {
+		return summary.period.label;
+	}
+	return `${fmtDate(summary.windowStart)} – ${fmtDate(summary.windowEnd)}`;
+}
+
+/**
+ * Format compliance data as a plain-text report, one fact per line.
+ * Every failing window is listed with its status message.
+ */
+export function formatComplianceReport(data: ComplianceEventData): string {
+	const evaluator = getPolicyEvaluator(data.policy);
+	const failing = data.allSummaries.filter((s) => !s.isValid);
+	const lines = [
+		`Policy: ${evaluator.label}`,
+		`Windows evaluated: ${data.allSummaries.length} (${failing.length} failing)`,
+		`Result: ${data.isCompliant ? "COMPLIANT" : "NOT COMPLIANT"}`,
+		data.message,
+	];
+
+	if (failing.length > 0) {
+		lines.push("", "Failing windows:");
+		for (const summary of failing) {
+			lines.push(
+				`  ${windowLabel(summary)}: ${evaluator.describe(summary, data.policy)}`,
+			);
+		}
+	} else if (data.nextWfhWeek) {
+		lines.push(`Next safe full-WFH week: ${fmtDate(data.nextWfhWeek)}`);
+	}
+
+	return lines.join("\n");
+}
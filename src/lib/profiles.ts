@@ -0,0 +1,90 @@
+/**
+ * Profile Switching
+ *
+ * Swaps profiles in and out of the live stores. The outgoing profile is
+ * parked under its namespaced keys (see stores/profileStore.ts), the
+ * incoming one is loaded into settingsStore and the calendar, and
+ * compliance is recomputed straight away instead of waiting for the
+ * debounced change events.
+ *
+ * @module profiles
+ */
+
+import type { CalendarInstance, DateState, DateString } from "datepainter";
+import { requestComplianceRecompute } from "./auto-compliance";
+import { applyCalendarStates } from "./state-defaults";
+import {
+	type ProfileSnapshot,
+	profileStore,
+	readStoredSnapshot,
+	writeStoredSnapshot,
+} from "./stores/profileStore";
+import { settingsStore } from "./stores/settingsStore";
+
+/** Snapshot of whatever is in the live stores */
+export function snapshotActiveProfile(
+	calendar: CalendarInstance,
+): ProfileSnapshot {
+	return {
+		settings: settingsStore.get(),
+		marks: Object.fromEntries(calendar.getAllDates()),
+	};
+}
+
+/** A profile's data, read live for the active profile and from storage otherwise */
+export function readProfileSnapshot(
+	calendar: CalendarInstance,
+	id: string,
+): ProfileSnapshot {
+	return id === profileStore.get().activeId
+		? snapshotActiveProfile(calendar)
+		: readStoredSnapshot(id);
+}
+
+/** Replace the live calendar marks and settings with a snapshot */
+export function loadSnapshot(
+	calendar: CalendarInstance,
+	snapshot: ProfileSnapshot,
+): void {
+	const byState = new Map<string, DateString[]>();
+	for (const [date, state] of Object.entries(snapshot.marks)) {
+		const dates = byState.get(state) ?? [];
+		dates.push(date as DateString);
+		byState.set(state, dates);
+	}
+
+	// Profiles may define different custom states
+	applyCalendarStates(calendar, snapshot.settings.customStates);
+	calendar.clearAll();
+	for (const [state, dates] of byState) {
+		calendar.setDates(dates, state as DateState);
+	}
+	settingsStore.set(snapshot.settings);
+}
+
+/**
+ * Make another profile active: park the current one, load the target and
+ * recompute compliance.
+ *
+ * @throws Error if the profile does not exist
+ */
+export function switchProfile(calendar: CalendarInstance, id: string): void {
+	const registry = profileStore.get();
+	if (id === registry.activeId) return;
+	if (!registry.profiles.some((p) => p.id === id)) {
+		throw new Error(`Unknown profile: ${id}`);
+	}
+
+	const current = snapshotActiveProfile(calendar);
+	writeStoredSnapshot(registry.activeId, current);
+	const next = readStoredSnapshot(id);
+	// Debug and data saving belong to the device, not the profile
+	const { debug, saveData } = current.settings;
+	loadSnapshot(calendar, {
+		...next,
+		settings: { ...next.settings, debug, saveData },
+	});
+	// After loading, so profile listeners see the new profile's data
+	profileStore.set({ ...registry, activeId: id });
+	requestComplianceRecompute();
+}
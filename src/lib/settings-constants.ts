@@ -6,44 +6,174 @@
  * to eliminate the dependency on localStorage-based reads/writes.
  */
 
+import {
+	type CalendarHorizon,
+	DEFAULT_CALENDAR_HORIZON,
+	DEFAULT_WORK_DAYS,
+	type WeekStartDay,
+} from "./dateUtils";
 import {
 	BEST_WEEKS_COUNT,
 	MINIMUM_COMPLIANT_DAYS,
+	MONTHLY_QUOTA_DAYS,
 	ROLLING_WINDOW_WEEKS,
 } from "./validation/constants";
+import type {
+	PolicyKind,
+	ProrationRounding,
+	QuotaPeriod,
+} from "./validation/rto-core";
 
 export const SETTINGS_KEY = "rto-calculator-settings";
 
+/** One day from an imported holiday calendar */
+export interface CustomHoliday {
+	/** YYYY-MM-DD */
+	date: string;
+	name: string;
+}
+
+/** Holidays imported from a user-provided .ics file */
+export interface CustomHolidayCalendar {
+	/** File name the calendar was imported from */
+	name: string;
+	holidays: CustomHoliday[];
+}
+
+/** Extra company holiday: a fixed date each year, or the day after a named holiday */
+export type CompanyExtraHoliday =
+	| { name: string; month: number; day: number }
+	| { name: string; after: string };
+
+/** A user-defined company holiday policy, in the company-filters.json shape */
+export interface CustomCompanyFilter {
+	/** Shown in the company dropdown alongside the built-in companies */
+	name: string;
+	countryCode: string;
+	/** Names of the country's public holidays the company observes */
+	holidays: string[];
+	extra: CompanyExtraHoliday[];
+}
+
+/** Another country whose holidays appear on the calendar, e.g. country of residence */
+export interface AdditionalHolidayCountry {
+	countryCode: string;
+	/** True if its holidays are non-office days; false shows them for information only */
+	countsAsNonOffice: boolean;
+}
+
+/** How a user-defined day state counts towards compliance */
+export type CustomStateEffect = "office" | "wfh" | "excluded";
+
+/** A user-defined day state, e.g. "Business travel" or "Parental leave" */
+export interface CustomDayState {
+	/** Datepainter state key, always "custom-" followed by a slug */
+	key: `custom-${string}`;
+	label: string;
+	/** Background hex color, e.g. "#882255" */
+	color: string;
+	emoji: string;
+	/** Office: counts as an office day; wfh: as a WFH day; excluded: drops out of the week */
+	effect: CustomStateEffect;
+}
+
+/** Approved extended leave, e.g. parental leave or a sabbatical */
+export interface LeavePeriod {
+	label: string;
+	/** First day of leave, YYYY-MM-DD */
+	start: string;
+	/** Last day of leave (inclusive), YYYY-MM-DD */
+	end: string;
+}
+
 export interface AppSettings {
 	debug: boolean;
 	saveData: boolean;
+	policyKind: PolicyKind;
 	minOfficeDays: number;
 	rollingWindowWeeks: number;
 	bestWeeksCount: number;
+	quotaPeriod: QuotaPeriod;
+	officeDaysPerPeriod: number;
+	fiscalYearStartMonth: number;
+	weeklyFloorDays: number;
+	/** Days of the week worked (getDay index, 0 = Sunday); other days are the weekend */
+	workDays: number[];
+	/** Working days (getDay index, 1 = Monday) that must be spent in the office */
+	anchorDays: number[];
 	sickDaysPenalize: boolean;
 	holidayPenalize: boolean;
+	/**
+	 * Scale the weekly minimum to the days left after holidays, sick days and
+	 * leave; overrides sickDaysPenalize and holidayPenalize
+	 */
+	prorateRequirement: boolean;
+	/** Rounding for the pro-rated minimum */
+	prorationRounding: ProrationRounding;
 	weekendBonus: boolean;
 	startingWeek: string | null;
 	defaultPattern: number[] | null;
 	roundPercentage: boolean;
+	/** Span of the calendar; marks outside it are kept, just not shown or evaluated */
+	calendarHorizon: CalendarHorizon;
+	/** Day weeks start on, for the calendar grid and for grouping days into weeks */
+	weekStartsOn: WeekStartDay;
+	/**
+	 * Count past days from recorded attendance: only days marked "office"
+	 * (or another in-office state) count, and unmarked past weekdays are absences
+	 */
+	trackAttendance: boolean;
+	/** Extra day states painted alongside the built-in ones */
+	customStates: CustomDayState[];
+	/** Leave days are excused; weeks entirely on leave are skipped by the windows */
+	leavePeriods: LeavePeriod[];
 	holidays: {
 		countryCode: string | null;
 		holidaysAsOOF: boolean;
 		companyName?: string | null;
+		/** ISO 3166-2 state/province of countryCode; null for the whole country */
+		subdivisionCode?: string | null;
+		/** Merged with countryCode's holidays; countryCode's always count */
+		additionalCountries?: AdditionalHolidayCountry[];
+		/** Used when countryCode is the custom-calendar code */
+		customCalendar?: CustomHolidayCalendar | null;
+		customCompany?: CustomCompanyFilter | null;
 	};
 }
 
 export const DEFAULTS: AppSettings = {
 	debug: false,
 	saveData: false,
+	policyKind: "best-k",
 	minOfficeDays: MINIMUM_COMPLIANT_DAYS,
 	rollingWindowWeeks: ROLLING_WINDOW_WEEKS,
 	bestWeeksCount: BEST_WEEKS_COUNT,
+	quotaPeriod: "month",
+	officeDaysPerPeriod: MONTHLY_QUOTA_DAYS,
+	fiscalYearStartMonth: 0,
+	weeklyFloorDays: 0,
+	workDays: [...DEFAULT_WORK_DAYS],
+	anchorDays: [],
 	sickDaysPenalize: true,
 	holidayPenalize: true,
+	prorateRequirement: false,
+	prorationRounding: "nearest",
 	weekendBonus: false,
 	startingWeek: null,
 	defaultPattern: null,
 	roundPercentage: true,
-	holidays: { countryCode: null, holidaysAsOOF: true, companyName: null },
+	calendarHorizon: DEFAULT_CALENDAR_HORIZON,
+	weekStartsOn: 0,
+	trackAttendance: false,
+	customStates: [],
+	leavePeriods: [],
+	holidays: {
+		countryCode: null,
+		holidaysAsOOF: true,
+		companyName: null,
+		subdivisionCode: null,
+		additionalCountries: [],
+		customCalendar: null,
+		customCompany: null,
+	},
 };
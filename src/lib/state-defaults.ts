@@ -1,16 +1,26 @@
 /**
  * Single source of truth for calendar state metadata.
  * Used by Datepainter config, import/export, and color derivation.
+ * User-defined states from settings are merged in by getStateMetadata.
  */
 
+import type { CalendarInstance } from "datepainter";
+import { deriveTextColor } from "./io/color";
+import type { CustomDayState } from "./settings-constants";
+
 export interface StateMetadata {
 	label: string;
 	color: string;
 	bgColor: string;
 	icon: string;
 	emoji: string;
+	/** Share of the day worked from home; omitted for non-WFH states */
+	wfhShare?: number;
 }
 
+/** Key prefix that marks a state as user-defined */
+export const CUSTOM_STATE_PREFIX = "custom-";
+
 export const STATE_DEFAULTS: Record<string, StateMetadata> = {
 	oof: {
 		label: "Work From Home",
@@ -18,6 +28,23 @@ export const STATE_DEFAULTS: Record<string, StateMetadata> = {
 		bgColor: "#44AA99",
 		icon: "🏠",
 		emoji: "🏠",
+		wfhShare: 1,
+	},
+	"oof-am": {
+		label: "Morning WFH",
+		color: "#ffffff",
+		bgColor: "#44AA99",
+		icon: "🌅",
+		emoji: "🌅",
+		wfhShare: 0.5,
+	},
+	"oof-pm": {
+		label: "Afternoon WFH",
+		color: "#ffffff",
+		bgColor: "#44AA99",
+		icon: "🌇",
+		emoji: "🌇",
+		wfhShare: 0.5,
 	},
 	holiday: {
 		label: "Holiday",
@@ -33,6 +60,13 @@ export const STATE_DEFAULTS: Record<string, StateMetadata> = {
 		icon: "💊",
 		emoji: "💊",
 	},
+	office: {
+		label: "In Office",
+		color: "#ffffff",
+		bgColor: "#117733",
+		icon: "🏢",
+		emoji: "🏢",
+	},
 };
 
 export const STATE_KEYS = Object.keys(STATE_DEFAULTS) as Array<
@@ -45,8 +79,125 @@ export function isValidDateState(
 	return value in STATE_DEFAULTS;
 }
 
-/** Build datepainter-compatible state config records from STATE_DEFAULTS */
-export function getDefaultStates(): Record<
+/** Metadata for a user-defined state, with text colour derived from its color */
+export function getCustomStateMetadata(state: CustomDayState): StateMetadata {
+	const meta: StateMetadata = {
+		label: state.label,
+		color: deriveTextColor(state.color),
+		bgColor: state.color,
+		icon: state.emoji,
+		emoji: state.emoji,
+	};
+	if (state.effect === "wfh") meta.wfhShare = 1;
+	return meta;
+}
+
+/**
+ * Built-in states followed by the user-defined ones
+ * @param customStates - States defined in settings
+ */
+export function getStateMetadata(
+	customStates: readonly CustomDayState[] = [],
+): Record<string, StateMetadata> {
+	const states = { ...STATE_DEFAULTS };
+	for (const state of customStates) {
+		states[state.key] = getCustomStateMetadata(state);
+	}
+	return states;
+}
+
+/**
+ * Turn a label into an unused custom state key, e.g. "Client site" into
+ * "custom-client-site" (or "custom-client-site-2" if that is taken)
+ */
+export function createCustomStateKey(
+	label: string,
+	existing: readonly CustomDayState[],
+): CustomDayState["key"] {
+	const slug =
+		label
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "") || "state";
+	const taken = new Set(existing.map((state) => state.key));
+	let key: CustomDayState["key"] = `${CUSTOM_STATE_PREFIX}${slug}`;
+	for (let n = 2; taken.has(key); n++) {
+		key = `${CUSTOM_STATE_PREFIX}${slug}-${n}`;
+	}
+	return key;
+}
+
+/**
+ * Validate a user-defined state before saving it.
+ *
+ * Labels must be unique (ignoring case) among the built-in states and the
+ * other custom states, since ICS import matches event titles to labels.
+ *
+ * @param state - The state being saved
+ * @param others - The other custom states, excluding this one
+ * @returns Human-readable problems; empty when the state is valid
+ */
+export function validateCustomState(
+	state: CustomDayState,
+	others: readonly CustomDayState[],
+): string[] {
+	const errors: string[] = [];
+	const label = state.label.trim().toLowerCase();
+	if (!label) {
+		errors.push("Label is required");
+	} else if (
+		[...Object.values(STATE_DEFAULTS), ...others].some(
+			(other) => other.label.trim().toLowerCase() === label,
+		)
+	) {
+		errors.push(`A state named "${state.label.trim()}" already exists`);
+	}
+	if (!/^#[0-9a-fA-F]{6}$/.test(state.color)) {
+		errors.push("Color must be a #RRGGBB hex value");
+	}
+	if (!state.emoji.trim()) {
+		errors.push("Emoji is required");
+	}
+	if (others.some((other) => other.key === state.key)) {
+		errors.push(`Duplicate state key ${state.key}`);
+	}
+	return errors;
+}
+
+/**
+ * Share of a day a mark keeps the user out of the office:
+ * 1 for WFH, 0.5 for a half-day WFH, 0 for anything else
+ * @param state - Mark of the day, or null
+ * @param customStates - User-defined states, consulted for custom- keys
+ */
+export function getWfhShare(
+	state: string | null,
+	customStates: readonly CustomDayState[] = [],
+): number {
+	if (!state) return 0;
+	const custom = customStates.find((c) => c.key === state);
+	if (custom) return custom.effect === "wfh" ? 1 : 0;
+	return STATE_DEFAULTS[state]?.wfhShare ?? 0;
+}
+
+/**
+ * Whether a mark takes the day out of the week entirely (a user-defined
+ * state with the "excluded" effect)
+ */
+export function isExcludedState(
+	state: string | null,
+	customStates: readonly CustomDayState[] = [],
+): boolean {
+	return customStates.some((c) => c.key === state && c.effect === "excluded");
+}
+
+/**
+ * Build datepainter-compatible state config records from STATE_DEFAULTS and
+ * any user-defined states
+ */
+export function getDefaultStates(
+	customStates: readonly CustomDayState[] = [],
+): Record<
 	string,
 	{
 		label: string;
@@ -66,7 +217,7 @@ export function getDefaultStates(): Record<
 			position: "below";
 		}
 	> = {};
-	for (const [key, meta] of Object.entries(STATE_DEFAULTS)) {
+	for (const [key, meta] of Object.entries(getStateMetadata(customStates))) {
 		states[key] = {
 			label: meta.label,
 			color: meta.color,
@@ -77,3 +228,14 @@ export function getDefaultStates(): Record<
 	}
 	return states;
 }
+
+/**
+ * Give a live calendar the built-in and user-defined states; marks of a
+ * state the calendar does not know cannot be set
+ */
+export function applyCalendarStates(
+	calendar: Pick<CalendarInstance, "updateConfig">,
+	customStates: readonly CustomDayState[],
+): void {
+	calendar.updateConfig({ states: getDefaultStates(customStates) });
+}
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULTS } from "../../settings-constants";
+import {
+	clearProfiles,
+	createProfile,
+	DEFAULT_PROFILE_ID,
+	deleteProfile,
+	getActiveProfile,
+	profileMarksKey,
+	profileSettingsKey,
+	profileStore,
+	readStoredSnapshot,
+	renameProfile,
+	writeStoredSnapshot,
+} from "../profileStore";
+
+describe("profileStore", () => {
+	beforeEach(() => {
+		localStorage.clear();
+		clearProfiles();
+	});
+
+	it("starts with a single active Default profile", () => {
+		expect(getActiveProfile()).toEqual({
+			id: DEFAULT_PROFILE_ID,
+			name: "Default",
+		});
+	});
+
+	it("creates profiles with unique slug ids", () => {
+		const first = createProfile("  Acme Corp ");
+		const second = createProfile("Acme corp");
+		expect(first).toEqual({ id: "acme-corp", name: "Acme Corp" });
+		expect(second.id).toBe("acme-corp-2");
+		expect(profileStore.get().profiles).toHaveLength(3);
+		// Creating does not switch
+		expect(profileStore.get().activeId).toBe(DEFAULT_PROFILE_ID);
+	});
+
+	it("rejects blank names", () => {
+		expect(() => createProfile("  ")).toThrow("cannot be empty");
+		expect(() => renameProfile(DEFAULT_PROFILE_ID, "")).toThrow(
+			"cannot be empty",
+		);
+	});
+
+	it("renames a profile", () => {
+		renameProfile(DEFAULT_PROFILE_ID, "Me");
+		expect(getActiveProfile().name).toBe("Me");
+	});
+
+	it("deletes a parked profile and its stored data", () => {
+		const { id } = createProfile("Partner");
+		writeStoredSnapshot(id, { settings: DEFAULTS, marks: {} });
+		deleteProfile(id);
+		expect(profileStore.get().profiles.map((p) => p.id)).toEqual([
+			DEFAULT_PROFILE_ID,
+		]);
+		expect(localStorage.getItem(profileSettingsKey(id))).toBeNull();
+		expect(localStorage.getItem(profileMarksKey(id))).toBeNull();
+	});
+
+	it("refuses to delete the active profile", () => {
+		expect(() => deleteProfile(DEFAULT_PROFILE_ID)).toThrow("Switch to");
+	});
+});
+
+describe("stored snapshots", () => {
+	beforeEach(() => {
+		localStorage.clear();
+	});
+
+	it("round-trips settings and marks under namespaced keys", () => {
+		const snapshot = {
+			settings: { ...DEFAULTS, minOfficeDays: 2 },
+			marks: { "2025-03-03": "oof", "2025-03-04": "sick" },
+		};
+		writeStoredSnapshot("work", snapshot);
+		expect(localStorage.getItem("rto-calculator-settings:work")).not.toBeNull();
+		expect(
+			localStorage.getItem("datepainter:selectedDates:work"),
+		).not.toBeNull();
+		expect(readStoredSnapshot("work")).toEqual(snapshot);
+	});
+
+	it("reads missing or corrupt data as an empty profile", () => {
+		localStorage.setItem(profileMarksKey("broken"), "{not json");
+		expect(readStoredSnapshot("broken")).toEqual({
+			settings: DEFAULTS,
+			marks: {},
+		});
+	});
+
+	it("fills settings saved by an older version with defaults", () => {
+		localStorage.setItem(
+			profileSettingsKey("old"),
+			JSON.stringify({ minOfficeDays: 4 }),
+		);
+		expect(readStoredSnapshot("old").settings).toEqual({
+			...DEFAULTS,
+			minOfficeDays: 4,
+		});
+	});
+});
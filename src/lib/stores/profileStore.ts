@@ -0,0 +1,212 @@
+/**
+ * Profile Store
+ *
+ * Named profiles let several people (or jobs) share one device. The live
+ * stores — settingsStore and datepainter's selectedDates — always hold the
+ * active profile; every other profile is parked under namespaced keys
+ * until it is switched in. Existing single-profile data becomes the
+ * "Default" profile without migration.
+ *
+ * This module only manages the registry and the parked copies; swapping
+ * them into the calendar lives in lib/profiles.ts.
+ */
+
+import { persistentAtom } from "@nanostores/persistent";
+import {
+	type AppSettings,
+	DEFAULTS,
+	SETTINGS_KEY,
+} from "../settings-constants";
+
+export const PROFILES_KEY = "rto-calculator-profiles";
+/** localStorage key of datepainter's selectedDates atom */
+export const MARKS_KEY = "datepainter:selectedDates";
+export const DEFAULT_PROFILE_ID = "default";
+
+export interface Profile {
+	id: string;
+	name: string;
+}
+
+export interface ProfileRegistry {
+	activeId: string;
+	profiles: Profile[];
+}
+
+/** Everything a profile owns; holiday selection lives in settings.holidays */
+export interface ProfileSnapshot {
+	settings: AppSettings;
+	/** Date state by YYYY-MM-DD key */
+	marks: Record<string, string>;
+}
+
+const DEFAULT_REGISTRY: ProfileRegistry = {
+	activeId: DEFAULT_PROFILE_ID,
+	profiles: [{ id: DEFAULT_PROFILE_ID, name: "Default" }],
+};
+
+function isRegistry(value: unknown): value is ProfileRegistry {
+	if (!value || typeof value !== "object") return false;
+	const { activeId, profiles } = value as Partial<ProfileRegistry>;
+	return (
+		Array.isArray(profiles) &&
+		profiles.some((p) => p?.id === activeId) &&
+		profiles.every(
+			(p) => typeof p?.id === "string" && typeof p.name === "string",
+		)
+	);
+}
+
+export const profileStore = persistentAtom<ProfileRegistry>(
+	PROFILES_KEY,
+	DEFAULT_REGISTRY,
+	{
+		encode: JSON.stringify,
+		decode: (raw: string): ProfileRegistry => {
+			try {
+				const parsed: unknown = JSON.parse(raw);
+				return isRegistry(parsed) ? parsed : DEFAULT_REGISTRY;
+			} catch {
+				return DEFAULT_REGISTRY;
+			}
+		},
+	},
+);
+
+export function profileSettingsKey(id: string): string {
+	return `${SETTINGS_KEY}:${id}`;
+}
+
+export function profileMarksKey(id: string): string {
+	return `${MARKS_KEY}:${id}`;
+}
+
+/** The profile whose data is in the live stores */
+export function getActiveProfile(): Profile {
+	const { activeId, profiles } = profileStore.get();
+	return (
+		profiles.find((p) => p.id === activeId) ?? {
+			id: DEFAULT_PROFILE_ID,
+			name: "Default",
+		}
+	);
+}
+
+/**
+ * Subscribe to registry changes (switch, create, rename, delete).
+ * Like onSettingsChange, fires immediately with the current registry.
+ */
+export function onProfileChange(
+	callback: (registry: ProfileRegistry) => void,
+): () => void {
+	return profileStore.subscribe(callback);
+}
+
+function slugify(name: string): string {
+	return (
+		name
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-|-$/g, "") || "profile"
+	);
+}
+
+/**
+ * Add a profile to the registry without switching to it.
+ * Its data starts empty (default settings, no marks) until written.
+ *
+ * @throws Error if the name is blank
+ */
+export function createProfile(name: string): Profile {
+	const trimmed = name.trim();
+	if (!trimmed) {
+		throw new Error("Profile name cannot be empty");
+	}
+	const registry = profileStore.get();
+	const taken = new Set(registry.profiles.map((p) => p.id));
+	const base = slugify(trimmed);
+	let id = base;
+	for (let n = 2; taken.has(id); n++) {
+		id = `${base}-${n}`;
+	}
+	const profile = { id, name: trimmed };
+	profileStore.set({ ...registry, profiles: [...registry.profiles, profile] });
+	return profile;
+}
+
+/** @throws Error if the name is blank */
+export function renameProfile(id: string, name: string): void {
+	const trimmed = name.trim();
+	if (!trimmed) {
+		throw new Error("Profile name cannot be empty");
+	}
+	const registry = profileStore.get();
+	profileStore.set({
+		...registry,
+		profiles: registry.profiles.map((p) =>
+			p.id === id ? { ...p, name: trimmed } : p,
+		),
+	});
+}
+
+/**
+ * Remove a parked profile and its stored data.
+ *
+ * @throws Error for the active profile — switch away first
+ */
+export function deleteProfile(id: string): void {
+	const registry = profileStore.get();
+	if (id === registry.activeId) {
+		throw new Error("Switch to another profile before deleting this one");
+	}
+	localStorage.removeItem(profileSettingsKey(id));
+	localStorage.removeItem(profileMarksKey(id));
+	profileStore.set({
+		...registry,
+		profiles: registry.profiles.filter((p) => p.id !== id),
+	});
+}
+
+/** Read a parked profile; missing or corrupt data reads as empty */
+export function readStoredSnapshot(id: string): ProfileSnapshot {
+	let settings: AppSettings = { ...DEFAULTS };
+	let marks: Record<string, string> = {};
+	try {
+		const raw = localStorage.getItem(profileSettingsKey(id));
+		if (raw) settings = { ...DEFAULTS, ...JSON.parse(raw) };
+	} catch {
+		// Keep defaults
+	}
+	try {
+		const raw = localStorage.getItem(profileMarksKey(id));
+		// Same [date, state][] encoding as datepainter's selectedDates
+		if (raw) marks = Object.fromEntries(JSON.parse(raw));
+	} catch {
+		// Keep empty
+	}
+	return { settings, marks };
+}
+
+/** Park a profile's data under its namespaced keys */
+export function writeStoredSnapshot(
+	id: string,
+	snapshot: ProfileSnapshot,
+): void {
+	localStorage.setItem(
+		profileSettingsKey(id),
+		JSON.stringify(snapshot.settings),
+	);
+	localStorage.setItem(
+		profileMarksKey(id),
+		JSON.stringify(Object.entries(snapshot.marks)),
+	);
+}
+
+/** Drop every parked profile and reset the registry to Default only */
+export function clearProfiles(): void {
+	for (const { id } of profileStore.get().profiles) {
+		localStorage.removeItem(profileSettingsKey(id));
+		localStorage.removeItem(profileMarksKey(id));
+	}
+	profileStore.set(DEFAULT_REGISTRY);
+}
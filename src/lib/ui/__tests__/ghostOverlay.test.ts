@@ -0,0 +1,79 @@
+/**
+ * Ghost Overlay Tests
+ *
+ * Verifies data-ghost marking, survival across className rewrites and
+ * re-application after the grid re-renders (month navigation).
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { GhostOverlay } from "../ghostOverlay";
+
+function renderMonth(container: HTMLElement, dates: string[]): void {
+	container.innerHTML = dates
+		.map((d) => `<div class="datepainter__day" data-date="${d}"></div>`)
+		.join("");
+}
+
+function ghostDates(
+	container: HTMLElement,
+	attribute = "data-ghost",
+): string[] {
+	return [...container.querySelectorAll(`[${attribute}]`)].map(
+		(el) => el.getAttribute("data-date") ?? "",
+	);
+}
+
+describe("GhostOverlay", () => {
+	let container: HTMLElement;
+
+	beforeEach(() => {
+		container = document.createElement("div");
+		renderMonth(container, ["2025-03-03", "2025-03-04", "2025-03-05"]);
+	});
+
+	it("marks only the previewed dates", () => {
+		const overlay = new GhostOverlay(container);
+		overlay.show(["2025-03-04", "2025-04-01"]);
+		expect(ghostDates(container)).toEqual(["2025-03-04"]);
+		expect(overlay.isShowing).toBe(true);
+	});
+
+	it("keeps marks when a cell's className is rewritten", () => {
+		const overlay = new GhostOverlay(container);
+		overlay.show(["2025-03-04"]);
+		const cell = container.querySelector('[data-date="2025-03-04"]');
+		if (!cell) throw new Error("missing cell");
+		cell.className = "datepainter__day datepainter__day--oof";
+		expect(ghostDates(container)).toEqual(["2025-03-04"]);
+	});
+
+	it("re-applies marks after the grid re-renders", async () => {
+		const overlay = new GhostOverlay(container);
+		overlay.show(["2025-04-01"]);
+		renderMonth(container, ["2025-04-01", "2025-04-02"]);
+		// MutationObserver callbacks run as microtasks
+		await Promise.resolve();
+		expect(ghostDates(container)).toEqual(["2025-04-01"]);
+	});
+
+	it("leaves another overlay's marks alone", () => {
+		const planner = new GhostOverlay(container);
+		const breaks = new GhostOverlay(container, "data-ghost-break");
+		planner.show(["2025-03-03"]);
+		breaks.show(["2025-03-05"]);
+		expect(ghostDates(container)).toEqual(["2025-03-03"]);
+		expect(ghostDates(container, "data-ghost-break")).toEqual(["2025-03-05"]);
+	});
+
+	it("clears every mark", async () => {
+		const overlay = new GhostOverlay(container);
+		overlay.show(["2025-03-03", "2025-03-05"]);
+		overlay.clear();
+		expect(ghostDates(container)).toEqual([]);
+		expect(overlay.isShowing).toBe(false);
+
+		renderMonth(container, ["2025-03-03"]);
+		await Promise.resolve();
+		expect(ghostDates(container)).toEqual([]);
+	});
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it, test } from "vitest";
 import type { DotInfo } from "../weekDot";
-import { buildDotClass, buildDotHtml } from "../weekDot";
+import { buildDotClass, buildDotHtml, buildWeekDotsHtml } from "../weekDot";
 
 describe("buildDotClass", () => {
 	test.each([
@@ -103,6 +103,36 @@ describe("buildDotHtml", () => {
 		expect(html).toContain("Jan 13: 1 days (dropped)");
 	});
 
+	it("notes a missed anchor day in aria and tip", () => {
+		const info: DotInfo = {
+			weekStart: new Date(2025, 0, 13),
+			officeDays: 4,
+			isBest: false,
+			isCompliant: false,
+			missedAnchor: true,
+		};
+		const html = buildDotHtml(info);
+		expect(html).toContain(
+			"Jan 13: 4 office days, dropped, non-compliant, missed anchor day",
+		);
+		expect(html).toContain("Jan 13: 4 days (dropped, anchor day WFH)");
+	});
+
+	it("shows a pro-rated requirement in aria and tip", () => {
+		const info: DotInfo = {
+			weekStart: new Date(2025, 0, 13),
+			officeDays: 2,
+			isBest: true,
+			isCompliant: true,
+			requiredDays: 2,
+		};
+		const html = buildDotHtml(info);
+		expect(html).toContain(
+			"Jan 13: 2 of 2 required office days, evaluated, compliant",
+		);
+		expect(html).toContain("Jan 13: 2 days (needs 2)");
+	});
+
 	it("hides tip text with aria-hidden", () => {
 		const info: DotInfo = {
 			weekStart: new Date(2025, 0, 6),
@@ -114,3 +144,40 @@ describe("buildDotHtml", () => {
 		expect(html).toContain('aria-hidden="true"');
 	});
 });
+
+describe("buildWeekDotsHtml", () => {
+	it("places weeks on leave between the window's weeks in date order", () => {
+		const weeks: DotInfo[] = [
+			{
+				weekStart: new Date(2025, 0, 6),
+				officeDays: 3,
+				isBest: true,
+				isCompliant: true,
+			},
+			{
+				weekStart: new Date(2025, 0, 20),
+				officeDays: 4,
+				isBest: true,
+				isCompliant: true,
+			},
+		];
+		const html = buildWeekDotsHtml(weeks, [new Date(2025, 0, 13)]);
+		const labels = [...html.matchAll(/aria-label="([^"]+)"/g)].map((m) => m[1]);
+		expect(labels).toEqual([
+			"Jan 6: 3 office days, evaluated, compliant",
+			"Jan 13: on leave, skipped",
+			"Jan 20: 4 office days, evaluated, compliant",
+		]);
+		expect(html).toContain("we-dot--leave");
+	});
+
+	it("renders only the weeks when none are on leave", () => {
+		const week: DotInfo = {
+			weekStart: new Date(2025, 0, 6),
+			officeDays: 3,
+			isBest: true,
+			isCompliant: true,
+		};
+		expect(buildWeekDotsHtml([week])).toBe(buildDotHtml(week));
+	});
+});
@@ -175,4 +175,21 @@ describe("buildWindowRowHtml", () => {
 		expect(html).toContain("we-row-avg");
 		expect(html).toContain("0.0");
 	});
+
+	it("should render period label and quota progress for period summaries", () => {
+		const html = buildWindowRowHtml(
+			createMockSummary({
+				windowIndex: 1,
+				period: {
+					label: "Feb 2025",
+					officeDays: 10,
+					requiredDays: 12,
+					isPartial: true,
+				},
+			}),
+		);
+		expect(html).toContain("Feb 2025 (partial)");
+		expect(html).toContain(">P2<");
+		expect(html).toContain(">10/12<");
+	});
 });
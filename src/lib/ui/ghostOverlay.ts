@@ -0,0 +1,50 @@
+/**
+ * Ghost overlay — previews suggested dates on the datepainter grid.
+ *
+ * Marks day cells with a `data-ghost` attribute instead of a class because
+ * datepainter rewrites each cell's className on every state change. Month
+ * navigation re-renders the cells, so a MutationObserver re-applies the
+ * marks while a preview is showing. Each tool passes its own attribute so
+ * two previews can share the grid.
+ */
+
+export class GhostOverlay {
+	private dates = new Set<string>();
+	private observer: MutationObserver | null = null;
+
+	constructor(
+		private readonly container: HTMLElement,
+		private readonly attribute = "data-ghost",
+	) {}
+
+	/** Show the given YYYY-MM-DD dates as ghosts, replacing any preview */
+	show(dates: Iterable<string>): void {
+		this.dates = new Set(dates);
+		this.paint();
+		if (!this.observer) {
+			this.observer = new MutationObserver(() => this.paint());
+			this.observer.observe(this.container, { childList: true, subtree: true });
+		}
+	}
+
+	/** Remove every ghost and stop watching the grid */
+	clear(): void {
+		this.dates.clear();
+		this.observer?.disconnect();
+		this.observer = null;
+		this.paint();
+	}
+
+	get isShowing(): boolean {
+		return this.dates.size > 0;
+	}
+
+	private paint(): void {
+		const cells =
+			this.container.querySelectorAll<HTMLElement>(".datepainter__day");
+		for (const cell of cells) {
+			const date = cell.getAttribute("data-date");
+			cell.toggleAttribute(this.attribute, !!date && this.dates.has(date));
+		}
+	}
+}
@@ -3,6 +3,7 @@
  *
  * Pure functions with no DOM dependency. Both WindowWeekDetail and DotInfo
  * satisfy the DotInfo interface structurally — no adapter code needed.
+ * Weeks on leave have no detail, only a start date, and get a dot of their own.
  */
 
 import { fmtShort } from "../dateUtils";
@@ -13,6 +14,9 @@ export interface DotInfo {
 	officeDays: number;
 	isBest: boolean;
 	isCompliant: boolean;
+	missedAnchor?: boolean;
+	/** Pro-rated requirement for the week, shown when present */
+	requiredDays?: number;
 }
 
 /** Returns the CSS class string for a week dot (e.g. "we-dot we-dot--best-ok"). */
@@ -32,11 +36,46 @@ export function buildDotHtml(info: DotInfo): string {
 	const tipDate = fmtShort(info.weekStart);
 	const stateDesc = info.isBest ? "evaluated" : "dropped";
 	const complianceDesc = info.isCompliant ? "compliant" : "non-compliant";
-	const ariaLabel = `${tipDate}: ${info.officeDays} office days, ${stateDesc}, ${complianceDesc}`;
-	const tipText = info.isBest
-		? `${tipDate}: ${info.officeDays} days`
-		: `${tipDate}: ${info.officeDays} days (dropped)`;
+	const anchorDesc = info.missedAnchor ? ", missed anchor day" : "";
+	const requiredDesc =
+		info.requiredDays !== undefined ? ` of ${info.requiredDays} required` : "";
+	const ariaLabel = `${tipDate}: ${info.officeDays}${requiredDesc} office days, ${stateDesc}, ${complianceDesc}${anchorDesc}`;
+	const tipNotes = [
+		...(info.requiredDays !== undefined ? [`needs ${info.requiredDays}`] : []),
+		...(info.isBest ? [] : ["dropped"]),
+		...(info.missedAnchor ? ["anchor day WFH"] : []),
+	];
+	const tipText =
+		tipNotes.length > 0
+			? `${tipDate}: ${info.officeDays} days (${tipNotes.join(", ")})`
+			: `${tipDate}: ${info.officeDays} days`;
 	const dotClass = buildDotClass(info);
 
 	return `<span class="we-dot-wrap"><span class="${dotClass}" role="img" aria-label="${ariaLabel}"></span><span class="we-dot-tip" aria-hidden="true">${tipText}</span></span>`;
 }
+
+/** Returns the HTML for a week on leave, which its window skipped. */
+export function buildLeaveDotHtml(weekStart: Date): string {
+	const tipDate = fmtShort(weekStart);
+	return `<span class="we-dot-wrap"><span class="we-dot we-dot--leave" role="img" aria-label="${tipDate}: on leave, skipped"></span><span class="we-dot-tip" aria-hidden="true">${tipDate}: on leave</span></span>`;
+}
+
+/** Returns the dots for a window's weeks in date order, weeks on leave included. */
+export function buildWeekDotsHtml(
+	weekDetails: DotInfo[],
+	leaveWeeks: Date[] = [],
+): string {
+	return [
+		...weekDetails.map((info) => ({
+			time: info.weekStart.getTime(),
+			html: buildDotHtml(info),
+		})),
+		...leaveWeeks.map((weekStart) => ({
+			time: weekStart.getTime(),
+			html: buildLeaveDotHtml(weekStart),
+		})),
+	]
+		.sort((a, b) => a.time - b.time)
+		.map((dot) => dot.html)
+		.join("");
+}
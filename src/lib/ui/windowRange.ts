@@ -5,20 +5,24 @@
  * satisfy the `{weekStart: Date}` shape structurally — no adapter code needed.
  */
 
-import { assertSundayMidnight } from "../date-helpers";
-import { fmtShort } from "../dateUtils";
-import { FRIDAY_OFFSET } from "../validation/constants";
+import { assertLocalMidnight } from "../date-helpers";
+import { fmtShort, getWeekdayOffset } from "../dateUtils";
+import { FRIDAY } from "../validation/constants";
 
 /**
  * Compute the Friday end date of a window given its weeks.
  * Returns a new Date for the Friday of the last week, or null for empty input.
+ * Weeks may start on any day; the Friday is the first one on or after the
+ * last week's start.
  */
 export function buildWindowEnd(weeks: Array<{ weekStart: Date }>): Date | null {
 	if (weeks.length === 0) return null;
 	const lastWeek = weeks[weeks.length - 1];
 	if (!lastWeek) return null;
 	const windowEnd = new Date(lastWeek.weekStart);
-	windowEnd.setDate(windowEnd.getDate() + FRIDAY_OFFSET);
+	windowEnd.setDate(
+		windowEnd.getDate() + getWeekdayOffset(lastWeek.weekStart, FRIDAY),
+	);
 	return windowEnd;
 }
 
@@ -32,7 +36,7 @@ export function buildWindowRangeLabel(
 	if (weeks.length === 0) return "";
 	const firstWeek = weeks[0];
 	if (!firstWeek) return "";
-	assertSundayMidnight(firstWeek.weekStart, "buildWindowRangeLabel first week");
+	assertLocalMidnight(firstWeek.weekStart, "buildWindowRangeLabel first week");
 	const windowEnd = buildWindowEnd(weeks);
 	if (!windowEnd) return "";
 	return `${fmtShort(firstWeek.weekStart)} – ${fmtShort(windowEnd)}`;
@@ -6,7 +6,7 @@
  */
 
 import type { WindowSummary } from "../validation/all-windows";
-import { buildDotHtml } from "./weekDot";
+import { buildWeekDotsHtml } from "./weekDot";
 import { buildWindowRangeLabel } from "./windowRange";
 
 /**
@@ -14,21 +14,30 @@ import { buildWindowRangeLabel } from "./windowRange";
  *
  * Uses `we-row-*` CSS classes shared by WindowExplorer and WindowBreakdown.
  * The label shows the date range, the tag shows PASS/FAIL, dots show week
- * compliance state, and avg shows the average office days across best weeks.
+ * compliance state (weeks on leave included), and avg shows the average
+ * office days across best weeks.
+ * Fixed-period summaries show the period name and office days vs quota instead.
  */
 export function buildWindowRowHtml(summary: WindowSummary): string {
-	const label = buildWindowRangeLabel(summary.weekDetails);
+	const { period } = summary;
+	const label = period
+		? `${period.label}${period.isPartial ? " (partial)" : ""}`
+		: buildWindowRangeLabel(summary.weekDetails);
 	const tagClass = summary.isValid ? "we-row-tag--pass" : "we-row-tag--fail";
 	const tagText = summary.isValid ? "PASS" : "FAIL";
 
-	const dots = summary.weekDetails.map(buildDotHtml).join("");
-	const indexLabel = `<span class="we-row-index">W${summary.windowIndex + 1}</span>`;
+	const dots = buildWeekDotsHtml(summary.weekDetails, summary.leaveWeeks);
+	const indexPrefix = period ? "P" : "W";
+	const indexLabel = `<span class="we-row-index">${indexPrefix}${summary.windowIndex + 1}</span>`;
+	const avg = period
+		? `${period.officeDays}/${period.requiredDays}`
+		: summary.averageOfficeDays.toFixed(1);
 
 	return `<div class="we-row">
 	${indexLabel}
 	<span class="we-row-label">${label}</span>
 	<span class="we-row-dots">${dots}</span>
 	<span class="we-row-tag ${tagClass}">${tagText}</span>
-	<span class="we-row-avg">${summary.averageOfficeDays.toFixed(1)}</span>
+	<span class="we-row-avg">${avg}</span>
 </div>`;
 }
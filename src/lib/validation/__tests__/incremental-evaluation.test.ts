@@ -0,0 +1,178 @@
+/**
+ * Incremental Window Evaluation Tests
+ *
+ * Every incremental result must equal a full evaluation of the same request;
+ * the spies check that only the affected week and windows were rebuilt.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ComplianceRequest } from "../../compliance-request";
+import * as computeWeeks from "../../compute-weeks";
+import { DEFAULTS } from "../../settings-constants";
+import { evaluateWeeks } from "../evaluate-weeks";
+import { IncrementalWindowEvaluator } from "../incremental-evaluation";
+import * as policyEngine from "../policy-engine";
+
+// ─── Fixtures ─────────────────────────────────────────────────────
+
+// Sun Jan 5 → Sat Jun 28 2025: 25 full weeks, 14 twelve-week windows
+const BASE: ComplianceRequest = {
+	marks: { "2025-01-07": "oof", "2025-02-11": "sick" },
+	holidays: [new Date(2025, 0, 20)],
+	settings: { ...DEFAULTS },
+	range: {
+		startDate: new Date(2025, 0, 5),
+		endDate: new Date(2025, 5, 28),
+	},
+};
+
+function withMarks(
+	request: ComplianceRequest,
+	changes: Record<string, string | null>,
+): ComplianceRequest {
+	const marks = { ...request.marks };
+	for (const [date, state] of Object.entries(changes)) {
+		if (state === null) {
+			delete marks[date];
+		} else {
+			marks[date] = state;
+		}
+	}
+	return { ...request, marks };
+}
+
+function fullEvaluation(request: ComplianceRequest) {
+	const weeks = computeWeeks.computeWeeksFromMarks(
+		new Map(Object.entries(request.marks)),
+		request.holidays,
+		request.settings,
+		request.range,
+		request,
+	);
+	return evaluateWeeks(weeks, request.settings);
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("IncrementalWindowEvaluator", () => {
+	it("matches a full evaluation after a single-date edit", () => {
+		const evaluator = new IncrementalWindowEvaluator();
+		evaluator.evaluate(BASE);
+
+		const edited = withMarks(BASE, { "2025-03-12": "oof" });
+		expect(evaluator.evaluate(edited)).toEqual(fullEvaluation(edited));
+	});
+
+	it("matches a full evaluation after clearing and repainting dates", () => {
+		const evaluator = new IncrementalWindowEvaluator();
+		let request = BASE;
+		evaluator.evaluate(request);
+
+		for (const changes of [
+			{ "2025-01-07": null },
+			{ "2025-04-01": "oof", "2025-04-02": "oof", "2025-04-03": "oof" },
+			{ "2025-06-27": "holiday" },
+			{ "2025-02-11": null, "2025-05-06": "sick" },
+		]) {
+			request = withMarks(request, changes);
+			expect(evaluator.evaluate(request)).toEqual(fullEvaluation(request));
+		}
+	});
+
+	it("recomputes one week and re-scores only its windows", () => {
+		const evaluator = new IncrementalWindowEvaluator();
+		evaluator.evaluate(BASE);
+
+		const weeksSpy = vi.spyOn(computeWeeks, "computeWeeksFromMarks");
+		const evaluatorSpy = vi.spyOn(policyEngine, "getPolicyEvaluator");
+		// Week 2 (Jan 12) sits in windows 0 and 1 only
+		evaluator.evaluate(withMarks(BASE, { "2025-01-14": "oof" }));
+
+		expect(weeksSpy).toHaveBeenCalledTimes(1);
+		expect(weeksSpy.mock.calls[0]?.[3]).toEqual({
+			startDate: new Date(2025, 0, 12),
+			endDate: new Date(2025, 0, 18),
+		});
+		expect(evaluatorSpy).toHaveBeenCalledTimes(2);
+	});
+
+	it("keeps week numbers of recomputed weeks", () => {
+		const evaluator = new IncrementalWindowEvaluator();
+		evaluator.evaluate(BASE);
+		const result = evaluator.evaluate(withMarks(BASE, { "2025-03-12": "oof" }));
+		expect(result.allWeeks.map((w) => w.weekNumber)).toEqual(
+			result.allWeeks.map((_, i) => i + 1),
+		);
+	});
+
+	it("re-scores against the startingWeek-filtered weeks", () => {
+		const request: ComplianceRequest = {
+			...BASE,
+			settings: { ...DEFAULTS, startingWeek: "2025-02-02" },
+		};
+		const evaluator = new IncrementalWindowEvaluator();
+		evaluator.evaluate(request);
+
+		for (const date of ["2025-01-15", "2025-02-04", "2025-06-24"]) {
+			const edited = withMarks(request, { [date]: "oof" });
+			expect(evaluator.evaluate(edited)).toEqual(fullEvaluation(edited));
+		}
+	});
+
+	it("rebuilds period-quota summaries", () => {
+		const request: ComplianceRequest = {
+			...BASE,
+			settings: { ...DEFAULTS, policyKind: "period-quota" },
+		};
+		const evaluator = new IncrementalWindowEvaluator();
+		evaluator.evaluate(request);
+
+		const edited = withMarks(request, { "2025-03-31": "oof" });
+		expect(evaluator.evaluate(edited)).toEqual(fullEvaluation(edited));
+	});
+
+	it("falls back to a full evaluation when settings change", () => {
+		const evaluator = new IncrementalWindowEvaluator();
+		evaluator.evaluate(BASE);
+
+		const weeksSpy = vi.spyOn(computeWeeks, "computeWeeksFromMarks");
+		const stricter = { ...BASE, settings: { ...DEFAULTS, minOfficeDays: 4 } };
+		expect(evaluator.evaluate(stricter)).toEqual(fullEvaluation(stricter));
+		expect(weeksSpy.mock.calls[0]?.[3]).toEqual(BASE.range);
+	});
+
+	it("matches a full evaluation of an edit before the attendance cutoff", () => {
+		const evaluator = new IncrementalWindowEvaluator();
+		const tracked = { ...BASE, actualBefore: new Date(2025, 2, 3) };
+		evaluator.evaluate(tracked);
+
+		const edited = withMarks(tracked, { "2025-02-04": "office" });
+		expect(evaluator.evaluate(edited)).toEqual(fullEvaluation(edited));
+	});
+
+	it("falls back to a full evaluation when the attendance cutoff moves", () => {
+		const evaluator = new IncrementalWindowEvaluator();
+		const tracked = { ...BASE, actualBefore: new Date(2025, 2, 3) };
+		evaluator.evaluate(tracked);
+
+		const weeksSpy = vi.spyOn(computeWeeks, "computeWeeksFromMarks");
+		const nextDay = { ...BASE, actualBefore: new Date(2025, 2, 4) };
+		expect(evaluator.evaluate(nextDay)).toEqual(fullEvaluation(nextDay));
+		expect(weeksSpy.mock.calls[0]?.[3]).toEqual(BASE.range);
+	});
+
+	it("reuses the cached result when nothing in range changed", () => {
+		const evaluator = new IncrementalWindowEvaluator();
+		const first = evaluator.evaluate(BASE);
+		expect(evaluator.evaluate({ ...BASE, marks: { ...BASE.marks } })).toBe(
+			first,
+		);
+		expect(evaluator.evaluate(withMarks(BASE, { "2026-01-06": "oof" }))).toBe(
+			first,
+		);
+	});
+});
@@ -0,0 +1,263 @@
+/**
+ * Policy Engine Tests
+ *
+ * Tests evaluator lookup and the per-kind window verdicts, and checks that
+ * evaluateAllWindows and computeComplianceData follow the selected kind.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	makeSchedule,
+	makeWeeks,
+} from "../../../utils/astro/__tests__/testHelpers";
+import { computeComplianceData } from "../../compute-compliance";
+import { evaluateAllWindows } from "../all-windows";
+import {
+	getPolicyEvaluator,
+	isPolicyKind,
+	meetsWeeklyMinimum,
+	missedAnchorDay,
+	POLICY_EVALUATORS,
+} from "../policy-engine";
+import {
+	DEFAULT_RTO_POLICY,
+	getWeeklyRequirement,
+	type ProrationRounding,
+	type RTOPolicyConfig,
+	type WeekCompliance,
+} from "../rto-core";
+
+// ─── Helpers ──────────────────────────────────────────────────────
+
+const START = new Date(2025, 0, 5); // Sunday Jan 5 2025
+
+const EVERY_WEEK_POLICY: RTOPolicyConfig = {
+	...DEFAULT_RTO_POLICY,
+	kind: "every-week",
+};
+
+/** Mark one week as having WFH on an anchor day */
+function withAnchorMiss(weeks: WeekCompliance[], index: number) {
+	return weeks.map((w, i) =>
+		i === index ? { ...w, isCompliant: false, status: "anchor-missed" } : w,
+	);
+}
+
+// ─── Tests ────────────────────────────────────────────────────────
+
+describe("getPolicyEvaluator", () => {
+	it("defaults to best-k when kind is omitted", () => {
+		expect(getPolicyEvaluator(DEFAULT_RTO_POLICY).kind).toBe("best-k");
+	});
+
+	it("returns the evaluator registered for the kind", () => {
+		expect(getPolicyEvaluator(EVERY_WEEK_POLICY)).toBe(
+			POLICY_EVALUATORS["every-week"],
+		);
+	});
+});
+
+describe("isPolicyKind", () => {
+	it("accepts known kinds and rejects anything else", () => {
+		expect(isPolicyKind("best-k")).toBe(true);
+		expect(isPolicyKind("every-week")).toBe(true);
+		expect(isPolicyKind("monthly")).toBe(false);
+		expect(isPolicyKind(undefined)).toBe(false);
+	});
+});
+
+describe("meetsWeeklyMinimum", () => {
+	it("rounds office days only when rounding is enabled", () => {
+		expect(meetsWeeklyMinimum(2.5, DEFAULT_RTO_POLICY)).toBe(false);
+		expect(
+			meetsWeeklyMinimum(2.5, { ...DEFAULT_RTO_POLICY, roundPercentage: true }),
+		).toBe(true);
+	});
+});
+
+describe("every-week evaluator", () => {
+	const evaluator = POLICY_EVALUATORS["every-week"];
+
+	it("passes when every week reaches the minimum", () => {
+		const result = evaluator.evaluateWindow(
+			makeWeeks(START, 12, 3),
+			EVERY_WEEK_POLICY,
+		);
+		expect(result.isValid).toBe(true);
+		expect(result.averageOfficeDays).toBe(3);
+	});
+
+	it("fails on a single short week that best-k would drop", () => {
+		const weeks = makeSchedule(START, [11, 5], [1, 0]);
+		expect(
+			POLICY_EVALUATORS["best-k"].evaluateWindow(weeks, DEFAULT_RTO_POLICY)
+				.isValid,
+		).toBe(true);
+		expect(evaluator.evaluateWindow(weeks, EVERY_WEEK_POLICY).isValid).toBe(
+			false,
+		);
+	});
+
+	it("treats every week as evaluated", () => {
+		const weeks = makeWeeks(START, 12, 4);
+		const { bestWeeks } = evaluator.evaluateWindow(weeks, EVERY_WEEK_POLICY);
+		expect(bestWeeks).toHaveLength(12);
+	});
+});
+
+describe("policy kind end to end", () => {
+	const weeks = makeSchedule(START, [11, 5], [1, 0]);
+
+	function evaluate(policy: RTOPolicyConfig) {
+		const summaries = evaluateAllWindows(weeks, policy);
+		return computeComplianceData({
+			summaries,
+			policy,
+			allWeeks: [],
+			filteredWeeks: [],
+		});
+	}
+
+	it("best-k drops the short week and stays compliant", () => {
+		const data = evaluate(DEFAULT_RTO_POLICY);
+		expect(data.isCompliant).toBe(true);
+		expect(data.message).toMatch(/^Compliant: Best 8 of 12 weeks/);
+		expect(data.bufferWeeks).toBe(3);
+	});
+
+	it("every-week flags the short week and leaves no buffer", () => {
+		const data = evaluate(EVERY_WEEK_POLICY);
+		expect(data.isCompliant).toBe(false);
+		expect(data.message).toBe(
+			"Not compliant: 11 of 12 weeks at 3+ office days. Required: every week",
+		);
+		expect(data.bestWeekCount).toBe(12);
+		expect(data.bufferWeeks).toBe(0);
+		expect(
+			data.selectedSummary.weekDetails.every((detail) => detail.isBest),
+		).toBe(true);
+	});
+});
+
+describe("anchor days", () => {
+	const weeks = withAnchorMiss(makeWeeks(START, 12, 4), 2);
+
+	it("detects weeks flagged by the calendar reader", () => {
+		expect(missedAnchorDay(weeks[2]!)).toBe(true);
+		expect(missedAnchorDay(weeks[0]!)).toBe(false);
+	});
+
+	it("every-week fails on a missed anchor day despite enough days", () => {
+		const policy = { ...EVERY_WEEK_POLICY, anchorDays: [2, 3] };
+		const summaries = evaluateAllWindows(weeks, policy);
+		expect(summaries[0]!.isValid).toBe(false);
+		expect(
+			POLICY_EVALUATORS["every-week"].describe(summaries[0]!, policy),
+		).toBe(
+			"Not compliant: 11 of 12 weeks at 3+ office days. Required: every week, in office every Tue, Wed",
+		);
+	});
+
+	it("best-k drops a week that missed an anchor day first", () => {
+		const policy = { ...DEFAULT_RTO_POLICY, anchorDays: [2, 3] };
+		// The anchor miss is the only 5-day week, yet it is not a best week
+		const fiveDayMiss = withAnchorMiss(
+			makeWeeks(START, 12, 3).map((w, i) =>
+				i === 2 ? { ...w, officeDays: 5 } : w,
+			),
+			2,
+		);
+		const [summary] = evaluateAllWindows(fiveDayMiss, policy);
+		expect(summary!.isValid).toBe(true);
+		expect(summary!.weekDetails[2]).toMatchObject({ isBest: false });
+	});
+
+	it("best-k fails when a best week missed an anchor day", () => {
+		const policy = { ...DEFAULT_RTO_POLICY, anchorDays: [2, 3] };
+		// Five misses leave only seven weeks that attended every anchor day
+		let missed = makeWeeks(START, 12, 5);
+		for (const index of [0, 1, 2, 3, 4]) {
+			missed = withAnchorMiss(missed, index);
+		}
+		const [summary] = evaluateAllWindows(missed, policy);
+		expect(summary!.isValid).toBe(false);
+		expect(summary!.weekDetails.filter((w) => w.isBest)).toHaveLength(8);
+		expect(
+			summary!.weekDetails.filter((w) => w.isBest && w.missedAnchor),
+		).toHaveLength(1);
+		expect(getPolicyEvaluator(policy).describe(summary!, policy)).toMatch(
+			/^Not compliant: .*\. 5 weeks with WFH on an anchor day$/,
+		);
+	});
+
+	it("best-k keeps its verdict but reports a dropped miss", () => {
+		const policy = { ...DEFAULT_RTO_POLICY, anchorDays: [2, 3] };
+		const [summary] = evaluateAllWindows(weeks, policy);
+		expect(summary!.isValid).toBe(true);
+		expect(summary!.weekDetails[2]).toMatchObject({
+			isCompliant: false,
+			missedAnchor: true,
+		});
+		expect(getPolicyEvaluator(policy).describe(summary!, policy)).toMatch(
+			/\. 1 week with WFH on an anchor day$/,
+		);
+	});
+});
+
+describe("pro-rated weeks", () => {
+	const PRORATED: RTOPolicyConfig = { ...EVERY_WEEK_POLICY, prorate: true };
+	// Week 3 has a holiday: 4 days available, 2 spent in the office
+	const weeks = makeWeeks(START, 12, 3).map((w, i) =>
+		i === 2 ? { ...w, totalDays: 4, officeDays: 2 } : w,
+	);
+
+	it("scales the minimum to the days available", () => {
+		expect(getWeeklyRequirement({ totalDays: 4 }, PRORATED)).toBe(2);
+		expect(getWeeklyRequirement({ totalDays: 5 }, PRORATED)).toBe(3);
+		expect(getWeeklyRequirement({ totalDays: 0 }, PRORATED)).toBe(0);
+		expect(getWeeklyRequirement({ totalDays: 4 }, EVERY_WEEK_POLICY)).toBe(3);
+	});
+
+	it("rounds the scaled minimum by the chosen rule", () => {
+		const at = (prorationRounding: ProrationRounding) =>
+			[4, 3, 1].map((totalDays) =>
+				getWeeklyRequirement({ totalDays }, { ...PRORATED, prorationRounding }),
+			);
+		// 3 × 4/5 = 2.4, 3 × 3/5 = 1.8, 3 × 1/5 = 0.6
+		expect(at("floor")).toEqual([2, 1, 0]);
+		expect(at("nearest")).toEqual([2, 2, 1]);
+		expect(at("ceil")).toEqual([3, 2, 1]);
+	});
+
+	it("passes a short week that meets its lowered minimum", () => {
+		const [summary] = evaluateAllWindows(weeks, PRORATED);
+		expect(summary!.isValid).toBe(true);
+		expect(summary!.weekDetails[2]).toMatchObject({
+			officeDays: 2,
+			requiredDays: 2,
+			isCompliant: true,
+		});
+		expect(evaluateAllWindows(weeks, EVERY_WEEK_POLICY)[0]!.isValid).toBe(
+			false,
+		);
+	});
+
+	it("holds best-k windows to the sum of their weeks' minimums", () => {
+		const policy = { ...DEFAULT_RTO_POLICY, prorate: true };
+		const shortWeeks = makeWeeks(START, 12, 2).map((w, i) =>
+			i < 8 ? { ...w, totalDays: 4 } : w,
+		);
+		// Eight 4-day weeks at 2 days meet their minimum; at 5 days they would not
+		expect(evaluateAllWindows(shortWeeks, policy)[0]!.isValid).toBe(true);
+		expect(evaluateAllWindows(shortWeeks, DEFAULT_RTO_POLICY)[0]!.isValid).toBe(
+			false,
+		);
+	});
+
+	it("notes the pro-ration in the message", () => {
+		const [summary] = evaluateAllWindows(weeks, PRORATED);
+		expect(getPolicyEvaluator(PRORATED).describe(summary!, PRORATED)).toBe(
+			"Compliant: 12 of 12 weeks at 3+ office days. Required: every week, pro-rated in short weeks",
+		);
+	});
+});
@@ -32,6 +32,9 @@ vi.mock("../../calendar-data-reader", () => ({
 const mockSettings = {
 	debug: false,
 	saveData: true,
+	policyKind: "best-k" as const,
+	anchorDays: [] as number[],
+	workDays: [1, 2, 3, 4, 5],
 	minOfficeDays: 3,
 	rollingWindowWeeks: 12,
 	bestWeeksCount: 8,
@@ -67,6 +70,9 @@ function makeWeekInfo(
 		oofCount: 5 - officeDays,
 		holidayCount: 0,
 		sickCount: 0,
+		absentCount: 0,
+		attendedDays: 0,
+		anchorMissCount: 0,
 		officeDays,
 		totalDays: 5,
 		oofDays: 5 - officeDays,
@@ -230,6 +236,7 @@ describe("computeWindowEvaluation", () => {
 			startingWeek: "2025-01-13",
 			rollingWindowWeeks: 8,
 			bestWeeksCount: 6,
+			anchorDays: [2, 3],
 		});
 		evaluateAllWindows.mockReturnValue([]);
 
@@ -242,6 +249,8 @@ describe("computeWindowEvaluation", () => {
 		const [passedWeeks, passedPolicy] = call!;
 		// Policy should reflect the custom settings
 		expect(passedPolicy.rollingPeriodWeeks).toBe(8);
+		expect(passedPolicy.kind).toBe("best-k");
+		expect(passedPolicy.anchorDays).toEqual([2, 3]);
 		// Only 1 week after filter
 		expect(passedWeeks).toHaveLength(1);
 		expect(passedWeeks[0].weekStart).toEqual(new Date(2025, 0, 13));
@@ -1,19 +1,47 @@
 /**
  * All-Windows Evaluation
  *
- * Slides through every possible window and returns annotated summaries
- * for the WindowExplorer component.
+ * Slides through every possible window (or groups weeks into fixed
+ * months/quarters for period-quota policies) and returns annotated summaries
+ * for the WindowExplorer component. Each window is judged by the evaluator
+ * registered for `policy.kind` in the policy engine. Weeks spent entirely on
+ * leave are skipped, so a window stretches over the next eligible weeks.
  */
 
+import { fmtMonth, getWeekdayOffset } from "../dateUtils";
 import { buildWindowEnd } from "../ui/windowRange";
-import type { RTOPolicyConfig, WeekCompliance } from "./rto-core";
-import { evaluateSingleWindow } from "./rto-core";
+import { PERIOD_ANCHOR_DAY } from "./constants";
+import {
+	getPolicyEvaluator,
+	meetsWeeklyMinimum,
+	missedAnchorDay,
+} from "./policy-engine";
+import {
+	getWeeklyRequirement,
+	type PeriodQuotaPolicy,
+	type RTOPolicyConfig,
+	type WeekCompliance,
+} from "./rto-core";
 
 export interface WindowWeekDetail {
 	weekStart: Date;
 	officeDays: number;
+	/** Office days this week needed, set only when the policy pro-rates */
+	requiredDays?: number;
 	isBest: boolean;
 	isCompliant: boolean;
+	/** WFH was marked on a required anchor day */
+	missedAnchor?: boolean;
+}
+
+/** Quota bookkeeping for a fixed month/quarter (period-quota policies only) */
+export interface PeriodInfo {
+	/** e.g. "Mar 2025", "Q2 2025" or "Q1 FY2026" */
+	label: string;
+	officeDays: number;
+	/** Quota for this period, pro-rated when only part of it is in range */
+	requiredDays?: number;
+	isPartial: boolean;
 }
 
 export interface WindowSummary {
@@ -23,31 +51,115 @@ export interface WindowSummary {
 	isValid: boolean;
 	averageOfficeDays: number;
 	weekDetails: WindowWeekDetail[];
+	/** Weeks on leave between the first and last week, skipped by the window */
+	leaveWeeks?: Date[];
+	period?: PeriodInfo;
+}
+
+/** Whether a week was spent entirely on leave (see computeWeeksFromMarks) */
+export function isLeaveWeek(week: Pick<WeekCompliance, "status">): boolean {
+	return week.status === "excluded";
+}
+
+/**
+ * True when every window covering one of the given weeks passes.
+ * Planners use this to judge a trial edit by the windows it can affect.
+ *
+ * @param weekStarts - Week start timestamps (getStartOfWeek().getTime())
+ */
+export function windowsCoveringWeeksValid(
+	summaries: WindowSummary[],
+	weekStarts: ReadonlySet<number>,
+): boolean {
+	return summaries
+		.filter((s) =>
+			s.weekDetails.some((d) => weekStarts.has(d.weekStart.getTime())),
+		)
+		.every((s) => s.isValid);
 }
 
 /**
  * Evaluate all sliding windows and return annotated summaries.
  *
  * For N weeks with window size W, produces max(0, N - W + 1) summaries
- * (or 1 summary for partial windows where N < W and N > 0).
+ * (or 1 summary for partial windows where N < W and N > 0). Weeks on leave
+ * do not count towards N: each window holds W weeks that are not, and lists
+ * the leave weeks it spans in leaveWeeks. Period quotas lose the leave weeks
+ * too, which pro-rates the quota like a period cut off by the data.
  */
 export function evaluateAllWindows(
 	weeksData: WeekCompliance[],
 	policy: RTOPolicyConfig,
 ): WindowSummary[] {
-	if (weeksData.length === 0) return [];
+	const eligible = weeksData.filter((w) => !isLeaveWeek(w));
+	const leaveWeeks = weeksData.filter(isLeaveWeek).map((w) => w.weekStart);
+	if (eligible.length === 0) return [];
+	if (policy.kind === "period-quota") {
+		return evaluateAllPeriods(eligible, policy);
+	}
 
 	const W = policy.rollingPeriodWeeks;
 
 	// Partial window: fewer weeks than window size
+	if (eligible.length < W) {
+		return [buildSummary(0, eligible, policy, leaveWeeks)];
+	}
+
+	const summaries: WindowSummary[] = [];
+	for (let i = 0; i <= eligible.length - W; i++) {
+		const windowWeeks = eligible.slice(i, i + W);
+		summaries.push(buildSummary(i, windowWeeks, policy, leaveWeeks));
+	}
+	return summaries;
+}
+
+/**
+ * Re-score only the windows that contain changed weeks.
+ *
+ * `previous` must come from evaluateAllWindows (or this function) for the
+ * same number of weeks and the same policy; every window not containing one
+ * of `changedIndices` is reused as-is. Period-quota summaries are rebuilt in
+ * full since a week's period is only known after grouping, and so is every
+ * evaluation with weeks on leave, since they shift which weeks share a window.
+ *
+ * @param previous - Summaries from the last evaluation
+ * @param weeksData - Weeks with the changed entries replaced
+ * @param policy - Policy the previous summaries were built with
+ * @param changedIndices - Indices into weeksData of the replaced weeks
+ */
+export function rescoreWindows(
+	previous: WindowSummary[],
+	weeksData: WeekCompliance[],
+	policy: RTOPolicyConfig,
+	changedIndices: Iterable<number>,
+): WindowSummary[] {
+	if (
+		policy.kind === "period-quota" ||
+		weeksData.length === 0 ||
+		weeksData.some(isLeaveWeek)
+	) {
+		return evaluateAllWindows(weeksData, policy);
+	}
+
+	const W = policy.rollingPeriodWeeks;
 	if (weeksData.length < W) {
 		return [buildSummary(0, weeksData, policy)];
 	}
 
-	const summaries: WindowSummary[] = [];
-	for (let i = 0; i <= weeksData.length - W; i++) {
-		const windowWeeks = weeksData.slice(i, i + W);
-		summaries.push(buildSummary(i, windowWeeks, policy));
+	const summaries = [...previous];
+	const lastStart = weeksData.length - W;
+	const rescored = new Set<number>();
+	for (const changed of changedIndices) {
+		// Windows [changed - W + 1, changed] contain the changed week
+		for (
+			let i = Math.max(0, changed - W + 1);
+			i <= Math.min(changed, lastStart);
+			i++
+		) {
+			if (rescored.has(i)) continue;
+			rescored.add(i);
+			summaries[i] = buildSummary(i, weeksData.slice(i, i + W), policy);
+		}
 	}
 	return summaries;
 }
@@ -56,16 +168,21 @@ function buildSummary(
 	index: number,
 	windowWeeks: WeekCompliance[],
 	policy: RTOPolicyConfig,
+	leaveWeeks: Date[] = [],
 ): WindowSummary {
-	const { isValid, averageOfficeDays, bestWeeks } = evaluateSingleWindow(
-		windowWeeks,
+	const { isValid, averageOfficeDays, bestWeeks } = getPolicyEvaluator(
 		policy,
-	);
+	).evaluateWindow(windowWeeks, policy);
 	const bestSet = new Set(bestWeeks.map((w) => w.weekStart.getTime()));
 	const firstWeek = windowWeeks[0];
 	if (!firstWeek) throw new Error("empty windowWeeks in buildSummary");
 	const windowEnd = buildWindowEnd(windowWeeks);
 	if (!windowEnd) throw new Error("empty windowWeeks in buildSummary");
+	const lastStart =
+		windowWeeks[windowWeeks.length - 1]?.weekStart ?? firstWeek.weekStart;
+	const skipped = leaveWeeks.filter(
+		(d) => d > firstWeek.weekStart && d < lastStart,
+	);
 
 	return {
 		windowIndex: index,
@@ -73,13 +190,158 @@ function buildSummary(
 		windowEnd,
 		isValid,
 		averageOfficeDays,
-		weekDetails: windowWeeks.map((w) => ({
+		...(skipped.length > 0 ? { leaveWeeks: skipped } : {}),
+		weekDetails: windowWeeks.map((w) => {
+			const requiredDays = getWeeklyRequirement(w, policy);
+			return {
+				weekStart: w.weekStart,
+				officeDays: w.officeDays,
+				...(policy.prorate ? { requiredDays } : {}),
+				isBest: bestSet.has(w.weekStart.getTime()),
+				isCompliant:
+					meetsWeeklyMinimum(w.officeDays, policy, requiredDays) &&
+					!missedAnchorDay(w),
+				missedAnchor: missedAnchorDay(w),
+			};
+		}),
+	};
+}
+
+// ─── Fixed-Period Quotas ─────────────────────────────────────────
+
+interface PeriodBounds {
+	label: string;
+	/** First day of the period */
+	start: Date;
+	/** First day after the period */
+	end: Date;
+}
+
+/**
+ * Evaluate fixed calendar periods (months or fiscal quarters) and return one
+ * summary per period, in week order.
+ *
+ * Each week is assigned to the period containing its Wednesday. Periods cut
+ * off by the start or end of the data have their quota pro-rated by the
+ * share of the period's weeks that are present.
+ */
+export function evaluateAllPeriods(
+	weeksData: WeekCompliance[],
+	policy: PeriodQuotaPolicy,
+): WindowSummary[] {
+	const groups: Array<{ bounds: PeriodBounds; weeks: WeekCompliance[] }> = [];
+	for (const week of weeksData) {
+		const bounds = resolvePeriod(week.weekStart, policy);
+		const current = groups[groups.length - 1];
+		if (current && current.bounds.label === bounds.label) {
+			current.weeks.push(week);
+		} else {
+			groups.push({ bounds, weeks: [week] });
+		}
+	}
+
+	return groups.map(({ bounds, weeks }, index) =>
+		buildPeriodSummary(index, bounds, weeks, policy),
+	);
+}
+
+function buildPeriodSummary(
+	index: number,
+	bounds: PeriodBounds,
+	weeks: WeekCompliance[],
+	policy: PeriodQuotaPolicy,
+): WindowSummary {
+	const quota = policy.officeDaysPerPeriod;
+	const fullWeeks = countPeriodWeeks(bounds);
+	const isPartial = weeks.length < fullWeeks;
+	const requiredDays = isPartial
+		? Math.ceil((quota * weeks.length) / fullWeeks)
+		: quota;
+
+	// The evaluator judges the period against its (possibly pro-rated) quota
+	const { isValid, averageOfficeDays } = getPolicyEvaluator(
+		policy,
+	).evaluateWindow(weeks, { ...policy, officeDaysPerPeriod: requiredDays });
+
+	const firstWeek = weeks[0];
+	if (!firstWeek) throw new Error("empty weeks in buildPeriodSummary");
+	const windowEnd = buildWindowEnd(weeks);
+	if (!windowEnd) throw new Error("empty weeks in buildPeriodSummary");
+
+	// A week is on pace when it covers its share of the quota and the floor
+	const weeklyShare = Math.max(
+		policy.weeklyFloorDays,
+		requiredDays / weeks.length,
+	);
+
+	return {
+		windowIndex: index,
+		windowStart: firstWeek.weekStart,
+		windowEnd,
+		isValid,
+		averageOfficeDays,
+		weekDetails: weeks.map((w) => ({
 			weekStart: w.weekStart,
 			officeDays: w.officeDays,
-			isBest: bestSet.has(w.weekStart.getTime()),
-			isCompliant:
-				(policy.roundPercentage ? Math.round(w.officeDays) : w.officeDays) >=
-				policy.minOfficeDaysPerWeek,
+			isBest: true,
+			isCompliant: w.officeDays >= weeklyShare && !missedAnchorDay(w),
+			missedAnchor: missedAnchorDay(w),
 		})),
+		period: {
+			label: bounds.label,
+			officeDays: weeks.reduce((sum, w) => sum + w.officeDays, 0),
+			requiredDays,
+			isPartial,
+		},
+	};
+}
+
+/** Find the month or fiscal quarter a week belongs to */
+function resolvePeriod(
+	weekStart: Date,
+	policy: PeriodQuotaPolicy,
+): PeriodBounds {
+	const anchor = new Date(
+		weekStart.getFullYear(),
+		weekStart.getMonth(),
+		weekStart.getDate() + getWeekdayOffset(weekStart, PERIOD_ANCHOR_DAY),
+	);
+	const year = anchor.getFullYear();
+	const month = anchor.getMonth();
+
+	if (policy.quotaPeriod !== "quarter") {
+		return {
+			label: fmtMonth(anchor),
+			start: new Date(year, month, 1),
+			end: new Date(year, month + 1, 1),
+		};
+	}
+
+	const fiscalStart = policy.fiscalYearStartMonth;
+	const fiscalOffset = (month - fiscalStart + 12) % 12;
+	const quarter = Math.floor(fiscalOffset / 3) + 1;
+	const startMonth = month - (fiscalOffset % 3);
+	// Fiscal years are named after the calendar year they end in
+	const label =
+		fiscalStart === 0
+			? `Q${quarter} ${year}`
+			: `Q${quarter} FY${month >= fiscalStart ? year + 1 : year}`;
+
+	return {
+		label,
+		start: new Date(year, startMonth, 1),
+		end: new Date(year, startMonth + 3, 1),
 	};
 }
+
+/** Number of weeks whose Wednesday falls inside the period */
+function countPeriodWeeks(bounds: PeriodBounds): number {
+	const first = new Date(bounds.start);
+	first.setDate(first.getDate() + getWeekdayOffset(first, PERIOD_ANCHOR_DAY));
+	let count = 0;
+	while (first < bounds.end) {
+		count++;
+		first.setDate(first.getDate() + 7);
+	}
+	return count;
+}
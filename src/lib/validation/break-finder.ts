@@ -0,0 +1,247 @@
+/**
+ * Break Finder
+ *
+ * Looks for the longest runs of time away that a few bridge days can buy.
+ * Weekends, holidays and days already marked away are free; every other
+ * working day inside a run costs one bridge day, to be marked as PTO
+ * ("holiday") or WFH ("oof"). Sick days and excluded day types count as
+ * away; full WFH days only when the bridge days are WFH too. Office and
+ * half-day marks always cost a bridge day.
+ *
+ * For every start where the day before is a working day, the run is
+ * stretched until the budget is spent, giving the longest run from that
+ * start. Only runs containing a holiday are kept. Long weekends from the
+ * holiday source are added as extra candidates: they are usually shorter
+ * and cheaper than the stretched runs, so they remain an option when a
+ * longer run would break a window. Their cost is re-counted against the
+ * local calendar, which may have company filters applied.
+ *
+ * Runs are ranked longest first (then fewest bridge days, then earliest)
+ * and picked greedily without overlap. Each pick is checked on its own
+ * against the current marks, the way wfh-planner checks single days.
+ *
+ * @module break-finder
+ */
+
+import type { LongWeekend } from "../../types/holiday-data-source";
+import type { ComplianceRequest } from "../compliance-request";
+import { formatDate, parseLocalDate } from "../date-helpers";
+import { getWfhShare, isExcludedState } from "../state-defaults";
+import { windowsCoveringWeeksValid } from "./all-windows";
+import { IncrementalWindowEvaluator } from "./incremental-evaluation";
+import { getStartOfWeek, isWorkDay } from "./rto-core";
+
+/** Mark for bridge days: "holiday" for PTO, "oof" for WFH */
+export type BreakFillState = "holiday" | "oof";
+
+export interface BreakFinderOptions {
+	/** Working days to spend per break */
+	budgetDays: number;
+	/** State the bridge days are marked with */
+	fillState: BreakFillState;
+	/** Stop after this many suggestions */
+	limit: number;
+	/** Long weekends from the holiday source, tried alongside local runs */
+	longWeekends?: LongWeekend[];
+}
+
+export interface BreakSuggestion {
+	/** First day away (YYYY-MM-DD) */
+	startDate: string;
+	/** Last day away (YYYY-MM-DD) */
+	endDate: string;
+	/** Calendar days in the break */
+	totalDays: number;
+	/** Working days to mark with the fill state, in calendar order */
+	bridgeDates: string[];
+	/** Holidays inside the break */
+	holidayCount: number;
+	/** Where the run came from */
+	source: "calendar" | "long-weekend";
+}
+
+export const DEFAULT_BREAK_OPTIONS: BreakFinderOptions = {
+	budgetDays: 3,
+	fillState: "holiday",
+	limit: 5,
+};
+
+interface DayInfo {
+	key: string;
+	date: Date;
+	isHoliday: boolean;
+	/** Working day not yet away: taking it off spends a bridge day */
+	isCost: boolean;
+}
+
+/** Whether a day's mark already keeps the user away for a break */
+function isMarkedAway(
+	state: string | undefined,
+	fillState: BreakFillState,
+	request: ComplianceRequest,
+): boolean {
+	if (state === undefined) return false;
+	const customStates = request.settings.customStates;
+	return (
+		state === "sick" ||
+		isExcludedState(state, customStates) ||
+		(fillState === "oof" && getWfhShare(state, customStates) === 1)
+	);
+}
+
+/** Every day from `from` (or the range start, if later) to the range end */
+function listDays(
+	request: ComplianceRequest,
+	from: Date,
+	fillState: BreakFillState,
+): DayInfo[] {
+	const holidays = new Set(request.holidays.map((d) => d.toDateString()));
+	const start = new Date(
+		Math.max(
+			new Date(from.getFullYear(), from.getMonth(), from.getDate()).getTime(),
+			request.range.startDate.getTime(),
+		),
+	);
+
+	const days: DayInfo[] = [];
+	for (
+		const date = new Date(start);
+		date <= request.range.endDate;
+		date.setDate(date.getDate() + 1)
+	) {
+		const key = formatDate(date);
+		const state = request.marks[key];
+		const isHoliday = holidays.has(date.toDateString()) || state === "holiday";
+		days.push({
+			key,
+			date: new Date(date),
+			isHoliday,
+			isCost:
+				isWorkDay(date, request.settings.workDays) &&
+				!isHoliday &&
+				!isMarkedAway(state, fillState, request),
+		});
+	}
+	return days;
+}
+
+function buildSuggestion(
+	days: DayInfo[],
+	first: number,
+	last: number,
+	source: BreakSuggestion["source"],
+): BreakSuggestion | null {
+	const run = days.slice(first, last + 1);
+	const startDay = run[0];
+	const endDay = run[run.length - 1];
+	if (!startDay || !endDay) return null;
+	return {
+		startDate: startDay.key,
+		endDate: endDay.key,
+		totalDays: run.length,
+		bridgeDates: run.filter((d) => d.isCost).map((d) => d.key),
+		holidayCount: run.filter((d) => d.isHoliday).length,
+		source,
+	};
+}
+
+/** Longest run from each start whose previous day is a working day */
+function stretchedRuns(days: DayInfo[], budget: number): BreakSuggestion[] {
+	const runs: BreakSuggestion[] = [];
+	for (let first = 0; first < days.length; first++) {
+		if (first > 0 && !days[first - 1]?.isCost) continue;
+		let spent = 0;
+		let last = first - 1;
+		while (last + 1 < days.length) {
+			const cost = days[last + 1]?.isCost ? 1 : 0;
+			if (spent + cost > budget) break;
+			spent += cost;
+			last++;
+		}
+		const run = buildSuggestion(days, first, last, "calendar");
+		if (run) runs.push(run);
+	}
+	return runs;
+}
+
+function longWeekendRuns(
+	days: DayInfo[],
+	longWeekends: LongWeekend[],
+): BreakSuggestion[] {
+	const index = new Map(days.map((d, i) => [d.key, i]));
+	return longWeekends.flatMap((weekend) => {
+		const first = index.get(formatDate(weekend.startDate));
+		const last = index.get(formatDate(weekend.endDate));
+		if (first === undefined || last === undefined) return [];
+		const run = buildSuggestion(days, first, last, "long-weekend");
+		return run ? [run] : [];
+	});
+}
+
+function overlaps(a: BreakSuggestion, b: BreakSuggestion): boolean {
+	return a.startDate <= b.endDate && b.startDate <= a.endDate;
+}
+
+/**
+ * Suggest the longest breaks that keep every window valid.
+ *
+ * @param request - Current marks, holidays, settings and range
+ * @param options - Bridge-day budget, fill state, limit and long weekends
+ * @param from - First day a break may start (defaults to today)
+ * @returns Non-overlapping breaks, longest first
+ */
+export function findLongestBreaks(
+	request: ComplianceRequest,
+	options: BreakFinderOptions,
+	from: Date = new Date(),
+): BreakSuggestion[] {
+	const days = listDays(request, from, options.fillState);
+
+	// Same run from both sources: keep the calendar one
+	const unique = new Map<string, BreakSuggestion>();
+	for (const run of [
+		...stretchedRuns(days, options.budgetDays),
+		...longWeekendRuns(days, options.longWeekends ?? []),
+	]) {
+		const key = `${run.startDate}/${run.endDate}`;
+		if (
+			!unique.has(key) &&
+			run.holidayCount > 0 &&
+			run.bridgeDates.length > 0 &&
+			run.bridgeDates.length <= options.budgetDays
+		) {
+			unique.set(key, run);
+		}
+	}
+
+	const ranked = [...unique.values()].sort(
+		(a, b) =>
+			b.totalDays - a.totalDays ||
+			a.bridgeDates.length - b.bridgeDates.length ||
+			a.startDate.localeCompare(b.startDate),
+	);
+
+	const evaluator = new IncrementalWindowEvaluator();
+	const picked: BreakSuggestion[] = [];
+	for (const run of ranked) {
+		if (picked.length >= options.limit) break;
+		if (picked.some((p) => overlaps(p, run))) continue;
+
+		const marks = { ...request.marks };
+		const weeks = new Set<number>();
+		for (const key of run.bridgeDates) {
+			marks[key] = options.fillState;
+			weeks.add(
+				getStartOfWeek(
+					parseLocalDate(key),
+					request.settings.weekStartsOn,
+				).getTime(),
+			);
+		}
+		const { summaries } = evaluator.evaluate({ ...request, marks });
+		if (windowsCoveringWeeksValid(summaries, weeks)) {
+			picked.push(run);
+		}
+	}
+	return picked;
+}
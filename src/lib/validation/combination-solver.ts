@@ -13,10 +13,12 @@ export interface SolverConfig {
 	bestWeeksCount: number; // default 8
 	minOfficeDays: number; // default 3
 	totalWeekdays: number; // default 5
+	/** WFH days per distribution bucket; 0.5 allows half days (default 1) */
+	wfhStep?: number;
 }
 
 export interface WfhCombination {
-	/** distribution[i] = number of weeks with exactly i WFH days */
+	/** distribution[i] = number of weeks with exactly i × wfhStep WFH days */
 	distribution: number[];
 	bestKAverage: number;
 	isValid: boolean;
@@ -40,19 +42,21 @@ export const DEFAULT_SOLVER_CONFIG: SolverConfig = {
  * Compute best-K average office days from a WFH distribution.
  *
  * Greedily assigns weeks starting from lowest WFH days (highest office days)
- * to the best-K set.
+ * to the best-K set. Bucket i holds weeks with i × wfhStep WFH days, so a
+ * step of 0.5 counts half-day WFH marks.
  */
 export function computeBestKAverage(
 	distribution: number[],
 	config: SolverConfig,
 ): number {
 	const K = config.bestWeeksCount;
+	const step = config.wfhStep ?? 1;
 	let totalOfficeDays = 0;
 	let weeksAssigned = 0;
 
 	// Iterate from 0 WFH days (most office days) upward
 	for (let wfh = 0; wfh < distribution.length && weeksAssigned < K; wfh++) {
-		const officeDays = config.totalWeekdays - wfh;
+		const officeDays = config.totalWeekdays - wfh * step;
 		const weeksAtThisLevel = Math.min(
 			distribution[wfh] ?? 0,
 			K - weeksAssigned,
@@ -75,7 +79,9 @@ export function getTwoGroupCombinations(
 ): TwoGroupCombo[] {
 	const results: TwoGroupCombo[] = [];
 	const W = config.windowSize;
-	const maxWfh = config.totalWeekdays;
+	const step = config.wfhStep ?? 1;
+	// Highest bucket index: a whole week worked from home
+	const maxWfh = Math.round(config.totalWeekdays / step);
 
 	for (let wfhA = 0; wfhA <= maxWfh; wfhA++) {
 		for (let wfhB = wfhA + 1; wfhB <= maxWfh; wfhB++) {
@@ -89,13 +95,13 @@ export function getTwoGroupCombinations(
 				results.push({
 					groupA: {
 						weeks: countA,
-						wfhDays: wfhA,
-						officeDays: config.totalWeekdays - wfhA,
+						wfhDays: wfhA * step,
+						officeDays: config.totalWeekdays - wfhA * step,
 					},
 					groupB: {
 						weeks: countB,
-						wfhDays: wfhB,
-						officeDays: config.totalWeekdays - wfhB,
+						wfhDays: wfhB * step,
+						officeDays: config.totalWeekdays - wfhB * step,
 					},
 					bestKAverage: bestKAvg,
 					isValid: bestKAvg >= config.minOfficeDays,
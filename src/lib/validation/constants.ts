@@ -7,5 +7,14 @@ export const ROLLING_WINDOW_WEEKS = DEFAULT_POLICY.rollingPeriodWeeks;
 export const BEST_WEEKS_COUNT = DEFAULT_POLICY.topWeeksToCheck;
 export const COMPLIANCE_THRESHOLD = DEFAULT_POLICY.thresholdPercentage;
 
-// Offset from week start (Sunday) to Friday: Sunday=0, Mon=1, Tue=2, Wed=3, Thu=4, Fri=5
-export const FRIDAY_OFFSET = 5;
+// Weekday (getDay index) a week's window ends on: the last day of the work week.
+// Use getWeekdayOffset(weekStart, FRIDAY) for its distance from the week start.
+export const FRIDAY = 5;
+
+// Default fixed-period quota: office days required per calendar month
+export const MONTHLY_QUOTA_DAYS = 12;
+
+// Weekday (getDay index) that anchors a week to a period: a week belongs to the
+// month or quarter containing its Wednesday, i.e. the period holding most of
+// its weekdays, whichever day the week starts on.
+export const PERIOD_ANCHOR_DAY = 3;
@@ -0,0 +1,99 @@
+/**
+ * Week Evaluation
+ *
+ * Pure half of the window evaluation pipeline: turns already-computed weeks
+ * and explicit settings into window summaries. Free of datepainter, DOM and
+ * store imports so the compliance worker and the headless plan checker can
+ * load it; window-evaluation.ts adds the live-calendar entry point.
+ *
+ * @module evaluate-weeks
+ */
+
+import type { WeekInfo } from "../../types/index";
+import { convertWeeksToCompliance } from "../compute-weeks";
+import type { AppSettings } from "../settings-constants";
+import { evaluateAllWindows, type WindowSummary } from "./all-windows";
+import { DEFAULT_RTO_POLICY, type RTOPolicyConfig } from "./rto-core";
+
+export interface WindowEvaluationResult {
+	/** All sliding window summaries */
+	summaries: WindowSummary[];
+	/** The RTOPolicyConfig used for evaluation */
+	policy: RTOPolicyConfig;
+	/** Unfiltered weeks from calendar (before startingWeek filter) */
+	allWeeks: WeekInfo[];
+	/** Weeks after startingWeek filter applied */
+	filteredWeeks: WeekInfo[];
+}
+
+/**
+ * Build an RTOPolicyConfig from explicit settings.
+ *
+ * Pure function: same input always produces the same output.
+ * Replaces the old readSettings-based buildPolicyFromSettings().
+ * The week length and the threshold percentage come from the working days,
+ * so three days of a four-day week is 75%. Pro-ration scales the weekly
+ * minimum in weeks shortened by excused days (see getWeeklyRequirement).
+ * The quota fields are only carried by a period-quota policy.
+ */
+export function buildPolicyFromSettings(
+	settings: AppSettings,
+): RTOPolicyConfig {
+	const base = {
+		...DEFAULT_RTO_POLICY,
+		minOfficeDaysPerWeek: settings.minOfficeDays,
+		totalWeekdaysPerWeek: settings.workDays.length,
+		thresholdPercentage: settings.minOfficeDays / settings.workDays.length,
+		rollingPeriodWeeks: settings.rollingWindowWeeks,
+		topWeeksToCheck: settings.bestWeeksCount,
+		anchorDays: settings.anchorDays,
+		roundPercentage: settings.roundPercentage,
+		weekendBonus: settings.weekendBonus,
+		weekStartsOn: settings.weekStartsOn,
+		workDays: settings.workDays,
+		prorate: settings.prorateRequirement,
+		prorationRounding: settings.prorationRounding,
+	};
+	if (settings.policyKind !== "period-quota") {
+		return { ...base, kind: settings.policyKind };
+	}
+	return {
+		...base,
+		kind: "period-quota",
+		quotaPeriod: settings.quotaPeriod,
+		officeDaysPerPeriod: settings.officeDaysPerPeriod,
+		fiscalYearStartMonth: settings.fiscalYearStartMonth,
+		weeklyFloorDays: settings.weeklyFloorDays,
+	};
+}
+
+/**
+ * Evaluate already-read weeks against explicit settings.
+ *
+ * Applies the startingWeek filter, builds the policy and evaluates all
+ * sliding windows.
+ *
+ * @param allWeeks - Weeks from readCalendarData
+ * @param settings - Settings that define the policy and starting week
+ * @returns All window summaries, policy, and week data
+ */
+export function evaluateWeeks(
+	allWeeks: WeekInfo[],
+	settings: AppSettings,
+): WindowEvaluationResult {
+	let filteredWeeks = allWeeks;
+
+	if (settings.startingWeek) {
+		const startDate = new Date(`${settings.startingWeek}T00:00:00`);
+		const startIdx = allWeeks.findIndex((w) => w.weekStart >= startDate);
+		if (startIdx > 0) {
+			filteredWeeks = allWeeks.slice(startIdx);
+		}
+	}
+
+	const policy = buildPolicyFromSettings(settings);
+	const weeksForValidation = convertWeeksToCompliance(filteredWeeks);
+	const summaries = evaluateAllWindows(weeksForValidation, policy);
+
+	return { summaries, policy, allWeeks, filteredWeeks };
+}
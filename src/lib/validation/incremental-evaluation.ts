@@ -0,0 +1,201 @@
+/**
+ * Incremental Window Evaluation
+ *
+ * Stateful wrapper around the computeWeeksFromMarks → evaluateWeeks pipeline
+ * for the compliance worker. It remembers the last request and its result;
+ * when only marks changed, it recomputes just the weeks holding the changed
+ * dates and re-scores just the windows containing those weeks. Any change
+ * to settings, holidays or range falls back to a full evaluation.
+ *
+ * @module incremental-evaluation
+ */
+
+import type { WeekInfo } from "../../types/index";
+import type { ComplianceRequest } from "../compliance-request";
+import {
+	computeWeeksFromMarks,
+	weekInfoToWeekCompliance,
+} from "../compute-weeks";
+import { parseLocalDate } from "../date-helpers";
+import { rescoreWindows } from "./all-windows";
+import { evaluateWeeks, type WindowEvaluationResult } from "./evaluate-weeks";
+import { getStartOfWeek, type WeekCompliance } from "./rto-core";
+
+interface EvaluationCache {
+	/** Serialized settings, holidays and range the result was built for */
+	key: string;
+	marks: Record<string, string>;
+	result: WindowEvaluationResult;
+	/** WeekCompliance view of result.filteredWeeks */
+	complianceWeeks: WeekCompliance[];
+}
+
+/**
+ * Everything except the marks; a change here invalidates the cache,
+ * including the attendance cutoff moving on to a new day
+ */
+function cacheKey(request: ComplianceRequest): string {
+	return JSON.stringify({
+		settings: request.settings,
+		range: [request.range.startDate.getTime(), request.range.endDate.getTime()],
+		holidays: request.holidays.map((d) => d.getTime()),
+		actualBefore: request.actualBefore?.getTime() ?? null,
+	});
+}
+
+/** Dates whose state differs between two mark records */
+function diffMarks(
+	before: Record<string, string>,
+	after: Record<string, string>,
+): string[] {
+	const changed: string[] = [];
+	for (const [date, state] of Object.entries(after)) {
+		if (before[date] !== state) changed.push(date);
+	}
+	for (const date of Object.keys(before)) {
+		if (!(date in after)) changed.push(date);
+	}
+	return changed;
+}
+
+export class IncrementalWindowEvaluator {
+	private cache: EvaluationCache | null = null;
+
+	/**
+	 * Evaluate a request, reusing the previous result where marks allow.
+	 *
+	 * Returns the same result evaluateWeeks would for a full read of the
+	 * request's marks.
+	 */
+	evaluate(request: ComplianceRequest): WindowEvaluationResult {
+		const key = cacheKey(request);
+		const cache = this.cache;
+		if (!cache || cache.key !== key) {
+			return this.evaluateFully(request, key);
+		}
+
+		const changedDates = diffMarks(cache.marks, request.marks);
+		if (changedDates.length === 0) {
+			return cache.result;
+		}
+
+		const weekIndexByStart = new Map(
+			cache.result.allWeeks.map((w, i) => [w.weekStart.getTime(), i]),
+		);
+		const changedWeeks = new Set<number>();
+		for (const date of changedDates) {
+			let weekStart: Date;
+			try {
+				weekStart = getStartOfWeek(
+					parseLocalDate(date),
+					request.settings.weekStartsOn,
+				);
+			} catch {
+				return this.evaluateFully(request, key);
+			}
+			const index = weekIndexByStart.get(weekStart.getTime());
+			// Dates outside the evaluated range cannot affect any window
+			if (index !== undefined) changedWeeks.add(index);
+		}
+
+		if (changedWeeks.size === 0) {
+			this.cache = { ...cache, marks: request.marks };
+			return cache.result;
+		}
+
+		return this.evaluateChangedWeeks(request, cache, changedWeeks);
+	}
+
+	/** Drop the cached result so the next request is evaluated in full */
+	reset(): void {
+		this.cache = null;
+	}
+
+	private evaluateFully(
+		request: ComplianceRequest,
+		key: string,
+	): WindowEvaluationResult {
+		const weeks = computeWeeksFromMarks(
+			new Map(Object.entries(request.marks)),
+			request.holidays,
+			request.settings,
+			request.range,
+			request,
+		);
+		const result = evaluateWeeks(weeks, request.settings);
+		this.cache = {
+			key,
+			marks: request.marks,
+			result,
+			complianceWeeks: result.filteredWeeks.map(weekInfoToWeekCompliance),
+		};
+		return result;
+	}
+
+	private evaluateChangedWeeks(
+		request: ComplianceRequest,
+		cache: EvaluationCache,
+		changedWeeks: Set<number>,
+	): WindowEvaluationResult {
+		const { result } = cache;
+		const marks = new Map(Object.entries(request.marks));
+		const allWeeks = [...result.allWeeks];
+		const complianceWeeks = [...cache.complianceWeeks];
+		// Weeks before the startingWeek cutoff are not in filteredWeeks
+		const offset = allWeeks.length - result.filteredWeeks.length;
+		const changedFiltered: number[] = [];
+
+		for (const index of changedWeeks) {
+			const previous = allWeeks[index];
+			if (!previous) continue;
+			const week = recomputeWeek(marks, request, previous);
+			allWeeks[index] = week;
+			if (index >= offset) {
+				complianceWeeks[index - offset] = weekInfoToWeekCompliance(week);
+				changedFiltered.push(index - offset);
+			}
+		}
+
+		const updated: WindowEvaluationResult = {
+			summaries: rescoreWindows(
+				result.summaries,
+				complianceWeeks,
+				result.policy,
+				changedFiltered,
+			),
+			policy: result.policy,
+			allWeeks,
+			filteredWeeks: allWeeks.slice(offset),
+		};
+		this.cache = {
+			key: cache.key,
+			marks: request.marks,
+			result: updated,
+			complianceWeeks,
+		};
+		return updated;
+	}
+}
+
+/** Rebuild one week from the current marks, keeping its position number */
+function recomputeWeek(
+	marks: ReadonlyMap<string, string>,
+	request: ComplianceRequest,
+	previous: WeekInfo,
+): WeekInfo {
+	const weekEnd = new Date(previous.weekStart);
+	weekEnd.setDate(weekEnd.getDate() + 6);
+	const [week] = computeWeeksFromMarks(
+		marks,
+		request.holidays,
+		request.settings,
+		{
+			startDate: previous.weekStart,
+			endDate:
+				weekEnd < request.range.endDate ? weekEnd : request.range.endDate,
+		},
+		request,
+	);
+	if (!week) throw new Error("recomputeWeek: week left the range");
+	return { ...week, weekNumber: previous.weekNumber };
+}
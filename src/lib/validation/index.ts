@@ -8,8 +8,23 @@
 // Re-export elementToDaySelection from dom-adapters for backward compatibility
 // (was previously in rto-core, moved to keep validation pure)
 export { elementToDaySelection } from "../dom-adapters";
-export type { WindowSummary, WindowWeekDetail } from "./all-windows";
-export { evaluateAllWindows } from "./all-windows";
+export type {
+	PeriodInfo,
+	WindowSummary,
+	WindowWeekDetail,
+} from "./all-windows";
+export {
+	evaluateAllPeriods,
+	evaluateAllWindows,
+	rescoreWindows,
+	windowsCoveringWeeksValid,
+} from "./all-windows";
+export type {
+	BreakFillState,
+	BreakFinderOptions,
+	BreakSuggestion,
+} from "./break-finder";
+export { DEFAULT_BREAK_OPTIONS, findLongestBreaks } from "./break-finder";
 export type {
 	SolverConfig,
 	TwoGroupCombo,
@@ -24,11 +39,26 @@ export {
 	BEST_WEEKS_COUNT,
 	COMPLIANCE_THRESHOLD,
 	MINIMUM_COMPLIANT_DAYS,
+	MONTHLY_QUOTA_DAYS,
 	REQUIRED_OFFICE_DAYS,
 	ROLLING_WINDOW_WEEKS,
 	TOTAL_WEEK_DAYS,
 } from "./constants";
+export type { PolicyEvaluator } from "./policy-engine";
+export {
+	getPolicyEvaluator,
+	isPolicyKind,
+	isQuotaPeriod,
+	meetsWeeklyMinimum,
+	missedAnchorDay,
+	POLICY_EVALUATORS,
+} from "./policy-engine";
 export type {
+	BestKPolicy,
+	EveryWeekPolicy,
+	PeriodQuotaPolicy,
+	PolicyKind,
+	QuotaPeriod,
 	RTOPolicyConfig,
 	SingleWindowEvaluation,
 	SlidingWindowResult,
@@ -37,5 +67,9 @@ export type {
 export {
 	DEFAULT_RTO_POLICY,
 	evaluateSingleWindow,
+	POLICY_KINDS,
+	QUOTA_PERIODS,
 	validateSlidingWindow,
 } from "./rto-core";
+export type { PlannerTarget, WfhPlan } from "./wfh-planner";
+export { DEFAULT_PLANNER_TARGET, planWfhDays } from "./wfh-planner";
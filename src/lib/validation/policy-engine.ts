@@ -0,0 +1,257 @@
+/**
+ * Policy Engine
+ *
+ * Maps each RTO policy kind to the evaluator that decides whether a window
+ * of weeks passes and how the verdict is worded. evaluateAllWindows,
+ * computeComplianceData and the UI all resolve the evaluator through
+ * getPolicyEvaluator(), so switching the policy kind in Settings changes the
+ * verdict end to end.
+ *
+ * @module policy-engine
+ */
+
+import { fmtWeekdays } from "../dateUtils";
+import type { WindowSummary } from "./all-windows";
+import {
+	type BestKPolicy,
+	buildComplianceMessage,
+	type EveryWeekPolicy,
+	evaluateSingleWindow,
+	getWeeklyRequirement,
+	type PeriodQuotaPolicy,
+	POLICY_KINDS,
+	type PolicyKind,
+	PRORATION_ROUNDINGS,
+	type ProrationRounding,
+	QUOTA_PERIODS,
+	type QuotaPeriod,
+	type RTOPolicyConfig,
+	roundToWholeDays,
+	type SingleWindowEvaluation,
+	type WeekCompliance,
+} from "./rto-core";
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/**
+ * Evaluator for one policy kind. Method syntax keeps the parameters
+ * bivariant, so an evaluator typed for its own variant still fits
+ * PolicyEvaluator<RTOPolicyConfig>.
+ */
+export interface PolicyEvaluator<P extends RTOPolicyConfig = RTOPolicyConfig> {
+	kind: P["kind"];
+	/** Short human-readable name, used by the Settings selector */
+	label: string;
+	/** Decide whether one window of weeks satisfies the policy */
+	evaluateWindow(
+		windowWeeks: WeekCompliance[],
+		policy: P,
+	): SingleWindowEvaluation;
+	/** Build the status message for an evaluated window */
+	describe(summary: WindowSummary, policy: P): string;
+}
+
+// ─── Shared Helpers ─────────────────────────────────────────────────
+
+/**
+ * Whether a single week reaches the weekly minimum, or the given
+ * requirement (see getWeeklyRequirement for pro-rated weeks).
+ * Rounds office days first when percentage rounding is enabled.
+ */
+export function meetsWeeklyMinimum(
+	officeDays: number,
+	policy: RTOPolicyConfig,
+	requiredDays = policy.minOfficeDaysPerWeek,
+): boolean {
+	const days = policy.roundPercentage ? Math.round(officeDays) : officeDays;
+	return days >= requiredDays;
+}
+
+/** Whether a week had WFH marked on one of the policy's anchor days */
+export function missedAnchorDay(week: WeekCompliance): boolean {
+	return week.status === "anchor-missed";
+}
+
+/** Suffix naming the anchor days, empty when the policy has none */
+function anchorText(policy: RTOPolicyConfig): string {
+	const anchorDays = policy.anchorDays ?? [];
+	return anchorDays.length > 0
+		? `, in office every ${fmtWeekdays(anchorDays)}`
+		: "";
+}
+
+/** Note on a weekly minimum that shrinks in short weeks */
+function prorateText(policy: RTOPolicyConfig): string {
+	return policy.prorate ? ", pro-rated in short weeks" : "";
+}
+
+// ─── Evaluators ─────────────────────────────────────────────────────
+
+const bestKEvaluator: PolicyEvaluator<BestKPolicy> = {
+	kind: "best-k",
+	label: "Best weeks of a rolling window",
+	// Weeks with WFH on an anchor day rank below every other week; the
+	// window fails if one of them still has to count among the best
+	evaluateWindow(windowWeeks, policy) {
+		const evalCount = Math.min(policy.topWeeksToCheck, windowWeeks.length);
+		const kept = windowWeeks.filter((w) => !missedAnchorDay(w));
+		if (kept.length >= evalCount) {
+			return evaluateSingleWindow(kept, {
+				...policy,
+				topWeeksToCheck: evalCount,
+			});
+		}
+		const { bestWeeks: bestMissed } = evaluateSingleWindow(
+			windowWeeks.filter(missedAnchorDay),
+			{ ...policy, topWeeksToCheck: evalCount - kept.length },
+		);
+		const result = evaluateSingleWindow([...kept, ...bestMissed], {
+			...policy,
+			topWeeksToCheck: evalCount,
+		});
+		return { ...result, isValid: false };
+	},
+	describe(summary, policy) {
+		const bestCount = summary.weekDetails.filter((w) => w.isBest).length;
+		const { avgDaysStr, indicator, label } = buildComplianceMessage(
+			summary.averageOfficeDays,
+			summary.isValid,
+			policy.roundPercentage,
+		);
+		const missedCount = summary.weekDetails.filter(
+			(w) => w.missedAnchor,
+		).length;
+		const anchorNote =
+			missedCount > 0
+				? `. ${missedCount} ${missedCount === 1 ? "week" : "weeks"} with WFH on an anchor day`
+				: "";
+		return `${label}: Best ${bestCount} of ${summary.weekDetails.length} weeks average${indicator} ${avgDaysStr} office days. Required: ${policy.minOfficeDaysPerWeek}${prorateText(policy)}${anchorNote}`;
+	},
+};
+
+const everyWeekEvaluator: PolicyEvaluator<EveryWeekPolicy> = {
+	kind: "every-week",
+	label: "Every week of a rolling window",
+	evaluateWindow(windowWeeks, policy) {
+		const totalOfficeDays = windowWeeks.reduce(
+			(sum, week) => sum + week.officeDays,
+			0,
+		);
+		const averageOfficeDays =
+			windowWeeks.length > 0 ? totalOfficeDays / windowWeeks.length : 0;
+		const totalDays = windowWeeks.reduce(
+			(sum, week) => sum + week.totalDays,
+			0,
+		);
+		const rawPercentage =
+			totalDays > 0 ? (totalOfficeDays / totalDays) * 100 : 0;
+		const averageOfficePercentage =
+			policy.roundPercentage !== false
+				? roundToWholeDays(rawPercentage, policy)
+				: rawPercentage;
+
+		// No week is ever dropped, so every week counts as evaluated
+		return {
+			isValid: windowWeeks.every(
+				(w) =>
+					meetsWeeklyMinimum(
+						w.officeDays,
+						policy,
+						getWeeklyRequirement(w, policy),
+					) && !missedAnchorDay(w),
+			),
+			averageOfficeDays,
+			averageOfficePercentage,
+			bestWeeks: [...windowWeeks],
+		};
+	},
+	describe(summary, policy) {
+		const goodCount = summary.weekDetails.filter((w) => w.isCompliant).length;
+		const label = summary.isValid ? "Compliant" : "Not compliant";
+		return `${label}: ${goodCount} of ${summary.weekDetails.length} weeks at ${policy.minOfficeDaysPerWeek}+ office days. Required: every week${prorateText(policy)}${anchorText(policy)}`;
+	},
+};
+
+const periodQuotaEvaluator: PolicyEvaluator<PeriodQuotaPolicy> = {
+	kind: "period-quota",
+	label: "Quota per month or quarter",
+	// Called once per period by evaluateAllPeriods with the period's quota
+	evaluateWindow(windowWeeks, policy) {
+		const totalOfficeDays = windowWeeks.reduce(
+			(sum, week) => sum + week.officeDays,
+			0,
+		);
+		const totalDays = windowWeeks.reduce(
+			(sum, week) => sum + week.totalDays,
+			0,
+		);
+		const rawPercentage =
+			totalDays > 0 ? (totalOfficeDays / totalDays) * 100 : 0;
+		const floor = policy.weeklyFloorDays;
+
+		return {
+			isValid:
+				totalOfficeDays >= policy.officeDaysPerPeriod &&
+				windowWeeks.every((w) => w.officeDays >= floor && !missedAnchorDay(w)),
+			averageOfficeDays:
+				windowWeeks.length > 0 ? totalOfficeDays / windowWeeks.length : 0,
+			averageOfficePercentage:
+				policy.roundPercentage !== false
+					? roundToWholeDays(rawPercentage, policy)
+					: rawPercentage,
+			bestWeeks: [...windowWeeks],
+		};
+	},
+	describe(summary, policy) {
+		const label = summary.isValid ? "Compliant" : "Not compliant";
+		const floor = policy.weeklyFloorDays;
+		const floorText = `${floor > 0 ? `, no week below ${floor}` : ""}${anchorText(policy)}`;
+		const period = summary.period;
+		if (!period) {
+			return `${label}: ${policy.officeDaysPerPeriod} office days required per ${policy.quotaPeriod}${floorText}`;
+		}
+		const partialText = period.isPartial ? " (partial)" : "";
+		return `${label}: ${period.officeDays} office days in ${period.label}${partialText}. Required: ${period.requiredDays}${floorText}`;
+	},
+};
+
+export const POLICY_EVALUATORS: {
+	[K in PolicyKind]: PolicyEvaluator<Extract<RTOPolicyConfig, { kind: K }>>;
+} = {
+	"best-k": bestKEvaluator,
+	"every-week": everyWeekEvaluator,
+	"period-quota": periodQuotaEvaluator,
+};
+
+// ─── Lookup ─────────────────────────────────────────────────────────
+
+/** Type guard for values read from the DOM or from imported settings */
+export function isPolicyKind(value: unknown): value is PolicyKind {
+	return (
+		typeof value === "string" &&
+		(POLICY_KINDS as readonly string[]).includes(value)
+	);
+}
+
+/** Type guard for the period-quota period length */
+export function isQuotaPeriod(value: unknown): value is QuotaPeriod {
+	return (
+		typeof value === "string" &&
+		(QUOTA_PERIODS as readonly string[]).includes(value)
+	);
+}
+
+/** Type guard for the pro-rated minimum's rounding rule */
+export function isProrationRounding(
+	value: unknown,
+): value is ProrationRounding {
+	return (
+		typeof value === "string" &&
+		(PRORATION_ROUNDINGS as readonly string[]).includes(value)
+	);
+}
+
+/** Resolve the evaluator for a policy's kind */
+export function getPolicyEvaluator(policy: RTOPolicyConfig): PolicyEvaluator {
+	return POLICY_EVALUATORS[policy.kind];
+}
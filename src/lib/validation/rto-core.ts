@@ -6,7 +6,12 @@
  * across the calendar, using best-8-of-12 policy.
  */
 
-import { getFullWeekDates, getStartOfWeek, isWeekday } from "../dateUtils";
+import {
+	getFullWeekDates,
+	getStartOfWeek,
+	isWorkDay,
+	type WeekStartDay,
+} from "../dateUtils";
 import {
 	BEST_WEEKS_COUNT,
 	COMPLIANCE_THRESHOLD,
@@ -17,16 +22,73 @@ import {
 
 // ==================== Type Definitions ====================
 
-export interface RTOPolicyConfig {
+/**
+ * Policy kinds understood by the policy engine (see policy-engine.ts).
+ * - "best-k": the top K weeks of each rolling window must average the minimum
+ * - "every-week": every week of each rolling window must reach the minimum
+ * - "period-quota": each calendar month or fiscal quarter must reach a total
+ */
+export const POLICY_KINDS = ["best-k", "every-week", "period-quota"] as const;
+
+export type PolicyKind = (typeof POLICY_KINDS)[number];
+
+export const QUOTA_PERIODS = ["month", "quarter"] as const;
+
+export type QuotaPeriod = (typeof QUOTA_PERIODS)[number];
+
+/** How a pro-rated weekly minimum is rounded to whole days */
+export const PRORATION_ROUNDINGS = ["floor", "ceil", "nearest"] as const;
+
+export type ProrationRounding = (typeof PRORATION_ROUNDINGS)[number];
+
+/** Fields shared by every policy kind */
+interface BasePolicyConfig {
 	minOfficeDaysPerWeek: number;
+	/** Working days in a full week; the number of workDays */
 	totalWeekdaysPerWeek: number;
 	thresholdPercentage: number;
 	rollingPeriodWeeks: number;
 	topWeeksToCheck: number;
 	roundPercentage?: boolean;
 	weekendBonus?: boolean;
+	/** Weekdays (getDay index, 1 = Monday) that must be spent in the office */
+	anchorDays?: number[];
+	/** Day the evaluated weeks start on (default Sunday) */
+	weekStartsOn?: WeekStartDay;
+	/** Days of the week worked (getDay index); omitted means Monday-Friday */
+	workDays?: number[];
+	/** Scale the weekly minimum to the days available in each week */
+	prorate?: boolean;
+	/** Rounding for a pro-rated minimum (default "nearest") */
+	prorationRounding?: ProrationRounding;
+}
+
+/** Average the best topWeeksToCheck weeks of each rolling window */
+export interface BestKPolicy extends BasePolicyConfig {
+	kind: "best-k";
+}
+
+/** Every week of each rolling window must reach the weekly minimum */
+export interface EveryWeekPolicy extends BasePolicyConfig {
+	kind: "every-week";
+}
+
+/** A total of office days per calendar month or fiscal quarter */
+export interface PeriodQuotaPolicy extends BasePolicyConfig {
+	kind: "period-quota";
+	/** Length of each fixed period */
+	quotaPeriod: QuotaPeriod;
+	/** Office days required in a full period */
+	officeDaysPerPeriod: number;
+	/** Month that starts the fiscal year (0 = January) */
+	fiscalYearStartMonth: number;
+	/** No single week may fall below this many office days */
+	weeklyFloorDays: number;
 }
 
+/** Policy evaluated by the window pipeline, keyed on its evaluator kind */
+export type RTOPolicyConfig = BestKPolicy | EveryWeekPolicy | PeriodQuotaPolicy;
+
 export interface WeekCompliance {
 	weekNumber: number;
 	weekStart: Date;
@@ -50,7 +112,8 @@ export interface SlidingWindowResult {
 
 // ==================== Configuration ====================
 
-export const DEFAULT_RTO_POLICY: RTOPolicyConfig = {
+export const DEFAULT_RTO_POLICY: BestKPolicy = {
+	kind: "best-k",
 	minOfficeDaysPerWeek: MINIMUM_COMPLIANT_DAYS,
 	totalWeekdaysPerWeek: TOTAL_WEEK_DAYS,
 	thresholdPercentage: COMPLIANCE_THRESHOLD,
@@ -63,6 +126,51 @@ export function roundToNearest20Percent(value: number): number {
 	return Math.round(value / 20) * 20;
 }
 
+/**
+ * Round a percentage to the nearest whole day of the policy's work week:
+ * 20% steps for five working days, 25% for four, a third for three.
+ */
+export function roundToWholeDays(
+	value: number,
+	policy: Pick<RTOPolicyConfig, "totalWeekdaysPerWeek">,
+): number {
+	const days = policy.totalWeekdaysPerWeek;
+	return days > 0 ? (Math.round((value * days) / 100) / days) * 100 : value;
+}
+
+const PRORATION_ROUNDERS: Record<ProrationRounding, (days: number) => number> =
+	{
+		floor: Math.floor,
+		ceil: Math.ceil,
+		nearest: Math.round,
+	};
+
+/**
+ * Office days a week must reach. Without pro-ration this is always the
+ * policy minimum; with it, a week whose available days (totalDays: working
+ * days minus holidays, sick days and leave) are short of a full week
+ * needs the minimum scaled to those days, rounded to whole days. Three of
+ * five days becomes two in a four-day week under "floor" or "nearest".
+ */
+export function getWeeklyRequirement(
+	week: Pick<WeekCompliance, "totalDays">,
+	policy: Pick<
+		RTOPolicyConfig,
+		| "minOfficeDaysPerWeek"
+		| "totalWeekdaysPerWeek"
+		| "prorate"
+		| "prorationRounding"
+	>,
+): number {
+	const fullWeek = policy.totalWeekdaysPerWeek;
+	if (!policy.prorate || week.totalDays >= fullWeek || fullWeek <= 0) {
+		return policy.minOfficeDaysPerWeek;
+	}
+	const scaled =
+		(policy.minOfficeDaysPerWeek * Math.max(0, week.totalDays)) / fullWeek;
+	return PRORATION_ROUNDERS[policy.prorationRounding ?? "nearest"](scaled);
+}
+
 // ==================== Compliance Message Builder ====================
 
 /**
@@ -97,21 +205,29 @@ export function buildComplianceMessage(
 }
 
 // ==================== Date Utilities ====================
-// Note: getStartOfWeek, isWeekday, and getFullWeekDates are now canonical
+// Note: getStartOfWeek, isWeekday, isWorkDay and getFullWeekDates are now canonical
 // in src/lib/dateUtils.ts. They are imported above for use in this module.
 // Re-exported here for backward compatibility with consumers that import
 // from this module.
 
-export { getFullWeekDates, getStartOfWeek, isWeekday } from "../dateUtils";
+export {
+	getFullWeekDates,
+	getStartOfWeek,
+	isWeekday,
+	isWorkDay,
+} from "../dateUtils";
 
 /**
- * Snap a date forward to the next Sunday (or return same Sunday if already Sunday).
- * Use getStartOfWeek() for the current week's Sunday.
+ * Snap a date forward to the next week start (or return the same day if it
+ * already is one). Weeks start on Sunday unless weekStartsOn says otherwise.
+ * Use getStartOfWeek() for the current week's start.
  */
-export function snapToWeekStart(date: Date): Date {
+export function snapToWeekStart(
+	date: Date,
+	weekStartsOn: WeekStartDay = 0,
+): Date {
 	const d = new Date(date.getTime());
-	const day = d.getDay();
-	const daysToAdd = day === 0 ? 0 : 7 - day; // Same Sunday or next Sunday
+	const daysToAdd = (weekStartsOn - d.getDay() + 7) % 7; // Same day or next week start
 	d.setDate(d.getDate() + daysToAdd);
 	d.setHours(0, 0, 0, 0);
 	return d;
@@ -191,7 +307,7 @@ export function calculateOfficeDaysInWeek(
 	const weekDates = getFullWeekDates(weekStart);
 	const holidaySet = new Set(holidayDates.map((d) => d.getTime()));
 	const holidayCount = weekDates
-		.filter((d) => isWeekday(d))
+		.filter((d) => isWorkDay(d, policy.workDays))
 		.filter((d) => holidaySet.has(d.getTime())).length;
 
 	const effectiveWeekdays = policy.totalWeekdaysPerWeek - holidayCount;
@@ -211,12 +327,12 @@ export function calculateWeekCompliance(
 	const weekDates = getFullWeekDates(weekStart);
 	const holidaySet = new Set(holidayDates.map((d) => d.getTime()));
 	const holidayCount = weekDates
-		.filter((d) => isWeekday(d))
+		.filter((d) => isWorkDay(d, policy.workDays))
 		.filter((d) => holidaySet.has(d.getTime())).length;
 
 	const totalDays = policy.totalWeekdaysPerWeek - holidayCount;
 	const officeDays = totalDays - wfhDays;
-	const isCompliant = officeDays >= policy.minOfficeDaysPerWeek;
+	const isCompliant = officeDays >= getWeeklyRequirement({ totalDays }, policy);
 	const oofDays = wfhDays + holidayCount;
 
 	const status = isCompliant ? "compliant" : "violation";
@@ -276,7 +392,7 @@ export function validateTopKWeeks(
 		totalWeekdays > 0 ? (totalOfficeDays / totalWeekdays) * 100 : 100;
 	const averageOfficePercentage =
 		policy.roundPercentage !== false
-			? roundToNearest20Percent(rawPercentage)
+			? roundToWholeDays(rawPercentage, policy)
 			: rawPercentage;
 	const requiredAverage = policy.minOfficeDaysPerWeek;
 	const requiredPercentage =
@@ -353,16 +469,21 @@ export interface SingleWindowEvaluation {
 /**
  * Evaluate a single window of weeks using the best-K selection algorithm.
  * Sorts weeks by office days (descending), picks top K, and checks if
- * the average meets the minimum requirement.
+ * the average meets the minimum requirement. With pro-ration, weeks are
+ * ranked by office days above their own requirement instead, and the top K
+ * must together reach the sum of their requirements.
  */
 export function evaluateSingleWindow(
 	windowWeeks: WeekCompliance[],
 	policy: RTOPolicyConfig,
 ): SingleWindowEvaluation {
+	const score = (week: WeekCompliance) =>
+		policy.prorate
+			? week.officeDays - getWeeklyRequirement(week, policy)
+			: week.officeDays;
 	const sorted = [...windowWeeks].sort(
 		(a, b) =>
-			b.officeDays - a.officeDays ||
-			b.weekStart.getTime() - a.weekStart.getTime(),
+			score(b) - score(a) || b.weekStart.getTime() - a.weekStart.getTime(),
 	);
 	// For partial windows (< W weeks), evaluate all available weeks
 	const evalCount = Math.min(policy.topWeeksToCheck, sorted.length);
@@ -377,17 +498,24 @@ export function evaluateSingleWindow(
 	const rawPercentage = totalDays > 0 ? (totalOfficeDays / totalDays) * 100 : 0;
 	const averageOfficePercentage =
 		policy.roundPercentage !== false
-			? roundToNearest20Percent(rawPercentage)
+			? roundToWholeDays(rawPercentage, policy)
 			: rawPercentage;
 
 	// Primary check: when rounding is enabled, use the rounded percentage for
 	// consistency with display. This handles edge cases like 55% raw rounding
 	// to 60% — the window should pass when rounded >= threshold.
 	// Without rounding, use raw days for accuracy (handles holiday weeks correctly).
+	// Pro-rated requirements are already whole days, so compare days directly.
 	const requiredAveragePercentage = policy.thresholdPercentage * 100;
-	const isValid = policy.roundPercentage
-		? averageOfficePercentage >= requiredAveragePercentage
-		: averageOfficeDays >= policy.minOfficeDaysPerWeek;
+	const totalRequiredDays = bestWeeks.reduce(
+		(sum, week) => sum + getWeeklyRequirement(week, policy),
+		0,
+	);
+	const isValid = policy.prorate
+		? totalOfficeDays >= totalRequiredDays
+		: policy.roundPercentage
+			? averageOfficePercentage >= requiredAveragePercentage
+			: averageOfficeDays >= policy.minOfficeDaysPerWeek;
 
 	return { isValid, averageOfficeDays, averageOfficePercentage, bestWeeks };
 }
@@ -0,0 +1,142 @@
+/**
+ * WFH Planner
+ *
+ * Turns the real calendar and a planning target into concrete dates to mark
+ * as "oof". Unlike combination-solver, which lists abstract distributions,
+ * this works on the actual marks, holidays and policy: each candidate date
+ * is tried in turn and kept only if every window containing its week still
+ * passes.
+ *
+ * Candidates are spread round-robin across weeks (one day per week per pass)
+ * so the plan reads like a schedule rather than a block of leave. Greedy, so
+ * not guaranteed optimal for overlapping windows, but it never proposes a
+ * date that breaks a window.
+ *
+ * @module wfh-planner
+ */
+
+import type { ComplianceRequest } from "../compliance-request";
+import { formatDate, parseLocalDate } from "../date-helpers";
+import { windowsCoveringWeeksValid } from "./all-windows";
+import { IncrementalWindowEvaluator } from "./incremental-evaluation";
+import { getStartOfWeek, isWorkDay } from "./rto-core";
+
+export interface PlannerTarget {
+	/** Weeks to plan, counted from the planning start date */
+	horizonWeeks: number;
+	/** Only suggest these working days (getDay index, 1 = Mon); empty means any */
+	weekdays: number[];
+	/** YYYY-MM-DD dates never to suggest */
+	keepFree: string[];
+	/** Stop after this many suggestions; omit to add as many as fit */
+	maxDays?: number;
+}
+
+export interface WfhPlan {
+	/** Dates to mark as "oof", in calendar order */
+	dates: string[];
+	/** Number of free weekdays the planner tried */
+	candidateCount: number;
+}
+
+export const DEFAULT_PLANNER_TARGET: PlannerTarget = {
+	horizonWeeks: 12,
+	weekdays: [],
+	keepFree: [],
+};
+
+/**
+ * Free working days in the horizon, ordered round-robin by week:
+ * the first free day of every week, then the second, and so on.
+ */
+function listCandidates(
+	request: ComplianceRequest,
+	target: PlannerTarget,
+	from: Date,
+): string[] {
+	const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+	const end = new Date(start);
+	end.setDate(end.getDate() + target.horizonWeeks * 7);
+
+	const holidays = new Set(request.holidays.map((d) => d.toDateString()));
+	const keepFree = new Set(target.keepFree);
+	const weekdays = new Set(target.weekdays);
+	const anchorDays = new Set(request.settings.anchorDays);
+
+	const byWeek = new Map<number, string[]>();
+	for (
+		const date = new Date(start);
+		date < end && date <= request.range.endDate;
+		date.setDate(date.getDate() + 1)
+	) {
+		const key = formatDate(date);
+		if (
+			date < request.range.startDate ||
+			!isWorkDay(date, request.settings.workDays) ||
+			key in request.marks ||
+			holidays.has(date.toDateString()) ||
+			keepFree.has(key) ||
+			// WFH on an anchor day fails the week outright
+			anchorDays.has(date.getDay()) ||
+			(weekdays.size > 0 && !weekdays.has(date.getDay()))
+		) {
+			continue;
+		}
+		const week = getStartOfWeek(date, request.settings.weekStartsOn).getTime();
+		const days = byWeek.get(week) ?? [];
+		days.push(key);
+		byWeek.set(week, days);
+	}
+
+	const weeks = [...byWeek.values()];
+	const total = weeks.reduce((sum, days) => sum + days.length, 0);
+	const ordered: string[] = [];
+	for (let pass = 0; ordered.length < total; pass++) {
+		for (const days of weeks) {
+			const day = days[pass];
+			if (day) ordered.push(day);
+		}
+	}
+	return ordered;
+}
+
+/**
+ * Propose WFH dates that keep every window valid.
+ *
+ * A candidate is kept only if all windows containing its week pass with it
+ * marked; windows already failing block their weeks entirely. Weeks before
+ * the startingWeek cutoff belong to no window and so never block.
+ *
+ * @param request - Current marks, holidays, settings and range
+ * @param target - Horizon, allowed weekdays, dates to keep free and cap
+ * @param from - First day to plan (defaults to today)
+ * @returns Suggested dates in calendar order
+ */
+export function planWfhDays(
+	request: ComplianceRequest,
+	target: PlannerTarget,
+	from: Date = new Date(),
+): WfhPlan {
+	const candidates = listCandidates(request, target, from);
+	const evaluator = new IncrementalWindowEvaluator();
+	let marks = request.marks;
+	const accepted: string[] = [];
+
+	for (const date of candidates) {
+		if (target.maxDays !== undefined && accepted.length >= target.maxDays) {
+			break;
+		}
+		const trial = { ...marks, [date]: "oof" };
+		const { summaries } = evaluator.evaluate({ ...request, marks: trial });
+		const week = getStartOfWeek(
+			parseLocalDate(date),
+			request.settings.weekStartsOn,
+		).getTime();
+		if (windowsCoveringWeeksValid(summaries, new Set([week]))) {
+			marks = trial;
+			accepted.push(date);
+		}
+	}
+
+	return { dates: accepted.sort(), candidateCount: candidates.length };
+}
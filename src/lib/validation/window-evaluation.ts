@@ -9,45 +9,16 @@
  */
 
 import type { CalendarInstance } from "../../../packages/datepainter/src/types";
-import type { WeekInfo } from "../../types/index";
-import {
-	convertWeeksToCompliance,
-	readCalendarData,
-} from "../calendar-data-reader";
-import type { AppSettings } from "../settings-constants";
+import { readCalendarData } from "../calendar-data-reader";
 import { settingsStore } from "../stores/settingsStore";
-import { evaluateAllWindows, type WindowSummary } from "./all-windows";
-import { DEFAULT_RTO_POLICY, type RTOPolicyConfig } from "./rto-core";
+import { evaluateWeeks, type WindowEvaluationResult } from "./evaluate-weeks";
 
-export interface WindowEvaluationResult {
-	/** All sliding window summaries */
-	summaries: WindowSummary[];
-	/** The RTOPolicyConfig used for evaluation */
-	policy: RTOPolicyConfig;
-	/** Unfiltered weeks from calendar (before startingWeek filter) */
-	allWeeks: WeekInfo[];
-	/** Weeks after startingWeek filter applied */
-	filteredWeeks: WeekInfo[];
-}
-
-/**
- * Build an RTOPolicyConfig from explicit settings.
- *
- * Pure function: same input always produces the same output.
- * Replaces the old readSettings-based buildPolicyFromSettings().
- */
-export function buildPolicyFromSettings(
-	settings: AppSettings,
-): RTOPolicyConfig {
-	return {
-		...DEFAULT_RTO_POLICY,
-		minOfficeDaysPerWeek: settings.minOfficeDays,
-		rollingPeriodWeeks: settings.rollingWindowWeeks,
-		topWeeksToCheck: settings.bestWeeksCount,
-		roundPercentage: settings.roundPercentage,
-		weekendBonus: settings.weekendBonus,
-	};
-}
+// Re-export the pure half for existing importers
+export {
+	buildPolicyFromSettings,
+	evaluateWeeks,
+	type WindowEvaluationResult,
+} from "./evaluate-weeks";
 
 /**
  * Compute all window summaries from a calendar instance.
@@ -63,22 +34,5 @@ export async function computeWindowEvaluation(
 	calendarManager: CalendarInstance,
 ): Promise<WindowEvaluationResult> {
 	const calendarData = await readCalendarData(calendarManager);
-	const settings = settingsStore.get();
-
-	const allWeeks = calendarData.weeks;
-	let filteredWeeks = allWeeks;
-
-	if (settings.startingWeek) {
-		const startDate = new Date(`${settings.startingWeek}T00:00:00`);
-		const startIdx = allWeeks.findIndex((w) => w.weekStart >= startDate);
-		if (startIdx > 0) {
-			filteredWeeks = allWeeks.slice(startIdx);
-		}
-	}
-
-	const policy = buildPolicyFromSettings(settings);
-	const weeksForValidation = convertWeeksToCompliance(filteredWeeks);
-	const summaries = evaluateAllWindows(weeksForValidation, policy);
-
-	return { summaries, policy, allWeeks, filteredWeeks };
+	return evaluateWeeks(calendarData.weeks, settingsStore.get());
 }
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { GET } from "../rto-calculator-data-v2.json";
+
+describe("JSON Schema endpoint (v2)", () => {
+	it("returns a Response with schema+json content type", async () => {
+		const response = GET();
+		expect(response.headers.get("Content-Type")).toBe(
+			"application/schema+json",
+		);
+	});
+
+	it("requires version 2 and the custom state list", async () => {
+		const schema = JSON.parse(await GET().text());
+		expect(schema.properties.version.const).toBe(2);
+		expect(schema.required).toContain("customStates");
+		expect(schema.required).toContain("categories");
+	});
+
+	it("describes custom states and allows their categories", async () => {
+		const schema = JSON.parse(await GET().text());
+		const state = schema.properties.customStates.items;
+		expect(state.properties.effect.enum).toEqual(["office", "wfh", "excluded"]);
+		expect(state.properties.key.pattern).toBeDefined();
+		expect(schema.properties.categories.properties).toHaveProperty("oof");
+		expect(schema.properties.categories.additionalProperties).toHaveProperty(
+			"properties.dates",
+		);
+	});
+});
@@ -1,8 +1,8 @@
 import { toJSONSchema } from "zod";
-import { exportDataSchema } from "../../lib/io/schema";
+import { exportDataSchemaV1 } from "../../lib/io/schema";
 
 export function GET() {
-	const jsonSchema = toJSONSchema(exportDataSchema);
+	const jsonSchema = toJSONSchema(exportDataSchemaV1);
 	return new Response(JSON.stringify(jsonSchema, null, 2), {
 		headers: { "Content-Type": "application/schema+json" },
 	});
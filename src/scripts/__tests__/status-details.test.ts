@@ -18,6 +18,7 @@ import {
 // ─── Test Fixtures ───────────────────────────────────────────────────────
 
 const MOCK_POLICY: RTOPolicyConfig = {
+	kind: "best-k",
 	minOfficeDaysPerWeek: 3,
 	totalWeekdaysPerWeek: 5,
 	thresholdPercentage: 60,
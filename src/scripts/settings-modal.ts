@@ -10,9 +10,28 @@
  */
 
 import { isAutoComplianceReady } from "../lib/auto-compliance";
-import { getDateRange } from "../lib/dateUtils";
+import { parseLocalDate } from "../lib/date-helpers";
+import {
+	type CalendarHorizon,
+	DEFAULT_CALENDAR_HORIZON,
+	formatDateISO,
+	getDateRange,
+	WEEK_START_DAYS,
+	type WeekStartDay,
+} from "../lib/dateUtils";
 import { DEFAULTS } from "../lib/settings-constants";
+import {
+	clearProfiles,
+	MARKS_KEY,
+	onProfileChange,
+	profileStore,
+} from "../lib/stores/profileStore";
 import { settingsStore } from "../lib/stores/settingsStore";
+import {
+	isPolicyKind,
+	isProrationRounding,
+	isQuotaPeriod,
+} from "../lib/validation/policy-engine";
 import { getStartOfWeek } from "../lib/validation/rto-core";
 import { announceToScreenReader } from "../utils/accessibility";
 import { logger } from "../utils/logger";
@@ -58,9 +77,24 @@ class SettingsModal {
 	private sickPenalizeToggle: HTMLButtonElement | null = null;
 	private holidayPenalizeToggle: HTMLButtonElement | null = null;
 	private weekendBonusToggle: HTMLButtonElement | null = null;
+	private prorateToggle: HTMLButtonElement | null = null;
+	private prorationRoundingSelect: HTMLSelectElement | null = null;
+	private trackAttendanceToggle: HTMLButtonElement | null = null;
+	private policyKindSelect: HTMLSelectElement | null = null;
+	private quotaPeriodSelect: HTMLSelectElement | null = null;
+	private officeDaysPerPeriodInput: HTMLInputElement | null = null;
+	private fiscalYearStartSelect: HTMLSelectElement | null = null;
+	private weeklyFloorInput: HTMLInputElement | null = null;
 	private rollingWindowInput: HTMLInputElement | null = null;
 	private bestWeeksInput: HTMLInputElement | null = null;
 	private startingWeekSelect: HTMLSelectElement | null = null;
+	private horizonSelect: HTMLSelectElement | null = null;
+	private horizonWeeksBackInput: HTMLInputElement | null = null;
+	private horizonWeeksForwardInput: HTMLInputElement | null = null;
+	private horizonStartInput: HTMLInputElement | null = null;
+	private horizonEndInput: HTMLInputElement | null = null;
+	private weekStartSelect: HTMLSelectElement | null = null;
+	private workDaysSelector: HTMLElement | null = null;
 	private roundPercentageToggle: HTMLButtonElement | null = null;
 	private clearDataButton: HTMLButtonElement | null = null;
 	private colorSchemeSelect: HTMLSelectElement | null = null;
@@ -71,6 +105,14 @@ class SettingsModal {
 		this.bindElements();
 		this.initializeEventListeners();
 		this.loadSettingsFromLocalStorage();
+
+		// The form mirrors the active profile; refill it when another is switched in
+		let activeId = profileStore.get().activeId;
+		onProfileChange((registry) => {
+			if (registry.activeId === activeId) return;
+			activeId = registry.activeId;
+			this.loadSettingsFromLocalStorage();
+		});
 	}
 
 	public initialize(): void {
@@ -115,6 +157,30 @@ class SettingsModal {
 		this.weekendBonusToggle = document.getElementById(
 			"weekend-bonus-toggle",
 		) as HTMLButtonElement | null;
+		this.prorateToggle = document.getElementById(
+			"prorate-toggle",
+		) as HTMLButtonElement | null;
+		this.prorationRoundingSelect = document.getElementById(
+			"proration-rounding-select",
+		) as HTMLSelectElement | null;
+		this.trackAttendanceToggle = document.getElementById(
+			"track-attendance-toggle",
+		) as HTMLButtonElement | null;
+		this.policyKindSelect = document.getElementById(
+			"policy-kind-select",
+		) as HTMLSelectElement | null;
+		this.quotaPeriodSelect = document.getElementById(
+			"quota-period-select",
+		) as HTMLSelectElement | null;
+		this.officeDaysPerPeriodInput = document.getElementById(
+			"office-days-per-period-input",
+		) as HTMLInputElement | null;
+		this.fiscalYearStartSelect = document.getElementById(
+			"fiscal-year-start-select",
+		) as HTMLSelectElement | null;
+		this.weeklyFloorInput = document.getElementById(
+			"weekly-floor-input",
+		) as HTMLInputElement | null;
 		this.rollingWindowInput = document.getElementById(
 			"rolling-window-input",
 		) as HTMLInputElement | null;
@@ -124,6 +190,25 @@ class SettingsModal {
 		this.startingWeekSelect = document.getElementById(
 			"starting-week-select",
 		) as HTMLSelectElement | null;
+		this.horizonSelect = document.getElementById(
+			"calendar-horizon-select",
+		) as HTMLSelectElement | null;
+		this.horizonWeeksBackInput = document.getElementById(
+			"horizon-weeks-back-input",
+		) as HTMLInputElement | null;
+		this.horizonWeeksForwardInput = document.getElementById(
+			"horizon-weeks-forward-input",
+		) as HTMLInputElement | null;
+		this.horizonStartInput = document.getElementById(
+			"horizon-start-input",
+		) as HTMLInputElement | null;
+		this.horizonEndInput = document.getElementById(
+			"horizon-end-input",
+		) as HTMLInputElement | null;
+		this.weekStartSelect = document.getElementById(
+			"week-start-select",
+		) as HTMLSelectElement | null;
+		this.workDaysSelector = document.getElementById("work-days-selector");
 		this.roundPercentageToggle = document.getElementById(
 			"round-percentage-toggle",
 		) as HTMLButtonElement | null;
@@ -188,6 +273,24 @@ class SettingsModal {
 		this.weekendBonusToggle?.addEventListener("click", () =>
 			this.toggleWeekendBonus(),
 		);
+		this.prorateToggle?.addEventListener("click", () => this.toggleProrate());
+		this.prorationRoundingSelect?.addEventListener("change", () =>
+			this.onProrationRoundingChange(),
+		);
+		this.trackAttendanceToggle?.addEventListener("click", () =>
+			this.toggleTrackAttendance(),
+		);
+		this.policyKindSelect?.addEventListener("change", () =>
+			this.onPolicyKindChange(),
+		);
+		for (const control of [
+			this.quotaPeriodSelect,
+			this.officeDaysPerPeriodInput,
+			this.fiscalYearStartSelect,
+			this.weeklyFloorInput,
+		]) {
+			control?.addEventListener("change", () => this.onPeriodQuotaChange());
+		}
 		this.rollingWindowInput?.addEventListener("change", () =>
 			this.onRollingWindowChange(),
 		);
@@ -197,6 +300,23 @@ class SettingsModal {
 		this.startingWeekSelect?.addEventListener("change", () =>
 			this.onStartingWeekChange(),
 		);
+		this.horizonSelect?.addEventListener("change", () =>
+			this.onHorizonChange(),
+		);
+		for (const control of [
+			this.horizonWeeksBackInput,
+			this.horizonWeeksForwardInput,
+			this.horizonStartInput,
+			this.horizonEndInput,
+		]) {
+			control?.addEventListener("change", () => this.onHorizonChange());
+		}
+		this.weekStartSelect?.addEventListener("change", () =>
+			this.onWeekStartChange(),
+		);
+		this.workDaysSelector?.addEventListener("click", (e) =>
+			this.onWorkDayClick(e),
+		);
 		this.roundPercentageToggle?.addEventListener("click", () =>
 			this.toggleRoundPercentage(),
 		);
@@ -236,19 +356,223 @@ class SettingsModal {
 		toggleBooleanSetting(this.weekendBonusToggle, "Weekend bonus");
 	}
 
+	private toggleProrate(): void {
+		toggleBooleanSetting(this.prorateToggle, "Pro-rate short weeks", () => {
+			this.updatePolicyFieldVisibility();
+			this.saveSettingsToLocalStorage();
+		});
+	}
+
+	private onProrationRoundingChange(): void {
+		this.saveSettingsToLocalStorage();
+		logger.debug(
+			`[Settings] Proration rounding changed to: ${this.prorationRoundingSelect?.value}`,
+		);
+	}
+
+	private toggleTrackAttendance(): void {
+		toggleBooleanSetting(this.trackAttendanceToggle, "Track attendance");
+	}
+
 	private toggleRoundPercentage(): void {
 		toggleBooleanSetting(this.roundPercentageToggle, "Round percentage");
 	}
 
 	private onMinOfficeDaysChange(e: Event): void {
 		const value = parseInt((e.target as HTMLInputElement).value, 10);
-		if (value >= 0 && value <= 5) {
+		if (value >= 0 && value <= this.readWorkDays().length) {
 			logger.debug(`[Settings] Min office days changed to: ${value}`);
 			window.validationManager?.updateConfig({ minOfficeDaysPerWeek: value });
 			this.saveSettingsToLocalStorage();
 		}
 	}
 
+	private onPolicyKindChange(): void {
+		this.updatePolicyFieldVisibility();
+		this.saveSettingsToLocalStorage();
+		logger.debug(
+			`[Settings] Policy type changed to: ${this.policyKindSelect?.value}`,
+		);
+	}
+
+	private onPeriodQuotaChange(): void {
+		this.saveSettingsToLocalStorage();
+		logger.debug(
+			`[Settings] Period quota changed to: ${this.officeDaysPerPeriodInput?.value} per ${this.quotaPeriodSelect?.value}`,
+		);
+	}
+
+	/**
+	 * Show the period quota rows only while the period-quota policy is
+	 * selected, and the horizon rows for the selected calendar range. The
+	 * fiscal year start is shared by quarterly quotas and the fiscal-year range.
+	 * The rounding rule only applies while pro-ration is on.
+	 */
+	private updatePolicyFieldVisibility(): void {
+		const isPeriodQuota = this.policyKindSelect?.value === "period-quota";
+		const horizonKind = this.horizonSelect?.value ?? "rolling";
+		const visibility: [string, boolean][] = [
+			[".period-quota-setting", isPeriodQuota],
+			[".proration-setting", readToggleState(this.prorateToggle)],
+			[".fiscal-year-setting", isPeriodQuota || horizonKind === "fiscal-year"],
+			[".horizon-rolling-setting", horizonKind === "rolling"],
+			[".horizon-fiscal-setting", horizonKind === "fiscal-year"],
+			[".horizon-custom-setting", horizonKind === "custom"],
+		];
+		for (const [selector, visible] of visibility) {
+			document.querySelectorAll<HTMLElement>(selector).forEach((row) => {
+				row.hidden = !visible;
+			});
+		}
+	}
+
+	private onHorizonChange(): void {
+		this.updatePolicyFieldVisibility();
+		this.saveSettingsToLocalStorage();
+		// The starting week must fall inside the new range
+		this.populateStartingWeekOptions();
+		logger.debug(
+			`[Settings] Calendar range changed to: ${this.horizonSelect?.value}`,
+		);
+	}
+
+	private readWeekStart(): WeekStartDay {
+		return (
+			WEEK_START_DAYS.find(
+				(day) => String(day) === this.weekStartSelect?.value,
+			) ?? DEFAULTS.weekStartsOn
+		);
+	}
+
+	private onWeekStartChange(): void {
+		const weekStartsOn = this.readWeekStart();
+		const startingWeek = this.startingWeekSelect?.value;
+		this.saveSettingsToLocalStorage();
+		this.populateStartingWeekOptions();
+		// Keep the chosen starting week, moved to the start of its new week
+		if (startingWeek && this.startingWeekSelect) {
+			this.startingWeekSelect.value = formatDateISO(
+				getStartOfWeek(parseLocalDate(startingWeek), weekStartsOn),
+			);
+			this.saveSettingsToLocalStorage();
+		}
+		logger.debug(`[Settings] Week start changed to: ${weekStartsOn}`);
+	}
+
+	/** Read the pressed working day buttons; none pressed keeps the saved days */
+	private readWorkDays(): number[] {
+		if (!this.workDaysSelector) {
+			return settingsStore.get().workDays;
+		}
+		const workDays = Array.from(
+			this.workDaysSelector.querySelectorAll<HTMLElement>(
+				'.work-day-btn[aria-pressed="true"]',
+			),
+			(btn) => Number(btn.dataset.day),
+		);
+		return workDays.length > 0 ? workDays : settingsStore.get().workDays;
+	}
+
+	/** Press the buttons for the given days and cap the weekly minimum at their count */
+	private setWorkDayFields(workDays: number[]): void {
+		this.workDaysSelector
+			?.querySelectorAll<HTMLElement>(".work-day-btn")
+			.forEach((btn) => {
+				const isWorkDay = workDays.includes(Number(btn.dataset.day));
+				btn.setAttribute("aria-pressed", String(isWorkDay));
+			});
+		if (this.minOfficeDaysInput) {
+			this.minOfficeDaysInput.max = String(workDays.length);
+			if (parseInt(this.minOfficeDaysInput.value, 10) > workDays.length) {
+				this.minOfficeDaysInput.value = String(workDays.length);
+			}
+		}
+	}
+
+	private onWorkDayClick(e: Event): void {
+		const target = e.target as HTMLElement;
+		if (!target.classList.contains("work-day-btn")) {
+			return;
+		}
+
+		const day = Number(target.dataset.day);
+		const current = this.readWorkDays();
+		if (current.length === 1 && current[0] === day) {
+			announceToScreenReader("At least one working day is required");
+			return;
+		}
+		const workDays = current.includes(day)
+			? current.filter((d) => d !== day)
+			: [...current, day].sort((a, b) => a - b);
+		this.setWorkDayFields(workDays);
+		this.saveSettingsToLocalStorage();
+		logger.debug(`[Settings] Working days changed to: ${workDays.join(",")}`);
+	}
+
+	/** Read the calendar horizon from the form; incomplete custom dates keep the saved one */
+	private readCalendarHorizon(): CalendarHorizon {
+		const saved = settingsStore.get().calendarHorizon;
+		switch (this.horizonSelect?.value) {
+			case "fiscal-year":
+				return { kind: "fiscal-year" };
+			case "custom": {
+				const start = this.horizonStartInput?.value ?? "";
+				const end = this.horizonEndInput?.value ?? "";
+				if (start && end) {
+					return { kind: "custom", start, end };
+				}
+				return saved.kind === "custom" ? saved : DEFAULT_CALENDAR_HORIZON;
+			}
+			case "rolling":
+				return {
+					kind: "rolling",
+					weeksBack: this.readNumberInput(
+						this.horizonWeeksBackInput,
+						DEFAULT_CALENDAR_HORIZON.weeksBack,
+					),
+					weeksForward: Math.max(
+						1,
+						this.readNumberInput(
+							this.horizonWeeksForwardInput,
+							DEFAULT_CALENDAR_HORIZON.weeksForward,
+						),
+					),
+				};
+			default:
+				return saved;
+		}
+	}
+
+	/** Fill the calendar range controls from a horizon */
+	private setCalendarHorizonFields(horizon: CalendarHorizon): void {
+		if (this.horizonSelect) {
+			this.horizonSelect.value = horizon.kind;
+		}
+		const rolling =
+			horizon.kind === "rolling" ? horizon : DEFAULT_CALENDAR_HORIZON;
+		if (this.horizonWeeksBackInput) {
+			this.horizonWeeksBackInput.value = rolling.weeksBack.toString();
+		}
+		if (this.horizonWeeksForwardInput) {
+			this.horizonWeeksForwardInput.value = rolling.weeksForward.toString();
+		}
+		if (this.horizonStartInput) {
+			this.horizonStartInput.value =
+				horizon.kind === "custom" ? horizon.start : "";
+		}
+		if (this.horizonEndInput) {
+			this.horizonEndInput.value = horizon.kind === "custom" ? horizon.end : "";
+		}
+	}
+
+	private readNumberInput(
+		input: HTMLInputElement | HTMLSelectElement | null,
+		fallback: number,
+	): number {
+		const value = input ? parseInt(input.value, 10) : Number.NaN;
+		return Number.isNaN(value) || value < 0 ? fallback : value;
+	}
+
 	private onRollingWindowChange(): void {
 		if (!this.rollingWindowInput) {
 			return;
@@ -305,7 +629,7 @@ class SettingsModal {
 		this.startingWeekSelect.innerHTML =
 			'<option value="">Default (earliest)</option>';
 
-		const range = getDateRange();
+		const range = getDateRange(settingsStore.get());
 		const months = [
 			"Jan",
 			"Feb",
@@ -321,7 +645,10 @@ class SettingsModal {
 			"Dec",
 		];
 
-		let weekStart = getStartOfWeek(range.startDate);
+		let weekStart = getStartOfWeek(
+			range.startDate,
+			settingsStore.get().weekStartsOn,
+		);
 		if (weekStart < range.startDate) {
 			weekStart = new Date(weekStart);
 			weekStart.setDate(weekStart.getDate() + 7);
@@ -424,8 +751,36 @@ class SettingsModal {
 		setToggleState(this.sickPenalizeToggle, true);
 		setToggleState(this.holidayPenalizeToggle, true);
 		setToggleState(this.weekendBonusToggle, DEFAULTS.weekendBonus);
+		setToggleState(this.prorateToggle, DEFAULTS.prorateRequirement);
+		if (this.prorationRoundingSelect) {
+			this.prorationRoundingSelect.value = DEFAULTS.prorationRounding;
+		}
+		setToggleState(this.trackAttendanceToggle, DEFAULTS.trackAttendance);
 		setToggleState(this.roundPercentageToggle, true);
 
+		if (this.policyKindSelect) {
+			this.policyKindSelect.value = DEFAULTS.policyKind;
+		}
+		if (this.quotaPeriodSelect) {
+			this.quotaPeriodSelect.value = DEFAULTS.quotaPeriod;
+		}
+		if (this.officeDaysPerPeriodInput) {
+			this.officeDaysPerPeriodInput.value =
+				DEFAULTS.officeDaysPerPeriod.toString();
+		}
+		if (this.fiscalYearStartSelect) {
+			this.fiscalYearStartSelect.value =
+				DEFAULTS.fiscalYearStartMonth.toString();
+		}
+		if (this.weeklyFloorInput) {
+			this.weeklyFloorInput.value = DEFAULTS.weeklyFloorDays.toString();
+		}
+		this.setCalendarHorizonFields(DEFAULTS.calendarHorizon);
+		if (this.weekStartSelect) {
+			this.weekStartSelect.value = DEFAULTS.weekStartsOn.toString();
+		}
+		this.setWorkDayFields(DEFAULTS.workDays);
+		this.updatePolicyFieldVisibility();
 		if (this.rollingWindowInput) {
 			this.rollingWindowInput.value = DEFAULTS.rollingWindowWeeks.toString();
 		}
@@ -450,7 +805,8 @@ class SettingsModal {
 			return;
 		}
 		clearAllData();
-		localStorage.removeItem("datepainter:selectedDates");
+		clearProfiles();
+		localStorage.removeItem(MARKS_KEY);
 		settingsStore.set({ ...DEFAULTS });
 		window.location.reload();
 	}
@@ -470,7 +826,8 @@ class SettingsModal {
 		const minOfficeDays = this.minOfficeDaysInput
 			? parseInt(this.minOfficeDaysInput.value, 10)
 			: 3;
-		const officeDays = 5 - this.selectedPattern.length;
+		const { workDays } = settingsStore.get();
+		const officeDays = workDays.length - this.selectedPattern.length;
 
 		if (officeDays < minOfficeDays) {
 			alert(
@@ -495,9 +852,10 @@ class SettingsModal {
 				const day = parseInt(cellElement.dataset.day || "0", 10);
 				const date = new Date(year, month, day);
 				const dayIndex = date.getDay();
-				const isWeekday = dayIndex >= 1 && dayIndex <= 5;
-
-				if (isWeekday && this.selectedPattern.includes(dayIndex)) {
+				if (
+					workDays.includes(dayIndex) &&
+					this.selectedPattern.includes(dayIndex)
+				) {
 					cellElement.dataset.selected = "true";
 					cellElement.dataset.selectionType = "out-of-office";
 					cellElement.classList.add("selected", "out-of-office");
@@ -540,7 +898,8 @@ class SettingsModal {
 			return;
 		}
 
-		const officeDays = 5 - this.selectedPattern.length;
+		const officeDays =
+			settingsStore.get().workDays.length - this.selectedPattern.length;
 		const minOfficeDays = this.minOfficeDaysInput
 			? parseInt(this.minOfficeDaysInput.value, 10)
 			: 3;
@@ -570,6 +929,8 @@ class SettingsModal {
 			this.minOfficeDaysInput.value = config.minOfficeDaysPerWeek.toString();
 		}
 
+		this.setWorkDayFields(settingsStore.get().workDays);
+
 		// Sync color scheme dropdown
 		syncColorSchemeSelect(this.colorSchemeSelect);
 
@@ -578,10 +939,31 @@ class SettingsModal {
 	}
 
 	private saveSettingsToLocalStorage(): void {
+		const policyKind = this.policyKindSelect?.value;
+		const quotaPeriod = this.quotaPeriodSelect?.value;
+		const prorationRounding = this.prorationRoundingSelect?.value;
+		const countryCode = this.countrySelect?.value ?? null;
+		const savedHolidays = settingsStore.get().holidays;
 		settingsStore.set({
 			...settingsStore.get(),
 			debug: readToggleState(this.debugToggle),
 			saveData: readToggleState(this.saveDataToggle),
+			policyKind: isPolicyKind(policyKind) ? policyKind : DEFAULTS.policyKind,
+			quotaPeriod: isQuotaPeriod(quotaPeriod)
+				? quotaPeriod
+				: DEFAULTS.quotaPeriod,
+			officeDaysPerPeriod: this.readNumberInput(
+				this.officeDaysPerPeriodInput,
+				DEFAULTS.officeDaysPerPeriod,
+			),
+			fiscalYearStartMonth: this.readNumberInput(
+				this.fiscalYearStartSelect,
+				DEFAULTS.fiscalYearStartMonth,
+			),
+			weeklyFloorDays: this.readNumberInput(
+				this.weeklyFloorInput,
+				DEFAULTS.weeklyFloorDays,
+			),
 			minOfficeDays: this.minOfficeDaysInput
 				? parseInt(this.minOfficeDaysInput.value, 10)
 				: DEFAULTS.minOfficeDays,
@@ -592,11 +974,27 @@ class SettingsModal {
 				? parseInt(this.bestWeeksInput.value, 10)
 				: DEFAULTS.bestWeeksCount,
 			startingWeek: this.startingWeekSelect?.value || null,
+			calendarHorizon: this.readCalendarHorizon(),
+			weekStartsOn: this.readWeekStart(),
+			workDays: this.readWorkDays(),
 			defaultPattern:
 				this.selectedPattern.length > 0 ? [...this.selectedPattern] : null,
 			holidays: {
-				countryCode: this.countrySelect?.value ?? null,
+				countryCode,
 				holidaysAsOOF: readToggleState(this.holidayOofToggle),
+				// Company and region belong to the country; a new country starts unfiltered
+				companyName:
+					countryCode === savedHolidays.countryCode
+						? (savedHolidays.companyName ?? null)
+						: null,
+				subdivisionCode:
+					countryCode === savedHolidays.countryCode
+						? (savedHolidays.subdivisionCode ?? null)
+						: null,
+				// Not edited here; keep imported and user-defined data across saves
+				customCalendar: savedHolidays.customCalendar ?? null,
+				customCompany: savedHolidays.customCompany ?? null,
+				additionalCountries: savedHolidays.additionalCountries ?? [],
 			},
 			sickDaysPenalize: !readToggleState(this.sickPenalizeToggle)
 				? true
@@ -604,7 +1002,12 @@ class SettingsModal {
 			holidayPenalize: !readToggleState(this.holidayPenalizeToggle)
 				? true
 				: readToggleState(this.holidayPenalizeToggle),
+			prorateRequirement: readToggleState(this.prorateToggle),
+			prorationRounding: isProrationRounding(prorationRounding)
+				? prorationRounding
+				: DEFAULTS.prorationRounding,
 			weekendBonus: readToggleState(this.weekendBonusToggle),
+			trackAttendance: readToggleState(this.trackAttendanceToggle),
 			roundPercentage: !readToggleState(this.roundPercentageToggle)
 				? true
 				: readToggleState(this.roundPercentageToggle),
@@ -638,6 +1041,40 @@ class SettingsModal {
 				});
 			}
 
+			if (this.policyKindSelect) {
+				this.policyKindSelect.value = settings.policyKind;
+			}
+
+			if (this.quotaPeriodSelect) {
+				this.quotaPeriodSelect.value = settings.quotaPeriod;
+			}
+
+			if (this.officeDaysPerPeriodInput) {
+				this.officeDaysPerPeriodInput.value =
+					settings.officeDaysPerPeriod.toString();
+			}
+
+			if (this.fiscalYearStartSelect) {
+				this.fiscalYearStartSelect.value =
+					settings.fiscalYearStartMonth.toString();
+			}
+
+			if (this.weeklyFloorInput) {
+				this.weeklyFloorInput.value = settings.weeklyFloorDays.toString();
+			}
+			this.setCalendarHorizonFields(settings.calendarHorizon);
+			if (this.weekStartSelect) {
+				this.weekStartSelect.value = settings.weekStartsOn.toString();
+			}
+			this.setWorkDayFields(settings.workDays);
+			if (this.prorateToggle) {
+				setToggleState(this.prorateToggle, settings.prorateRequirement);
+			}
+			if (this.prorationRoundingSelect) {
+				this.prorationRoundingSelect.value = settings.prorationRounding;
+			}
+			this.updatePolicyFieldVisibility();
+
 			if (this.rollingWindowInput) {
 				this.rollingWindowInput.value = settings.rollingWindowWeeks.toString();
 			}
@@ -680,6 +1117,10 @@ class SettingsModal {
 				setToggleState(this.weekendBonusToggle, settings.weekendBonus);
 			}
 
+			if (this.trackAttendanceToggle) {
+				setToggleState(this.trackAttendanceToggle, settings.trackAttendance);
+			}
+
 			if (this.roundPercentageToggle) {
 				setToggleState(
 					this.roundPercentageToggle,
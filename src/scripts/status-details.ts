@@ -91,6 +91,19 @@ function renderStatsInto(
 		)}`;
 	}
 
+	// Recorded vs planned split, only when tracking attendance
+	const elAttendance = root.querySelector<HTMLElement>(
+		"#stat-current-week-attendance",
+	);
+	if (elAttendance) {
+		const { attendedDays, plannedDays } = data.currentWeek;
+		elAttendance.hidden = attendedDays === undefined;
+		elAttendance.textContent =
+			attendedDays === undefined
+				? ""
+				: `${attendedDays} recorded so far, ${plannedDays ?? 0} planned`;
+	}
+
 	// Update setting indicators from compliance data to stay in sync with policy
 	const elMinDays = root.querySelector(
 		'.setting-value[data-setting-key="minOfficeDaysPerWeek"]',
@@ -109,6 +109,20 @@ export interface HolidayQueryResult {
 	dateRange?: DateRange;
 }
 
+/**
+ * A run of consecutive days off formed by weekends and public holidays
+ */
+export interface LongWeekend {
+	/** First day off */
+	startDate: Date;
+	/** Last day off */
+	endDate: Date;
+	/** Number of days in the run, bridge days included */
+	dayCount: number;
+	/** Working days that must be taken off to join the run together */
+	bridgeDays: Date[];
+}
+
 /**
  * Data source status information
  */
@@ -123,6 +137,11 @@ export interface DataSourceStatus {
 	responseTime: number;
 	/** Error message if the data source is unavailable */
 	error?: string;
+	/**
+	 * Name of the source answering instead, when this one is unreachable.
+	 * `isAvailable` then describes the fallback and `error` the reason.
+	 */
+	fallback?: string;
 }
 
 /**
@@ -215,6 +234,15 @@ export interface HolidayDataSource {
 	 */
 	queryHolidays(options: HolidayQueryOptions): Promise<HolidayQueryResult>;
 
+	/**
+	 * Get long weekends (holidays joined to weekends) for a year and country.
+	 * Optional: only sources with a long-weekend feed implement it.
+	 * @param year - The year to get long weekends for
+	 * @param countryCode - ISO 3166-1 alpha-2 country code
+	 * @returns Promise that resolves to an array of long weekends
+	 */
+	getLongWeekends?(year: number, countryCode: string): Promise<LongWeekend[]>;
+
 	/**
 	 * Clear the holiday cache
 	 */
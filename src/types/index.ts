@@ -74,7 +74,8 @@ export type WeekStatus =
 	| "invalid"
 	| "pending"
 	| "excluded"
-	| "ignored";
+	| "ignored"
+	| "anchor-missed";
 
 /**
  * Represents a week's compliance data
@@ -95,9 +96,16 @@ export interface WeekInfo {
 	weekStart: Date;
 	weekNumber: number;
 	days: DayInfo[];
+	/** WFH days; each half-day mark adds 0.5 */
 	oofCount: number;
 	holidayCount: number;
 	sickCount: number;
+	/** Past weekdays with no recorded attendance; 0 unless tracking attendance */
+	absentCount: number;
+	/** Office days recorded before the attendance cutoff; 0 unless tracking attendance */
+	attendedDays: number;
+	/** WFH marks or absences on one of the policy's required anchor weekdays */
+	anchorMissCount: number;
 	officeDays: number;
 	totalDays: number;
 	oofDays: number;
@@ -124,6 +124,9 @@ export function createMockWeekInfo(
 		oofCount,
 		holidayCount,
 		sickCount,
+		absentCount: 0,
+		attendedDays: 0,
+		anchorMissCount: 0,
 		officeDays,
 		totalDays,
 		oofDays: oofCount,
@@ -1,7 +1,8 @@
 /**
  * Rounding Behavior Tests
  *
- * Tests for: roundToNearest20Percent and validateTopKWeeks rounding integration.
+ * Tests for: roundToNearest20Percent, roundToWholeDays and validateTopKWeeks
+ * rounding integration.
  */
 
 import { describe, expect, it, test } from "vitest";
@@ -11,6 +12,7 @@ import {
 	DEFAULT_RTO_POLICY,
 	type RTOPolicyConfig,
 	roundToNearest20Percent,
+	roundToWholeDays,
 	validateTopKWeeks,
 } from "../../../../lib/validation/rto-core";
 
@@ -32,6 +34,25 @@ describe("roundToNearest20Percent", () => {
 	});
 });
 
+describe("roundToWholeDays", () => {
+	test.each([
+		[5, 57.5, 60],
+		[4, 62.5, 75],
+		[4, 60, 50],
+		[3, 60, 200 / 3],
+	])("rounds to whole days of a %i-day week: %s to %s", (days, input, expected) => {
+		expect(roundToWholeDays(input, { totalWeekdaysPerWeek: days })).toBeCloseTo(
+			expected,
+		);
+	});
+
+	it("reaches the threshold for the same number of days", () => {
+		// 5 of 6 days must not fall short of 5/6 by a rounding error
+		const policy = { totalWeekdaysPerWeek: 6 };
+		expect(roundToWholeDays(80, policy)).toBeGreaterThanOrEqual((5 / 6) * 100);
+	});
+});
+
 describe("validateTopKWeeks - Rounding Behavior", () => {
 	it("returns rounded percentage when roundPercentage is true", () => {
 		const simpleSelections: DaySelection[] = [
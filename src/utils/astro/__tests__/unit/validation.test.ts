@@ -160,6 +160,7 @@ describe("validateTopKWeeks - Pattern Builders", () => {
 describe("validateTopKWeeks - Custom Policy", () => {
 	it("should use custom policy configuration", () => {
 		const customPolicy: RTOPolicyConfig = {
+			kind: "best-k",
 			minOfficeDaysPerWeek: 4,
 			totalWeekdaysPerWeek: 5,
 			thresholdPercentage: 0.8, // 4/5 = 80%